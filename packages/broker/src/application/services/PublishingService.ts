@@ -34,7 +34,10 @@ export class PublishingService<Data> implements IPublishingService {
     message: Buffer,
     meta: MessageMetadata
   ): Promise<void> {
-    await this.messageStore.write(message, meta);
+    // resolves once the topic durability guarantee is met
+    const id = await this.messageStore.write(message, meta);
+    if (id === undefined)
+      throw new Error(`Failed to persist message ${meta.id}`);
 
     const processingTime = Date.now() - meta.ts;
     this.metrics.recordEnqueue(message.length, processingTime);
@@ -0,0 +1,5 @@
+// ids of the schemas every codec registers up front, same values as the precompiled ones
+export enum BasicSchemaNames {
+  SegmentPointerSchema = "segment_pointer_schema",
+  messageMetadataSchema = "message_metadata_schema",
+}
@@ -0,0 +1,16 @@
+// meta!<id> values are [recordOffset u64][metadata], the log finds the message by its record offset
+export class MetadataEntry {
+  static encode(recordOffset: number, metaBuffer: Buffer) {
+    const header = Buffer.alloc(8);
+    header.writeBigUInt64BE(BigInt(recordOffset), 0);
+    return Buffer.concat([header, metaBuffer]);
+  }
+
+  static recordOffset(entry: Buffer) {
+    return Number(entry.readBigUInt64BE(0));
+  }
+
+  static metadata(entry: Buffer) {
+    return entry.subarray(8);
+  }
+}
@@ -14,4 +14,5 @@ export interface IMessageReader<Data> {
     id: number,
     keys?: K[]
   ): Promise<Pick<MessageMetadata, K> | undefined>;
+  entries(): AsyncGenerator<[Data, MessageMetadata]>;
 }
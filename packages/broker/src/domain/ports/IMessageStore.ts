@@ -1,7 +1,14 @@
+import type { IWalEntry } from "@wal/index";
 import type { MessageMetadata } from "../entities/MessageMetadata";
 
 export interface IMessageStore<Data> {
-  write(message: Buffer, meta: MessageMetadata): Promise<number | undefined>;
+  write(
+    message: Buffer,
+    meta: MessageMetadata,
+    txnId?: number
+  ): Promise<number | undefined>;
+  commit(txnId: number): Promise<void>;
+  abort(txnId: number): Promise<void>;
   read(
     id: number
   ): Promise<
@@ -15,8 +22,15 @@ export interface IMessageStore<Data> {
     id: number,
     keys?: K[]
   ): Promise<Pick<MessageMetadata, K> | undefined>;
+  entries(): AsyncGenerator<[Data, MessageMetadata]>;
+  records(from?: number): AsyncGenerator<IWalEntry>;
+  getWalEndOffset(): Promise<number>;
+  replicate(records: IWalEntry[]): Promise<void>;
   markDeletable(id: number): Promise<void>;
   unmarkDeletable(id: number): Promise<void>;
+  pause(): Promise<void>;
+  resume(): void;
+  snapshot(dirPath: string): Promise<void>;
   close(): Promise<void>;
   getMetrics(): Promise<{
     wal: {
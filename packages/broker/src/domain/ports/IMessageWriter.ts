@@ -1,5 +1,11 @@
 import type { MessageMetadata } from "../entities/MessageMetadata";
 
 export interface IMessageWriter {
-  write(message: Buffer, meta: MessageMetadata): Promise<number | undefined>;
+  write(
+    message: Buffer,
+    meta: MessageMetadata,
+    txnId?: number
+  ): Promise<number | undefined>;
+  commit(txnId: number): Promise<void>;
+  abort(txnId: number): Promise<void>;
 }
@@ -1,3 +1,3 @@
 export interface IWALReplayer {
-  replay(): Promise<void>;
-}
\ No newline at end of file
+  replay(following?: boolean): Promise<void>;
+}
@@ -1,9 +1,14 @@
+import type { IKeyValueStore } from "@pds/index";
+import { BasicSchemaNames } from "@domain/entities/BasicSchemaNames";
+import type { MessageMetadata } from "@domain/entities/MessageMetadata";
+import { MetadataEntry } from "@domain/entities/MetadataEntry";
+import type { ILogCollector } from "@domain/ports/ILogCollector";
 import type { IMessageReader } from "@domain/ports/IMessageReader";
 
 export class MessageReader<Data> implements IMessageReader<Data> {
   constructor(
     private log: IMessageLog,
-    private db: Level<string, Buffer>,
+    private db: IKeyValueStore<Buffer>,
     private codec: ICodec,
     private schemaId?: string,
     private logger?: ILogCollector
@@ -15,15 +20,11 @@ export class MessageReader<Data> implements IMessageReader<Data> {
 
   async readMessage(id: number) {
     try {
-      const pointerBuffer = await this.db.get(`ptr!${id}`);
-      if (!pointerBuffer) return;
+      const entry = await this.db.get(`meta!${id}`);
+      if (!entry) return;
 
-      const pointer = await this.codec.decode<SegmentPointer>(
-        pointerBuffer,
-        BasicSchemaNames.SegmentPointerSchema
-      );
-
-      const messageBuffer = await this.log.read(pointer);
+      const recordOffset = MetadataEntry.recordOffset(entry);
+      const messageBuffer = await this.log.readOffset(recordOffset);
       if (!messageBuffer) return;
 
       return this.codec.decode<Data>(messageBuffer, this.schemaId);
@@ -34,15 +35,35 @@ export class MessageReader<Data> implements IMessageReader<Data> {
 
   async readMetadata(id: number) {
     try {
-      const metaBuffer = await this.db.get(`meta!${id}`);
-      if (metaBuffer) return;
+      const entry = await this.db.get(`meta!${id}`);
+      if (!entry) return;
 
       return this.codec.decode<MessageMetadata>(
-        metaBuffer,
+        MetadataEntry.metadata(entry),
         BasicSchemaNames.messageMetadataSchema
       );
     } catch (error) {
       this.logger?.log("Failed metadata reading", { id, error }, "error");
     }
   }
+
+  // live messages in publish order, the ones marked deletable are skipped
+  async *entries(): AsyncGenerator<[Data, MessageMetadata]> {
+    for await (const value of this.db.values({ prefix: "rec!" })) {
+      const id = value.toString();
+      if (await this.db.get(`del!${id}`)) continue;
+
+      const entry = await this.db.get(`meta!${id}`);
+      if (!entry) continue;
+
+      const message = await this.readMessage(+id);
+      if (message === undefined) continue;
+
+      const meta = await this.codec.decode<MessageMetadata>(
+        MetadataEntry.metadata(entry),
+        BasicSchemaNames.messageMetadataSchema
+      );
+      yield [message, meta];
+    }
+  }
 }
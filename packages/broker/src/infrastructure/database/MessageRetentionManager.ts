@@ -1,23 +1,34 @@
+import type { IKeyValueStore } from "@pds/index";
+import { BasicSchemaNames } from "@domain/entities/BasicSchemaNames";
+import { MetadataEntry } from "@domain/entities/MetadataEntry";
 import type { IMessageRetentionManager } from "@domain/ports/IMessageRetentionManager";
 
 export class MessageRetentionManager implements IMessageRetentionManager {
   private retentionTimer?: NodeJS.Timeout;
 
   constructor(
-    private db: Level<string, Buffer>,
+    private db: IKeyValueStore<Buffer>,
     private wal: IWriteAheadLog,
     private log: IMessageLog,
     private dlqManager: IDLQManager<any>,
     private codec: ICodec,
     private logger?: ILogCollector,
-    private retentionMs = 3_600_000
+    private retentionMs = 3_600_000,
+    private maxSizeBytes = Infinity,
+    private archivalThresholdMs = Infinity
   ) {}
 
   start(): void {
-    if (this.retentionMs === Infinity) return;
+    if (
+      this.retentionMs === Infinity &&
+      this.maxSizeBytes === Infinity &&
+      this.archivalThresholdMs === Infinity
+    ) {
+      return;
+    }
     this.retentionTimer = setInterval(
       this.retain,
-      Math.min(this.retentionMs, 3_600_000)
+      Math.min(this.retentionMs, this.archivalThresholdMs, 3_600_000)
     );
   }
 
@@ -44,17 +55,15 @@ export class MessageRetentionManager implements IMessageRetentionManager {
       const id = key.slice(4);
 
       try {
-        const pointerBuffer = await this.db.get(`ptr!${id}`);
-        if (pointerBuffer) {
-          const pointer = await this.codec.decode(
-            pointerBuffer,
-            SegmentPointerSchema
+        const entry = await this.db.get(`meta!${id}`);
+        if (entry) {
+          const pointer = await this.log.locate(
+            MetadataEntry.recordOffset(entry)
           );
-          pointersToDelete.push(pointer);
+          if (pointer) pointersToDelete.push(pointer);
         }
 
         batch.del(`meta!${id}`);
-        batch.del(`ptr!${id}`);
         batch.del(`del!${id}`);
       } catch (error) {
         this.logger?.log(
@@ -68,27 +77,71 @@ export class MessageRetentionManager implements IMessageRetentionManager {
     // 1. db batch
     await batch.write();
 
-    // 2. delete from log
+    // 2. mark removed in the log, compaction reclaims the space in the background
     if (pointersToDelete.length) {
-      await this.log.compactSegmentsByRemovingOldMessages(pointersToDelete);
+      await this.log.remove(pointersToDelete);
     }
 
-    // 3. truncate the wal
+    // 3. checkpoint the wal, fully applied files are dropped
     const offsetBuffer = await this.db.get("last_wal_offset");
-    await this.wal.truncate(+offsetBuffer.toSorted());
+    if (offsetBuffer) await this.wal.checkpoint(+offsetBuffer.toString());
 
     return pointersToDelete.length;
   }
 
+  // whole log segments past retention or over maxSizeBytes, their db entries go by record offset range
+  private async retainSegments() {
+    const removed = await this.log.retain({
+      retentionMs: this.retentionMs,
+      maxSizeBytes: this.maxSizeBytes,
+    });
+
+    for (const { firstOffset, lastOffset } of removed) {
+      const range = {
+        gte: `rec!${String(firstOffset).padStart(16, "0")}`,
+        lte: `rec!${String(lastOffset).padStart(16, "0")}`,
+      };
+      const batch = this.db.batch();
+
+      for await (const value of this.db.values(range)) {
+        const id = value.toString();
+        batch.del(`meta!${id}`);
+        batch.del(`del!${id}`);
+      }
+
+      await batch.write();
+      await this.db.clear(range);
+    }
+
+    return removed.length;
+  }
+
+  // sealed segments older than archivalThresholdMs leave the disk, reads fetch them back
+  private async archiveSegments() {
+    if (this.archivalThresholdMs === Infinity) return 0;
+    return this.log.archive(this.archivalThresholdMs);
+  }
+
   private async processTtl() {
+    // ttl keys carry the expiry time, so everything below now has expired
     for await (const [key] of this.db.iterator({
-      lt: `ts!${Date.now() + this.retentionMs}`,
+      gte: "ttl!",
+      lt: `ttl!${Date.now()}`,
     })) {
       const id = key.split(":")[1];
+      if (!id) continue;
 
       try {
-        const metaBuffer = await this.db.get(`meta!${id}`);
-        const meta = await this.codec.decode(metaBuffer, messageMetadataSchema);
+        const entry = await this.db.get(`meta!${id}`);
+        // removed with its segment
+        if (!entry) {
+          await this.db.del(key);
+          continue;
+        }
+        const meta = await this.codec.decode(
+          MetadataEntry.metadata(entry),
+          BasicSchemaNames.messageMetadataSchema
+        );
 
         await this.db.del(key);
         this.dlqManager.enqueue(meta, "expired");
@@ -104,12 +157,18 @@ export class MessageRetentionManager implements IMessageRetentionManager {
 
   private retain = async () => {
     try {
+      const removedSegments = await this.retainSegments();
+      const archivedSegments = await this.archiveSegments();
       const [deletedCount] = await Promise.all([
         this.clearDeletable(),
         this.processTtl(),
       ]);
 
-      this.logger?.log("MessageStore retention succeed", { deletedCount });
+      this.logger?.log("MessageStore retention succeed", {
+        deletedCount,
+        removedSegments,
+        archivedSegments,
+      });
     } catch (error) {
       this.logger?.log("MessageStore retention failed", { error }, "error");
     }
@@ -1,12 +1,19 @@
+import type { IKeyValueStore } from "@pds/index";
+import { WalRecordType, type IWalEntry } from "@wal/index";
+import path from "node:path";
 import type { MessageMetadata } from "@domain/entities/MessageMetadata";
 
 export class MessageStoreService<Data> implements IMessageStore<Data> {
+  private writes = new Set<Promise<unknown>>();
+  private paused?: Promise<void>;
+  private unpause?: () => void;
+
   constructor(
     private replayer: IWALReplayer,
     private writer: IMessageWriter,
     private reader: IMessageReader<Data>,
     private retentionManager: IMessageRetentionManager,
-    private db: Level<string, Buffer>,
+    private db: IKeyValueStore<Buffer>,
     private wal: IWriteAheadLog,
     private log: IMessageLog
   ) {
@@ -20,9 +27,38 @@ export class MessageStoreService<Data> implements IMessageStore<Data> {
 
   async write(
     message: Buffer,
-    meta: MessageMetadata
+    meta: MessageMetadata,
+    txnId?: number
   ): Promise<number | undefined> {
-    return this.writer.write(message, meta);
+    await this.paused;
+    return this.track(this.writer.write(message, meta, txnId));
+  }
+
+  async commit(txnId: number) {
+    await this.paused;
+    return this.track(this.writer.commit(txnId));
+  }
+
+  async abort(txnId: number) {
+    await this.paused;
+    return this.track(this.writer.abort(txnId));
+  }
+
+  // new writes wait until resume, the ones already running finish first
+  async pause() {
+    this.paused ??= new Promise((resolve) => (this.unpause = resolve));
+    await Promise.all(this.writes);
+  }
+
+  resume() {
+    this.unpause?.();
+    this.paused = this.unpause = undefined;
+  }
+
+  // seals the current log segment and copies it with the wal, pause first for a consistent copy
+  async snapshot(dirPath: string) {
+    await this.log.snapshot(path.join(dirPath, "segments"));
+    await this.wal.snapshot(path.join(dirPath, "wal"));
   }
 
   async read(id: number) {
@@ -40,6 +76,32 @@ export class MessageStoreService<Data> implements IMessageStore<Data> {
     return this.reader.readMetadata(id, keys);
   }
 
+  entries() {
+    return this.reader.entries();
+  }
+
+  records(from?: number) {
+    return this.wal.records(from);
+  }
+
+  async getWalEndOffset() {
+    return (await this.wal.getMetrics()).endOffset;
+  }
+
+  // records shipped from a primary land in this wal first, then apply as a replay does
+  async replicate(records: IWalEntry[]) {
+    // appends start in order and share the flush, replay reads flushed records only
+    await Promise.all(
+      records.map(({ type, txnId, payload }) => {
+        if (type === WalRecordType.Commit) return this.wal.commit(txnId);
+        if (type === WalRecordType.Abort) return this.wal.abort(txnId);
+        if (type !== WalRecordType.Data) return; // checkpoints are the replica's own
+        return this.wal.append(Buffer.from(payload), txnId || undefined);
+      })
+    );
+    await this.replayer.replay(true);
+  }
+
   async markDeletable(id: number): Promise<void> {
     return this.retentionManager.markDeletable(id);
   }
@@ -68,4 +130,14 @@ export class MessageStoreService<Data> implements IMessageStore<Data> {
       ram: process.memoryUsage(),
     };
   }
+
+  private async track<T>(write: Promise<T>) {
+    this.writes.add(write);
+
+    try {
+      return await write;
+    } finally {
+      this.writes.delete(write);
+    }
+  }
 }
@@ -1,14 +1,22 @@
+import type { IKeyValueStore } from "@pds/index";
 import type { ISegmentLog } from "@segmentlog/index";
-import type { IWriteAheadLog } from "@wal/index";
+import { WalRecord, type IWriteAheadLog } from "@wal/index";
+import { BasicSchemaNames } from "@domain/entities/BasicSchemaNames";
 import type { MessageMetadata } from "@domain/entities/MessageMetadata";
+import { MetadataEntry } from "@domain/entities/MetadataEntry";
 import type { ILogCollector } from "@domain/ports/ILogCollector";
 import type { IMessageWriter } from "@domain/ports/IMessageWriter";
 
 export class MessageWriter implements IMessageWriter {
+  private staged = new Map<number, [Buffer, MessageMetadata, Buffer][]>();
+  private txnOffsets = new Map<number, number>();
+  private unapplied = new Set<number>(); // wal offsets in flight or failed
+  private walEnd = 0;
+
   constructor(
     private wal: IWriteAheadLog,
     private log: ISegmentLog,
-    private db: Level<string, Buffer>,
+    private db: IKeyValueStore<Buffer>,
     private codec: ICodec,
     private logger?: ILogCollector,
     private maxMessageTTLMs = 3_600_000_000
@@ -16,58 +24,112 @@ export class MessageWriter implements IMessageWriter {
 
   async write(
     message: Buffer,
-    meta: MessageMetadata
+    meta: MessageMetadata,
+    txnId?: number
   ): Promise<number | undefined> {
     try {
-      const metaBuffer = await this.codec.encode(meta, messageMetadataSchema);
+      const metaBuffer = await this.codec.encode(
+        meta,
+        BasicSchemaNames.messageMetadataSchema
+      );
 
-      // Add length prefixes
+      // Add length prefix
       const metaLengthBuffer = Buffer.alloc(4);
       metaLengthBuffer.writeUInt32BE(metaBuffer.length, 0);
-      const totalLength = 4 + metaBuffer.length + message.length;
-      const totalLengthBuffer = Buffer.alloc(4);
-      totalLengthBuffer.writeUInt32BE(totalLength, 0);
 
       // Combine into one wal record
-      const walRecord = Buffer.concat([
-        totalLengthBuffer,
-        metaLengthBuffer,
-        metaBuffer,
-        message,
-      ]);
+      const walRecord = Buffer.concat([metaLengthBuffer, metaBuffer, message]);
 
       // 1. Write to WAL first for durability
-      const walOffset = await this.wal.append(walRecord);
-      if (!walOffset) throw new Error("Failed writing to WAL");
+      const walOffset = await this.wal.append(walRecord, txnId);
+      if (walOffset === undefined) throw new Error("Failed writing to WAL");
 
-      // 2. Write to log for long-term storage
-      const pointer = await this.log.append(message);
-      if (!pointer) throw new Error("Failed writing to MessageLog");
+      // Transactional records are kept aside until commit
+      if (txnId) {
+        if (!this.staged.has(txnId)) {
+          this.staged.set(txnId, []);
+          this.txnOffsets.set(txnId, walOffset);
+        }
+        this.staged.get(txnId)!.push([message, meta, metaBuffer]);
+        return meta.id;
+      }
 
-      // 3. Store metadata, pointers and ttl in db.
-      const pointerBuffer = await this.codec.encode(
-        pointer,
-        SegmentPointerSchema
+      // a failed record stays unapplied, replay has to start at it
+      this.unapplied.add(walOffset);
+      await this.persist(message, meta, metaBuffer);
+      this.unapplied.delete(walOffset);
+      await this.updateWalOffset(
+        walOffset + WalRecord.HEADER_SIZE + walRecord.length
       );
 
-      const ttl = meta.ts + (meta.ttl || this.maxMessageTTLMs);
-      await this.db.batch([
-        { type: "put", key: `meta!${meta.id}`, value: metaBuffer },
-        { type: "put", key: `ptr!${meta.id}`, value: pointerBuffer },
-        {
-          type: "put",
-          key: `ttl!${ttl}:${meta.id}`,
-          value: Buffer.alloc(0),
-        },
-      ]);
-
-      // Update last_wal_offset immediately
-      const lastWalOffset = String(walOffset + 4 + totalLength);
-      await this.db.put("last_wal_offset", Buffer.from(lastWalOffset));
-
       return meta.id;
     } catch (error) {
       this.logger?.log("Failed to write message", { ...meta, error }, "error");
     }
   }
+
+  async commit(txnId: number) {
+    const staged = this.staged.get(txnId);
+    if (!staged) return;
+
+    const walOffset = await this.wal.commit(txnId);
+    if (walOffset === undefined) throw new Error("Failed writing to WAL");
+
+    for (const [message, meta, metaBuffer] of staged) {
+      await this.persist(message, meta, metaBuffer);
+    }
+
+    this.staged.delete(txnId);
+    this.txnOffsets.delete(txnId);
+    await this.updateWalOffset(walOffset + WalRecord.HEADER_SIZE);
+  }
+
+  async abort(txnId: number) {
+    if (!this.staged.has(txnId)) return;
+
+    await this.wal.abort(txnId);
+    this.staged.delete(txnId);
+    this.txnOffsets.delete(txnId);
+  }
+
+  private async persist(
+    message: Buffer,
+    meta: MessageMetadata,
+    metaBuffer: Buffer
+  ) {
+    // 2. Write to log for long-term storage
+    const pointer = await this.log.append(message, meta.ts);
+    if (!pointer) throw new Error("Failed writing to MessageLog");
+
+    // 3. Store metadata with the record offset, and ttl in db.
+    const ttl = meta.ts + (meta.ttl || this.maxMessageTTLMs);
+    await this.db.batch([
+      {
+        type: "put",
+        key: `meta!${meta.id}`,
+        value: MetadataEntry.encode(pointer.recordOffset, metaBuffer),
+      },
+      {
+        type: "put",
+        key: `rec!${String(pointer.recordOffset).padStart(16, "0")}`,
+        value: Buffer.from(String(meta.id)),
+      },
+      {
+        type: "put",
+        key: `ttl!${ttl}:${meta.id}`,
+        value: Buffer.alloc(0),
+      },
+    ]);
+  }
+
+  private async updateWalOffset(end: number) {
+    this.walEnd = Math.max(this.walEnd, end);
+    // replay has to start before records still being written and before open transactions
+    const lastWalOffset = Math.min(
+      this.walEnd,
+      ...this.unapplied,
+      ...this.txnOffsets.values()
+    );
+    await this.db.put("last_wal_offset", Buffer.from(String(lastWalOffset)));
+  }
 }
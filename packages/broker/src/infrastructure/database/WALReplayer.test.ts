@@ -0,0 +1,175 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { InMemoryKeyValueStore } from "@pds/index";
+import type { ISegmentLog } from "@segmentlog/index";
+import { FileWriteAheadLogFactory, type IWriteAheadLog } from "@wal/index";
+import { MessageMetadata } from "@domain/entities/MessageMetadata";
+import { MetadataEntry } from "@domain/entities/MetadataEntry";
+import { MessageWriter } from "./MessageWriter";
+import { WALReplayer } from "./WALReplayer";
+
+const TTL = 60_000;
+
+// json stands in for the binary codec
+const codec = {
+  encode: async (value: unknown) => Buffer.from(JSON.stringify(value)),
+  decode: async (buffer: Buffer) => JSON.parse(buffer.toString()),
+};
+
+// the segment log as far as writes and replay use it
+class MemoryLog {
+  records: Buffer[] = [];
+
+  async append(data: Buffer) {
+    this.records.push(Buffer.from(data));
+    return { recordOffset: this.records.length - 1 };
+  }
+}
+
+function metadata(id: number) {
+  return Object.assign(new MessageMetadata(), { id, ttl: TTL, topic: "t" });
+}
+
+describe("WALReplayer", () => {
+  let dir: string;
+  let wal: IWriteAheadLog;
+  let log: MemoryLog;
+  let db: InMemoryKeyValueStore<Buffer>;
+  let writer: MessageWriter;
+  let publish: ReturnType<typeof vi.fn>;
+
+  const open = () => {
+    wal = new FileWriteAheadLogFactory().create(dir, undefined, "sync");
+    writer = new MessageWriter(wal, log as unknown as ISegmentLog, db, codec);
+  };
+
+  // the log and db keep what reached them, the wal is reopened from its files
+  const restart = async () => {
+    await wal.close();
+    open();
+    await new WALReplayer(wal, log, db, codec, { publish }).replay();
+  };
+
+  // what a reader finds for a message once replay is done
+  const stored = async (meta: MessageMetadata) => {
+    const entry = await db.get(`meta!${meta.id}`);
+    if (!entry) return;
+    const recordOffset = MetadataEntry.recordOffset(entry);
+    const rec = await db.get(`rec!${String(recordOffset).padStart(16, "0")}`);
+    const ttl = await db.get(`ttl!${meta.ts + TTL}:${meta.id}`);
+
+    return {
+      message: log.records[recordOffset].toString(),
+      rec: rec?.toString(),
+      ttl: ttl !== undefined,
+    };
+  };
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "zephyrmq-replay-"));
+    log = new MemoryLog();
+    db = new InMemoryKeyValueStore<Buffer>();
+    publish = vi.fn();
+    open();
+    await writer.write(Buffer.from("before"), metadata(1));
+  });
+
+  afterEach(async () => {
+    await wal.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("loses a message when the crash comes before its wal record", async () => {
+    vi.spyOn(wal, "append").mockRejectedValueOnce(new Error("crash"));
+    const meta = metadata(2);
+    expect(await writer.write(Buffer.from("lost"), meta)).toBeUndefined();
+
+    await restart();
+    expect(await stored(meta)).toBeUndefined();
+    expect(log.records.map(String)).toEqual(["before"]);
+    expect(publish).not.toHaveBeenCalled();
+  });
+
+  // every write step after the wal record, crashing as it runs
+  it.each([
+    ["the log append", () => vi.spyOn(log, "append")],
+    ["the metadata batch", () => vi.spyOn(db, "batch")],
+    ["the wal offset update", () => vi.spyOn(db, "put")],
+  ] as const)("recovers a message when %s crashes", async (_, step) => {
+    step().mockRejectedValueOnce(new Error("crash"));
+    const meta = metadata(2);
+    await writer.write(Buffer.from("message"), meta);
+
+    await restart();
+    expect(await stored(meta)).toEqual({
+      message: "message",
+      rec: "2",
+      ttl: true,
+    });
+    expect(await stored(metadata(1))).toMatchObject({ message: "before" });
+    // the next replay starts past it
+    expect((await db.get("last_wal_offset"))?.toString()).toBe(
+      String(await wal.getCheckpoint())
+    );
+    // published once, what was applied before the crash is not published again
+    expect(publish).toHaveBeenCalledTimes(1);
+    expect(publish).toHaveBeenCalledWith(expect.objectContaining({ id: 2 }));
+  });
+
+  it("recovers a message still being written when a later one finished", async () => {
+    // the first write stalls in the log and never gets further
+    vi.spyOn(log, "append").mockImplementationOnce(() => new Promise(() => {}));
+    const slow = metadata(2);
+    void writer.write(Buffer.from("slow"), slow);
+    await vi.waitFor(() => expect(log.append).toHaveBeenCalled());
+
+    const fast = metadata(3);
+    await writer.write(Buffer.from("fast"), fast);
+
+    await restart();
+    expect(await stored(slow)).toEqual({
+      message: "slow",
+      rec: "2",
+      ttl: true,
+    });
+    expect(await stored(fast)).toMatchObject({ message: "fast" });
+    // replay restarts at the stalled record, so the later one is routed again
+    expect(publish.mock.calls.map(([meta]) => meta.id)).toEqual([2, 3]);
+  });
+
+  it("applies nothing when replay starts at the end", async () => {
+    await writer.write(Buffer.from("message"), metadata(2));
+
+    await restart();
+    expect(log.records.map(String)).toEqual(["before", "message"]);
+    expect(publish).not.toHaveBeenCalled();
+  });
+
+  it("drops a transaction that crashed before its commit marker", async () => {
+    const meta = metadata(2);
+    await writer.write(Buffer.from("staged"), meta, 7);
+    vi.spyOn(wal, "commit").mockRejectedValueOnce(new Error("crash"));
+    await expect(writer.commit(7)).rejects.toThrow("crash");
+
+    await restart();
+    expect(await stored(meta)).toBeUndefined();
+    expect(publish).not.toHaveBeenCalled();
+  });
+
+  it("recovers a transaction that crashed after its commit marker", async () => {
+    const meta = metadata(2);
+    await writer.write(Buffer.from("staged"), meta, 7);
+    vi.spyOn(log, "append").mockRejectedValueOnce(new Error("crash"));
+    await expect(writer.commit(7)).rejects.toThrow("crash");
+
+    await restart();
+    expect(await stored(meta)).toEqual({
+      message: "staged",
+      rec: "2",
+      ttl: true,
+    });
+    expect(publish).toHaveBeenCalledTimes(1);
+  });
+});
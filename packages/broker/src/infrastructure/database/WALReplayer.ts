@@ -1,68 +1,131 @@
+import type { IKeyValueStore } from "@pds/index";
+import { BasicSchemaNames } from "@domain/entities/BasicSchemaNames";
+import { MetadataEntry } from "@domain/entities/MetadataEntry";
+import type { ILogCollector } from "@domain/ports/ILogCollector";
 import type { IWALReplayer } from "@domain/ports/IWALReplayer";
+import {
+  WalCorruptionError,
+  WalRecordType,
+  type IWriteAheadLog,
+} from "@wal/index";
 
 export class WALReplayer implements IWALReplayer {
   constructor(
     private wal: IWriteAheadLog,
     private log: IMessageLog,
-    private db: Level<string, unknown>,
+    private db: IKeyValueStore<unknown>,
     private codec: ICodec,
     private messagePublisher: IMessagePublisher,
-    private logger?: ILogCollector
+    private logger?: ILogCollector,
+    private maxMessageTTLMs = 3_600_000_000 // as the message writer's
   ) {}
 
-  async replay(): Promise<void> {
+  // a following replica applies without routing and holds back transactions still undecided
+  async replay(following = false): Promise<void> {
     let offset = 0;
 
     try {
-      while (true) {
-        const offsetBuffer = await this.db.get("last_wal_offset");
-        if (offsetBuffer) offset = +offsetBuffer.toString();
-
-        this.logger?.log(`Replaying WAL from offset ${offset}`, { offset });
-
-        // 1. Read total length
-        const totalLengthBytes = await this.wal.read(offset, 4);
-        if (!totalLengthBytes || totalLengthBytes.length < 4) break;
-        const totalLength = totalLengthBytes.readUInt32BE(0);
-
-        // 2. Read full record body (metaLength + metadata + message)
-        const recordBytes = await this.wal.read(offset + 4, totalLength);
-        if (!recordBytes || recordBytes.length < totalLength) break;
-
-        // 3. Extract metadata length
-        const metaLength = recordBytes.readUInt32BE(0);
-        const metaBuffer = recordBytes.slice(4, 4 + metaLength);
-        const messageBuffer = recordBytes.slice(4 + metaLength);
-
-        // 4. Decode and apply
-        const meta = await this.codec.decode(metaBuffer, messageMetadataSchema);
-        const pointer = await this.log.append(messageBuffer);
-        if (!pointer) break;
-
-        const pointerBuffer = await this.codec.encode(
-          pointer,
-          SegmentPointerSchema
-        );
-
-        await this.db.batch([
-          { type: "put", key: `meta!${meta.id}`, value: metaBuffer },
-          { type: "put", key: `ptr!${meta.id}`, value: pointerBuffer },
-        ]);
-
-        // 5. Update WAL progress
-        offset = offset + 4 + totalLength;
+      // the wal checkpoint covers files the db offset may no longer point into
+      const offsetBuffer = await this.db.get("last_wal_offset");
+      if (offsetBuffer) offset = +offsetBuffer.toString();
+      offset = Math.max(offset, await this.wal.getCheckpoint());
+      const start = offset;
+
+      this.logger?.log(`Replaying WAL from offset ${offset}`, { offset });
+
+      // 1. Collect transaction outcomes first, markers follow their records
+      const [outcomes, end] = await this.scan(start);
+
+      for await (const record of this.wal.records(start)) {
+        // nothing past a corrupt record is applied
+        if (record.offset >= end) break;
+        if (following && record.txnId && !outcomes.has(record.txnId)) break;
+        offset = record.nextOffset;
+
+        // 2. Skip markers, aborted and unfinished transactions
+        if (record.type !== WalRecordType.Data) continue;
+        if (record.txnId && !this.isCommitted(record.txnId, outcomes)) continue;
+
+        // 3. Decode and apply
+        const meta = await this.apply(record.payload);
+        if (!meta) break;
+
+        // 4. Update WAL progress
         await this.db.put("last_wal_offset", Buffer.from(String(offset)));
 
-        // 6. publish
-        await this.messagePublisher.publish(meta);
+        // 5. publish
+        if (!following) await this.messagePublisher.publish(meta);
       }
 
-      if (offset > 0) {
-        await this.wal.truncate(offset);
+      if (offset > start) {
+        await this.wal.checkpoint(offset);
         this.logger?.log(`Replayed from WAL`, { offset });
       }
     } catch (error) {
       this.logger?.log("Failed WAL replay", { error }, "error");
     }
   }
+
+  private async scan(start: number) {
+    const outcomes = new Map<number, WalRecordType>();
+    let end = start;
+
+    try {
+      for await (const record of this.wal.records(start)) {
+        end = record.nextOffset;
+        if (
+          record.type === WalRecordType.Commit ||
+          record.type === WalRecordType.Abort
+        ) {
+          outcomes.set(record.txnId, record.type);
+        }
+      }
+    } catch (error) {
+      if (!(error instanceof WalCorruptionError)) throw error;
+      this.logger?.log("WAL corruption, replay stopped", { error }, "warn");
+    }
+
+    return [outcomes, end] as const;
+  }
+
+  private isCommitted(txnId: number, outcomes: Map<number, WalRecordType>) {
+    // no marker means the transaction never finished
+    return outcomes.get(txnId) === WalRecordType.Commit;
+  }
+
+  private async apply(payload: Buffer) {
+    const metaLength = payload.readUInt32BE(0);
+    const metaBuffer = payload.subarray(4, 4 + metaLength);
+    const messageBuffer = payload.subarray(4 + metaLength);
+
+    const meta = await this.codec.decode(
+      metaBuffer,
+      BasicSchemaNames.messageMetadataSchema
+    );
+    // replay may start before records that were already applied
+    if (await this.db.get(`meta!${meta.id}`)) return meta;
+
+    const pointer = await this.log.append(messageBuffer, meta.ts);
+    if (!pointer) return;
+
+    await this.db.batch([
+      {
+        type: "put",
+        key: `meta!${meta.id}`,
+        value: MetadataEntry.encode(pointer.recordOffset, metaBuffer),
+      },
+      {
+        type: "put",
+        key: `rec!${String(pointer.recordOffset).padStart(16, "0")}`,
+        value: Buffer.from(String(meta.id)),
+      },
+      {
+        type: "put",
+        key: `ttl!${meta.ts + (meta.ttl || this.maxMessageTTLMs)}:${meta.id}`,
+        value: Buffer.alloc(0),
+      },
+    ]);
+
+    return meta;
+  }
 }
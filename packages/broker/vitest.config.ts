@@ -0,0 +1,9 @@
+import { defineConfig } from "vitest/config";
+import { workspacePackages } from "../../workspace.config";
+
+export default defineConfig({
+  plugins: [workspacePackages()],
+  test: {
+    include: ["src/**/*.test.ts"],
+  },
+});
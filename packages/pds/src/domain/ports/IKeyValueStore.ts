@@ -0,0 +1,52 @@
+// bounds of a key scan, keys are compared as strings
+export interface IKeyRange {
+  prefix?: string; // shorthand for every key starting with it
+  gt?: string;
+  gte?: string;
+  lt?: string;
+  lte?: string;
+  reverse?: boolean;
+  limit?: number;
+}
+
+export type IKeyValueOperation<V> =
+  | { type: "put"; key: string; value: V }
+  | { type: "del"; key: string };
+
+// a write as it was applied, clear covers a whole range at once
+export type IKeyValueChange<V> =
+  | IKeyValueOperation<V>
+  | { type: "clear"; range?: IKeyRange };
+
+export interface IKeyValueBatch<V> {
+  put(key: string, value: V): this;
+  del(key: string): this;
+  write(): Promise<void>;
+}
+
+// values are Buffers unless the store is opened with a value encoding
+export interface IValueEncoding<V> {
+  encode(value: V): Buffer;
+  decode(buffer: Buffer): V;
+}
+
+export interface IKeyValueStore<V = Buffer> {
+  get(key: string): Promise<V | undefined>;
+  put(key: string, value: V): Promise<void>;
+  del(key: string): Promise<void>;
+  // a batch is written atomically, all of it or nothing
+  batch(): IKeyValueBatch<V>;
+  batch(operations: IKeyValueOperation<V>[]): Promise<void>;
+  iterator(range?: IKeyRange): AsyncIterable<[string, V]>;
+  keys(range?: IKeyRange): AsyncIterable<string>;
+  values(range?: IKeyRange): AsyncIterable<V>;
+  clear(range?: IKeyRange): Promise<void>;
+  // point-in-time copy that opens as a store of the same class at location
+  snapshot(location: string): Promise<void>;
+  close(): Promise<void>;
+}
+
+export type KeyValueStoreClass = new <V>(
+  location: string,
+  encoding?: IValueEncoding<V>
+) => IKeyValueStore<V>;
@@ -0,0 +1,5 @@
+export type * from "@domain/ports/IKeyValueStore";
+export { LevelKeyValueStore } from "@infra/level/LevelKeyValueStore";
+export { LmdbKeyValueStore } from "@infra/lmdb/LmdbKeyValueStore";
+export { InMemoryKeyValueStore } from "@infra/memory/InMemoryKeyValueStore";
+export { ObservedKeyValueStore } from "@infra/observed/ObservedKeyValueStore";
@@ -0,0 +1,132 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type {
+  IKeyRange,
+  IKeyValueStore,
+  IValueEncoding,
+  KeyValueStoreClass,
+} from "@domain/ports/IKeyValueStore";
+import { LevelKeyValueStore } from "@infra/level/LevelKeyValueStore";
+import { LmdbKeyValueStore } from "@infra/lmdb/LmdbKeyValueStore";
+import { InMemoryKeyValueStore } from "@infra/memory/InMemoryKeyValueStore";
+
+const utf8: IValueEncoding<string> = {
+  encode: (value) => Buffer.from(value),
+  decode: (buffer) => buffer.toString(),
+};
+
+// neighbours on both sides of the "a!" prefix
+const KEYS = ["a", "a!1", "a!2", "a!3", "a!3!x", "ab", "a~", "b!1"];
+
+// every store behaves the same, only the in-memory one can't snapshot
+describe.each([
+  ["LevelKeyValueStore", LevelKeyValueStore],
+  ["LmdbKeyValueStore", LmdbKeyValueStore],
+  ["InMemoryKeyValueStore", InMemoryKeyValueStore],
+] as [string, KeyValueStoreClass][])("%s", (name, Store) => {
+  let dir: string;
+  let db: IKeyValueStore<string>;
+  const opened: IKeyValueStore<string>[] = [];
+
+  const open = (location: string) => {
+    const store = new Store<string>(location, utf8);
+    opened.push(store);
+    return store;
+  };
+
+  const keys = async (range?: IKeyRange) => {
+    const found: string[] = [];
+    for await (const key of db.keys(range)) found.push(key);
+    return found;
+  };
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "zephyrmq-pds-"));
+    db = open(path.join(dir, "db"));
+    // written out of order, scans come back sorted
+    await db.batch(
+      [...KEYS].reverse().map((key) => ({ type: "put", key, value: key }))
+    );
+  });
+
+  afterEach(async () => {
+    await Promise.all(opened.splice(0).map((store) => store.close()));
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("reads, writes and deletes single keys and batches", async () => {
+    expect(await db.get("a!1")).toBe("a!1");
+    expect(await db.get("missing")).toBeUndefined();
+
+    await db.put("a!1", "changed");
+    await db.del("a!2");
+    await db.batch().put("c", "c").del("a").write();
+
+    expect(await db.get("a!1")).toBe("changed");
+    expect(await db.get("a!2")).toBeUndefined();
+    expect(await keys()).toEqual([
+      "a!1",
+      "a!3",
+      "a!3!x",
+      "ab",
+      "a~",
+      "b!1",
+      "c",
+    ]);
+  });
+
+  it.each([
+    [{ prefix: "a!" }, ["a!1", "a!2", "a!3", "a!3!x"]],
+    [{ prefix: "a!3" }, ["a!3", "a!3!x"]],
+    [{ prefix: "a!", gt: "a!1" }, ["a!2", "a!3", "a!3!x"]],
+    [{ prefix: "a!", reverse: true, limit: 2 }, ["a!3!x", "a!3"]],
+    [{ gte: "a!1", lte: "a!3" }, ["a!1", "a!2", "a!3"]],
+    [{ gt: "a!1", lt: "a!3" }, ["a!2"]],
+    [{ gte: "a!1", lte: "a!3", reverse: true }, ["a!3", "a!2", "a!1"]],
+    [{ gt: "a!1", lt: "a!3", reverse: true }, ["a!2"]],
+    [{ lte: "a!1" }, ["a", "a!1"]],
+    [{ lte: "a!1", reverse: true }, ["a!1", "a"]],
+    [{ prefix: "a!", lte: "a!2" }, ["a!1", "a!2"]],
+    [{ gt: "ab", reverse: true }, ["b!1", "a~"]],
+    [{ limit: 0 }, []],
+  ] as [IKeyRange, string[]][])("scans %o", async (range, expected) => {
+    expect(await keys(range)).toEqual(expected);
+
+    const entries: [string, string][] = [];
+    for await (const entry of db.iterator(range)) entries.push(entry);
+    expect(entries).toEqual(expected.map((key) => [key, key]));
+  });
+
+  it("clears only the range", async () => {
+    await db.clear({ prefix: "a!" });
+    expect(await keys()).toEqual(["a", "ab", "a~", "b!1"]);
+
+    await db.clear();
+    expect(await keys()).toEqual([]);
+  });
+
+  if (Store === InMemoryKeyValueStore) {
+    it("refuses to snapshot", async () => {
+      await expect(db.snapshot(path.join(dir, "copy"))).rejects.toThrow(
+        `${name} has nothing to write to`
+      );
+    });
+    return;
+  }
+
+  it("snapshots what it holds at the time", async () => {
+    await db.snapshot(path.join(dir, "copy"));
+    await db.put("c", "c");
+    await db.del("a!1");
+
+    const copy = open(path.join(dir, "copy"));
+    const copied: [string, string][] = [];
+    for await (const entry of copy.iterator()) copied.push(entry);
+    expect(copied).toEqual(KEYS.map((key) => [key, key]));
+    // the copy opens as a store of its own
+    await copy.put("d", "d");
+    expect(await db.get("d")).toBeUndefined();
+  });
+});
@@ -0,0 +1,96 @@
+import type {
+  IKeyRange,
+  IKeyValueBatch,
+  IKeyValueOperation,
+  IKeyValueStore,
+  IValueEncoding,
+} from "@domain/ports/IKeyValueStore";
+import { KeyRange } from "@util/KeyRange";
+import { OperationBatch } from "@util/OperationBatch";
+import { Level } from "level";
+
+export class LevelKeyValueStore<V = Buffer> implements IKeyValueStore<V> {
+  private static readonly SNAPSHOT_BATCH_SIZE = 1000;
+  private db: Level<string, V>;
+
+  constructor(location: string, encoding?: IValueEncoding<V>) {
+    this.db = new Level<string, V>(location, {
+      compression: false,
+      valueEncoding: encoding
+        ? {
+            name: "custom",
+            format: "buffer",
+            encode: encoding.encode,
+            decode: encoding.decode,
+          }
+        : "buffer",
+    });
+  }
+
+  get(key: string) {
+    return this.db.get(key);
+  }
+
+  put(key: string, value: V) {
+    return this.db.put(key, value);
+  }
+
+  del(key: string) {
+    return this.db.del(key);
+  }
+
+  batch(): IKeyValueBatch<V>;
+  batch(operations: IKeyValueOperation<V>[]): Promise<void>;
+  batch(
+    operations?: IKeyValueOperation<V>[]
+  ): IKeyValueBatch<V> | Promise<void> {
+    if (operations) return this.db.batch(operations);
+    // level only queues array batches while it opens, a chained one would throw
+    if (this.db.status !== "open") {
+      return new OperationBatch<V>((ops) => this.db.batch(ops));
+    }
+    return this.db.batch();
+  }
+
+  iterator(range?: IKeyRange) {
+    return this.db.iterator(KeyRange.normalize(range));
+  }
+
+  keys(range?: IKeyRange) {
+    return this.db.keys(KeyRange.normalize(range));
+  }
+
+  values(range?: IKeyRange) {
+    return this.db.values(KeyRange.normalize(range));
+  }
+
+  clear(range?: IKeyRange) {
+    return this.db.clear(KeyRange.normalize(range));
+  }
+
+  // iterators read from an implicit snapshot, raw values skip the encoding
+  async snapshot(location: string) {
+    const target = new Level<string, Buffer>(location, {
+      compression: false,
+      valueEncoding: "buffer",
+    });
+    await target.open();
+    let batch = target.batch();
+
+    for await (const [key, value] of this.db.iterator<string, Buffer>({
+      valueEncoding: "buffer",
+    })) {
+      batch.put(key, value);
+      if (batch.length < LevelKeyValueStore.SNAPSHOT_BATCH_SIZE) continue;
+      await batch.write();
+      batch = target.batch();
+    }
+
+    await batch.write();
+    await target.close();
+  }
+
+  close() {
+    return this.db.close();
+  }
+}
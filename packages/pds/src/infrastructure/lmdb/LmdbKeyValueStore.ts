@@ -0,0 +1,119 @@
+import type {
+  IKeyRange,
+  IKeyValueBatch,
+  IKeyValueOperation,
+  IKeyValueStore,
+  IValueEncoding,
+} from "@domain/ports/IKeyValueStore";
+import { KeyRange } from "@util/KeyRange";
+import { OperationBatch } from "@util/OperationBatch";
+import { open, type RangeOptions, type RootDatabase } from "lmdb";
+import fs from "node:fs/promises";
+
+// memory mapped b+tree, reads don't wait for the event loop
+export class LmdbKeyValueStore<V = Buffer> implements IKeyValueStore<V> {
+  private db: RootDatabase<Buffer, string>;
+
+  constructor(
+    location: string,
+    private encoding?: IValueEncoding<V>
+  ) {
+    this.db = open<Buffer, string>({ path: location, encoding: "binary" });
+  }
+
+  async get(key: string) {
+    const value = this.db.get(key);
+    return value === undefined ? undefined : this.decode(value);
+  }
+
+  async put(key: string, value: V) {
+    await this.db.put(key, this.encode(value));
+  }
+
+  async del(key: string) {
+    await this.db.remove(key);
+  }
+
+  batch(): IKeyValueBatch<V>;
+  batch(operations: IKeyValueOperation<V>[]): Promise<void>;
+  batch(
+    operations?: IKeyValueOperation<V>[]
+  ): IKeyValueBatch<V> | Promise<void> {
+    if (!operations) return new OperationBatch<V>((ops) => this.apply(ops));
+    return this.apply(operations);
+  }
+
+  async *iterator(range?: IKeyRange): AsyncGenerator<[string, V]> {
+    for (const { key, value } of this.db.getRange(this.toOptions(range))) {
+      yield [key, this.decode(value)];
+    }
+  }
+
+  async *keys(range?: IKeyRange) {
+    for (const { key } of this.db.getRange(this.toOptions(range))) yield key;
+  }
+
+  async *values(range?: IKeyRange) {
+    for (const { value } of this.db.getRange(this.toOptions(range))) {
+      yield this.decode(value);
+    }
+  }
+
+  async clear(range?: IKeyRange) {
+    if (!range) return this.db.clearAsync();
+
+    await this.db.transaction(() => {
+      for (const { key } of this.db.getRange(this.toOptions(range))) {
+        this.db.removeSync(key);
+      }
+    });
+  }
+
+  // copies the environment from a read transaction once pending writes are on disk
+  async snapshot(location: string) {
+    await this.db.flushed;
+    await fs.mkdir(location, { recursive: true });
+    await this.db.backup(location, false);
+  }
+
+  close() {
+    return this.db.close();
+  }
+
+  private async apply(operations: IKeyValueOperation<V>[]) {
+    await this.db.transaction(() => {
+      for (const operation of operations) {
+        if (operation.type === "put") {
+          this.db.putSync(operation.key, this.encode(operation.value));
+        } else {
+          this.db.removeSync(operation.key);
+        }
+      }
+    });
+  }
+
+  // lmdb ranges run from start to end, which swap places in reverse
+  private toOptions(range?: IKeyRange): RangeOptions {
+    const { gt, gte, lt, lte, reverse, limit } = KeyRange.normalize(range);
+    const low = { key: gt ?? gte, exclusive: gt !== undefined };
+    const high = { key: lt ?? lte, exclusive: lte === undefined };
+    const [start, end] = reverse ? [high, low] : [low, high];
+
+    return {
+      start: start.key,
+      end: end.key,
+      exclusiveStart: start.key !== undefined && start.exclusive,
+      inclusiveEnd: end.key !== undefined && !end.exclusive,
+      reverse,
+      limit: limit !== undefined && limit >= 0 ? limit : undefined,
+    };
+  }
+
+  private encode(value: V) {
+    return this.encoding ? this.encoding.encode(value) : (value as Buffer);
+  }
+
+  private decode(buffer: Buffer) {
+    return this.encoding ? this.encoding.decode(buffer) : (buffer as V);
+  }
+}
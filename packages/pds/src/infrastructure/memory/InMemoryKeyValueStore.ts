@@ -0,0 +1,117 @@
+import type {
+  IKeyRange,
+  IKeyValueBatch,
+  IKeyValueOperation,
+  IKeyValueStore,
+} from "@domain/ports/IKeyValueStore";
+import { KeyRange } from "@util/KeyRange";
+import { OperationBatch } from "@util/OperationBatch";
+
+// for tests and ephemeral brokers, nothing outlives the process
+export class InMemoryKeyValueStore<V = Buffer> implements IKeyValueStore<V> {
+  private data = new Map<string, V>();
+  private sortedKeys: string[] = [];
+
+  // location and encoding are accepted to match the other stores
+  constructor(_location?: string, _encoding?: unknown) {}
+
+  async get(key: string) {
+    return this.data.get(key);
+  }
+
+  async put(key: string, value: V) {
+    this.set(key, value);
+  }
+
+  async del(key: string) {
+    this.delete(key);
+  }
+
+  batch(): IKeyValueBatch<V>;
+  batch(operations: IKeyValueOperation<V>[]): Promise<void>;
+  batch(
+    operations?: IKeyValueOperation<V>[]
+  ): IKeyValueBatch<V> | Promise<void> {
+    if (!operations) return new OperationBatch<V>((ops) => this.apply(ops));
+    return this.apply(operations);
+  }
+
+  // a snapshot of the range, writes during the iteration don't show up
+  async *iterator(range?: IKeyRange): AsyncGenerator<[string, V]> {
+    const entries = this.select(KeyRange.normalize(range)).map(
+      (key) => [key, this.data.get(key)!] as [string, V]
+    );
+    yield* entries;
+  }
+
+  async *keys(range?: IKeyRange) {
+    for await (const [key] of this.iterator(range)) yield key;
+  }
+
+  async *values(range?: IKeyRange) {
+    for await (const [, value] of this.iterator(range)) yield value;
+  }
+
+  async clear(range?: IKeyRange) {
+    for (const key of this.select(KeyRange.normalize(range))) this.delete(key);
+  }
+
+  async snapshot(location: string) {
+    throw new Error(
+      `InMemoryKeyValueStore has nothing to write to ${location}`
+    );
+  }
+
+  async close() {}
+
+  private async apply(operations: IKeyValueOperation<V>[]) {
+    for (const operation of operations) {
+      if (operation.type === "put") this.set(operation.key, operation.value);
+      else this.delete(operation.key);
+    }
+  }
+
+  private select(range: IKeyRange) {
+    const from = range.gte ?? range.gt;
+    const start = from === undefined ? 0 : this.search(from);
+    const keys: string[] = [];
+
+    for (let i = start; i < this.sortedKeys.length; i++) {
+      const key = this.sortedKeys[i];
+      if (range.lt !== undefined && key >= range.lt) break;
+      if (range.lte !== undefined && key > range.lte) break;
+      if (KeyRange.includes(range, key)) keys.push(key);
+    }
+
+    if (range.reverse) keys.reverse();
+    return range.limit !== undefined && range.limit >= 0
+      ? keys.slice(0, range.limit)
+      : keys;
+  }
+
+  // index of the first key not below the given one
+  private search(key: string) {
+    let low = 0;
+    let high = this.sortedKeys.length;
+
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (this.sortedKeys[mid] < key) low = mid + 1;
+      else high = mid;
+    }
+
+    return low;
+  }
+
+  private set(key: string, value: V) {
+    if (!this.data.has(key)) {
+      this.sortedKeys.splice(this.search(key), 0, key);
+    }
+    this.data.set(key, value);
+  }
+
+  private delete(key: string) {
+    if (!this.data.delete(key)) return;
+    this.sortedKeys.splice(this.search(key), 1);
+  }
+}
@@ -0,0 +1,70 @@
+import type {
+  IKeyRange,
+  IKeyValueBatch,
+  IKeyValueChange,
+  IKeyValueOperation,
+  IKeyValueStore,
+} from "@domain/ports/IKeyValueStore";
+import { OperationBatch } from "@util/OperationBatch";
+
+// wraps a store and reports every write once it is applied, in order
+export class ObservedKeyValueStore<V = Buffer> implements IKeyValueStore<V> {
+  constructor(
+    private db: IKeyValueStore<V>,
+    private onChange: (changes: IKeyValueChange<V>[]) => void
+  ) {}
+
+  get(key: string) {
+    return this.db.get(key);
+  }
+
+  async put(key: string, value: V) {
+    await this.db.put(key, value);
+    this.onChange([{ type: "put", key, value }]);
+  }
+
+  async del(key: string) {
+    await this.db.del(key);
+    this.onChange([{ type: "del", key }]);
+  }
+
+  batch(): IKeyValueBatch<V>;
+  batch(operations: IKeyValueOperation<V>[]): Promise<void>;
+  batch(
+    operations?: IKeyValueOperation<V>[]
+  ): IKeyValueBatch<V> | Promise<void> {
+    if (!operations) return new OperationBatch<V>((ops) => this.apply(ops));
+    return this.apply(operations);
+  }
+
+  iterator(range?: IKeyRange) {
+    return this.db.iterator(range);
+  }
+
+  keys(range?: IKeyRange) {
+    return this.db.keys(range);
+  }
+
+  values(range?: IKeyRange) {
+    return this.db.values(range);
+  }
+
+  async clear(range?: IKeyRange) {
+    await this.db.clear(range);
+    this.onChange([{ type: "clear", range }]);
+  }
+
+  snapshot(location: string) {
+    return this.db.snapshot(location);
+  }
+
+  close() {
+    return this.db.close();
+  }
+
+  private async apply(operations: IKeyValueOperation<V>[]) {
+    if (!operations.length) return;
+    await this.db.batch(operations);
+    this.onChange(operations);
+  }
+}
@@ -0,0 +1,23 @@
+import type { IKeyRange } from "@domain/ports/IKeyValueStore";
+
+export class KeyRange {
+  // the prefix turns into gte/lt bounds, explicit bounds on either side win
+  static normalize({ prefix, ...range }: IKeyRange = {}): IKeyRange {
+    if (prefix === undefined) return range;
+    const { gt, gte, lt, lte } = range;
+
+    return {
+      ...(gt === undefined && gte === undefined && { gte: prefix }),
+      ...(lt === undefined && lte === undefined && { lt: `${prefix}\uffff` }),
+      ...range,
+    };
+  }
+
+  static includes(range: IKeyRange, key: string) {
+    if (range.gt !== undefined && key <= range.gt) return false;
+    if (range.gte !== undefined && key < range.gte) return false;
+    if (range.lt !== undefined && key >= range.lt) return false;
+    if (range.lte !== undefined && key > range.lte) return false;
+    return true;
+  }
+}
@@ -0,0 +1,27 @@
+import type {
+  IKeyValueBatch,
+  IKeyValueOperation,
+} from "@domain/ports/IKeyValueStore";
+
+// collects chained operations for stores that only write arrays
+export class OperationBatch<V> implements IKeyValueBatch<V> {
+  private operations: IKeyValueOperation<V>[] = [];
+
+  constructor(
+    private commit: (operations: IKeyValueOperation<V>[]) => Promise<void>
+  ) {}
+
+  put(key: string, value: V) {
+    this.operations.push({ type: "put", key, value });
+    return this;
+  }
+
+  del(key: string) {
+    this.operations.push({ type: "del", key });
+    return this;
+  }
+
+  write() {
+    return this.commit(this.operations);
+  }
+}
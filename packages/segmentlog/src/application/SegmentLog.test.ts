@@ -0,0 +1,197 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { FileSegmentLogFactory } from "@app/factory/FileSegmentLogFactory";
+import type { ISegmentLog } from "@app/interfaces/ISegmentLog";
+import type { SegmentPointer } from "@domain/entities/SegmentPointer";
+import { LocalArchiveStore } from "@infra/archive/LocalArchiveStore";
+import { FileCompactor } from "@infra/filesystem/FileCompactor";
+
+describe("SegmentLog", () => {
+  let dir: string;
+  let log: ISegmentLog;
+
+  // small segments, so a few records already roll over
+  const open = () => {
+    log = new FileSegmentLogFactory(
+      dir,
+      128,
+      { minDeadRatio: 0.1 },
+      new LocalArchiveStore(path.join(dir, "archive"))
+    ).create("topic");
+    return log;
+  };
+
+  const reopen = async () => {
+    await log.close();
+    return open();
+  };
+
+  const append = async (count: number, from = 0, timestamp?: number) => {
+    const pointers: SegmentPointer[] = [];
+    for (let i = from; i < from + count; i++) {
+      const pointer = await log.append(Buffer.from(`record-${i}`), timestamp);
+      pointers.push(pointer as SegmentPointer);
+    }
+    return pointers;
+  };
+
+  const read = async (pointers: SegmentPointer[]) => {
+    const data: (string | undefined)[] = [];
+    for (const { recordOffset } of pointers) {
+      data.push((await log.readOffset(recordOffset))?.toString());
+    }
+    return data;
+  };
+
+  const files = async (suffix: string) =>
+    (await fs.readdir(path.join(dir, "topic")))
+      .filter((name) => name.endsWith(suffix))
+      .sort((a, b) => parseInt(a, 10) - parseInt(b, 10));
+
+  // the first segment loses half its records, the later ones keep it sealed
+  const removeHalfOfFirst = async () => {
+    const pointers = await append(20);
+    const first = pointers.filter(({ segmentId }) => segmentId === 0);
+    const removed = first.filter((_, i) => i % 2 === 0);
+    return { pointers, removed };
+  };
+
+  const expected = (pointers: SegmentPointer[], removed: SegmentPointer[]) =>
+    pointers.map((pointer, i) =>
+      removed.includes(pointer) ? undefined : `record-${i}`
+    );
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "zephyrmq-segmentlog-"));
+    open();
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await log.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("opens in a directory that doesn't exist yet", async () => {
+    await log.close();
+    await fs.rm(dir, { recursive: true });
+    open();
+
+    const pointers = await append(3);
+    expect(await read(pointers)).toEqual(["record-0", "record-1", "record-2"]);
+  });
+
+  it("rolls back a compaction killed before its segment rename", async () => {
+    const { pointers, removed } = await removeHalfOfFirst();
+
+    // the temporary files are written, the process dies before any rename
+    vi.spyOn(fs, "rename").mockRejectedValue(new Error("crash"));
+    vi.spyOn(fs, "unlink").mockResolvedValue();
+    await log.remove(removed);
+    await vi.waitFor(async () =>
+      expect((await log.getMetrics()).compaction.failedCompactions).toBe(1)
+    );
+    vi.restoreAllMocks();
+    expect(await files(FileCompactor.TMP_SUFFIX)).not.toEqual([]);
+
+    await reopen();
+    expect((await log.getRecoveryReport()).interruptedCompactions).toBe(1);
+    expect(await files(FileCompactor.TMP_SUFFIX)).toEqual([]);
+    // the original segment is intact, removed records wait for the next compaction
+    expect(await read(pointers)).toEqual(expected(pointers, []));
+
+    await log.remove([]);
+    await vi.waitFor(async () =>
+      expect((await log.getMetrics()).compaction.compactedSegments).toBe(1)
+    );
+    expect(await read(pointers)).toEqual(expected(pointers, removed));
+  });
+
+  it("finishes a compaction killed after its segment rename", async () => {
+    const { pointers, removed } = await removeHalfOfFirst();
+
+    // the segment file is renamed, the process dies before its indexes follow
+    const rename = fs.rename;
+    vi.spyOn(fs, "rename").mockImplementation(async (from, to) => {
+      if (String(from).endsWith(`.segment${FileCompactor.TMP_SUFFIX}`)) {
+        return rename(from, to);
+      }
+      throw new Error("crash");
+    });
+    vi.spyOn(fs, "unlink").mockResolvedValue();
+    await log.remove(removed);
+    await vi.waitFor(async () =>
+      expect((await log.getMetrics()).compaction.failedCompactions).toBe(1)
+    );
+    vi.restoreAllMocks();
+
+    await reopen();
+    const report = await log.getRecoveryReport();
+    expect(report.interruptedCompactions).toBe(1);
+    expect(report.rebuiltIndexes).toBe(0);
+    expect(await files(FileCompactor.TMP_SUFFIX)).toEqual([]);
+    expect(await read(pointers)).toEqual(expected(pointers, removed));
+    expect((await log.getMetrics()).deadBytes).toBe(0);
+  });
+
+  it("truncates a torn tail on open and appends after the last whole record", async () => {
+    const pointers = await append(3);
+    await log.close();
+
+    // a length and checksum without the record they announce
+    const active = path.join(dir, "topic", (await files(".segment")).at(-1)!);
+    await fs.appendFile(active, Buffer.from([0, 0, 0, 9, 1, 2, 3, 4, 5]));
+
+    open();
+    expect((await log.getMetrics()).recovery.truncatedBytes).toBe(9);
+    expect(await read(pointers)).toEqual(["record-0", "record-1", "record-2"]);
+
+    const [next] = await append(1, 3);
+    expect(next.recordOffset).toBe(pointers[2].recordOffset + 1);
+    await reopen();
+    expect(await read([...pointers, next])).toEqual([
+      "record-0",
+      "record-1",
+      "record-2",
+      "record-3",
+    ]);
+  });
+
+  it("rebuilds lost indexes from the segment files", async () => {
+    const pointers = await append(20);
+    await log.close();
+
+    const indexes = await files(".index");
+    expect(indexes.length).toBeGreaterThan(1);
+    await fs.unlink(path.join(dir, "topic", indexes[0]));
+    await fs.truncate(path.join(dir, "topic", indexes.at(-1)!), 5);
+
+    open();
+    const report = await log.getRecoveryReport();
+    expect(report.rebuiltIndexes).toBe(2);
+    expect(report.repaired.map(({ segmentId }) => segmentId)).toEqual([
+      parseInt(indexes[0], 10),
+      parseInt(indexes.at(-1)!, 10),
+    ]);
+    expect(await read(pointers)).toEqual(expected(pointers, []));
+    expect(await log.seek(0)).toMatchObject({
+      recordOffset: pointers[0].recordOffset,
+    });
+  });
+
+  it("reads archived segments back from the archive, also after a restart", async () => {
+    const pointers = await append(20, 0, Date.now() - 60_000);
+
+    const archived = await log.archive(1000);
+    expect(archived).toBeGreaterThan(0);
+    expect((await files(".archived")).length).toBe(archived);
+    expect((await files(".segment")).length).toBe(1);
+
+    expect(await read(pointers)).toEqual(expected(pointers, []));
+    await reopen();
+    expect(await read(pointers)).toEqual(expected(pointers, []));
+    expect((await log.getMetrics()).archivedBytes).toBeGreaterThan(0);
+  });
+});
@@ -1,36 +1,87 @@
 import type { SegmentPointer } from "@domain/entities/SegmentPointer";
+import type { IRetentionPolicy } from "@domain/ports/IRetentionPolicy";
 import type { ISegmentLog } from "./interfaces/ISegmentLog";
 import type { AppendRecord } from "./usecases/AppendRecord";
+import type { ArchiveSegments } from "./usecases/ArchiveSegments";
 import type { CloseLog } from "./usecases/CloseLog";
 import type { CollectMetrics } from "./usecases/CollectMetrics";
-import type { CompactSegments } from "./usecases/CompactSegments";
+import type { LocateRecord } from "./usecases/LocateRecord";
+import type { ReadOffset } from "./usecases/ReadOffset";
 import type { ReadRecord } from "./usecases/ReadRecord";
+import type { RemoveRecords } from "./usecases/RemoveRecords";
+import type { ReportRecovery } from "./usecases/ReportRecovery";
+import type { RetainSegments } from "./usecases/RetainSegments";
+import type { SeekRecord } from "./usecases/SeekRecord";
+import type { SnapshotSegments } from "./usecases/SnapshotSegments";
 
 export class SegmentLog implements ISegmentLog {
   constructor(
     private appendRecord: AppendRecord,
     private readRecord: ReadRecord,
-    private compactSegments: CompactSegments,
+    private removeRecords: RemoveRecords,
     private closeLog: CloseLog,
-    private collectMetrics: CollectMetrics
+    private collectMetrics: CollectMetrics,
+    private seekRecord: SeekRecord,
+    private readOffsetRecord: ReadOffset,
+    private locateRecord: LocateRecord,
+    private reportRecovery: ReportRecovery,
+    private retainSegments: RetainSegments,
+    private archiveSegments: ArchiveSegments,
+    private snapshotSegments: SnapshotSegments
   ) {}
 
-  async append(data: Buffer): Promise<SegmentPointer | void> {
-    return this.appendRecord.execute(data);
+  async append(
+    data: Buffer,
+    timestamp?: number
+  ): Promise<SegmentPointer | void> {
+    return this.appendRecord.execute(data, timestamp);
   }
 
   async read(pointer: SegmentPointer): Promise<Buffer | void> {
     return this.readRecord.execute(pointer);
   }
 
+  // reads by record offset go through the segment index, no stored pointer needed
+  async readOffset(recordOffset: number): Promise<Buffer | void> {
+    return this.readOffsetRecord.execute(recordOffset);
+  }
+
+  async locate(recordOffset: number): Promise<SegmentPointer | void> {
+    return this.locateRecord.execute(recordOffset);
+  }
+
+  async seek(timestamp: number): Promise<SegmentPointer | void> {
+    return this.seekRecord.execute(timestamp);
+  }
+
   async remove(pointers: SegmentPointer[]): Promise<void> {
-    return this.compactSegments.execute(pointers);
+    return this.removeRecords.execute(pointers);
+  }
+
+  // removes whole segments, the caller drops what it keeps for their record offsets
+  async retain(policy: IRetentionPolicy) {
+    return this.retainSegments.execute(policy);
+  }
+
+  // moves cold segments to the archive store, reads fetch them back on demand
+  async archive(thresholdMs: number) {
+    return this.archiveSegments.execute(thresholdMs);
+  }
+
+  // seals the current segment and copies the log to dirPath, it opens as a log of its own
+  async snapshot(dirPath: string) {
+    return this.snapshotSegments.execute(dirPath);
   }
 
   async close() {
     await this.closeLog.execute();
   }
 
+  // what the recovery pass on open repaired
+  async getRecoveryReport() {
+    return this.reportRecovery.execute();
+  }
+
   async getMetrics() {
     return this.collectMetrics.execute();
   }
@@ -1,41 +1,73 @@
 import type { ISegmentLog } from "@app/interfaces/ISegmentLog";
 import { SegmentLog } from "@app/SegmentLog";
 import { AppendRecord } from "@app/usecases/AppendRecord";
+import { ArchiveSegments } from "@app/usecases/ArchiveSegments";
 import { CloseLog } from "@app/usecases/CloseLog";
 import { CollectMetrics } from "@app/usecases/CollectMetrics";
-import { CompactSegments } from "@app/usecases/CompactSegments";
+import { LocateRecord } from "@app/usecases/LocateRecord";
+import { ReadOffset } from "@app/usecases/ReadOffset";
 import { ReadRecord } from "@app/usecases/ReadRecord";
+import { RemoveRecords } from "@app/usecases/RemoveRecords";
+import { ReportRecovery } from "@app/usecases/ReportRecovery";
+import { RetainSegments } from "@app/usecases/RetainSegments";
+import { SeekRecord } from "@app/usecases/SeekRecord";
+import { SnapshotSegments } from "@app/usecases/SnapshotSegments";
+import type { IArchiveStore } from "@domain/ports/IArchiveStore";
+import type { SegmentCodec } from "@domain/ports/IBlockCodec";
+import type { ICompactionConfig } from "@domain/ports/ICompactionScheduler";
 import { FileAppender } from "@infra/filesystem/FileAppender";
 import { FileCompactor } from "@infra/filesystem/FileCompactor";
 import { FileIndexManager } from "@infra/filesystem/FileIndexManager";
 import { FileReader } from "@infra/filesystem/FileReader";
+import { FileSegmentCompressor } from "@infra/filesystem/FileSegmentCompressor";
 import { FileSegmentManager } from "@infra/filesystem/FileSegmentManager";
+import { CompactionScheduler } from "@infra/scheduler/CompactionScheduler";
 import { join } from "node:path";
 
 export class FileSegmentLogFactory {
   constructor(
     private readonly baseDir: string,
-    private readonly maxSegmentSizeBytes: number = 10 * 1024 * 1024 // 10MB
+    private readonly maxSegmentSizeBytes: number = 10 * 1024 * 1024, // 10MB
+    private readonly compaction: ICompactionConfig = {},
+    private readonly archiveStore?: IArchiveStore,
+    private readonly codec: SegmentCodec = "none"
   ) {}
 
   create(name: string): ISegmentLog {
     const dir = join(this.baseDir, name);
 
+    const compressor = new FileSegmentCompressor(this.codec);
     const segmentManager = new FileSegmentManager(
       dir,
-      this.maxSegmentSizeBytes
+      name,
+      this.maxSegmentSizeBytes,
+      compressor,
+      this.archiveStore
     );
     const indexManager = new FileIndexManager();
-    const reader = new FileReader(segmentManager);
+    const reader = new FileReader(segmentManager, indexManager, compressor);
     const appender = new FileAppender(segmentManager, indexManager);
-    const compactor = new FileCompactor(dir, segmentManager);
+    const compactor = new FileCompactor(segmentManager, compressor);
+    const scheduler = new CompactionScheduler(
+      segmentManager,
+      compactor,
+      this.compaction
+    );
+    scheduler.start();
 
     return new SegmentLog(
       new AppendRecord(appender),
       new ReadRecord(reader),
-      new CompactSegments(compactor),
-      new CloseLog(segmentManager),
-      new CollectMetrics(segmentManager)
+      new RemoveRecords(compactor, scheduler),
+      new CloseLog(segmentManager, scheduler),
+      new CollectMetrics(segmentManager, scheduler),
+      new SeekRecord(segmentManager, indexManager),
+      new ReadOffset(segmentManager, reader),
+      new LocateRecord(segmentManager, reader),
+      new ReportRecovery(segmentManager),
+      new RetainSegments(segmentManager, scheduler),
+      new ArchiveSegments(segmentManager, scheduler),
+      new SnapshotSegments(segmentManager, scheduler)
     );
   }
 }
@@ -1,14 +1,37 @@
 import type { SegmentPointer } from "@domain/entities/SegmentPointer";
+import type { ICompactionMetrics } from "@domain/ports/ICompactionScheduler";
+import type { IRecoveryReport } from "@domain/ports/IRecoveryReport";
+import type {
+  IRemovedSegment,
+  IRetentionPolicy,
+} from "@domain/ports/IRetentionPolicy";
 
 export interface ISegmentLog {
-  append(data: Buffer): Promise<SegmentPointer | void>;
+  append(data: Buffer, timestamp?: number): Promise<SegmentPointer | void>;
   read(pointer: SegmentPointer): Promise<Buffer | void>;
+  readOffset(recordOffset: number): Promise<Buffer | void>;
+  locate(recordOffset: number): Promise<SegmentPointer | void>;
+  seek(timestamp: number): Promise<SegmentPointer | void>;
   remove(pointers: SegmentPointer[]): Promise<void>;
+  retain(policy: IRetentionPolicy): Promise<IRemovedSegment[]>;
+  archive(thresholdMs: number): Promise<number>;
+  snapshot(dirPath: string): Promise<void>;
   close(): Promise<void>;
+  getRecoveryReport(): Promise<IRecoveryReport>;
   getMetrics(): Promise<{
     totalSize: number;
     recordCount: number;
     currentSegmentId: number | undefined;
     segmentCount: number;
+    localBytes: number;
+    archivedBytes: number;
+    compressionRatio: number;
+    deadBytes: number;
+    compaction: ICompactionMetrics;
+    recovery: {
+      truncatedBytes: number;
+      rebuiltIndexes: number;
+      repairedSegments: number;
+    };
   }>;
 }
@@ -3,7 +3,7 @@ import type { IAppender } from "@domain/ports/IAppender";
 export class AppendRecord {
   constructor(private appender: IAppender) {}
 
-  async execute(data: Buffer) {
-    return this.appender.append(data);
+  async execute(data: Buffer, timestamp?: number) {
+    return this.appender.append(data, timestamp);
   }
 }
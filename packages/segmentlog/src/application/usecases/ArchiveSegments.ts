@@ -0,0 +1,28 @@
+import type { ICompactionScheduler } from "@domain/ports/ICompactionScheduler";
+import type { ISegmentManager } from "@domain/ports/ISegmentManager";
+
+export class ArchiveSegments {
+  constructor(
+    private segmentManager: ISegmentManager,
+    private scheduler: ICompactionScheduler
+  ) {}
+
+  // sealed segments whose newest record is older than thresholdMs, restored copies idle as long are dropped again
+  async execute(thresholdMs: number) {
+    await this.segmentManager.ready;
+    const current = this.segmentManager.getCurrentSegment();
+    const cutoff = Date.now() - thresholdMs;
+    let archived = 0;
+
+    for (const segment of this.segmentManager.getAllSegments()) {
+      if (segment === current || segment.archived) continue;
+      if (segment.maxTimestamp >= cutoff) continue;
+      if (this.scheduler.isCompacting(segment.id)) continue;
+
+      if (await this.segmentManager.archive(segment)) archived++;
+    }
+
+    await this.segmentManager.evictIdle(thresholdMs);
+    return archived;
+  }
+}
@@ -1,9 +1,14 @@
+import type { ICompactionScheduler } from "@domain/ports/ICompactionScheduler";
 import type { ISegmentManager } from "@domain/ports/ISegmentManager";
 
 export class CloseLog {
-  constructor(private segmentManager: ISegmentManager) {}
+  constructor(
+    private segmentManager: ISegmentManager,
+    private scheduler: ICompactionScheduler
+  ) {}
 
   async execute() {
+    await this.scheduler.stop();
     return this.segmentManager.close();
   }
 }
@@ -1,23 +1,56 @@
+import type { ICompactionScheduler } from "@domain/ports/ICompactionScheduler";
 import type { ISegmentManager } from "@domain/ports/ISegmentManager";
 
 export class CollectMetrics {
-  constructor(private segmentManager: ISegmentManager) {}
+  constructor(
+    private segmentManager: ISegmentManager,
+    private scheduler: ICompactionScheduler
+  ) {}
 
   async execute() {
     const currentSegmentId = this.segmentManager.getCurrentSegment()?.id;
     const segments = this.segmentManager.getAllSegments();
     let totalSize = 0;
     let recordCount = 0;
+    let deadBytes = 0;
+    let storedBytes = 0;
+    let archivedBytes = 0;
+    let uncompressedBytes = 0;
+    let compressedBytes = 0;
     for (let segment of segments) {
+      const segmentBytes = segment.compressedSize || segment.size;
       totalSize += segment.size;
       recordCount += segment.recordCount;
+      deadBytes += segment.deadBytes;
+      storedBytes += segmentBytes;
+      if (segment.archived) archivedBytes += segmentBytes;
+      if (segment.codec) {
+        uncompressedBytes += segment.size;
+        compressedBytes += segment.compressedSize;
+      }
     }
 
+    const { truncatedBytes, rebuiltIndexes, repaired } =
+      await this.segmentManager.getRecoveryReport();
+
     return {
       totalSize,
       recordCount,
       currentSegmentId,
       segmentCount: segments.length,
+      localBytes: storedBytes - archivedBytes,
+      archivedBytes,
+      // of compressed segments, 1 when there are none
+      compressionRatio: compressedBytes
+        ? uncompressedBytes / compressedBytes
+        : 1,
+      deadBytes,
+      compaction: this.scheduler.getMetrics(),
+      recovery: {
+        truncatedBytes,
+        rebuiltIndexes,
+        repairedSegments: repaired.length,
+      },
     };
   }
 }
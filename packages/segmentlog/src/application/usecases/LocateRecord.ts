@@ -0,0 +1,20 @@
+import type { IReader } from "@domain/ports/IReader";
+import type { ISegmentManager } from "@domain/ports/ISegmentManager";
+
+export class LocateRecord {
+  constructor(
+    private segmentManager: ISegmentManager,
+    private reader: IReader
+  ) {}
+
+  async execute(recordOffset: number) {
+    await this.segmentManager.ready;
+    const segment = this.segmentManager
+      .getAllSegments()
+      .sort((a, b) => a.id - b.id)
+      .find((s) => s.recordCount && s.lastOffset >= recordOffset);
+    if (!segment) return;
+
+    return this.reader.locate(segment.id, recordOffset);
+  }
+}
@@ -0,0 +1,16 @@
+import type { SegmentPointer } from "@domain/entities/SegmentPointer";
+import type { ICompactionScheduler } from "@domain/ports/ICompactionScheduler";
+import type { ICompactor } from "@domain/ports/ICompactor";
+
+export class RemoveRecords {
+  constructor(
+    private compactor: ICompactor,
+    private scheduler: ICompactionScheduler
+  ) {}
+
+  // the space is reclaimed in the background once a segment crosses the threshold
+  async execute(pointers: SegmentPointer[]) {
+    await this.compactor.markDeleted(pointers);
+    this.scheduler.schedule();
+  }
+}
@@ -0,0 +1,9 @@
+import type { ISegmentManager } from "@domain/ports/ISegmentManager";
+
+export class ReportRecovery {
+  constructor(private segmentManager: ISegmentManager) {}
+
+  async execute() {
+    return this.segmentManager.getRecoveryReport();
+  }
+}
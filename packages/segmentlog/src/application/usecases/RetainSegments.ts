@@ -0,0 +1,46 @@
+import type { ICompactionScheduler } from "@domain/ports/ICompactionScheduler";
+import type {
+  IRemovedSegment,
+  IRetentionPolicy,
+} from "@domain/ports/IRetentionPolicy";
+import type { ISegmentManager } from "@domain/ports/ISegmentManager";
+
+export class RetainSegments {
+  constructor(
+    private segmentManager: ISegmentManager,
+    private scheduler: ICompactionScheduler
+  ) {}
+
+  // only the oldest sealed segments go, so the remaining record offsets stay contiguous
+  async execute({
+    retentionMs = Infinity,
+    maxSizeBytes = Infinity,
+  }: IRetentionPolicy) {
+    await this.segmentManager.ready;
+    const current = this.segmentManager.getCurrentSegment();
+    const segments = this.segmentManager
+      .getAllSegments()
+      .sort((a, b) => a.id - b.id);
+
+    const cutoff = Date.now() - retentionMs;
+    let totalSize = segments.reduce((size, s) => size + s.size, 0);
+    const removed: IRemovedSegment[] = [];
+
+    for (const segment of segments) {
+      if (segment === current || this.scheduler.isCompacting(segment.id)) break;
+      if (segment.maxTimestamp >= cutoff && totalSize <= maxSizeBytes) break;
+
+      await this.segmentManager.remove(segment);
+      totalSize -= segment.size;
+
+      removed.push({
+        segmentId: segment.id,
+        firstOffset: segment.baseOffset + 1,
+        lastOffset: segment.lastOffset,
+        size: segment.size,
+      });
+    }
+
+    return removed;
+  }
+}
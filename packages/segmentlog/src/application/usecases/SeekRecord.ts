@@ -0,0 +1,26 @@
+import type { IIndexManager } from "@domain/ports/IIndexManager";
+import type { ISegmentManager } from "@domain/ports/ISegmentManager";
+
+export class SeekRecord {
+  constructor(
+    private segmentManager: ISegmentManager,
+    private indexManager: IIndexManager
+  ) {}
+
+  async execute(timestamp: number) {
+    await this.segmentManager.ready;
+    const segments = this.segmentManager
+      .getAllSegments()
+      .sort((a, b) => a.id - b.id);
+
+    for (const segment of segments) {
+      if (segment.maxTimestamp < timestamp) continue;
+
+      const pointer = await this.indexManager.findByTimestamp(
+        segment,
+        timestamp
+      );
+      if (pointer) return pointer;
+    }
+  }
+}
@@ -0,0 +1,24 @@
+import type { ICompactionScheduler } from "@domain/ports/ICompactionScheduler";
+import type { ISegmentManager } from "@domain/ports/ISegmentManager";
+
+export class SnapshotSegments {
+  constructor(
+    private segmentManager: ISegmentManager,
+    private scheduler: ICompactionScheduler
+  ) {}
+
+  // no compaction rewrites a segment during the copy and the current one is sealed first
+  async execute(dirPath: string) {
+    await this.segmentManager.ready;
+    await this.scheduler.stop();
+
+    try {
+      if (this.segmentManager.getCurrentSegment()?.recordCount) {
+        await this.segmentManager.roll();
+      }
+      await this.segmentManager.snapshot(dirPath);
+    } finally {
+      this.scheduler.start();
+    }
+  }
+}
@@ -1,5 +1,5 @@
 import type { SegmentPointer } from "../entities/SegmentPointer";
 
 export interface IAppender {
-  append(data: Buffer): Promise<SegmentPointer | void>;
+  append(data: Buffer, timestamp?: number): Promise<SegmentPointer | void>;
 }
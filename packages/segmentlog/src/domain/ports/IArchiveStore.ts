@@ -0,0 +1,6 @@
+// blob storage for cold segments, keys look like "<topic>/<file name>"
+export interface IArchiveStore {
+  put(key: string, filePath: string): Promise<void>;
+  get(key: string, filePath: string): Promise<boolean>; // false when the key is missing
+  delete(key: string): Promise<void>;
+}
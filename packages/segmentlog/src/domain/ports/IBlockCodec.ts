@@ -0,0 +1,7 @@
+export type SegmentCodec = "none" | "snappy" | "zstd";
+
+export interface IBlockCodec {
+  id: number; // kept in the segment header, 0 is uncompressed
+  compress(data: Buffer): Buffer;
+  decompress(data: Buffer): Buffer;
+}
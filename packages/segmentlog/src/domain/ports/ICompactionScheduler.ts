@@ -0,0 +1,26 @@
+export interface ICompactionConfig {
+  minDeadRatio?: number; // 0.5 default, removed share of a sealed segment that triggers compaction
+  maxConcurrent?: number; // 1 default
+  intervalMs?: number; // 60_000 default
+}
+
+export interface ICompactionProgress {
+  segmentId: number;
+  copiedBytes: number;
+  totalBytes: number;
+}
+
+export interface ICompactionMetrics {
+  running: ICompactionProgress[];
+  compactedSegments: number;
+  reclaimedBytes: number;
+  failedCompactions: number;
+}
+
+export interface ICompactionScheduler {
+  start(): void;
+  stop(): Promise<void>;
+  schedule(): void;
+  isCompacting(segmentId: number): boolean;
+  getMetrics(): ICompactionMetrics;
+}
@@ -1,6 +1,9 @@
 import type { SegmentPointer } from "../entities/SegmentPointer";
 
 export interface ICompactor {
-  compact(deletedPointers: SegmentPointer[]): Promise<void>;
-  compactSegment(segmentId: number, offsetsToDelete: number[]): Promise<void>;
+  markDeleted(pointers: SegmentPointer[]): Promise<void>;
+  compactSegment(
+    segmentId: number,
+    onProgress?: (copiedBytes: number) => void
+  ): Promise<number>; // reclaimed bytes
 }
@@ -3,4 +3,17 @@ import type { ISegmentInfo } from "./ISegmentInfo";
 
 export interface IIndexManager {
   writeIndexEntry(segment: ISegmentInfo, record: SegmentPointer): Promise<void>;
+  writeTimeIndexEntry(
+    segment: ISegmentInfo,
+    record: SegmentPointer,
+    timestamp: number
+  ): Promise<void>;
+  findPosition(
+    segment: ISegmentInfo,
+    recordOffset: number
+  ): Promise<number | void>;
+  findByTimestamp(
+    segment: ISegmentInfo,
+    timestamp: number
+  ): Promise<SegmentPointer | void>;
 }
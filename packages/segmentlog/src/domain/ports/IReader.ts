@@ -2,4 +2,9 @@ import type { SegmentPointer } from "../entities/SegmentPointer";
 
 export interface IReader {
   read(pointer: SegmentPointer): Promise<Buffer | void>;
+  readOffset(segmentId: number, recordOffset: number): Promise<Buffer | void>;
+  locate(
+    segmentId: number,
+    recordOffset: number
+  ): Promise<SegmentPointer | void>; // where the record is now, compaction moves it
 }
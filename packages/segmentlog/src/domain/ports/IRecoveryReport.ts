@@ -0,0 +1,16 @@
+export interface ISegmentRecovery {
+  segmentId: number;
+  recordCount: number;
+  truncatedBytes: number; // torn or corrupt tail cut from the segment
+  rebuiltIndex: boolean;
+  rebuiltTimeIndex: boolean;
+}
+
+export interface IRecoveryReport {
+  ts: number;
+  segmentCount: number;
+  truncatedBytes: number;
+  rebuiltIndexes: number;
+  interruptedCompactions: number; // rolled back or finished on open
+  repaired: ISegmentRecovery[]; // only segments that needed a repair
+}
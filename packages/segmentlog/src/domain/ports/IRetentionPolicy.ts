@@ -0,0 +1,11 @@
+export interface IRetentionPolicy {
+  retentionMs?: number; // segments whose newest record is older are removed
+  maxSizeBytes?: number; // the oldest segments are removed while the log is larger
+}
+
+export interface IRemovedSegment {
+  segmentId: number;
+  firstOffset: number; // record offsets the segment held
+  lastOffset: number;
+  size: number;
+}
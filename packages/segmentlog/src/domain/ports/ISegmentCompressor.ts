@@ -0,0 +1,14 @@
+import type { ISegmentInfo } from "./ISegmentInfo";
+
+export interface ISegmentCompressor {
+  compress(
+    segment: ISegmentInfo,
+    swap: (commit: () => Promise<void>) => Promise<void>
+  ): Promise<void>;
+  load(segment: ISegmentInfo): Promise<void>;
+  read(
+    segment: ISegmentInfo,
+    position: number,
+    length: number
+  ): Promise<Buffer>;
+}
@@ -4,9 +4,20 @@ export interface ISegmentInfo {
   id: number;
   filePath: string;
   indexFilePath: string;
+  timeIndexFilePath: string;
+  deletedFilePath: string; // removed records waiting for compaction
+  archivedFilePath: string; // header and size of a segment moved to the archive
   baseOffset: number;
   lastOffset: number;
   size: number;
   recordCount: number;
+  maxTimestamp: number;
+  deadBytes: number; // bytes of removed records still in the file
+  compacted: boolean; // records moved, pointer positions go through the index
+  archived: boolean; // the segment file lives in the archive, a local copy is only a cache
+  codec: number; // block codec of a sealed segment, 0 is uncompressed
+  compressedSize: number; // file size of a compressed segment, size stays the uncompressed one
+  blocks: [number, number, number][]; // [position, filePosition, length] of compressed blocks
+  sparseIndex: [number, number][]; // [recordOffset, index entry], every n-th entry
   fileHandle?: fs.FileHandle;
 }
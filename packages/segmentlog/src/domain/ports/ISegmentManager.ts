@@ -1,10 +1,21 @@
+import type { IRecoveryReport } from "./IRecoveryReport";
 import type { ISegmentInfo } from "./ISegmentInfo";
 
 export interface ISegmentManager {
+  ready: Promise<void>;
   getMaxSegmentSizeBytes(): number;
+  roll(): Promise<void>;
+  remove(segment: ISegmentInfo): Promise<void>;
+  compress(segment: ISegmentInfo): Promise<void>;
+  archive(segment: ISegmentInfo): Promise<boolean>;
+  read<T>(segment: ISegmentInfo, read: () => Promise<T>): Promise<T | void>; // void when the file is gone
+  swap(segment: ISegmentInfo, swap: () => Promise<void>): Promise<void>; // waits for the reads of the old file
+  evictIdle(idleMs: number): Promise<void>;
+  snapshot(dirPath: string): Promise<void>;
   close(): Promise<void>;
   getSegments(): Map<number, ISegmentInfo>;
   getCurrentSegment(): ISegmentInfo | undefined;
   setCurrentSegment(segment: ISegmentInfo): void;
   getAllSegments(): ISegmentInfo[];
+  getRecoveryReport(): Promise<IRecoveryReport>;
 }
@@ -1,3 +1,9 @@
 export { FileSegmentLogFactory } from "@app/factory/FileSegmentLogFactory";
 export * from "@app/interfaces/ISegmentLog";
 export * from "@domain/entities/SegmentPointer";
+export type * from "@domain/ports/IArchiveStore";
+export type * from "@domain/ports/IBlockCodec";
+export type * from "@domain/ports/ICompactionScheduler";
+export type * from "@domain/ports/IRecoveryReport";
+export type * from "@domain/ports/IRetentionPolicy";
+export { LocalArchiveStore } from "@infra/archive/LocalArchiveStore";
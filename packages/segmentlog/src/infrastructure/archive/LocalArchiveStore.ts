@@ -0,0 +1,35 @@
+import type { IArchiveStore } from "@domain/ports/IArchiveStore";
+import fs from "node:fs/promises";
+import path from "node:path";
+
+// archive in a local directory, e.g. a mounted network or cold disk
+export class LocalArchiveStore implements IArchiveStore {
+  constructor(private dirPath: string) {}
+
+  async put(key: string, filePath: string) {
+    const target = path.join(this.dirPath, key);
+
+    try {
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      // a half copied file never shows up under its key
+      await fs.copyFile(filePath, `${target}.tmp`);
+      await fs.rename(`${target}.tmp`, target);
+    } catch (cause) {
+      throw new Error(`Failed to archive ${key}`, { cause });
+    }
+  }
+
+  async get(key: string, filePath: string) {
+    try {
+      await fs.copyFile(path.join(this.dirPath, key), filePath);
+      return true;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return false;
+      throw new Error(`Failed to fetch ${key}`, { cause: err });
+    }
+  }
+
+  async delete(key: string) {
+    await fs.unlink(path.join(this.dirPath, key)).catch(() => {});
+  }
+}
@@ -0,0 +1,14 @@
+import type { IBlockCodec } from "@domain/ports/IBlockCodec";
+import snappy from "snappy";
+
+export class SnappyBlockCodec implements IBlockCodec {
+  id = 1;
+
+  compress(data: Buffer): Buffer {
+    return snappy.compressSync(data);
+  }
+
+  decompress(data: Buffer): Buffer {
+    return snappy.uncompressSync(data) as Buffer;
+  }
+}
@@ -0,0 +1,31 @@
+import type { IBlockCodec } from "@domain/ports/IBlockCodec";
+import { createRequire } from "node:module";
+
+type Zstd = typeof import("zstd-napi");
+
+const require = createRequire(import.meta.url);
+
+export class ZstdBlockCodec implements IBlockCodec {
+  id = 2;
+  private zstd?: Zstd;
+
+  compress(data: Buffer): Buffer {
+    return this.load().compress(data);
+  }
+
+  decompress(data: Buffer): Buffer {
+    return this.load().decompress(data);
+  }
+
+  // a native binding, only segments that use zstd need it
+  private load() {
+    try {
+      this.zstd ??= require("zstd-napi") as Zstd;
+      return this.zstd;
+    } catch (cause) {
+      throw new Error("zstd compression needs the zstd-napi package", {
+        cause,
+      });
+    }
+  }
+}
@@ -13,14 +13,19 @@ export class FileAppender implements IAppender {
     private indexManager: IIndexManager
   ) {}
 
-  async append(data: Buffer): Promise<SegmentPointer | void> {
-    const segment = this.segmentManager.getCurrentSegment();
-    if (!segment) return;
-
+  async append(
+    data: Buffer,
+    timestamp = Date.now()
+  ): Promise<SegmentPointer | void> {
     await this.mutex.acquire();
 
     try {
-      const checksum = crc.buf(data);
+      // a roll under the previous append replaces the current segment
+      await this.segmentManager.ready;
+      const segment = this.segmentManager.getCurrentSegment();
+      if (!segment) return;
+
+      const checksum = crc.buf(data) >>> 0; // crc-32 is signed
       const lengthBuffer = Buffer.alloc(8);
       lengthBuffer.writeUInt32BE(data.length, 0);
       lengthBuffer.writeUInt32BE(checksum, 4);
@@ -35,17 +40,24 @@ export class FileAppender implements IAppender {
       pointer.length = data.length;
       pointer.recordOffset = segment.lastOffset + 1;
 
+      // the time index must stay sorted even if the clock goes back
+      const maxTimestamp = Math.max(timestamp, segment.maxTimestamp);
+
       await this.indexManager.writeIndexEntry(segment, pointer);
+      await this.indexManager.writeTimeIndexEntry(
+        segment,
+        pointer,
+        maxTimestamp
+      );
 
       segment.size += 8 + data.length;
       segment.lastOffset += 1;
       segment.recordCount += 1;
+      segment.maxTimestamp = maxTimestamp;
 
+      // sealed segments keep their handle for reads and compaction
       if (segment.size >= this.segmentManager.getMaxSegmentSizeBytes()) {
-        await segment.fileHandle!.sync();
-        await segment.fileHandle!.close();
-        segment.fileHandle = undefined;
-        this.segmentManager.setCurrentSegment({ ...segment }); // rotate
+        await this.segmentManager.roll();
       }
 
       return pointer;
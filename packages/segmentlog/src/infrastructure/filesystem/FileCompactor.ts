@@ -1,180 +1,246 @@
 import type { SegmentPointer } from "@domain/entities/SegmentPointer";
 import type { ICompactor } from "@domain/ports/ICompactor";
+import type { ISegmentCompressor } from "@domain/ports/ISegmentCompressor";
 import type { ISegmentInfo } from "@domain/ports/ISegmentInfo";
 import type { ISegmentManager } from "@domain/ports/ISegmentManager";
-import crc from "crc-32";
+import { FileIndexManager } from "@infra/filesystem/FileIndexManager";
+import { Mutex } from "@util/Mutex";
 import fs from "fs/promises";
-import path from "path";
 
 export class FileCompactor implements ICompactor {
   static HEADER_SIZE = 24;
+  // [recordOffset u64][length u32]
+  static DELETED_ENTRY_SIZE = 12;
+  static TMP_SUFFIX = ".compacting";
+
+  // removals and the compaction swap both rewrite the deleted file
+  private mutex = new Mutex();
 
   constructor(
-    private baseDir: string,
-    private segmentManager: ISegmentManager
+    private segmentManager: ISegmentManager,
+    private compressor: ISegmentCompressor
   ) {}
 
-  async compact(deletedPointers: SegmentPointer[]): Promise<void> {
-    const recordsBySegment = new Map<number, Set<number>>();
+  static deadBytes(deleted: Buffer) {
+    const entrySize = FileCompactor.DELETED_ENTRY_SIZE;
+    let deadBytes = 0;
 
-    for (const pointer of deletedPointers) {
-      if (!recordsBySegment.has(pointer.segmentId)) {
-        recordsBySegment.set(pointer.segmentId, new Set());
-      }
-      recordsBySegment.get(pointer.segmentId)?.add(pointer.offset);
+    for (let i = 0; i + entrySize <= deleted.length; i += entrySize) {
+      deadBytes += 8 + deleted.readUInt32BE(i + 8);
     }
 
-    const compactionPromises: Promise<void>[] = [];
-    for (const [segmentId, offsetsToDelete] of recordsBySegment.entries()) {
-      compactionPromises.push(
-        this.compactSegment(segmentId, [...offsetsToDelete])
-      );
+    return deadBytes;
+  }
+
+  // records stay in place until their segment is compacted
+  async markDeleted(pointers: SegmentPointer[]): Promise<void> {
+    await this.segmentManager.ready;
+    const entrySize = FileCompactor.DELETED_ENTRY_SIZE;
+    const pointersBySegment = new Map<number, SegmentPointer[]>();
+
+    for (const pointer of pointers) {
+      if (!pointersBySegment.has(pointer.segmentId)) {
+        pointersBySegment.set(pointer.segmentId, []);
+      }
+      pointersBySegment.get(pointer.segmentId)!.push(pointer);
     }
 
+    await this.mutex.acquire();
+
     try {
-      await Promise.all(compactionPromises);
+      for (const [segmentId, deleted] of pointersBySegment) {
+        const segment = this.segmentManager.getSegments().get(segmentId);
+        if (!segment) continue;
+
+        const entries = Buffer.alloc(deleted.length * entrySize);
+        deleted.forEach((pointer, i) => {
+          entries.writeBigUInt64BE(BigInt(pointer.recordOffset), i * entrySize);
+          entries.writeUInt32BE(pointer.length, i * entrySize + 8);
+        });
+
+        const handle = await fs.open(segment.deletedFilePath, "a");
+        await handle.write(entries);
+        await handle.sync();
+        await handle.close();
+
+        segment.deadBytes += FileCompactor.deadBytes(entries);
+      }
     } catch (cause) {
-      throw new Error("Failed to compact segments", { cause });
+      throw new Error("Failed to mark records deleted", { cause });
+    } finally {
+      this.mutex.release();
     }
   }
 
+  // live records are copied to temporary files, the segment rename commits them
   async compactSegment(
     segmentId: number,
-    offsetsToDelete: number[]
-  ): Promise<void> {
+    onProgress?: (copiedBytes: number) => void
+  ): Promise<number> {
+    await this.segmentManager.ready;
     const segment = this.segmentManager.getSegments().get(segmentId);
-    if (!segment) return;
+    if (!segment?.deadBytes || segment.archived) return 0;
+    if (segment === this.segmentManager.getCurrentSegment()) return 0;
+    // never races the compression swap
+    await this.segmentManager.compress(segment);
+
+    const paths = [
+      segment.filePath,
+      segment.indexFilePath,
+      segment.timeIndexFilePath,
+      segment.deletedFilePath,
+    ];
+    const tmp = (p: string) => p + FileCompactor.TMP_SUFFIX;
 
     try {
-      const allRecords = await this.readAllFromSegment(segment);
-      const setToDelete = new Set(offsetsToDelete);
-      const filteredRecords = allRecords.filter(
-        (r) => !setToDelete.has(r.offset)
-      );
-
-      const newSegment = await this.createNewCompactedSegment(
+      const deleted = await fs.readFile(segment.deletedFilePath);
+      const compacted = await this.copyLiveRecords(
         segment,
-        filteredRecords
+        this.readDeletedOffsets(deleted),
+        onProgress
       );
 
-      await this.replaceSegment(segment, newSegment);
-
-      this.segmentManager.getSegments().delete(segment.id);
-      this.segmentManager.getSegments().set(newSegment.id, newSegment);
-
-      if (this.segmentManager.getCurrentSegment()?.id === segment.id) {
-        this.segmentManager.setCurrentSegment(newSegment);
+      await this.mutex.acquire();
+
+      try {
+        // removals that arrived while copying wait for the next round
+        const current = await fs.readFile(segment.deletedFilePath);
+        const pending = current.subarray(deleted.length);
+        await this.writeSynced(tmp(segment.deletedFilePath), pending);
+
+        const reclaimedBytes = segment.size - compacted.size;
+
+        // reads resolve positions through the old index, they finish on the old file
+        await this.segmentManager.swap(segment, async () => {
+          for (const p of paths) await fs.rename(tmp(p), p);
+
+          const previous = segment.fileHandle;
+          segment.fileHandle = await fs.open(segment.filePath, "r");
+          segment.size = compacted.size;
+          segment.recordCount = compacted.recordCount;
+          segment.sparseIndex = compacted.sparseIndex;
+          segment.deadBytes = FileCompactor.deadBytes(pending);
+          segment.compacted = true;
+          segment.codec = 0;
+          segment.compressedSize = 0;
+          segment.blocks = [];
+          await previous?.close();
+        });
+
+        // the copy is written uncompressed
+        this.segmentManager.compress(segment);
+
+        return reclaimedBytes;
+      } finally {
+        this.mutex.release();
       }
     } catch (cause) {
-      throw new Error(`Failed to compact segment ${segmentId}`, {
-        cause,
-      });
+      for (const p of paths) await fs.unlink(tmp(p)).catch(() => {});
+      throw new Error(`Failed to compact segment ${segmentId}`, { cause });
     }
   }
 
-  private async readAllFromSegment(
-    segment: ISegmentInfo
-  ): Promise<SegmentPointer[]> {
-    const result: SegmentPointer[] = [];
-    let pos = FileCompactor.HEADER_SIZE;
-
-    while (true) {
-      const lenBuf = Buffer.alloc(8);
-      let handle = segment.fileHandle;
-      if (!handle) handle = await fs.open(segment.filePath, "r");
-
-      const { bytesRead } = await handle.read(lenBuf, 0, 8, pos);
-      if (bytesRead < 8) break;
-
-      const length = lenBuf.readUInt32BE(0);
-      const checksum = lenBuf.readUInt32BE(4);
-      const msgBuffer = Buffer.alloc(length);
-
-      await handle.read(msgBuffer, 0, length, pos + 8);
-
-      if (checksum !== crc.buf(msgBuffer)) break;
+  private readDeletedOffsets(deleted: Buffer) {
+    const entrySize = FileCompactor.DELETED_ENTRY_SIZE;
+    const recordOffsets = new Set<number>();
 
-      const offsets = result.map((r) => r.recordOffset);
-      const recordOffset = Math.max(...offsets, segment.baseOffset - 1) + 1;
-
-      result.push({
-        segmentId: segment.id,
-        offset: pos,
-        length,
-        recordOffset,
-      });
-
-      pos += 8 + length;
-      if (!segment.fileHandle) await handle.close();
+    for (let i = 0; i + entrySize <= deleted.length; i += entrySize) {
+      recordOffsets.add(Number(deleted.readBigUInt64BE(i)));
     }
 
-    return result;
+    return recordOffsets;
   }
 
-  private async createNewCompactedSegment(
-    original: ISegmentInfo,
-    filteredRecords: SegmentPointer[]
-  ): Promise<ISegmentInfo> {
-    const newFilePath = path.join(this.baseDir, `${original.id}.compacted`);
-    const newFileHandle = await fs.open(newFilePath, "w+");
-
-    let originalHandle = original.fileHandle;
-    if (!originalHandle) {
-      originalHandle = await fs.open(original.filePath, "r");
-    }
-
-    const header = Buffer.alloc(FileCompactor.HEADER_SIZE);
-    const { bytesRead } = await originalHandle.read(
-      header,
-      0,
-      FileCompactor.HEADER_SIZE,
-      0
+  // walks the index so every kept record keeps its record offset and timestamp
+  private async copyLiveRecords(
+    segment: ISegmentInfo,
+    deleted: Set<number>,
+    onProgress?: (copiedBytes: number) => void
+  ) {
+    const { INDEX_ENTRY_SIZE, TIME_INDEX_ENTRY_SIZE, SPARSE_INDEX_INTERVAL } =
+      FileIndexManager;
+    const index = await fs.readFile(segment.indexFilePath);
+    const timeIndex = await fs.readFile(segment.timeIndexFilePath);
+    const handle = await fs.open(
+      segment.filePath + FileCompactor.TMP_SUFFIX,
+      "w"
     );
 
-    if (bytesRead < FileCompactor.HEADER_SIZE) {
-      throw new Error("Invalid segment header");
-    }
-
-    await newFileHandle.write(header, 0, FileCompactor.HEADER_SIZE, 0);
-
-    let currentPos = FileCompactor.HEADER_SIZE;
-
-    for (const record of filteredRecords) {
-      const buffer = Buffer.alloc(record.length);
-      let handle = original.fileHandle;
+    const newIndex: Buffer[] = [];
+    const newTimeIndex: Buffer[] = [];
+    const sparseIndex: [number, number][] = [];
+    let position = FileCompactor.HEADER_SIZE;
+    let copiedBytes = 0;
 
-      if (!handle) handle = await fs.open(original.filePath, "r");
-      await handle.read(buffer, 0, record.length, record.offset);
-      if (!original.fileHandle) await handle.close();
+    try {
+      const header = Buffer.alloc(FileCompactor.HEADER_SIZE);
+      await segment.fileHandle!.read(header, 0, FileCompactor.HEADER_SIZE, 0);
+      header.writeUInt8(1, 22); // compacted flag
+      header.writeUInt8(0, 23); // codec
+      await handle.write(header, 0, FileCompactor.HEADER_SIZE, 0);
+
+      for (let i = 0; i < segment.recordCount; i++) {
+        const recordOffset = Number(
+          index.readBigUInt64BE(i * INDEX_ENTRY_SIZE)
+        );
+        const start = index.readUInt32BE(i * INDEX_ENTRY_SIZE + 8);
+
+        const lenBuf = await this.compressor.read(segment, start, 8);
+        const length = 8 + lenBuf.readUInt32BE(0);
+
+        copiedBytes += length;
+        onProgress?.(copiedBytes);
+        if (deleted.has(recordOffset)) continue;
+
+        const record = await this.compressor.read(segment, start, length);
+        await handle.write(record, 0, length, position);
+
+        if (newIndex.length % SPARSE_INDEX_INTERVAL === 0) {
+          sparseIndex.push([recordOffset, newIndex.length]);
+        }
+
+        const indexEntry = Buffer.alloc(INDEX_ENTRY_SIZE);
+        indexEntry.writeBigUInt64BE(BigInt(recordOffset), 0);
+        indexEntry.writeUInt32BE(position, 8);
+        newIndex.push(indexEntry);
+
+        const timeEntry = Buffer.from(
+          timeIndex.subarray(
+            i * TIME_INDEX_ENTRY_SIZE,
+            (i + 1) * TIME_INDEX_ENTRY_SIZE
+          )
+        );
+        timeEntry.writeUInt32BE(position, 16);
+        newTimeIndex.push(timeEntry);
+
+        position += length;
+      }
 
-      await newFileHandle.write(buffer, 0, buffer.length, currentPos);
-      currentPos += record.length;
+      await handle.sync();
+    } finally {
+      await handle.close();
     }
 
-    await newFileHandle.sync();
-    await newFileHandle.close();
-
-    return {
-      id: original.id,
-      filePath: newFilePath,
-      baseOffset: original.baseOffset,
-      size: currentPos,
-      recordCount: filteredRecords.length,
-      fileHandle: undefined,
-    } as ISegmentInfo;
-  }
+    await this.writeSynced(
+      segment.indexFilePath + FileCompactor.TMP_SUFFIX,
+      Buffer.concat(newIndex)
+    );
+    await this.writeSynced(
+      segment.timeIndexFilePath + FileCompactor.TMP_SUFFIX,
+      Buffer.concat(newTimeIndex)
+    );
 
-  private async replaceSegment(
-    oldSegment: ISegmentInfo,
-    newSegment: ISegmentInfo
-  ): Promise<void> {
-    const oldPath = oldSegment.filePath;
-    const newPath = newSegment.filePath;
+    return { size: position, recordCount: newIndex.length, sparseIndex };
+  }
 
-    await fs.unlink(oldPath).catch(() => {});
-    await fs.rename(newPath, oldPath);
-    const fileHandle = await fs.open(oldPath, "r+");
+  private async writeSynced(filePath: string, data: Buffer) {
+    const handle = await fs.open(filePath, "w");
 
-    newSegment.fileHandle = fileHandle;
+    try {
+      await handle.write(data);
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
   }
 }
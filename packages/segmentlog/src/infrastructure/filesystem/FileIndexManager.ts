@@ -1,10 +1,14 @@
 import fs from "fs/promises";
-import type { SegmentPointer } from "@domain/entities/SegmentPointer";
+import { SegmentPointer } from "@domain/entities/SegmentPointer";
 import type { IIndexManager } from "@domain/ports/IIndexManager";
 import type { ISegmentInfo } from "@domain/ports/ISegmentInfo";
 
 export class FileIndexManager implements IIndexManager {
   static INDEX_ENTRY_SIZE = 12;
+  // every n-th index entry is kept in memory
+  static SPARSE_INDEX_INTERVAL = 64;
+  // [timestamp u64][recordOffset u64][position u32][length u32]
+  static TIME_INDEX_ENTRY_SIZE = 24;
 
   async writeIndexEntry(
     segment: ISegmentInfo,
@@ -25,10 +29,123 @@ export class FileIndexManager implements IIndexManager {
       );
 
       await indexHandle.close();
+
+      if (segment.recordCount % FileIndexManager.SPARSE_INDEX_INTERVAL === 0) {
+        segment.sparseIndex.push([record.recordOffset, segment.recordCount]);
+      }
     } catch (cause) {
       throw new Error(`"Failed to write index entry"`, {
         cause,
       });
     }
   }
+
+  // the sparse index narrows the range, then binary search over the index file
+  async findPosition(
+    segment: ISegmentInfo,
+    recordOffset: number
+  ): Promise<number | void> {
+    const { sparseIndex } = segment;
+    const entrySize = FileIndexManager.INDEX_ENTRY_SIZE;
+
+    let i = sparseIndex.length - 1;
+    while (i >= 0 && sparseIndex[i][0] > recordOffset) i--;
+    if (i < 0) return;
+
+    let indexHandle: fs.FileHandle | undefined;
+
+    try {
+      indexHandle = await fs.open(segment.indexFilePath, "r");
+      const { size } = await indexHandle.stat();
+      const entry = Buffer.alloc(entrySize);
+
+      let low = sparseIndex[i][1];
+      let high = sparseIndex[i + 1]?.[1] ?? Math.floor(size / entrySize);
+
+      while (low < high) {
+        const mid = (low + high) >>> 1;
+        await indexHandle.read(entry, 0, entrySize, mid * entrySize);
+        const offset = Number(entry.readBigUInt64BE(0));
+
+        if (offset === recordOffset) return entry.readUInt32BE(8);
+        if (offset < recordOffset) low = mid + 1;
+        else high = mid;
+      }
+    } catch (cause) {
+      throw new Error("Failed to search index", { cause });
+    } finally {
+      await indexHandle?.close();
+    }
+  }
+
+  async writeTimeIndexEntry(
+    segment: ISegmentInfo,
+    record: SegmentPointer,
+    timestamp: number
+  ): Promise<void> {
+    try {
+      const entry = Buffer.alloc(FileIndexManager.TIME_INDEX_ENTRY_SIZE);
+      entry.writeBigUInt64BE(BigInt(timestamp), 0);
+      entry.writeBigUInt64BE(BigInt(record.recordOffset), 8);
+      entry.writeUInt32BE(record.offset, 16);
+      entry.writeUInt32BE(record.length, 20);
+
+      const indexHandle = await fs.open(segment.timeIndexFilePath, "a");
+
+      await indexHandle.write(
+        entry,
+        0,
+        FileIndexManager.TIME_INDEX_ENTRY_SIZE,
+        segment.recordCount * FileIndexManager.TIME_INDEX_ENTRY_SIZE
+      );
+
+      await indexHandle.close();
+    } catch (cause) {
+      throw new Error("Failed to write time index entry", { cause });
+    }
+  }
+
+  // binary search for the first entry at or after timestamp
+  async findByTimestamp(
+    segment: ISegmentInfo,
+    timestamp: number
+  ): Promise<SegmentPointer | void> {
+    const entrySize = FileIndexManager.TIME_INDEX_ENTRY_SIZE;
+    let indexHandle: fs.FileHandle | undefined;
+
+    try {
+      indexHandle = await fs.open(segment.timeIndexFilePath, "r");
+      const { size } = await indexHandle.stat();
+      const entry = Buffer.alloc(entrySize);
+
+      const readEntry = async (i: number) => {
+        await indexHandle!.read(entry, 0, entrySize, i * entrySize);
+        return Number(entry.readBigUInt64BE(0));
+      };
+
+      let low = 0;
+      let high = Math.floor(size / entrySize);
+
+      while (low < high) {
+        const mid = (low + high) >>> 1;
+        if ((await readEntry(mid)) < timestamp) low = mid + 1;
+        else high = mid;
+      }
+
+      if (low === Math.floor(size / entrySize)) return;
+      await readEntry(low);
+
+      const pointer = new SegmentPointer();
+      pointer.segmentId = segment.id;
+      pointer.recordOffset = Number(entry.readBigUInt64BE(8));
+      pointer.offset = entry.readUInt32BE(16);
+      pointer.length = entry.readUInt32BE(20);
+
+      return pointer;
+    } catch (cause) {
+      throw new Error("Failed to search time index", { cause });
+    } finally {
+      await indexHandle?.close();
+    }
+  }
 }
@@ -1,26 +1,87 @@
-import type { SegmentPointer } from "@domain/entities/SegmentPointer";
+import { SegmentPointer } from "@domain/entities/SegmentPointer";
+import type { IIndexManager } from "@domain/ports/IIndexManager";
 import type { IReader } from "@domain/ports/IReader";
+import type { ISegmentCompressor } from "@domain/ports/ISegmentCompressor";
 import type { ISegmentManager } from "@domain/ports/ISegmentManager";
 
 export class FileReader implements IReader {
-  constructor(private segmentManager: ISegmentManager) {}
+  constructor(
+    private segmentManager: ISegmentManager,
+    private indexManager: IIndexManager,
+    private compressor: ISegmentCompressor
+  ) {}
 
   async read(pointer: SegmentPointer): Promise<Buffer | void> {
+    await this.segmentManager.ready;
     const segment = this.segmentManager.getSegments().get(pointer.segmentId);
     if (!segment) return;
 
     try {
-      const buffer = Buffer.alloc(pointer.length);
-      await segment.fileHandle!.read(
-        buffer,
-        0,
-        pointer.length,
-        pointer.offset + 8
-      );
-
-      return buffer;
+      return await this.segmentManager.read(segment, async () => {
+        // compaction moves records, their record offset still finds them
+        const position = segment.compacted
+          ? await this.indexManager.findPosition(segment, pointer.recordOffset)
+          : pointer.offset;
+        if (position === undefined) return;
+
+        return this.compressor.read(segment, position + 8, pointer.length);
+      });
+    } catch (cause) {
+      throw new Error("Failed to read", { cause });
+    }
+  }
+
+  // the index resolves the position under the read, a compaction can't move it meanwhile
+  async readOffset(segmentId: number, recordOffset: number) {
+    const segment = this.segmentManager.getSegments().get(segmentId);
+    if (!segment) return;
+
+    try {
+      return await this.segmentManager.read(segment, async () => {
+        const position = await this.indexManager.findPosition(
+          segment,
+          recordOffset
+        );
+        if (position === undefined) return;
+
+        const lenBuf = await this.compressor.read(segment, position, 8);
+        if (lenBuf.length < 8) return;
+
+        return this.compressor.read(
+          segment,
+          position + 8,
+          lenBuf.readUInt32BE(0)
+        );
+      });
     } catch (cause) {
       throw new Error("Failed to read", { cause });
     }
   }
+
+  async locate(segmentId: number, recordOffset: number) {
+    const segment = this.segmentManager.getSegments().get(segmentId);
+    if (!segment) return;
+
+    try {
+      return await this.segmentManager.read(segment, async () => {
+        const position = await this.indexManager.findPosition(
+          segment,
+          recordOffset
+        );
+        if (position === undefined) return;
+
+        const lenBuf = await this.compressor.read(segment, position, 8);
+        if (lenBuf.length < 8) return;
+
+        const pointer = new SegmentPointer();
+        pointer.segmentId = segment.id;
+        pointer.offset = position;
+        pointer.length = lenBuf.readUInt32BE(0);
+        pointer.recordOffset = recordOffset;
+        return pointer;
+      });
+    } catch (cause) {
+      throw new Error("Failed to locate", { cause });
+    }
+  }
 }
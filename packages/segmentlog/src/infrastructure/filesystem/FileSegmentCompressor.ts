@@ -0,0 +1,231 @@
+import type { IBlockCodec, SegmentCodec } from "@domain/ports/IBlockCodec";
+import type { ISegmentCompressor } from "@domain/ports/ISegmentCompressor";
+import type { ISegmentInfo } from "@domain/ports/ISegmentInfo";
+import { SnappyBlockCodec } from "@infra/compression/SnappyBlockCodec";
+import { ZstdBlockCodec } from "@infra/compression/ZstdBlockCodec";
+import fs from "node:fs/promises";
+
+type IBlock = ISegmentInfo["blocks"][number];
+
+// [header][block]...[block][block index][trailer], positions stay those of the uncompressed segment
+export class FileSegmentCompressor implements ISegmentCompressor {
+  static HEADER_SIZE = 24;
+  static BLOCK_SIZE = 64 * 1024;
+  // [position u32][filePosition u32][length u32]
+  static BLOCK_ENTRY_SIZE = 12;
+  // [blockCount u32][size u32]
+  static TRAILER_SIZE = 8;
+  static TMP_SUFFIX = ".compressing";
+  static CACHED_BLOCKS = 32;
+
+  private static codecs: Record<Exclude<SegmentCodec, "none">, IBlockCodec> = {
+    snappy: new SnappyBlockCodec(),
+    zstd: new ZstdBlockCodec(),
+  };
+
+  // recently read blocks, keyed by their index entry so a rewrite drops them
+  private cache = new Map<IBlock, Buffer>();
+
+  constructor(private codec: SegmentCodec = "none") {}
+
+  private static byId(id: number) {
+    const codec = Object.values(FileSegmentCompressor.codecs).find(
+      (codec) => codec.id === id
+    );
+    if (!codec) throw new Error(`Unknown segment codec ${id}`);
+    return codec;
+  }
+
+  // blocks end on record boundaries, so a record is always read from one block.
+  // One block is held in memory at a time, the swap waits for reads of the old file
+  async compress(
+    segment: ISegmentInfo,
+    swap: (commit: () => Promise<void>) => Promise<void>
+  ): Promise<void> {
+    if (this.codec === "none" || segment.codec || !segment.fileHandle) return;
+    const { HEADER_SIZE, BLOCK_ENTRY_SIZE, TRAILER_SIZE } =
+      FileSegmentCompressor;
+    const codec = FileSegmentCompressor.codecs[this.codec];
+    const tmpPath = segment.filePath + FileSegmentCompressor.TMP_SUFFIX;
+
+    try {
+      const blocks: IBlock[] = [];
+      let filePosition = HEADER_SIZE;
+      const handle = await fs.open(tmpPath, "w");
+
+      try {
+        const header = await this.read(segment, 0, HEADER_SIZE);
+        header.writeUInt8(codec.id, 23); // codec
+        await handle.write(header, 0, HEADER_SIZE, 0);
+
+        let start = HEADER_SIZE;
+        while (start < segment.size) {
+          const data = await this.readRecords(segment, start);
+          const compressed = codec.compress(data);
+          await handle.write(compressed, 0, compressed.length, filePosition);
+
+          blocks.push([start, filePosition, compressed.length]);
+          filePosition += compressed.length;
+          start += data.length;
+        }
+
+        const tail = Buffer.alloc(
+          blocks.length * BLOCK_ENTRY_SIZE + TRAILER_SIZE
+        );
+        blocks.forEach(([position, blockPosition, length], i) => {
+          tail.writeUInt32BE(position, i * BLOCK_ENTRY_SIZE);
+          tail.writeUInt32BE(blockPosition, i * BLOCK_ENTRY_SIZE + 4);
+          tail.writeUInt32BE(length, i * BLOCK_ENTRY_SIZE + 8);
+        });
+        tail.writeUInt32BE(blocks.length, tail.length - TRAILER_SIZE);
+        tail.writeUInt32BE(segment.size, tail.length - 4);
+
+        await handle.write(tail, 0, tail.length, filePosition);
+        filePosition += tail.length;
+        await handle.sync();
+      } finally {
+        await handle.close();
+      }
+
+      await swap(async () => {
+        // the rename commits, before it the uncompressed segment is intact
+        await fs.rename(tmpPath, segment.filePath);
+
+        const previous = segment.fileHandle!;
+        segment.fileHandle = await fs.open(segment.filePath, "r");
+        segment.codec = codec.id;
+        segment.compressedSize = filePosition;
+        segment.blocks = blocks;
+        await previous.close();
+      });
+    } catch (cause) {
+      await fs.unlink(tmpPath).catch(() => {});
+      throw new Error(`Failed to compress segment ${segment.id}`, { cause });
+    }
+  }
+
+  // reads the block index of a compressed segment file
+  async load(segment: ISegmentInfo): Promise<void> {
+    const { BLOCK_ENTRY_SIZE, TRAILER_SIZE } = FileSegmentCompressor;
+    const { size } = await segment.fileHandle!.stat();
+
+    const trailer = Buffer.alloc(TRAILER_SIZE);
+    await segment.fileHandle!.read(
+      trailer,
+      0,
+      TRAILER_SIZE,
+      size - TRAILER_SIZE
+    );
+    const blockCount = trailer.readUInt32BE(0);
+
+    const blockIndex = Buffer.alloc(blockCount * BLOCK_ENTRY_SIZE);
+    await segment.fileHandle!.read(
+      blockIndex,
+      0,
+      blockIndex.length,
+      size - TRAILER_SIZE - blockIndex.length
+    );
+
+    segment.blocks = [];
+    for (let i = 0; i < blockCount; i++) {
+      segment.blocks.push([
+        blockIndex.readUInt32BE(i * BLOCK_ENTRY_SIZE),
+        blockIndex.readUInt32BE(i * BLOCK_ENTRY_SIZE + 4),
+        blockIndex.readUInt32BE(i * BLOCK_ENTRY_SIZE + 8),
+      ]);
+    }
+
+    segment.size = trailer.readUInt32BE(4);
+    segment.compressedSize = size;
+  }
+
+  // bytes at a position of the uncompressed segment, shorter past its end
+  async read(
+    segment: ISegmentInfo,
+    position: number,
+    length: number
+  ): Promise<Buffer> {
+    if (!segment.codec) {
+      const buffer = Buffer.alloc(length);
+      const { bytesRead } = await segment.fileHandle!.read(
+        buffer,
+        0,
+        length,
+        position
+      );
+      return buffer.subarray(0, bytesRead);
+    }
+
+    const block = this.findBlock(segment.blocks, position);
+    if (!block) return Buffer.alloc(0);
+
+    const data = await this.readBlock(segment, block);
+    return data.subarray(position - block[0], position - block[0] + length);
+  }
+
+  private findBlock(blocks: IBlock[], position: number) {
+    let low = 0;
+    let high = blocks.length - 1;
+    let found: IBlock | undefined;
+
+    while (low <= high) {
+      const mid = Math.floor((low + high) / 2);
+      if (blocks[mid][0] <= position) {
+        found = blocks[mid];
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    return found;
+  }
+
+  private async readBlock(segment: ISegmentInfo, block: IBlock) {
+    const cached = this.cache.get(block);
+    if (cached) {
+      this.cache.delete(block);
+      this.cache.set(block, cached);
+      return cached;
+    }
+
+    const [, filePosition, length] = block;
+    const compressed = Buffer.alloc(length);
+    await segment.fileHandle!.read(compressed, 0, length, filePosition);
+    const data = FileSegmentCompressor.byId(segment.codec).decompress(
+      compressed
+    );
+
+    this.cache.set(block, data);
+    if (this.cache.size > FileSegmentCompressor.CACHED_BLOCKS) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+
+    return data;
+  }
+
+  // whole records from start on, until they fill a block or the segment ends
+  private async readRecords(segment: ISegmentInfo, start: number) {
+    const { BLOCK_SIZE } = FileSegmentCompressor;
+    const remaining = segment.size - start;
+    // record headers before BLOCK_SIZE all fall into this read
+    const data = await this.read(
+      segment,
+      start,
+      Math.min(BLOCK_SIZE + 8, remaining)
+    );
+
+    let end = 0;
+    while (end < BLOCK_SIZE && end < remaining) {
+      end += 8 + data.readUInt32BE(end);
+    }
+    if (end <= data.length) return data.subarray(0, end);
+
+    const rest = await this.read(
+      segment,
+      start + data.length,
+      end - data.length
+    );
+    return Buffer.concat([data, rest]);
+  }
+}
@@ -1,95 +1,379 @@
+import type { IArchiveStore } from "@domain/ports/IArchiveStore";
+import type { IRecoveryReport } from "@domain/ports/IRecoveryReport";
+import type { ISegmentCompressor } from "@domain/ports/ISegmentCompressor";
 import type { ISegmentInfo } from "@domain/ports/ISegmentInfo";
 import type { ISegmentManager } from "@domain/ports/ISegmentManager";
+import { FileCompactor } from "@infra/filesystem/FileCompactor";
+import { FileIndexManager } from "@infra/filesystem/FileIndexManager";
+import { FileSegmentCompressor } from "@infra/filesystem/FileSegmentCompressor";
 import crc from "crc-32";
 import fs from "node:fs/promises";
 import path from "node:path";
 
 export class FileSegmentManager implements ISegmentManager {
   static HEADER_SIZE = 24;
+  static RESTORE_SUFFIX = ".restoring";
 
   private segments = new Map<number, ISegmentInfo>();
+  private restores = new Map<number, Promise<void>>();
+  private compressions = new Map<number, Promise<void>>();
+  private reads = new Map<number, number>(); // in-flight reads per segment
+  private drains = new Map<number, () => void>();
+  private swaps = new Map<number, Promise<void>>();
+  private accessedAt = new Map<number, number>();
   private currentSegment?: ISegmentInfo;
+  public ready: Promise<void>;
+  private recoveryReport: IRecoveryReport = {
+    ts: Date.now(),
+    segmentCount: 0,
+    truncatedBytes: 0,
+    rebuiltIndexes: 0,
+    interruptedCompactions: 0,
+    repaired: [],
+  };
 
   constructor(
     private baseDir: string,
-    private maxSegmentSizeBytes: number
+    private name: string, // the topic, namespaces its keys in the shared archive
+    private maxSegmentSizeBytes: number,
+    private compressor: ISegmentCompressor,
+    private archiveStore?: IArchiveStore
   ) {
-    this.init();
+    this.ready = this.init();
   }
 
   private async init(): Promise<void> {
     await this.loadExistingSegments();
     await this.ensureCurrentSegment();
+
+    // segments sealed before a crash or a codec change
+    for (const segment of this.segments.values()) this.compress(segment);
   }
 
   private async loadExistingSegments(): Promise<void> {
     try {
+      await fs.mkdir(this.baseDir, { recursive: true });
       const files = await fs.readdir(this.baseDir);
-
-      for (const file of files.sort()) {
-        if (!file.endsWith(".segment")) continue;
-
-        const id = parseInt(file.split(".")[0], 10);
-        const filePath = path.join(this.baseDir, file);
+      // archived segments may have no local file, their marker stands in for it
+      const ids = [
+        ...new Set(
+          files
+            .filter((file) => /\.(segment|archived)$/.test(file))
+            .map((file) => parseInt(file.split(".")[0], 10))
+        ),
+      ].sort((a, b) => a - b);
+
+      for (const id of ids) {
+        const filePath = path.join(this.baseDir, `${id}.segment`);
         const indexFilePath = filePath.replace(".segment", ".index");
+        const timeIndexFilePath = filePath.replace(".segment", ".timeindex");
+        const deletedFilePath = filePath.replace(".segment", ".deleted");
+        const archivedFilePath = filePath.replace(".segment", ".archived");
+        await this.resolveCompaction([
+          filePath,
+          indexFilePath,
+          timeIndexFilePath,
+          deletedFilePath,
+        ]);
+        for (const suffix of [
+          FileSegmentManager.RESTORE_SUFFIX,
+          FileSegmentCompressor.TMP_SUFFIX,
+        ]) {
+          await fs.unlink(filePath + suffix).catch(() => {});
+        }
 
-        const fileHandle = await fs.open(filePath, "r");
+        const archived = files.includes(`${id}.archived`);
+        const isLocal = await this.exists(filePath);
 
-        const header = Buffer.alloc(FileSegmentManager.HEADER_SIZE);
-        const { bytesRead } = await fileHandle.read(
-          header,
-          0,
-          FileSegmentManager.HEADER_SIZE,
-          0
-        );
+        // the last segment stays active, so it is opened for writing
+        const isActive = !archived && id === ids[ids.length - 1];
+        const fileHandle = isLocal
+          ? await fs.open(filePath, isActive ? "r+" : "r")
+          : undefined;
+
+        // the marker is the segment header followed by the segment and compressed sizes
+        const header = Buffer.alloc(FileSegmentManager.HEADER_SIZE + 16);
+        const source = fileHandle ?? (await fs.open(archivedFilePath, "r"));
+        const { bytesRead } = await source.read(header, 0, header.length, 0);
+        if (!fileHandle) await source.close();
 
         let baseOffset = 0;
+        let compacted = false;
+        let codec = 0;
         if (bytesRead >= FileSegmentManager.HEADER_SIZE) {
           baseOffset = Number(header.readBigUInt64BE(6));
+          compacted = header.readUInt8(22) === 1;
+          codec = header.readUInt8(23);
         }
 
-        const recordCount = await this.countMessagesInSegment(fileHandle);
-        const stat = await fs.stat(filePath);
-
-        this.segments.set(id, {
+        const segment: ISegmentInfo = {
           id,
           filePath,
           indexFilePath,
+          timeIndexFilePath,
+          deletedFilePath,
+          archivedFilePath,
           baseOffset,
-          lastOffset: baseOffset + recordCount - 1,
-          size: stat.size,
-          recordCount,
+          lastOffset: baseOffset,
+          size: FileSegmentManager.HEADER_SIZE,
+          recordCount: 0,
+          maxTimestamp: 0,
+          deadBytes: FileCompactor.deadBytes(
+            await this.readOrEmpty(deletedFilePath)
+          ),
+          compacted,
+          archived,
+          codec,
+          compressedSize: 0,
+          blocks: [],
+          sparseIndex: [],
           fileHandle,
-        });
+        };
+
+        if (!fileHandle) {
+          const { HEADER_SIZE } = FileSegmentManager;
+          segment.size = Number(header.readBigUInt64BE(HEADER_SIZE));
+          segment.compressedSize = Number(
+            header.readBigUInt64BE(HEADER_SIZE + 8)
+          );
+          await this.loadFromIndex(segment);
+        } else if (codec) {
+          await this.compressor.load(segment);
+          await this.loadFromIndex(segment);
+        } else {
+          await this.recoverSegment(segment);
+        }
+        segment.maxTimestamp = await this.readMaxTimestamp(timeIndexFilePath);
+        segment.sparseIndex = await this.buildSparseIndex(indexFilePath);
+
+        this.segments.set(id, segment);
+        if (isActive) this.currentSegment = segment;
       }
     } catch (cause) {
       throw new Error("Failed to load segments", { cause });
     }
   }
 
-  private async countMessagesInSegment(
-    fileHandle: fs.FileHandle
-  ): Promise<number> {
+  // the segment rename commits a compaction: before it the original is intact, after it the rest is renamed too
+  private async resolveCompaction([filePath, ...rest]: string[]) {
+    const tmp = (p: string) => p + FileCompactor.TMP_SUFFIX;
+    const committed = !(await this.exists(tmp(filePath)));
+    let interrupted = !committed;
+
+    for (const p of [filePath, ...rest]) {
+      if (!(await this.exists(tmp(p)))) continue;
+      interrupted = true;
+      if (committed) await fs.rename(tmp(p), p);
+      else await fs.unlink(tmp(p));
+    }
+
+    if (interrupted) this.recoveryReport.interruptedCompactions++;
+  }
+
+  private async exists(filePath: string) {
+    return fs.access(filePath).then(
+      () => true,
+      () => false
+    );
+  }
+
+  // validates every record, cuts the torn tail and brings both indexes in line with the valid records
+  private async recoverSegment(segment: ISegmentInfo): Promise<void> {
+    const { size } = await segment.fileHandle!.stat();
+    const positions = await this.scanRecords(segment.fileHandle!, size);
+    const validSize = positions.length
+      ? positions[positions.length - 1][1]
+      : FileSegmentManager.HEADER_SIZE;
+
+    const truncatedBytes = Math.max(0, size - validSize);
+    if (truncatedBytes) await segment.fileHandle!.truncate(validSize);
+
+    const [recordOffsets, rebuiltIndex] = await this.recoverIndex(
+      segment,
+      positions
+    );
+    const rebuiltTimeIndex = await this.recoverTimeIndex(
+      segment,
+      positions,
+      recordOffsets
+    );
+
+    segment.size = validSize;
+    segment.recordCount = positions.length;
+    segment.lastOffset = recordOffsets.at(-1) ?? segment.baseOffset;
+
+    this.recoveryReport.segmentCount++;
+    if (!truncatedBytes && !rebuiltIndex && !rebuiltTimeIndex) return;
+
+    this.recoveryReport.truncatedBytes += truncatedBytes;
+    if (rebuiltIndex) this.recoveryReport.rebuiltIndexes++;
+    this.recoveryReport.repaired.push({
+      segmentId: segment.id,
+      recordCount: positions.length,
+      truncatedBytes,
+      rebuiltIndex,
+      rebuiltTimeIndex,
+    });
+  }
+
+  // archived and compressed files were verified before they were sealed away, so counts come from the index
+  private async loadFromIndex(segment: ISegmentInfo) {
+    const { INDEX_ENTRY_SIZE } = FileIndexManager;
+
+    for (const filePath of [segment.indexFilePath, segment.timeIndexFilePath]) {
+      if (!segment.archived || (await this.exists(filePath))) continue;
+      await this.archiveStore?.get(this.archiveKey(filePath), filePath);
+    }
+
+    const index = await this.readOrEmpty(segment.indexFilePath);
+    const entries = Math.floor(index.length / INDEX_ENTRY_SIZE);
+
+    segment.recordCount = entries;
+    segment.lastOffset = entries
+      ? Number(index.readBigUInt64BE((entries - 1) * INDEX_ENTRY_SIZE))
+      : segment.baseOffset;
+
+    this.recoveryReport.segmentCount++;
+  }
+
+  // [start, end] of every valid record
+  private async scanRecords(
+    fileHandle: fs.FileHandle,
+    size: number
+  ): Promise<[number, number][]> {
+    const positions: [number, number][] = [];
     let pos = FileSegmentManager.HEADER_SIZE;
-    let count = 0;
 
-    while (true) {
+    while (pos + 8 <= size) {
       const lenBuf = Buffer.alloc(8);
-      const { bytesRead } = await fileHandle.read(lenBuf, 0, 8, pos);
-      if (bytesRead < 8) break;
+      await fileHandle.read(lenBuf, 0, 8, pos);
 
       const length = lenBuf.readUInt32BE(0);
       const checksum = lenBuf.readUInt32BE(4);
-      const msgBuffer = Buffer.alloc(length);
+      // a torn write leaves a header without its full body
+      if (pos + 8 + length > size) break;
 
+      const msgBuffer = Buffer.alloc(length);
       await fileHandle.read(msgBuffer, 0, length, pos + 8);
+      if (checksum !== crc.buf(msgBuffer) >>> 0) break;
 
-      if (checksum !== crc.buf(msgBuffer)) break;
+      positions.push([pos, pos + 8 + length]);
       pos += 8 + length;
-      count++;
     }
 
-    return count;
+    return positions;
+  }
+
+  private async readOrEmpty(filePath: string) {
+    return fs.readFile(filePath).catch(() => Buffer.alloc(0));
+  }
+
+  // rewrites a missing, short or stale index; known record offsets are kept
+  private async recoverIndex(
+    segment: ISegmentInfo,
+    positions: [number, number][]
+  ): Promise<[number[], boolean]> {
+    const { INDEX_ENTRY_SIZE } = FileIndexManager;
+    const index = await this.readOrEmpty(segment.indexFilePath);
+    const entries = Math.floor(index.length / INDEX_ENTRY_SIZE);
+
+    const recordOffsets: number[] = [];
+    let isValid = index.length === positions.length * INDEX_ENTRY_SIZE;
+
+    positions.forEach(([start], i) => {
+      if (i >= entries) {
+        recordOffsets.push((recordOffsets[i - 1] ?? segment.baseOffset) + 1);
+        return;
+      }
+
+      recordOffsets.push(Number(index.readBigUInt64BE(i * INDEX_ENTRY_SIZE)));
+      if (index.readUInt32BE(i * INDEX_ENTRY_SIZE + 8) !== start) {
+        isValid = false;
+      }
+    });
+    if (isValid) return [recordOffsets, false];
+
+    const rebuilt = Buffer.alloc(positions.length * INDEX_ENTRY_SIZE);
+    positions.forEach(([start], i) => {
+      rebuilt.writeBigUInt64BE(BigInt(recordOffsets[i]), i * INDEX_ENTRY_SIZE);
+      rebuilt.writeUInt32BE(start, i * INDEX_ENTRY_SIZE + 8);
+    });
+    await fs.writeFile(segment.indexFilePath, rebuilt);
+
+    return [recordOffsets, true];
+  }
+
+  // timestamps can't be restored, missing entries get the last known one so the index stays sorted
+  private async recoverTimeIndex(
+    segment: ISegmentInfo,
+    positions: [number, number][],
+    recordOffsets: number[]
+  ): Promise<boolean> {
+    const { TIME_INDEX_ENTRY_SIZE } = FileIndexManager;
+    const timeIndex = await this.readOrEmpty(segment.timeIndexFilePath);
+    if (timeIndex.length === positions.length * TIME_INDEX_ENTRY_SIZE) {
+      return false;
+    }
+
+    const entries = Math.min(
+      positions.length,
+      Math.floor(timeIndex.length / TIME_INDEX_ENTRY_SIZE)
+    );
+    const rebuilt = Buffer.alloc(positions.length * TIME_INDEX_ENTRY_SIZE);
+    timeIndex.copy(rebuilt, 0, 0, entries * TIME_INDEX_ENTRY_SIZE);
+
+    const timestamp = entries
+      ? rebuilt.readBigUInt64BE((entries - 1) * TIME_INDEX_ENTRY_SIZE)
+      : 0n;
+
+    for (let i = entries; i < positions.length; i++) {
+      const [start, end] = positions[i];
+      const entry = i * TIME_INDEX_ENTRY_SIZE;
+      rebuilt.writeBigUInt64BE(timestamp, entry);
+      rebuilt.writeBigUInt64BE(BigInt(recordOffsets[i]), entry + 8);
+      rebuilt.writeUInt32BE(start, entry + 16);
+      rebuilt.writeUInt32BE(end - start - 8, entry + 20);
+    }
+
+    await fs.writeFile(segment.timeIndexFilePath, rebuilt);
+    return true;
+  }
+
+  getRecoveryReport() {
+    return this.ready.then(() => this.recoveryReport);
+  }
+
+  private async buildSparseIndex(
+    indexFilePath: string
+  ): Promise<[number, number][]> {
+    const { INDEX_ENTRY_SIZE, SPARSE_INDEX_INTERVAL } = FileIndexManager;
+    const sparseIndex: [number, number][] = [];
+
+    const index = await fs.readFile(indexFilePath).catch(() => undefined);
+    if (!index) return sparseIndex;
+
+    const entries = Math.floor(index.length / INDEX_ENTRY_SIZE);
+    for (let i = 0; i < entries; i += SPARSE_INDEX_INTERVAL) {
+      const recordOffset = index.readBigUInt64BE(i * INDEX_ENTRY_SIZE);
+      sparseIndex.push([Number(recordOffset), i]);
+    }
+
+    return sparseIndex;
+  }
+
+  // the last time index entry holds the largest timestamp
+  private async readMaxTimestamp(timeIndexFilePath: string): Promise<number> {
+    const entrySize = FileIndexManager.TIME_INDEX_ENTRY_SIZE;
+    const stat = await fs.stat(timeIndexFilePath).catch(() => undefined);
+    if (!stat || stat.size < entrySize) return 0;
+
+    const handle = await fs.open(timeIndexFilePath, "r");
+    const entry = Buffer.alloc(entrySize);
+    const position = stat.size - (stat.size % entrySize) - entrySize;
+    await handle.read(entry, 0, entrySize, position);
+    await handle.close();
+
+    return Number(entry.readBigUInt64BE(0));
   }
 
   private async ensureCurrentSegment(): Promise<void> {
@@ -100,6 +384,37 @@ export class FileSegmentManager implements ISegmentManager {
       return;
     }
 
+    await this.createSegment();
+  }
+
+  // seals the current segment, the next one continues its record offsets
+  async roll() {
+    await this.ready;
+    const sealed = this.currentSegment;
+    await sealed?.fileHandle?.sync();
+    await this.createSegment();
+    if (sealed) this.compress(sealed);
+  }
+
+  // runs in the background, a failed attempt leaves the segment uncompressed until the next open
+  compress(segment: ISegmentInfo) {
+    if (segment === this.currentSegment || segment.archived) {
+      return Promise.resolve();
+    }
+
+    if (!this.compressions.has(segment.id)) {
+      const compression = this.compressor
+        .compress(segment, (commit) => this.swap(segment, commit))
+        .catch(() => {})
+        .finally(() => this.compressions.delete(segment.id));
+      this.compressions.set(segment.id, compression);
+    }
+
+    return this.compressions.get(segment.id)!;
+  }
+
+  private async createSegment(): Promise<void> {
+    const baseOffset = this.currentSegment?.lastOffset ?? 0;
     let newId = 0;
     if (this.segments.size > 0) {
       newId = Math.max(...this.segments.keys()) + 1;
@@ -107,27 +422,45 @@ export class FileSegmentManager implements ISegmentManager {
 
     const filePath = path.join(this.baseDir, `${newId}.segment`);
     const indexFilePath = filePath.replace(".segment", ".index");
+    const timeIndexFilePath = filePath.replace(".segment", ".timeindex");
+    const deletedFilePath = filePath.replace(".segment", ".deleted");
+    const archivedFilePath = filePath.replace(".segment", ".archived");
     const fileHandle = await fs.open(filePath, "w+");
 
     const header = Buffer.alloc(FileSegmentManager.HEADER_SIZE);
     header.writeUInt32BE(0xcafebabe, 0); // magic
     header.writeUInt16BE(1, 4); // version
-    header.writeBigUInt64BE(BigInt(newId), 6); // base offset placeholder
+    header.writeBigUInt64BE(BigInt(baseOffset), 6); // base offset
     header.writeBigUInt64BE(BigInt(Date.now()), 14); // timestamp
+    header.writeUInt8(0, 22); // compacted flag
+    header.writeUInt8(0, 23); // codec
 
     await fileHandle.write(header, 0, FileSegmentManager.HEADER_SIZE, 0);
 
     const indexFileHandle = await fs.open(indexFilePath, "w");
     await indexFileHandle.close();
+    const timeIndexFileHandle = await fs.open(timeIndexFilePath, "w");
+    await timeIndexFileHandle.close();
 
     const segment: ISegmentInfo = {
       id: newId,
       filePath,
       indexFilePath,
-      baseOffset: newId,
-      lastOffset: newId,
+      timeIndexFilePath,
+      deletedFilePath,
+      archivedFilePath,
+      baseOffset,
+      lastOffset: baseOffset,
       size: FileSegmentManager.HEADER_SIZE,
       recordCount: 0,
+      maxTimestamp: 0,
+      deadBytes: 0,
+      compacted: false,
+      archived: false,
+      codec: 0,
+      compressedSize: 0,
+      blocks: [],
+      sparseIndex: [],
       fileHandle,
     };
 
@@ -140,6 +473,10 @@ export class FileSegmentManager implements ISegmentManager {
   }
 
   async close() {
+    // segments still loading would open their files after this
+    await this.ready.catch(() => {});
+    await Promise.all(this.compressions.values());
+
     for (const seg of this.segments.values()) {
       await seg.fileHandle?.close();
     }
@@ -147,6 +484,212 @@ export class FileSegmentManager implements ISegmentManager {
     await this.currentSegment?.fileHandle?.close();
   }
 
+  // the segment file and marker go first, index files left behind by a crash are never loaded
+  async remove(segment: ISegmentInfo) {
+    if (segment === this.currentSegment) return;
+    await this.compressions.get(segment.id);
+
+    this.segments.delete(segment.id);
+    this.accessedAt.delete(segment.id);
+    await segment.fileHandle?.close();
+    segment.fileHandle = undefined;
+
+    for (const filePath of [
+      segment.filePath,
+      segment.archivedFilePath,
+      segment.indexFilePath,
+      segment.timeIndexFilePath,
+      segment.deletedFilePath,
+    ]) {
+      await fs.unlink(filePath).catch(() => {});
+    }
+
+    if (!segment.archived) return;
+    for (const filePath of this.archivedFiles(segment)) {
+      await this.archiveStore?.delete(this.archiveKey(filePath));
+    }
+  }
+
+  // uploads a sealed segment with its indexes, then only the indexes and a marker stay local
+  async archive(segment: ISegmentInfo) {
+    await this.ready;
+    // the compressed file is what gets uploaded
+    await this.compress(segment);
+    if (!this.archiveStore || !segment.fileHandle) return false;
+    if (segment === this.currentSegment || segment.archived) return false;
+
+    // set upfront so compaction leaves the segment alone during the upload
+    segment.archived = true;
+
+    try {
+      for (const filePath of this.archivedFiles(segment)) {
+        await this.archiveStore.put(this.archiveKey(filePath), filePath);
+      }
+
+      const marker = Buffer.alloc(FileSegmentManager.HEADER_SIZE + 16);
+      await segment.fileHandle.read(
+        marker,
+        0,
+        FileSegmentManager.HEADER_SIZE,
+        0
+      );
+      marker.writeBigUInt64BE(
+        BigInt(segment.size),
+        FileSegmentManager.HEADER_SIZE
+      );
+      marker.writeBigUInt64BE(
+        BigInt(segment.compressedSize),
+        FileSegmentManager.HEADER_SIZE + 8
+      );
+
+      const markerHandle = await fs.open(segment.archivedFilePath, "w");
+      await markerHandle.write(marker, 0, marker.length, 0);
+      await markerHandle.sync();
+      await markerHandle.close();
+    } catch (cause) {
+      segment.archived = false;
+      throw new Error(`Failed to archive segment ${segment.id}`, { cause });
+    }
+
+    await this.evict(segment);
+    return true;
+  }
+
+  // reads hold the segment file, a swap waits for them and holds back new ones
+  async read<T>(segment: ISegmentInfo, read: () => Promise<T>) {
+    while (this.swaps.has(segment.id)) await this.swaps.get(segment.id);
+    this.reads.set(segment.id, (this.reads.get(segment.id) ?? 0) + 1);
+
+    try {
+      if (!(await this.open(segment))) return;
+      return await read();
+    } finally {
+      const count = this.reads.get(segment.id)! - 1;
+      if (count) {
+        this.reads.set(segment.id, count);
+      } else {
+        this.reads.delete(segment.id);
+        this.drains.get(segment.id)?.();
+      }
+    }
+  }
+
+  // replaces the file behind a segment once no read is left on the old one
+  async swap(segment: ISegmentInfo, swap: () => Promise<void>) {
+    while (this.swaps.has(segment.id)) await this.swaps.get(segment.id);
+
+    const swapping = (async () => {
+      if (this.reads.has(segment.id)) {
+        await new Promise<void>((resolve) =>
+          this.drains.set(segment.id, resolve)
+        );
+        this.drains.delete(segment.id);
+      }
+      await swap();
+    })();
+    this.swaps.set(
+      segment.id,
+      swapping.catch(() => {}).finally(() => this.swaps.delete(segment.id))
+    );
+
+    return swapping;
+  }
+
+  // the local file of a segment, archived ones are fetched back and shared by concurrent reads
+  private async open(segment: ISegmentInfo) {
+    this.accessedAt.set(segment.id, Date.now());
+    if (segment.fileHandle || !segment.archived) return segment.fileHandle;
+    if (!this.archiveStore) {
+      throw new Error(
+        `Segment ${segment.id} is archived, no archive store set`
+      );
+    }
+
+    if (!this.restores.has(segment.id)) {
+      const restore = this.restore(segment).finally(() =>
+        this.restores.delete(segment.id)
+      );
+      this.restores.set(segment.id, restore);
+    }
+
+    await this.restores.get(segment.id);
+    return segment.fileHandle;
+  }
+
+  private async restore(segment: ISegmentInfo) {
+    const tmpPath = segment.filePath + FileSegmentManager.RESTORE_SUFFIX;
+    const key = this.archiveKey(segment.filePath);
+
+    if (!(await this.archiveStore!.get(key, tmpPath))) {
+      throw new Error(`Segment ${segment.id} is missing from the archive`);
+    }
+
+    await fs.rename(tmpPath, segment.filePath);
+    segment.fileHandle = await fs.open(segment.filePath, "r");
+    if (segment.codec) await this.compressor.load(segment);
+  }
+
+  // drops local copies of archived segments not read within idleMs
+  async evictIdle(idleMs: number) {
+    await this.ready;
+    const cutoff = Date.now() - idleMs;
+
+    for (const segment of this.segments.values()) {
+      if (!segment.archived || !segment.fileHandle) continue;
+      if ((this.accessedAt.get(segment.id) ?? 0) > cutoff) continue;
+      await this.evict(segment);
+    }
+  }
+
+  private evict(segment: ISegmentInfo) {
+    return this.swap(segment, async () => {
+      const fileHandle = segment.fileHandle;
+      segment.fileHandle = undefined;
+      await fileHandle?.close();
+      await fs.unlink(segment.filePath).catch(() => {});
+    });
+  }
+
+  // archived segments are copied as their marker and indexes, the archive keeps the rest
+  async snapshot(dirPath: string) {
+    await this.ready;
+    await fs.mkdir(dirPath, { recursive: true });
+
+    for (const segment of this.getAllSegments()) {
+      await this.compressions.get(segment.id);
+      // appends racing the copy of the current segment are cut off
+      const current = segment === this.currentSegment;
+      const size = segment.size;
+
+      const files = [
+        segment.archived ? segment.archivedFilePath : segment.filePath,
+        segment.indexFilePath,
+        segment.timeIndexFilePath,
+        segment.deletedFilePath,
+      ];
+      for (const filePath of files) {
+        const target = path.join(dirPath, path.basename(filePath));
+
+        try {
+          await fs.copyFile(filePath, target);
+          if (current && filePath === segment.filePath) {
+            await fs.truncate(target, size);
+          }
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+        }
+      }
+    }
+  }
+
+  private archivedFiles(segment: ISegmentInfo) {
+    return [segment.filePath, segment.indexFilePath, segment.timeIndexFilePath];
+  }
+
+  private archiveKey(filePath: string) {
+    return `${this.name}/${path.basename(filePath)}`;
+  }
+
   getSegments() {
     return this.segments;
   }
@@ -0,0 +1,109 @@
+import type {
+  ICompactionConfig,
+  ICompactionMetrics,
+  ICompactionProgress,
+  ICompactionScheduler,
+} from "@domain/ports/ICompactionScheduler";
+import type { ICompactor } from "@domain/ports/ICompactor";
+import type { ISegmentInfo } from "@domain/ports/ISegmentInfo";
+import type { ISegmentManager } from "@domain/ports/ISegmentManager";
+
+export class CompactionScheduler implements ICompactionScheduler {
+  private timer?: NodeJS.Timeout;
+  private running = new Map<number, [ICompactionProgress, Promise<void>]>();
+  private compactedSegments = 0;
+  private reclaimedBytes = 0;
+  private failedCompactions = 0;
+
+  constructor(
+    private segmentManager: ISegmentManager,
+    private compactor: ICompactor,
+    private config: ICompactionConfig = {}
+  ) {}
+
+  start() {
+    const { intervalMs = 60_000 } = this.config;
+    this.timer = setInterval(() => this.schedule(), intervalMs);
+    this.timer.unref();
+  }
+
+  // running compactions finish, nothing new starts
+  async stop() {
+    clearInterval(this.timer);
+    this.timer = undefined;
+    await Promise.all([...this.running.values()].map(([, done]) => done));
+  }
+
+  // the most wasteful sealed segments first, up to maxConcurrent at a time
+  schedule() {
+    if (!this.timer) return;
+
+    const { minDeadRatio = 0.5, maxConcurrent = 1 } = this.config;
+    const current = this.segmentManager.getCurrentSegment();
+    const ratio = (segment: ISegmentInfo) => segment.deadBytes / segment.size;
+
+    const candidates = this.segmentManager
+      .getAllSegments()
+      .filter(
+        (segment) =>
+          segment !== current &&
+          !segment.archived &&
+          segment.deadBytes > 0 &&
+          ratio(segment) >= minDeadRatio &&
+          !this.running.has(segment.id)
+      )
+      .sort((a, b) => ratio(b) - ratio(a));
+
+    for (const segment of candidates) {
+      if (this.running.size >= maxConcurrent) break;
+      this.run(segment);
+    }
+  }
+
+  isCompacting(segmentId: number) {
+    return this.running.has(segmentId);
+  }
+
+  private run(segment: ISegmentInfo) {
+    const progress: ICompactionProgress = {
+      segmentId: segment.id,
+      copiedBytes: 0,
+      totalBytes: segment.size,
+    };
+
+    const done = this.compactor
+      .compactSegment(segment.id, (copiedBytes) => {
+        progress.copiedBytes = copiedBytes;
+      })
+      .then(
+        (reclaimedBytes) => {
+          this.compactedSegments++;
+          this.reclaimedBytes += reclaimedBytes;
+          return true;
+        },
+        () => {
+          // the original segment is untouched, the next round retries it
+          this.failedCompactions++;
+          return false;
+        }
+      )
+      .then((compacted) => {
+        this.running.delete(segment.id);
+        // retrying a failure right away would spin on it
+        if (compacted) this.schedule();
+      });
+
+    this.running.set(segment.id, [progress, done]);
+  }
+
+  getMetrics(): ICompactionMetrics {
+    return {
+      running: [...this.running.values()].map(([progress]) => ({
+        ...progress,
+      })),
+      compactedSegments: this.compactedSegments,
+      reclaimedBytes: this.reclaimedBytes,
+      failedCompactions: this.failedCompactions,
+    };
+  }
+}
@@ -0,0 +1,204 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { FileWriteAheadLogFactory } from "@app/factories/FileWalFactory";
+import type { IWriteAheadLog } from "@app/interfaces/IWriteAheadLog";
+import { WalRecord, WalRecordType } from "@domain/entities/WalRecord";
+
+describe("WriteAheadLog", () => {
+  let dir: string;
+  let wal: IWriteAheadLog;
+
+  // small files, so a few records already roll over
+  const open = () => {
+    wal = new FileWriteAheadLogFactory(1024, 256).create(
+      dir,
+      undefined,
+      "sync"
+    );
+    return wal;
+  };
+
+  const reopen = async () => {
+    await wal.close();
+    return open();
+  };
+
+  const append = async (count: number, from = 0) => {
+    const offsets: number[] = [];
+    for (let i = from; i < from + count; i++) {
+      offsets.push((await wal.append(Buffer.from(`record-${i}`))) as number);
+    }
+    return offsets;
+  };
+
+  const payloads = async (from?: number) => {
+    const data: string[] = [];
+    for await (const record of wal.records(from)) {
+      if (record.type === WalRecordType.Data) {
+        data.push(record.payload.toString());
+      }
+    }
+    return data;
+  };
+
+  const walFiles = async () =>
+    (await fs.readdir(dir)).filter((name) => name.endsWith(".wal")).sort();
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "zephyrmq-wal-"));
+    open();
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await wal.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("rolls into files named by their base offset and reads across them", async () => {
+    const offsets = await append(30);
+
+    const files = await walFiles();
+    expect(files.length).toBeGreaterThan(1);
+    expect(files[0]).toBe(`${"0".repeat(20)}.wal`);
+    expect((await wal.getMetrics()).fileCount).toBe(files.length);
+
+    await reopen();
+    const expected = offsets.map((_, i) => `record-${i}`);
+    expect(await payloads()).toEqual(expected);
+    expect(await payloads(offsets[10])).toEqual(expected.slice(10));
+  });
+
+  it("drops only whole files below a checkpoint and replays from it", async () => {
+    const offsets = await append(30);
+    const before = await walFiles();
+
+    await wal.checkpoint(offsets[20]);
+    const after = await walFiles();
+    expect(after.length).toBeLessThan(before.length);
+    // the file holding the checkpointed offset stays
+    expect(Number(after[0].slice(0, 20))).toBeLessThanOrEqual(offsets[20]);
+
+    await reopen();
+    expect(await wal.getCheckpoint()).toBe(offsets[20]);
+    expect(await payloads(await wal.getCheckpoint())).toEqual(
+      offsets.slice(20).map((_, i) => `record-${20 + i}`)
+    );
+  });
+
+  it("keeps the previous checkpoint when a crash tears the next one", async () => {
+    const offsets = await append(10);
+    await wal.checkpoint(offsets[4]);
+    await append(5, 10);
+    await wal.checkpoint(offsets[8]);
+    await wal.close();
+
+    // the last marker only got partly written
+    const active = path.join(dir, (await walFiles()).at(-1)!);
+    const { size } = await fs.stat(active);
+    await fs.truncate(active, size - 3);
+
+    open();
+    expect(await wal.getCheckpoint()).toBe(offsets[4]);
+    expect((await wal.getMetrics()).truncatedBytes).toBe(
+      WalRecord.HEADER_SIZE + 8 - 3
+    );
+  });
+
+  it("truncates a torn tail on open and appends after the last whole record", async () => {
+    await append(3);
+    await wal.close();
+
+    const torn = WalRecord.encode(
+      WalRecordType.Data,
+      0,
+      Buffer.from("record-torn")
+    ).subarray(0, 10);
+    const active = path.join(dir, (await walFiles()).at(-1)!);
+    await fs.appendFile(active, torn);
+
+    open();
+    expect((await wal.getMetrics()).truncatedBytes).toBe(torn.length);
+    expect(await payloads()).toEqual(["record-0", "record-1", "record-2"]);
+
+    await append(1, 3);
+    await reopen();
+    expect(await payloads()).toEqual([
+      "record-0",
+      "record-1",
+      "record-2",
+      "record-3",
+    ]);
+  });
+
+  it.each([
+    ["sync", 0],
+    ["group", 100],
+  ] as const)(
+    "resolves %s appends only once they are in the file",
+    async (durability, groupCommitMs) => {
+      await wal.close();
+      wal = new FileWriteAheadLogFactory().create(
+        dir,
+        undefined,
+        durability,
+        groupCommitMs
+      );
+      const onDisk = async () =>
+        Buffer.concat(
+          await Promise.all(
+            (await walFiles()).map((name) => fs.readFile(path.join(dir, name)))
+          )
+        ).toString();
+
+      const started = performance.now();
+      const appends = [0, 1].map((i) => wal.append(Buffer.from(`record-${i}`)));
+      await Promise.resolve();
+      expect(await onDisk()).not.toContain("record-0");
+
+      await appends[0];
+      expect(performance.now() - started).toBeGreaterThanOrEqual(
+        groupCommitMs * 0.9
+      );
+      // a group commit shares the flush with the append that joined it
+      const written = await onDisk();
+      expect(written).toContain("record-0");
+      if (durability === "group") expect(written).toContain("record-1");
+      await appends[1];
+      expect(await onDisk()).toContain("record-1");
+    }
+  );
+
+  it("returns async appends before they are in the file", async () => {
+    await wal.close();
+    wal = new FileWriteAheadLogFactory().create(dir, undefined, "async");
+
+    await wal.append(Buffer.from("record-0"));
+    const [file] = await walFiles();
+    expect((await fs.readFile(path.join(dir, file))).toString()).not.toContain(
+      "record-0"
+    );
+  });
+
+  it("opens after a crash while rolling into a new file", async () => {
+    await append(3);
+    const before = await walFiles();
+
+    // the next file's header is written, the process dies before it is renamed in
+    vi.spyOn(fs, "rename").mockRejectedValueOnce(new Error("crash"));
+    await expect(append(30, 3)).rejects.toThrow();
+    vi.restoreAllMocks();
+    await wal.close();
+
+    open();
+    const recovered = await payloads();
+    expect(await fs.readdir(dir)).toEqual(before);
+    expect(recovered.slice(0, 3)).toEqual(["record-0", "record-1", "record-2"]);
+
+    await append(1, 100);
+    await reopen();
+    expect(await payloads()).toEqual([...recovered, "record-100"]);
+  });
+});
@@ -1,8 +1,14 @@
 import type { IWriteAheadLog } from "@app/interfaces/IWriteAheadLog";
+import { WalRecordType, type IWalEntry } from "@domain/entities/WalRecord";
 import type { AppendRecord } from "./usecases/AppendRecord";
+import type { Checkpoint } from "./usecases/Checkpoint";
 import type { CloseLog } from "./usecases/CloseLog";
 import type { CollectMetrics } from "./usecases/CollectMetrics";
+import type { FindCheckpoint } from "./usecases/FindCheckpoint";
+import type { MarkTransaction } from "./usecases/MarkTransaction";
 import type { ReadRecord } from "./usecases/ReadRecord";
+import type { ReadRecords } from "./usecases/ReadRecords";
+import type { SnapshotLog } from "./usecases/SnapshotLog";
 import type { TruncateRecords } from "./usecases/TruncateRecords";
 
 export class WriteAheadLog implements IWriteAheadLog {
@@ -11,21 +17,51 @@ export class WriteAheadLog implements IWriteAheadLog {
     private readRecord: ReadRecord,
     private truncateRecords: TruncateRecords,
     private closeLog: CloseLog,
-    private collectMetrics: CollectMetrics
+    private collectMetrics: CollectMetrics,
+    private markTransaction: MarkTransaction,
+    private checkpointRecords: Checkpoint,
+    private findCheckpoint: FindCheckpoint,
+    private readRecords: ReadRecords,
+    private snapshotLog: SnapshotLog
   ) {}
 
-  async append(data: Buffer): Promise<number | void> {
-    return this.appendRecord.execute(data);
+  async append(data: Buffer, txnId?: number): Promise<number | void> {
+    return this.appendRecord.execute(data, txnId);
+  }
+
+  async commit(txnId: number): Promise<number | void> {
+    return this.markTransaction.execute(WalRecordType.Commit, txnId);
+  }
+
+  async abort(txnId: number): Promise<number | void> {
+    return this.markTransaction.execute(WalRecordType.Abort, txnId);
   }
 
   async read(offset: number, length: number): Promise<Buffer | void> {
     return this.readRecord.execute(offset, length);
   }
 
+  records(from?: number): AsyncGenerator<IWalEntry> {
+    return this.readRecords.execute(from);
+  }
+
   async truncate(upToOffset: number): Promise<void> {
     return this.truncateRecords.execute(upToOffset);
   }
 
+  async checkpoint(offset: number): Promise<number | void> {
+    return this.checkpointRecords.execute(offset);
+  }
+
+  async getCheckpoint(): Promise<number> {
+    return this.findCheckpoint.execute();
+  }
+
+  // a copy of the log files that opens as a WAL of its own
+  async snapshot(dirPath: string) {
+    return this.snapshotLog.execute(dirPath);
+  }
+
   async close() {
     await this.closeLog.execute();
   }
@@ -1,10 +1,16 @@
 import type { IWriteAheadLog } from "@app/interfaces/IWriteAheadLog";
 import { AppendRecord } from "@app/usecases/AppendRecord";
+import { Checkpoint } from "@app/usecases/Checkpoint";
 import { CloseLog } from "@app/usecases/CloseLog";
 import { CollectMetrics } from "@app/usecases/CollectMetrics";
+import { FindCheckpoint } from "@app/usecases/FindCheckpoint";
+import { MarkTransaction } from "@app/usecases/MarkTransaction";
 import { ReadRecord } from "@app/usecases/ReadRecord";
+import { ReadRecords } from "@app/usecases/ReadRecords";
+import { SnapshotLog } from "@app/usecases/SnapshotLog";
 import { TruncateRecords } from "@app/usecases/TruncateRecords";
 import { WriteAheadLog } from "@app/WriteAheadLog";
+import type { WalDurability } from "@domain/entities/WalDurability";
 import { FileAppender } from "@infra/filesystem/FileAppender";
 import { FileLogManager } from "@infra/filesystem/FileLogManager";
 import { FileReader } from "@infra/filesystem/FileReader";
@@ -12,25 +18,40 @@ import { FileTruncator } from "@infra/filesystem/FileTruncator";
 
 export class FileWriteAheadLogFactory {
   constructor(
-    private readonly maxBatchSizeBytes: number = 10 * 1024 // 10KB
+    private readonly maxBatchSizeBytes: number = 10 * 1024, // 10KB
+    private readonly maxFileSizeBytes: number = 64 * 1024 * 1024 // 64MB
   ) {}
 
-  create(filePath: string, maxBatchSizeBytes?: number): IWriteAheadLog {
-    const logManager = new FileLogManager(filePath);
+  // durability and its group commit window are per log, as topics set them
+  create(
+    dirPath: string,
+    maxBatchSizeBytes?: number,
+    durability?: WalDurability,
+    groupCommitMs?: number
+  ): IWriteAheadLog {
+    const logManager = new FileLogManager(dirPath, this.maxFileSizeBytes);
 
     const appender = new FileAppender(
       logManager,
-      maxBatchSizeBytes ?? this.maxBatchSizeBytes
+      maxBatchSizeBytes ?? this.maxBatchSizeBytes,
+      durability,
+      groupCommitMs
     );
     const reader = new FileReader(logManager);
-    const truncator = new FileTruncator(filePath, logManager);
+    const truncator = new FileTruncator(logManager);
+    const readRecords = new ReadRecords(reader, logManager);
 
     return new WriteAheadLog(
       new AppendRecord(appender),
       new ReadRecord(reader),
       new TruncateRecords(truncator),
       new CloseLog(logManager, appender),
-      new CollectMetrics(logManager, appender)
+      new CollectMetrics(logManager, appender),
+      new MarkTransaction(appender),
+      new Checkpoint(appender, truncator),
+      new FindCheckpoint(readRecords, logManager),
+      readRecords,
+      new SnapshotLog(logManager, appender)
     );
   }
 }
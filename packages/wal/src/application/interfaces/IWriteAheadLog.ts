@@ -1,10 +1,21 @@
+import type { IWalEntry } from "@domain/entities/WalRecord";
+
 export interface IWriteAheadLog {
-  append(data: Buffer): Promise<number | void>;
+  append(data: Buffer, txnId?: number): Promise<number | void>;
+  commit(txnId: number): Promise<number | void>;
+  abort(txnId: number): Promise<number | void>;
   read(offset: number, length: number): Promise<Buffer | void>;
+  records(from?: number): AsyncGenerator<IWalEntry>;
   truncate(upToOffset: number): Promise<void>;
+  checkpoint(offset: number): Promise<number | void>;
+  getCheckpoint(): Promise<number>;
+  snapshot(dirPath: string): Promise<void>;
   close(): Promise<void>;
   getMetrics(): Promise<{
     size: number | undefined;
+    fileCount: number;
+    truncatedBytes: number;
+    endOffset: number;
     batchSize: number;
     batchCount: number;
     isFlushing: boolean;
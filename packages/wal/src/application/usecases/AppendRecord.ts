@@ -1,9 +1,12 @@
 import type { IAppender } from "@domain/ports/IAppender";
+import { WalRecord, WalRecordType } from "@domain/entities/WalRecord";
 
 export class AppendRecord {
   constructor(private appender: IAppender) {}
 
-  async execute(data: Buffer) {
-    return this.appender.append(data);
+  async execute(data: Buffer, txnId?: number) {
+    return this.appender.append(
+      WalRecord.encode(WalRecordType.Data, txnId, data)
+    );
   }
 }
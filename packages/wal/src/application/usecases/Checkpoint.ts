@@ -0,0 +1,24 @@
+import type { IAppender } from "@domain/ports/IAppender";
+import type { ITruncator } from "@domain/ports/ITruncator";
+import { WalRecord, WalRecordType } from "@domain/entities/WalRecord";
+
+export class Checkpoint {
+  constructor(
+    private appender: IAppender,
+    private truncator: ITruncator
+  ) {}
+
+  // everything below offset is applied, so files that end before it can go
+  async execute(offset: number) {
+    const payload = Buffer.alloc(8);
+    payload.writeBigUInt64BE(BigInt(offset));
+
+    const markerOffset = await this.appender.append(
+      WalRecord.encode(WalRecordType.Checkpoint, 0, payload)
+    );
+    await this.appender.flush();
+    await this.truncator.truncate(offset);
+
+    return markerOffset;
+  }
+}
@@ -9,6 +9,7 @@ export class CloseLog {
   ) {}
 
   async execute() {
+    await this.logManager.ready;
     await this.appender.flush();
     this.logManager.close();
   }
@@ -9,9 +9,13 @@ export class CollectMetrics {
   ) {}
 
   async execute() {
-    const stats = await this.logManager.log?.stat();
+    await this.logManager.ready;
+    const files = this.logManager.getFiles();
     return {
-      size: stats?.size,
+      size: files.reduce((size, file) => size + file.size, 0),
+      fileCount: files.length,
+      truncatedBytes: this.logManager.getTruncatedBytes(),
+      endOffset: this.logManager.getEndOffset(), // past the last flushed record
       batchSize: this.appender.batchSize,
       batchCount: this.appender.batch.length,
       isFlushing: this.appender.isFlushing,
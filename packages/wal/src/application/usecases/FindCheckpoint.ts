@@ -0,0 +1,31 @@
+import type { FileHandle } from "fs/promises";
+import { WalCorruptionError } from "@domain/entities/WalCorruptionError";
+import { WalRecordType } from "@domain/entities/WalRecord";
+import type { ILogManager } from "@domain/ports/ILogManager";
+import type { ReadRecords } from "./ReadRecords";
+
+export class FindCheckpoint {
+  constructor(
+    private readRecords: ReadRecords,
+    private logManager: ILogManager<FileHandle>
+  ) {}
+
+  // the last checkpoint across the kept files, or the oldest kept offset
+  async execute() {
+    await this.logManager.ready;
+    const start = this.logManager.getFiles()[0]?.baseOffset ?? 0;
+    let checkpoint = start;
+
+    try {
+      for await (const record of this.readRecords.execute(start)) {
+        if (record.type !== WalRecordType.Checkpoint) continue;
+        checkpoint = Number(record.payload.readBigUInt64BE(0));
+      }
+    } catch (error) {
+      // checkpoints past a corrupt record can't be trusted either
+      if (!(error instanceof WalCorruptionError)) throw error;
+    }
+
+    return Math.max(checkpoint, start);
+  }
+}
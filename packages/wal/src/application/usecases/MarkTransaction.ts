@@ -0,0 +1,16 @@
+import type { IAppender } from "@domain/ports/IAppender";
+import { WalRecord, type WalRecordType } from "@domain/entities/WalRecord";
+
+export class MarkTransaction {
+  constructor(private appender: IAppender) {}
+
+  async execute(
+    type: WalRecordType.Commit | WalRecordType.Abort,
+    txnId: number
+  ) {
+    const offset = await this.appender.append(WalRecord.encode(type, txnId));
+    // the marker is the decision point on recovery, it can't sit in a batch
+    await this.appender.flush();
+    return offset;
+  }
+}
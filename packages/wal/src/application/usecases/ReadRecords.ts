@@ -0,0 +1,56 @@
+import type { FileHandle } from "fs/promises";
+import { WalCorruptionError } from "@domain/entities/WalCorruptionError";
+import {
+  WalRecord,
+  WalRecordType,
+  type IWalEntry,
+} from "@domain/entities/WalRecord";
+import type { ILogManager } from "@domain/ports/ILogManager";
+import type { IReader } from "@domain/ports/IReader";
+
+export class ReadRecords {
+  constructor(
+    private reader: IReader,
+    private logManager: ILogManager<FileHandle>
+  ) {}
+
+  // verified records from offset to the end, throws at the first corrupt one
+  async *execute(from?: number): AsyncGenerator<IWalEntry> {
+    await this.logManager.ready;
+    let offset = from ?? this.logManager.getFiles()[0]?.baseOffset ?? 0;
+
+    while (offset < this.logManager.getEndOffset()) {
+      const headerBytes = await this.reader.read(offset, WalRecord.HEADER_SIZE);
+      if (!headerBytes) return; // below the oldest kept file
+      if (headerBytes.length < WalRecord.HEADER_SIZE) {
+        throw new WalCorruptionError(offset, "torn");
+      }
+
+      const { length, type, txnId } = WalRecord.decodeHeader(headerBytes);
+      if (length < WalRecord.HEADER_SIZE - 4) {
+        throw new WalCorruptionError(offset, "length");
+      }
+      if (offset + 4 + length > this.logManager.getEndOffset()) {
+        throw new WalCorruptionError(offset, "torn");
+      }
+
+      const record = await this.reader.read(offset, 4 + length);
+      if (!record || record.length < 4 + length) {
+        throw new WalCorruptionError(offset, "torn");
+      }
+      if (!WalRecord.verify(record)) {
+        throw new WalCorruptionError(offset, "checksum");
+      }
+
+      const nextOffset = offset + record.length;
+
+      // types from newer minor versions are skipped by length
+      if (type in WalRecordType) {
+        const payload = record.subarray(WalRecord.HEADER_SIZE);
+        yield { offset, nextOffset, type, txnId, payload };
+      }
+
+      offset = nextOffset;
+    }
+  }
+}
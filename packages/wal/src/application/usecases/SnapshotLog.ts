@@ -0,0 +1,17 @@
+import type { FileHandle } from "fs/promises";
+import type { IAppender } from "@domain/ports/IAppender";
+import type { ILogManager } from "@domain/ports/ILogManager";
+
+export class SnapshotLog {
+  constructor(
+    private logManager: ILogManager<FileHandle>,
+    private appender: IAppender
+  ) {}
+
+  // the pending batch goes first, so the copy covers everything appended so far
+  async execute(dirPath: string) {
+    await this.logManager.ready;
+    await this.appender.flush();
+    await this.logManager.snapshot(dirPath);
+  }
+}
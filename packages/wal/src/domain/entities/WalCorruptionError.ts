@@ -0,0 +1,11 @@
+export type WalCorruption = "torn" | "length" | "checksum";
+
+// thrown by record iteration, records past offset can't be trusted
+export class WalCorruptionError extends Error {
+  constructor(
+    public readonly offset: number,
+    public readonly reason: WalCorruption
+  ) {
+    super(`Corrupt WAL record at offset ${offset}: ${reason}`);
+  }
+}
@@ -0,0 +1,5 @@
+// when append() resolves:
+// sync - after its own fsync
+// group - after an fsync shared by all appends within groupCommitMs
+// async - right away, fsync happens once the batch overflows
+export type WalDurability = "sync" | "group" | "async";
@@ -0,0 +1,47 @@
+export interface IWalFileHeader {
+  major: number;
+  minor: number;
+  baseOffset: number;
+  createdAt: number;
+}
+
+// [magic u32][major u8][minor u8][reserved u16][baseOffset u64][createdAt u64]
+// minor bumps only add what old readers can skip, e.g. new record types
+export class WalFileHeader {
+  static SIZE = 24;
+  static MAGIC = 0x5a57414c; // "ZWAL"
+  static MAJOR = 1;
+  static MINOR = 0;
+
+  static encode(baseOffset: number): Buffer {
+    const header = Buffer.alloc(WalFileHeader.SIZE);
+    header.writeUInt32BE(WalFileHeader.MAGIC, 0);
+    header.writeUInt8(WalFileHeader.MAJOR, 4);
+    header.writeUInt8(WalFileHeader.MINOR, 5);
+    header.writeBigUInt64BE(BigInt(baseOffset), 8);
+    header.writeBigUInt64BE(BigInt(Date.now()), 16);
+    return header;
+  }
+
+  static decode(buffer: Buffer): IWalFileHeader {
+    if (
+      buffer.length < WalFileHeader.SIZE ||
+      buffer.readUInt32BE(0) !== WalFileHeader.MAGIC
+    ) {
+      throw new Error("Not a WAL file");
+    }
+
+    const header = {
+      major: buffer.readUInt8(4),
+      minor: buffer.readUInt8(5),
+      baseOffset: Number(buffer.readBigUInt64BE(8)),
+      createdAt: Number(buffer.readBigUInt64BE(16)),
+    };
+
+    if (header.major > WalFileHeader.MAJOR) {
+      throw new Error(`Unsupported WAL format version ${header.major}`);
+    }
+
+    return header;
+  }
+}
@@ -0,0 +1,60 @@
+import crc from "crc-32";
+
+export enum WalRecordType {
+  Data = 0,
+  Commit = 1,
+  Abort = 2,
+  Checkpoint = 3, // payload is the u64 offset everything below which is applied
+}
+
+export interface IWalRecordHeader {
+  length: number;
+  checksum: number;
+  type: WalRecordType;
+  txnId: number;
+}
+
+export interface IWalEntry {
+  offset: number;
+  nextOffset: number;
+  type: WalRecordType;
+  txnId: number;
+  payload: Buffer;
+}
+
+// [length u32][crc32 u32][type u8][txnId u64][payload]
+// length covers everything after itself, crc32 everything after itself
+export class WalRecord {
+  static HEADER_SIZE = 17;
+
+  static encode(
+    type: WalRecordType,
+    txnId = 0,
+    payload: Buffer = Buffer.alloc(0)
+  ): Buffer {
+    const record = Buffer.alloc(WalRecord.HEADER_SIZE + payload.length);
+    record.writeUInt32BE(WalRecord.HEADER_SIZE - 4 + payload.length, 0);
+    record.writeUInt8(type, 8);
+    record.writeBigUInt64BE(BigInt(txnId), 9);
+    payload.copy(record, WalRecord.HEADER_SIZE);
+    record.writeUInt32BE(WalRecord.checksum(record), 4);
+    return record;
+  }
+
+  static decodeHeader(buffer: Buffer): IWalRecordHeader {
+    return {
+      length: buffer.readUInt32BE(0),
+      checksum: buffer.readUInt32BE(4),
+      type: buffer.readUInt8(8),
+      txnId: Number(buffer.readBigUInt64BE(9)),
+    };
+  }
+
+  static verify(record: Buffer) {
+    return record.readUInt32BE(4) === WalRecord.checksum(record);
+  }
+
+  private static checksum(record: Buffer) {
+    return crc.buf(record.subarray(8)) >>> 0;
+  }
+}
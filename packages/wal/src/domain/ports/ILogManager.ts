@@ -1,4 +1,20 @@
+export interface ILogFile<T> {
+  baseOffset: number; // logical offset of the first byte
+  size: number; // without the file header
+  filePath: string;
+  handle?: T; // only the active file stays open
+}
+
 export interface ILogManager<T> {
   log?: T;
+  ready: Promise<void>;
+  getFiles(): ILogFile<T>[];
+  getActiveFile(): ILogFile<T> | undefined;
+  getEndOffset(): number;
+  getMaxFileSizeBytes(): number;
+  getTruncatedBytes(): number; // torn tail dropped on open
+  roll(): Promise<void>;
+  remove(file: ILogFile<T>): Promise<void>;
+  snapshot(dirPath: string): Promise<void>;
   close(): void;
 }
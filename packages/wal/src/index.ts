@@ -1,2 +1,6 @@
 export { FileWriteAheadLogFactory } from "@app/factories/FileWalFactory";
 export * from "@app/interfaces/IWriteAheadLog";
+export type * from "@domain/entities/WalDurability";
+export * from "@domain/entities/WalCorruptionError";
+export * from "@domain/entities/WalFileHeader";
+export * from "@domain/entities/WalRecord";
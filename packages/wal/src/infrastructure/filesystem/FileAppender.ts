@@ -1,4 +1,5 @@
 import type { FileHandle } from "fs/promises";
+import type { WalDurability } from "@domain/entities/WalDurability";
 import type { IAppender } from "@domain/ports/IAppender";
 import type { ILogManager } from "@domain/ports/ILogManager";
 
@@ -7,17 +8,24 @@ export class FileAppender implements IAppender {
   public isFlushing = false;
   public batch: Buffer[] = [];
   public batchSize = 0;
+  private nextOffset?: number;
+  private groupCommit?: Promise<void>;
 
   constructor(
     private logManager: ILogManager<FileHandle>,
-    private maxBatchSizeBytes = 1 * 1024 * 1024
+    private maxBatchSizeBytes = 1 * 1024 * 1024,
+    private durability: WalDurability = "async",
+    private groupCommitMs = 5
   ) {}
 
   async append(data: Buffer): Promise<number | void> {
+    await this.logManager.ready;
     if (!this.logManager.log) return;
 
     try {
-      const { size: offset } = await this.logManager.log.stat();
+      // batched records get their offsets before they reach the file
+      const offset = this.nextOffset ?? this.logManager.getEndOffset();
+      this.nextOffset = offset + data.length;
       this.batch.push(data);
       this.batchSize += data.length;
 
@@ -25,6 +33,9 @@ export class FileAppender implements IAppender {
         this.scheduleFlush();
       }
 
+      if (this.durability === "sync") await this.flush();
+      if (this.durability === "group") await this.joinGroupCommit();
+
       return offset;
     } catch (cause) {
       throw new Error("Failed to append to WAL", { cause });
@@ -41,10 +52,19 @@ export class FileAppender implements IAppender {
         if (!this.logManager.log) return;
         try {
           const toWrite = Buffer.concat(this.batch);
-          await this.logManager.log.write(toWrite);
-          await this.logManager.log.sync();
-          this.batch = [];
-          this.batchSize = 0;
+          const batchLength = this.batch.length;
+
+          // a batch never spans files, so records keep their offsets
+          const active = this.logManager.getActiveFile()!;
+          if (active.size >= this.logManager.getMaxFileSizeBytes()) {
+            await this.logManager.roll();
+          }
+
+          await this.logManager.log!.write(toWrite);
+          await this.logManager.log!.sync();
+          this.logManager.getActiveFile()!.size += toWrite.length;
+          this.batch = this.batch.slice(batchLength);
+          this.batchSize -= toWrite.length;
           resolve();
         } catch (err) {
           reject(err);
@@ -62,8 +82,23 @@ export class FileAppender implements IAppender {
     return this.flushPromise;
   }
 
+  // appends arriving within the window share one flush
+  private joinGroupCommit() {
+    if (!this.groupCommit) {
+      this.groupCommit = new Promise<void>((resolve) =>
+        setTimeout(resolve, this.groupCommitMs)
+      ).then(() => {
+        this.groupCommit = undefined;
+        return this.flush();
+      });
+    }
+
+    return this.groupCommit;
+  }
+
   async flush() {
-    if (this.batch.length > 0) {
+    // a running flush doesn't cover records appended while it writes
+    while (this.batch.length > 0 && this.logManager.log) {
       await this.scheduleFlush();
     }
   }
@@ -1,24 +1,177 @@
 import type { FileHandle } from "fs/promises";
 import fs from "fs/promises";
 import path from "path";
-import type { ILogManager } from "@domain/ports/ILogManager";
+import { WalFileHeader } from "@domain/entities/WalFileHeader";
+import { WalRecord } from "@domain/entities/WalRecord";
+import type { ILogFile, ILogManager } from "@domain/ports/ILogManager";
 
+// rolling files named by their base offset, so offsets stay logical across files
 export class FileLogManager implements ILogManager<FileHandle> {
-  public log?: FileHandle;
+  static FILE_EXTENSION = ".wal";
+  static TMP_SUFFIX = ".tmp";
 
-  constructor(private filePath: string) {
-    this.init();
+  public ready: Promise<void>;
+  private files: ILogFile<FileHandle>[] = [];
+  private truncatedBytes = 0;
+
+  constructor(
+    private dirPath: string,
+    private maxFileSizeBytes = 64 * 1024 * 1024
+  ) {
+    this.ready = this.init();
+  }
+
+  get log() {
+    return this.getActiveFile()?.handle;
   }
 
   private async init() {
     try {
-      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
-      this.log = await fs.open(this.filePath, "a+");
+      await fs.mkdir(this.dirPath, { recursive: true });
+      const names = await fs.readdir(this.dirPath);
+
+      for (const name of names) {
+        const filePath = path.join(this.dirPath, name);
+        // a file that never got its header renamed in
+        if (name.endsWith(FileLogManager.TMP_SUFFIX)) {
+          await fs.unlink(filePath);
+          continue;
+        }
+        if (!name.endsWith(FileLogManager.FILE_EXTENSION)) continue;
+        this.files.push(await this.stat(filePath));
+      }
+
+      this.files.sort((a, b) => a.baseOffset - b.baseOffset);
+      const active = this.getActiveFile();
+
+      if (active) {
+        active.handle = await fs.open(active.filePath, "a+");
+        await this.recover(active);
+      } else await this.open(0);
     } catch (cause) {
       throw new Error("Failed to open WAL file", { cause });
     }
   }
 
+  private async stat(filePath: string): Promise<ILogFile<FileHandle>> {
+    const handle = await fs.open(filePath, "r");
+
+    try {
+      const buffer = Buffer.alloc(WalFileHeader.SIZE);
+      await handle.read(buffer, 0, WalFileHeader.SIZE, 0);
+      const { baseOffset } = WalFileHeader.decode(buffer);
+      const { size } = await handle.stat();
+      return { baseOffset, size: size - WalFileHeader.SIZE, filePath };
+    } finally {
+      await handle.close();
+    }
+  }
+
+  // a crash mid-write leaves a partial record, appends must not land after it
+  private async recover(file: ILogFile<FileHandle>) {
+    const handle = file.handle!;
+    const header = Buffer.alloc(WalRecord.HEADER_SIZE);
+    let pos = 0;
+
+    while (pos + WalRecord.HEADER_SIZE <= file.size) {
+      const at = WalFileHeader.SIZE + pos;
+      await handle.read(header, 0, WalRecord.HEADER_SIZE, at);
+
+      const { length } = WalRecord.decodeHeader(header);
+      if (length < WalRecord.HEADER_SIZE - 4) break;
+      if (pos + 4 + length > file.size) break;
+
+      const record = Buffer.alloc(4 + length);
+      await handle.read(record, 0, record.length, at);
+      if (!WalRecord.verify(record)) break;
+
+      pos += record.length;
+    }
+
+    if (pos === file.size) return;
+
+    await handle.truncate(WalFileHeader.SIZE + pos);
+    this.truncatedBytes += file.size - pos;
+    file.size = pos;
+  }
+
+  private async open(baseOffset: number) {
+    const name = `${String(baseOffset).padStart(20, "0")}${FileLogManager.FILE_EXTENSION}`;
+    const filePath = path.join(this.dirPath, name);
+    const tmpPath = filePath + FileLogManager.TMP_SUFFIX;
+
+    // the file only shows up under its name once its header is on disk
+    const tmp = await fs.open(tmpPath, "w");
+    try {
+      await tmp.write(WalFileHeader.encode(baseOffset));
+      await tmp.sync();
+    } finally {
+      await tmp.close();
+    }
+    await fs.rename(tmpPath, filePath);
+
+    const handle = await fs.open(filePath, "a+");
+    this.files.push({ baseOffset, size: 0, filePath, handle });
+  }
+
+  getFiles() {
+    return this.files;
+  }
+
+  getActiveFile() {
+    return this.files[this.files.length - 1];
+  }
+
+  getEndOffset() {
+    const active = this.getActiveFile();
+    return active ? active.baseOffset + active.size : 0;
+  }
+
+  getMaxFileSizeBytes() {
+    return this.maxFileSizeBytes;
+  }
+
+  getTruncatedBytes() {
+    return this.truncatedBytes;
+  }
+
+  async roll() {
+    const active = this.getActiveFile();
+    await active?.handle?.sync();
+    await active?.handle?.close();
+    if (active) active.handle = undefined;
+
+    await this.open(this.getEndOffset());
+  }
+
+  async remove(file: ILogFile<FileHandle>) {
+    if (file === this.getActiveFile()) return;
+
+    await fs.unlink(file.filePath).catch(() => {});
+    this.files = this.files.filter((f) => f !== file);
+  }
+
+  // files are cut at their known size, appends racing the copy are left out
+  async snapshot(dirPath: string) {
+    await fs.mkdir(dirPath, { recursive: true });
+    const files = this.files.map((file) => ({
+      filePath: file.filePath,
+      length: WalFileHeader.SIZE + file.size,
+    }));
+
+    for (const { filePath, length } of files) {
+      const target = path.join(dirPath, path.basename(filePath));
+
+      try {
+        await fs.copyFile(filePath, target);
+        await fs.truncate(target, length);
+      } catch (error) {
+        // checkpointed away in the meantime
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+      }
+    }
+  }
+
   [Symbol.asyncDispose]() {
     return this.close();
   }
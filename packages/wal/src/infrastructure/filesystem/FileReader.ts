@@ -1,4 +1,6 @@
 import type { FileHandle } from "fs/promises";
+import fs from "fs/promises";
+import { WalFileHeader } from "@domain/entities/WalFileHeader";
 import type { ILogManager } from "@domain/ports/ILogManager";
 import type { IReader } from "@domain/ports/IReader";
 
@@ -6,14 +8,27 @@ export class FileReader implements IReader {
   constructor(private logManager: ILogManager<FileHandle>) {}
 
   async read(offset: number, length: number): Promise<Buffer | void> {
-    if (!this.logManager.log) return;
+    await this.logManager.ready;
+    const file = this.logManager
+      .getFiles()
+      .findLast((f) => f.baseOffset <= offset);
+    if (!file || offset >= file.baseOffset + file.size) return;
+
+    const handle = file.handle ?? (await fs.open(file.filePath, "r"));
 
     try {
       const buffer = Buffer.alloc(length);
-      await this.logManager.log.read(buffer, 0, length, offset);
-      return buffer;
+      const { bytesRead } = await handle.read(
+        buffer,
+        0,
+        length,
+        offset - file.baseOffset + WalFileHeader.SIZE
+      );
+      return buffer.subarray(0, bytesRead);
     } catch (cause) {
       throw new Error("Failed to read from WAL", { cause });
+    } finally {
+      if (!file.handle) await handle.close();
     }
   }
 }
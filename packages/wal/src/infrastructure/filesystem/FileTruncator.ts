@@ -1,24 +1,19 @@
 import type { FileHandle } from "fs/promises";
-import fs from "fs/promises";
 import type { ILogManager } from "@domain/ports/ILogManager";
 import type { ITruncator } from "@domain/ports/ITruncator";
 
 export class FileTruncator implements ITruncator {
-  static HEADER_SIZE = 24;
-
-  constructor(
-    private filePath: string,
-    private logManager: ILogManager<FileHandle>
-  ) {}
+  constructor(private logManager: ILogManager<FileHandle>) {}
 
+  // drops the oldest files once all of their records are below upToOffset
   async truncate(upToOffset: number): Promise<void> {
     try {
-      if (!this.logManager.log) {
-        this.logManager.log = await fs.open(this.filePath, "r+");
-      }
+      await this.logManager.ready;
 
-      await this.logManager.log.truncate(upToOffset);
-      await this.logManager.log.sync();
+      for (const file of [...this.logManager.getFiles()]) {
+        if (file.baseOffset + file.size > upToOffset) break;
+        await this.logManager.remove(file);
+      }
     } catch (cause) {
       throw new Error("Failed to truncate the WAL", { cause });
     }
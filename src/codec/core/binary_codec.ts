@@ -1,5 +1,5 @@
 import msgpack from "@msgpack/msgpack";
-import ox from "ox";
+import { Json } from "ox";
 import snappy from "snappy";
 import type { ISchema } from "../schema/types";
 import type { ICodec } from "./types";
@@ -27,9 +27,9 @@ export class BinaryCodec implements ICodec {
       if (schema) return schema.deserialize(decompressed);
 
       const uint8Array = new Uint8Array(
-        buffer.buffer,
-        buffer.byteOffset,
-        buffer.byteLength
+        decompressed.buffer,
+        decompressed.byteOffset,
+        decompressed.byteLength
       );
       return msgpack.decode(uint8Array) as T;
     } catch (e) {
@@ -76,7 +76,7 @@ export class BinaryCodec implements ICodec {
   }
 
   private bufferToJson<T>(buffer: Buffer): T {
-    return ox.Json.parse(buffer.toString("utf8")) as T;
+    return Json.parse(buffer.toString("utf8")) as T;
   }
 }
 
@@ -16,7 +16,7 @@ export const messageMetadataSchema: ISchema<MessageMetadata> = {
 
     const flags = meta.flags;
 
-    let fixedSize = 4 + 8 + 4 + 1; // id(4), ts(8), producerId(4), flags(1)
+    let fixedSize = 8 + 8 + 8 + 1; // id(8), ts(8), producerId(8), flags(1)
 
     if (flags & 0x01) fixedSize += 1; // priority
     if (flags & 0x02) fixedSize += 4; // ttl
@@ -32,12 +32,13 @@ export const messageMetadataSchema: ISchema<MessageMetadata> = {
     const buffer = Buffer.allocUnsafe(fixedSize + variableSize);
     let offset = 0;
 
-    buffer.writeUInt32BE(meta.id, offset);
-    offset += 4;
+    // ids are generated past 32 bits, doubles hold them exactly
+    buffer.writeDoubleBE(meta.id, offset);
+    offset += 8;
     buffer.writeDoubleBE(meta.ts, offset);
     offset += 8;
-    buffer.writeUInt32BE(meta.producerId, offset);
-    offset += 4;
+    buffer.writeDoubleBE(meta.producerId, offset);
+    offset += 8;
     buffer.writeUInt8(flags, offset++);
 
     if (flags & 0x01) {
@@ -82,32 +83,27 @@ export const messageMetadataSchema: ISchema<MessageMetadata> = {
     const meta = new MessageMetadata();
     let offset = 0;
 
-    meta.id = buffer.readUInt32BE(offset);
-    offset += 4;
+    meta.id = buffer.readDoubleBE(offset);
+    offset += 8;
     meta.ts = buffer.readDoubleBE(offset);
     offset += 8;
-    meta.producerId = buffer.readUInt32BE(offset);
-    offset += 4;
+    meta.producerId = buffer.readDoubleBE(offset);
+    offset += 8;
     const flags = buffer.readUInt8(offset++);
 
+    // absent optional fields take no bytes, as serialize writes them
     if (flags & 0x01) {
       meta.priority = buffer.readUInt8(offset++);
-    } else {
-      offset++;
     }
 
     if (flags & 0x02) {
       meta.ttl = buffer.readUInt32BE(offset);
       offset += 4;
-    } else {
-      offset += 4;
     }
 
     if (flags & 0x04) {
       meta.ttd = buffer.readUInt32BE(offset);
       offset += 4;
-    } else {
-      offset += 4;
     }
 
     const topicLen = buffer.readUInt8(offset++);
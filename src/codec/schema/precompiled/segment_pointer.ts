@@ -1,4 +1,4 @@
-import { SegmentPointer } from "../../..";
+import type { SegmentPointer } from "@zephyrmq/segmentlog";
 import type { ISchema } from "../types";
 
 export const segmentPointerSchema: ISchema<SegmentPointer> = {
@@ -7,16 +7,16 @@ export const segmentPointerSchema: ISchema<SegmentPointer> = {
     buffer.writeInt32BE(pointer.segmentId, 0);
     buffer.writeInt32BE(pointer.offset, 4);
     buffer.writeInt32BE(pointer.length, 8);
-    buffer.writeInt32BE(pointer.messageOffset, 12);
+    buffer.writeInt32BE(pointer.recordOffset, 12);
     return buffer;
   },
 
   deserialize(buffer: Buffer): SegmentPointer {
-    const pointer = new SegmentPointer();
-    pointer.segmentId = buffer.readInt32BE(0);
-    pointer.offset = buffer.readInt32BE(4);
-    pointer.length = buffer.readInt32BE(8);
-    pointer.messageOffset = buffer.readInt32BE(12);
-    return pointer;
+    return {
+      segmentId: buffer.readInt32BE(0),
+      offset: buffer.readInt32BE(4),
+      length: buffer.readInt32BE(8),
+      recordOffset: buffer.readInt32BE(12),
+    };
   },
 };
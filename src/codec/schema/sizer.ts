@@ -1,7 +1,7 @@
-import type { IFieldDefinition, ISchema } from "./types";
+import type { IFieldDefinition, Schema } from "./types";
 
 export class BinarySchemaSizer {
-  static estimateSize<T>(data: T, schema: ISchema<T>): number {
+  static estimateSize<T>(data: T, schema: Schema<T>): number {
     let total = 0;
     const entries = Object.entries(schema) as Array<
       [keyof T, IFieldDefinition]
@@ -14,7 +14,11 @@ export class BinarySchemaSizer {
       total += this.getFieldSize(def, value);
     }
 
-    const flagByte = Object.values(schema).some((def) => def.optional) ? 1 : 0;
+    const flagByte = (Object.values(schema) as IFieldDefinition[]).some(
+      (def) => def.optional
+    )
+      ? 1
+      : 0;
     return flagByte + total;
   }
 
@@ -34,14 +34,16 @@ export class WorkerPool {
       const worker = new Worker(workerPath, {
         workerData,
       });
+      // idle workers don't keep the process running
+      worker.unref();
 
       worker.on("message", (response: WorkerResponse) => {
         const handlers = this.pending.get(response.id);
         if (!handlers) return;
 
         const workerIndex = this.workers.indexOf(worker);
-        if (workerIndex !== -1) {
-          this.pendingRequests[workerIndex]--;
+        if (workerIndex !== -1 && !--this.pendingRequests[workerIndex]) {
+          worker.unref();
         }
 
         if (response.error) {
@@ -80,6 +82,8 @@ export class WorkerPool {
     worker = this.getNextWorker()
   ): Promise<T> {
     const id = this.nextId++;
+    const workerIndex = this.workers.indexOf(worker);
+    if (!this.pendingRequests[workerIndex]++) worker.ref();
     worker.postMessage({ id, method, args } as WorkerRequest, transferList);
 
     return new Promise((resolve, reject) => {
@@ -31,8 +31,8 @@ parentPort?.on("message", (msg: WorkerRequest) => {
             compress
           );
 
-          // Extract ArrayBuffer for transfer
-          result = buffer.buffer;
+          // a copy of its own, the buffer may be a slice of a pooled one
+          result = new Uint8Array(buffer).buffer;
         }
         break;
       case "decode":
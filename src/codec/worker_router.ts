@@ -1,4 +1,4 @@
-import { join } from "path";
+import { extname, join } from "path";
 import type { TransferListItem } from "worker_threads";
 import { BinaryCodec } from "./core/binary_codec";
 import {
@@ -28,23 +28,27 @@ export interface CodecManagerConfig {
 
 export class CodecWorkerRouter implements ICodecWorkerRouter {
   private static readonly DEFAULT_SIZE_THRESHOLD = 10_000;
+  // the worker is built next to this module, run from source there is none to start
+  private static readonly WORKER_EXT = extname(import.meta.filename);
+  private static readonly WORKER_PATH = join(
+    import.meta.dirname,
+    "thread",
+    `worker${CodecWorkerRouter.WORKER_EXT}`
+  );
 
   private readonly codec: ICodec;
   private readonly sizeThreshold: number;
-  private readonly workerpool: WorkerPool;
   private readonly schemaRegistry: BinarySchemaRegistry;
+  private readonly schemas = new Map<string, Schema<any>>(); // replayed to a pool started later
+  private workerpool?: WorkerPool;
 
-  constructor({ sizeThreshold, encryptionOptions }: CodecManagerConfig = {}) {
+  constructor(private readonly config: CodecManagerConfig = {}) {
+    const { sizeThreshold, encryptionOptions } = config;
     this.sizeThreshold =
       sizeThreshold ?? CodecWorkerRouter.DEFAULT_SIZE_THRESHOLD;
 
     this.schemaRegistry = new BinarySchemaRegistry();
 
-    this.workerpool = new WorkerPool(
-      join(__dirname, "thread", "worker"),
-      encryptionOptions
-    );
-
     this.codec = encryptionOptions
       ? new EncryptedBinaryCodec(encryptionOptions)
       : new BinaryCodec();
@@ -56,30 +60,30 @@ export class CodecWorkerRouter implements ICodecWorkerRouter {
     compress = false
   ): Promise<Buffer> {
     const schema = this.getSchema<T>(schemaRef);
-    const estimated = schema ? BinarySchemaSizer.estimateSize(data, schema) : 0;
-
-    if (schema && estimated <= this.sizeThreshold) {
-      return this.workerpool.send<Buffer>("encode", [
-        data,
-        schemaRef,
-        compress,
-      ]);
+    // precompiled schemas have no definition to size, their records are small
+    const definition = schemaRef ? this.schemas.get(schemaRef) : undefined;
+    const estimated = definition
+      ? BinarySchemaSizer.estimateSize(data, definition)
+      : 0;
+
+    const pool = estimated > this.sizeThreshold && this.getPool();
+    if (pool) {
+      return pool.send<Buffer>("encode", [data, schemaRef, compress]);
     }
 
     return this.codec.encode(data, schema, compress);
   }
 
   async decode<T>(buffer: Buffer, schemaRef?: string): Promise<T> {
-    if (buffer.length > this.sizeThreshold) {
-      // buffer => uint8array for transferlist
-      const arrayBuffer = buffer.buffer as TransferListItem;
-      const byteOffset = buffer.byteOffset;
-      const byteLength = buffer.byteLength;
+    const pool = buffer.length > this.sizeThreshold && this.getPool();
+    if (pool) {
+      // a copy is transferred, the buffer may share its memory with others
+      const { buffer: arrayBuffer, byteLength } = new Uint8Array(buffer);
 
-      return this.workerpool.send<T>(
+      return pool.send<T>(
         "decode",
-        [{ byteOffset, byteLength }, schemaRef],
-        [arrayBuffer]
+        [{ arrayBuffer, byteOffset: 0, byteLength }, schemaRef],
+        [arrayBuffer as TransferListItem]
       );
     }
 
@@ -99,14 +103,34 @@ export class CodecWorkerRouter implements ICodecWorkerRouter {
 
   async registerSchema<T>(name: string, schema: Schema<T>) {
     this.schemaRegistry.addSchema(name, new BinarySchema(schema));
+    this.schemas.set(name, schema);
+    if (!this.workerpool) return [];
     return this.workerpool.sendToAll<boolean>("registerSchema", [name, schema]);
   }
 
   async removeSchema(name: string) {
     this.schemaRegistry.removeSchema(name);
+    this.schemas.delete(name);
+    if (!this.workerpool) return [];
     return this.workerpool.sendToAll<boolean>("unregisterSchema", [name]);
   }
 
+  // workers start with the first message big enough for them
+  private getPool() {
+    if (this.workerpool || CodecWorkerRouter.WORKER_EXT === ".ts") {
+      return this.workerpool;
+    }
+
+    this.workerpool = new WorkerPool(
+      CodecWorkerRouter.WORKER_PATH,
+      this.config.encryptionOptions
+    );
+    for (const [name, schema] of this.schemas) {
+      this.workerpool.sendToAll("registerSchema", [name, schema]);
+    }
+    return this.workerpool;
+  }
+
   private getSchema<T>(schemaRef?: string) {
     return schemaRef ? this.schemaRegistry.getSchema<T>(schemaRef) : undefined;
   }
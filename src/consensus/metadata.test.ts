@@ -0,0 +1,175 @@
+import { InMemoryKeyValueStore } from "@zephyrmq/pds";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { IBroker, IConsumerConfig } from "..";
+import { RaftMetadata, type MetadataCommand } from "./metadata";
+import { InMemoryRaftTransport, type IRaftTransport } from "./transport";
+
+const NODES = ["a", "b", "c"];
+
+// keeps consumers across restarts of the metadata node, as the broker does
+class MemoryTopic {
+  consumers = new Map<number, { id: number; config: IConsumerConfig }>();
+
+  constructor(public name: string) {}
+
+  createConsumer(config: IConsumerConfig, id: number) {
+    if (this.consumers.has(id)) throw new Error("Client already registered");
+    const consumer = { id, config };
+    this.consumers.set(id, consumer);
+    return consumer;
+  }
+
+  restoreConsumer(_: IConsumerConfig, id: number) {
+    return this.consumers.get(id);
+  }
+
+  deleteClient(id: number) {
+    this.consumers.delete(id);
+  }
+}
+
+class MemoryBroker {
+  topicsByName = new Map<string, MemoryTopic>();
+  schemasByName = new Map<string, unknown>();
+
+  topics = {
+    create: (name: string) => {
+      this.topicsByName.set(name, new MemoryTopic(name));
+    },
+    get: (name: string) => this.topicsByName.get(name),
+    delete: async (name: string) => {
+      this.topicsByName.delete(name);
+    },
+    list: () => this.topicsByName.keys(),
+  };
+
+  schemas = {
+    getSchema: (name: string) => this.schemasByName.get(name),
+    register: async (name: string, schema: unknown) => {
+      this.schemasByName.set(name, schema);
+    },
+    remove: async (name: string) => {
+      this.schemasByName.delete(name);
+    },
+  };
+}
+
+describe("RaftMetadata", () => {
+  let transport: IRaftTransport<MetadataCommand>;
+  let brokers: MemoryBroker[];
+  let dbs: InMemoryKeyValueStore<unknown>[];
+  let nodes: RaftMetadata[];
+
+  const createNodes = () =>
+    NODES.map(
+      (id, i) =>
+        new RaftMetadata(
+          id,
+          NODES.filter((peer) => peer !== id),
+          brokers[i] as unknown as IBroker,
+          transport,
+          { db: dbs[i], electionTimeoutMs: 30, heartbeatMs: 10 }
+        )
+    );
+
+  const waitForLeader = () =>
+    vi.waitFor(
+      () => {
+        const leader = nodes.find((node) => node.isLeader());
+        if (!leader) throw new Error("No leader");
+        return leader;
+      },
+      { timeout: 2000, interval: 10 }
+    );
+
+  beforeEach(async () => {
+    transport = new InMemoryRaftTransport<MetadataCommand>();
+    brokers = NODES.map(() => new MemoryBroker());
+    dbs = NODES.map(() => new InMemoryKeyValueStore<unknown>());
+    nodes = createNodes();
+    await Promise.all(nodes.map((node) => node.start()));
+  });
+
+  afterEach(async () => {
+    await Promise.all(nodes.map((node) => node.stop()));
+  });
+
+  it("applies topics, schemas, groups and leaders on every node", async () => {
+    const leader = await waitForLeader();
+    await leader.createTopic("orders", { partitions: 3 });
+    await expect(leader.createTopic("orders")).rejects.toThrow(
+      "Topic already exists"
+    );
+    await leader.registerSchema("order", { type: "object" } as never);
+    const consumer = await leader.joinGroup("orders", 7, { groupId: "g" });
+    await leader.assignLeader("orders", 1, "c");
+    expect(consumer.id).toBe(7);
+
+    await vi.waitFor(() => {
+      for (const [i, node] of nodes.entries()) {
+        const orders = brokers[i].topicsByName.get("orders");
+        expect(orders?.consumers.has(7)).toBe(true);
+        expect(brokers[i].schemasByName.get("order")).toEqual({
+          type: "object",
+        });
+        expect([0, 1, 2].map((p) => node.getLeader("orders", p))).toEqual([
+          "a",
+          "c",
+          "c",
+        ]);
+      }
+    });
+
+    await leader.deleteTopic("orders");
+    await vi.waitFor(() => {
+      for (const [i, node] of nodes.entries()) {
+        expect(brokers[i].topicsByName.size).toBe(0);
+        expect(node.getLeader("orders")).toBeUndefined();
+      }
+    });
+  });
+
+  it("keeps group members across a restart", async () => {
+    const leader = await waitForLeader();
+    await leader.createTopic("orders");
+    const consumer = await leader.joinGroup("orders", 7);
+    await vi.waitFor(() => {
+      for (const broker of brokers) {
+        expect(broker.topicsByName.get("orders")?.consumers.has(7)).toBe(true);
+      }
+    });
+
+    await Promise.all(nodes.map((node) => node.stop()));
+    nodes = createNodes();
+    await Promise.all(nodes.map((node) => node.start()));
+
+    // the join is applied already, the restarted node hands out the same consumer
+    const restarted = await waitForLeader();
+    const again = await restarted.joinGroup("orders", 7);
+    const i = NODES.indexOf(restarted.nodeId);
+    expect(again).toBe(brokers[i].topicsByName.get("orders")!.consumers.get(7));
+    if (restarted.nodeId === leader.nodeId) expect(again).toBe(consumer);
+
+    await expect(restarted.joinGroup("payments", 7)).rejects.toThrow(
+      "Topic not found"
+    );
+    await restarted.createTopic("payments");
+    await expect(restarted.joinGroup("payments", 7)).rejects.toThrow(
+      "Consumer 7 is in topic orders"
+    );
+  });
+
+  it("drops the members of a deleted topic", async () => {
+    const leader = await waitForLeader();
+    await leader.createTopic("orders");
+    await leader.joinGroup("orders", 7);
+    await leader.deleteTopic("orders");
+    await leader.createTopic("orders");
+
+    const consumer = await leader.joinGroup("orders", 7);
+    const i = NODES.indexOf(leader.nodeId);
+    expect(consumer).toBe(
+      brokers[i].topicsByName.get("orders")!.consumers.get(7)
+    );
+  });
+});
@@ -0,0 +1,297 @@
+import { InMemoryKeyValueStore, type IKeyValueStore } from "@zephyrmq/pds";
+import type { JSONSchemaType } from "ajv";
+import type {
+  IBroker,
+  IConsumer,
+  IConsumerConfig,
+  ILogCollector,
+  ITopic,
+  ITopicConfig,
+} from "..";
+import { RaftNode, type IRaftConfig, type IRaftNode } from "./raft";
+import { RaftStorage } from "./storage";
+import type { IRaftTransport } from "./transport";
+
+const LEADER_PREFIX = "leader!";
+const MEMBER_PREFIX = "member!";
+
+interface IGroupMember {
+  topic: string;
+  config: IConsumerConfig;
+}
+
+// leaders holds one node per partition
+export type MetadataCommand =
+  | {
+      type: "createTopic";
+      name: string;
+      config: ITopicConfig;
+      leaders: string[];
+    }
+  | { type: "deleteTopic"; name: string }
+  | { type: "registerSchema"; name: string; schema: JSONSchemaType<any> }
+  | { type: "removeSchema"; schemaId: string }
+  | {
+      type: "joinGroup";
+      topic: string;
+      consumerId: number;
+      config: IConsumerConfig;
+    }
+  | { type: "leaveGroup"; topic: string; consumerId: number }
+  | { type: "assignLeader"; topic: string; partition: number; nodeId: string };
+
+export interface IRaftMetadataConfig extends IRaftConfig {
+  db?: IKeyValueStore<unknown>; // raft log, partition leaders and group members, InMemoryKeyValueStore default
+  logger?: ILogCollector;
+}
+
+export interface IRaftMetadata {
+  readonly nodeId: string;
+  start(): Promise<void>;
+  createTopic<Data>(name: string, config?: ITopicConfig): Promise<ITopic<Data>>;
+  deleteTopic(name: string): Promise<void>;
+  registerSchema<T>(name: string, schema: JSONSchemaType<T>): Promise<void>;
+  removeSchema(schemaId: string): Promise<void>;
+  joinGroup<Data>(
+    topic: string,
+    consumerId: number,
+    config?: IConsumerConfig
+  ): Promise<IConsumer<Data>>;
+  leaveGroup(topic: string, consumerId: number): Promise<void>;
+  assignLeader(topic: string, partition: number, nodeId: string): Promise<void>;
+  getLeader(topic: string, partition?: number): string | undefined;
+  isLeader(): boolean;
+  getRaftLeader(): string | undefined;
+  getMetrics(): ReturnType<IRaftNode<MetadataCommand>["getMetrics"]>;
+  stop(): Promise<void>;
+}
+
+// topics, schemas, consumer group membership and partition leaders agreed on by raft.
+// Writes go to the raft leader and every node applies them to its own broker once committed
+export class RaftMetadata implements IRaftMetadata {
+  private raft: IRaftNode<MetadataCommand>;
+  private db: IKeyValueStore<unknown>;
+  private leaders = new Map<string, string>();
+  private consumers = new Map<
+    number,
+    { topic: string; consumer: IConsumer<any> }
+  >();
+
+  constructor(
+    public readonly nodeId: string,
+    private peers: string[],
+    private broker: IBroker,
+    transport: IRaftTransport<MetadataCommand>,
+    config: IRaftMetadataConfig = {}
+  ) {
+    const {
+      db = new InMemoryKeyValueStore<unknown>(),
+      logger,
+      ...raftConfig
+    } = config;
+    this.db = db;
+    this.raft = new RaftNode(
+      nodeId,
+      peers,
+      transport,
+      this.apply,
+      new RaftStorage<MetadataCommand>(db),
+      raftConfig,
+      logger
+    );
+  }
+
+  async start() {
+    for await (const [key, nodeId] of this.db.iterator({
+      prefix: LEADER_PREFIX,
+    })) {
+      this.leaders.set(key.slice(LEADER_PREFIX.length), nodeId as string);
+    }
+
+    // applied joins don't apply again, their consumers come back from the db
+    for await (const [key, member] of this.db.iterator({
+      prefix: MEMBER_PREFIX,
+    })) {
+      const { topic, config } = member as IGroupMember;
+      this.attachConsumer(
+        topic,
+        Number(key.slice(MEMBER_PREFIX.length)),
+        config
+      );
+    }
+
+    await this.raft.start();
+  }
+
+  // partitions get their leaders round-robin, starting after the last assigned one
+  async createTopic<Data>(name: string, config: ITopicConfig = {}) {
+    if (this.hasTopic(name)) throw new Error("Topic already exists");
+
+    const nodes = [this.nodeId, ...this.peers].sort();
+    const offset = this.leaders.size;
+    const leaders = Array.from(
+      { length: config.partitions ?? 1 },
+      (_, partition) => nodes[(offset + partition) % nodes.length]
+    );
+
+    await this.raft.propose({ type: "createTopic", name, config, leaders });
+    return this.broker.topics.get(name) as ITopic<Data>;
+  }
+
+  async deleteTopic(name: string) {
+    await this.raft.propose({ type: "deleteTopic", name });
+  }
+
+  async registerSchema<T>(name: string, schema: JSONSchemaType<T>) {
+    await this.raft.propose({
+      type: "registerSchema",
+      name,
+      schema: schema as JSONSchemaType<any>,
+    });
+  }
+
+  async removeSchema(schemaId: string) {
+    await this.raft.propose({ type: "removeSchema", schemaId });
+  }
+
+  // the consumer exists on every node, a client can carry on with the same id after failover
+  async joinGroup<Data>(
+    topic: string,
+    consumerId: number,
+    config: IConsumerConfig = {}
+  ) {
+    if (!this.hasTopic(topic)) throw new Error("Topic not found");
+    await this.raft.propose({ type: "joinGroup", topic, consumerId, config });
+
+    const member = this.consumers.get(consumerId);
+    if (member?.topic !== topic) {
+      throw new Error(`Consumer ${consumerId} is in topic ${member?.topic}`);
+    }
+    return member.consumer as IConsumer<Data>;
+  }
+
+  async leaveGroup(topic: string, consumerId: number) {
+    await this.raft.propose({ type: "leaveGroup", topic, consumerId });
+  }
+
+  async assignLeader(topic: string, partition: number, nodeId: string) {
+    if (!this.hasTopic(topic)) throw new Error("Topic not found");
+    if (nodeId !== this.nodeId && !this.peers.includes(nodeId)) {
+      throw new Error(`Unknown node ${nodeId}`);
+    }
+    await this.raft.propose({ type: "assignLeader", topic, partition, nodeId });
+  }
+
+  getLeader(topic: string, partition = 0) {
+    return this.leaders.get(this.leaderKey(topic, partition));
+  }
+
+  isLeader() {
+    return this.raft.isLeader();
+  }
+
+  getRaftLeader() {
+    return this.raft.getLeader();
+  }
+
+  getMetrics() {
+    return this.raft.getMetrics();
+  }
+
+  stop() {
+    return this.raft.stop();
+  }
+
+  // entries may apply again after a crash and the broker may be ahead of the log,
+  // so every command tolerates its own effect
+  private apply = async (command: MetadataCommand) => {
+    const { topics, schemas } = this.broker;
+
+    switch (command.type) {
+      case "createTopic": {
+        const { name, config, leaders } = command;
+        if (!this.hasTopic(name)) topics.create(name, config);
+        await this.db.batch(
+          leaders.map((nodeId, partition) => ({
+            type: "put" as const,
+            key: LEADER_PREFIX + this.leaderKey(name, partition),
+            value: nodeId,
+          }))
+        );
+        leaders.forEach((nodeId, partition) => {
+          this.leaders.set(this.leaderKey(name, partition), nodeId);
+        });
+        return;
+      }
+      case "deleteTopic": {
+        const { name } = command;
+        if (this.hasTopic(name)) await topics.delete(name);
+        await this.db.clear({
+          prefix: LEADER_PREFIX + this.leaderKey(name, ""),
+        });
+        for (const key of this.leaders.keys()) {
+          if (key.startsWith(this.leaderKey(name, "")))
+            this.leaders.delete(key);
+        }
+        for (const [id, consumer] of this.consumers) {
+          if (consumer.topic !== name) continue;
+          await this.db.del(MEMBER_PREFIX + id);
+          this.consumers.delete(id);
+        }
+        return;
+      }
+      case "registerSchema": {
+        const { name, schema } = command;
+        const latest = schemas.getSchema(name);
+        if (JSON.stringify(latest) === JSON.stringify(schema)) return;
+        await schemas.register(name, schema);
+        return;
+      }
+      case "removeSchema": {
+        const { schemaId } = command;
+        if (!schemas.getSchema(schemaId)) return;
+        await schemas.remove(schemaId);
+        return;
+      }
+      case "joinGroup": {
+        const { topic, consumerId, config } = command;
+        if (this.consumers.has(consumerId) || !this.hasTopic(topic)) return;
+        await this.db.put(MEMBER_PREFIX + consumerId, { topic, config });
+        this.attachConsumer(topic, consumerId, config);
+        return;
+      }
+      case "leaveGroup": {
+        const { topic, consumerId } = command;
+        if (this.hasTopic(topic)) topics.get(topic)!.deleteClient(consumerId);
+        await this.db.del(MEMBER_PREFIX + consumerId);
+        this.consumers.delete(consumerId);
+        return;
+      }
+      case "assignLeader": {
+        const { topic, partition, nodeId } = command;
+        const key = this.leaderKey(topic, partition);
+        await this.db.put(LEADER_PREFIX + key, nodeId);
+        this.leaders.set(key, nodeId);
+        return;
+      }
+    }
+  };
+
+  // the broker keeps consumers it registered before, a restarted node only needs a handle
+  private attachConsumer(topic: string, id: number, config: IConsumerConfig) {
+    if (!this.hasTopic(topic)) return;
+
+    const target = this.broker.topics.get(topic)!;
+    const consumer =
+      target.restoreConsumer(config, id) ?? target.createConsumer(config, id);
+    this.consumers.set(id, { topic, consumer });
+  }
+
+  private hasTopic(name: string) {
+    return Array.from(this.broker.topics.list()).includes(name);
+  }
+
+  private leaderKey(topic: string, partition: number | string) {
+    return `${topic}!${partition}`;
+  }
+}
@@ -0,0 +1,196 @@
+import { InMemoryKeyValueStore } from "@zephyrmq/pds";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { RaftNode } from "./raft";
+import { RaftStorage } from "./storage";
+import { InMemoryRaftTransport } from "./transport";
+
+const NODES = ["a", "b", "c"];
+
+describe("RaftNode", () => {
+  let transport: InMemoryRaftTransport<string>;
+  let applied: Record<string, string[]>;
+  let dbs: Record<string, InMemoryKeyValueStore<unknown>>;
+  let nodes: RaftNode<string>[];
+
+  const createNode = (
+    id: string,
+    apply = async (command: string) => {
+      applied[id].push(command);
+    }
+  ) =>
+    new RaftNode<string>(
+      id,
+      NODES.filter((peer) => peer !== id),
+      transport,
+      apply,
+      new RaftStorage<string>(dbs[id]),
+      { electionTimeoutMs: 30, heartbeatMs: 10 }
+    );
+
+  const start = async (...created: RaftNode<string>[]) => {
+    nodes.push(...created);
+    await Promise.all(created.map((node) => node.start()));
+  };
+
+  const waitForLeader = (among: RaftNode<string>[]) =>
+    vi.waitFor(
+      () => {
+        const leaders = among.filter((node) => node.isLeader());
+        if (leaders.length !== 1) throw new Error("No single leader");
+        return leaders[0];
+      },
+      { timeout: 2000, interval: 10 }
+    );
+
+  const setup = async () => {
+    transport = new InMemoryRaftTransport<string>();
+    applied = Object.fromEntries(NODES.map((id) => [id, []]));
+    dbs = Object.fromEntries(
+      NODES.map((id) => [id, new InMemoryKeyValueStore<unknown>()])
+    );
+    nodes = [];
+    await start(...NODES.map((id) => createNode(id)));
+  };
+
+  afterEach(async () => {
+    await Promise.all(nodes.map((node) => node.stop()));
+  });
+
+  it("applies committed commands on every node in log order", async () => {
+    await setup();
+    const leader = await waitForLeader(nodes);
+
+    for (const command of ["one", "two", "three"]) {
+      await leader.propose(command);
+    }
+
+    await vi.waitFor(() => {
+      for (const id of NODES) {
+        expect(applied[id]).toEqual(["one", "two", "three"]);
+      }
+    });
+  });
+
+  it("rejects proposals on followers", async () => {
+    await setup();
+    const leader = await waitForLeader(nodes);
+    const follower = nodes.find((node) => node !== leader)!;
+    // a follower learns the leader from its first heartbeat
+    await vi.waitFor(() => expect(follower.getLeader()).toBe(leader.id));
+
+    await expect(follower.propose("one")).rejects.toThrow(
+      `Not the leader, ${leader.id} is`
+    );
+  });
+
+  it("elects a new leader when the old one is partitioned away", async () => {
+    await setup();
+    const leader = await waitForLeader(nodes);
+    await leader.propose("before");
+
+    const others = nodes.filter((node) => node !== leader);
+    transport.partition(
+      [leader.id],
+      others.map((node) => node.id)
+    );
+    // no majority on the old leader's side, so this one never commits
+    const lost = leader.propose("lost");
+
+    const next = await waitForLeader(others);
+    await next.propose("after");
+
+    transport.heal();
+    await expect(lost).rejects.toThrow("Entry was replaced by another leader");
+    await vi.waitFor(() => {
+      for (const id of NODES) expect(applied[id]).toEqual(["before", "after"]);
+    });
+    expect(leader.isLeader()).toBe(false);
+    expect(leader.getLeader()).toBe(next.id);
+  });
+
+  it("keeps committing with a minority partitioned away", async () => {
+    await setup();
+    const leader = await waitForLeader(nodes);
+    const [isolated, peer] = nodes.filter((node) => node !== leader);
+
+    transport.partition([isolated.id], [leader.id, peer.id]);
+    await leader.propose("one");
+    await leader.propose("two");
+    expect(applied[isolated.id]).toEqual([]);
+
+    transport.heal();
+    await vi.waitFor(() =>
+      expect(applied[isolated.id]).toEqual(["one", "two"])
+    );
+  });
+
+  it("resumes from its storage after a restart", async () => {
+    await setup();
+    const leader = await waitForLeader(nodes);
+    await leader.propose("one");
+
+    const victim = nodes.find((node) => node !== leader)!;
+    await vi.waitFor(() => expect(applied[victim.id]).toEqual(["one"]));
+    await victim.stop();
+    nodes.splice(nodes.indexOf(victim), 1);
+
+    const restarted = createNode(victim.id);
+    await start(restarted);
+    const current = await waitForLeader(nodes);
+    await current.propose("two");
+
+    // "one" was applied before the restart and is not applied again
+    await vi.waitFor(() => expect(applied[victim.id]).toEqual(["one", "two"]));
+    expect(restarted.getMetrics().lastApplied).toBe(
+      current.getMetrics().lastApplied
+    );
+  });
+
+  it("stops a node that fails to apply a committed entry", async () => {
+    transport = new InMemoryRaftTransport<string>();
+    applied = Object.fromEntries(NODES.map((id) => [id, []]));
+    dbs = Object.fromEntries(
+      NODES.map((id) => [id, new InMemoryKeyValueStore<unknown>()])
+    );
+    nodes = [];
+    await start(
+      createNode("a", async (command) => {
+        if (command === "poison") throw new Error("Cannot apply");
+        applied.a.push(command);
+      }),
+      createNode("b"),
+      createNode("c")
+    );
+    const leader = await waitForLeader(nodes);
+    await leader.propose("one");
+
+    const failed = nodes[0];
+    const proposed = leader.propose("poison");
+    if (leader === failed) {
+      await expect(proposed).rejects.toThrow("Cannot apply");
+    } else {
+      await proposed;
+    }
+
+    // a halted node forgets the leader and stops listening
+    await vi.waitFor(() => {
+      expect(failed.getMetrics().role).toBe("follower");
+      expect(failed.getLeader()).toBeUndefined();
+    });
+    const applyIndex = failed.getMetrics().lastApplied;
+    await expect(failed.propose("two")).rejects.toThrow("No leader elected");
+
+    const survivors = nodes.filter((node) => node !== failed);
+    const current = await waitForLeader(survivors);
+    await current.propose("two");
+
+    await vi.waitFor(() => {
+      for (const node of survivors) {
+        expect(applied[node.id]).toEqual(["one", "poison", "two"]);
+      }
+    });
+    expect(applied.a).toEqual(["one"]);
+    // the failed entry stays unapplied, a restart retries it
+    expect(failed.getMetrics().lastApplied).toBe(applyIndex);
+  });
+});
@@ -0,0 +1,459 @@
+import type { ILogCollector } from "..";
+import { RaftStorage, type IRaftStorage } from "./storage";
+import type {
+  IAppendEntries,
+  IAppendEntriesReply,
+  IRaftEntry,
+  IRaftTransport,
+  IRequestVote,
+  IRequestVoteReply,
+} from "./transport";
+
+export type RaftRole = "follower" | "candidate" | "leader";
+export type RaftApply<C> = (command: C, index: number) => Promise<void>;
+
+export interface IRaftConfig {
+  electionTimeoutMs?: number; // 150 default, every wait is randomized between it and twice it
+  heartbeatMs?: number; // 50 default
+  maxBatchEntries?: number; // entries per AppendEntries, 100 default
+}
+
+export interface IRaftNode<C> {
+  readonly id: string;
+  start(): Promise<void>;
+  propose(command: C): Promise<number>;
+  isLeader(): boolean;
+  getLeader(): string | undefined;
+  getMetrics(): {
+    id: string;
+    role: RaftRole;
+    term: number;
+    leaderId: string | undefined;
+    lastIndex: number;
+    commitIndex: number;
+    lastApplied: number;
+  };
+  stop(): Promise<void>;
+}
+
+// a fixed set of nodes agreeing on a log of commands, every node applies them in log order.
+// Membership changes and log compaction are not supported
+export class RaftNode<C> implements IRaftNode<C> {
+  private role: RaftRole = "follower";
+  private term = 0;
+  private votedFor?: string;
+  private leaderId?: string;
+  private log: IRaftEntry<C>[] = [];
+  private commitIndex = 0;
+  private lastApplied = 0;
+  private nextIndex = new Map<string, number>();
+  private matchIndex = new Map<string, number>();
+  private inflight = new Set<string>();
+  private waiters = new Map<
+    number,
+    {
+      term: number;
+      resolve: (index: number) => void;
+      reject: (err: Error) => void;
+    }
+  >();
+  private queue: Promise<unknown> = Promise.resolve();
+  private applying?: Promise<void>;
+  private electionTimer?: NodeJS.Timeout;
+  private heartbeatTimer?: NodeJS.Timeout;
+  private unlisten?: () => void;
+  private stopped = false;
+
+  constructor(
+    public readonly id: string,
+    private peers: string[],
+    private transport: IRaftTransport<C>,
+    private apply: RaftApply<C>,
+    private storage: IRaftStorage<C> = new RaftStorage<C>(),
+    private config: IRaftConfig = {},
+    private logger?: ILogCollector
+  ) {}
+
+  async start() {
+    const state = await this.storage.load();
+    this.term = state.term;
+    this.votedFor = state.votedFor;
+    this.log = state.entries;
+    this.commitIndex = this.lastApplied = state.applied;
+
+    this.unlisten = this.transport.listen(this.id, {
+      requestVote: (request) =>
+        this.exclusive(() => this.onRequestVote(request)),
+      appendEntries: (request) =>
+        this.exclusive(() => this.onAppendEntries(request)),
+    });
+    this.resetElectionTimer();
+  }
+
+  // resolves with the entry index once this node applied it
+  propose(command: C) {
+    return new Promise<number>((resolve, reject) => {
+      this.exclusive(async () => {
+        if (this.role !== "leader") {
+          throw new Error(
+            this.leaderId
+              ? `Not the leader, ${this.leaderId} is`
+              : "No leader elected"
+          );
+        }
+
+        const { index, term } = await this.append(command);
+        this.waiters.set(index, { term, resolve, reject });
+        this.broadcast();
+        this.advanceCommit();
+      }).catch(reject);
+    });
+  }
+
+  isLeader() {
+    return this.role === "leader";
+  }
+
+  getLeader() {
+    return this.leaderId;
+  }
+
+  getMetrics() {
+    return {
+      id: this.id,
+      role: this.role,
+      term: this.term,
+      leaderId: this.leaderId,
+      lastIndex: this.lastIndex(),
+      commitIndex: this.commitIndex,
+      lastApplied: this.lastApplied,
+    };
+  }
+
+  async stop() {
+    this.halt();
+    await this.exclusive(() => {});
+    // tasks queued before the halt may have set timers again
+    clearTimeout(this.electionTimer);
+    clearInterval(this.heartbeatTimer);
+    await this.applying;
+    await this.storage.close();
+  }
+
+  // stops taking part in the cluster, the storage stays open until stop
+  private halt() {
+    this.stopped = true;
+    this.role = "follower";
+    this.leaderId = undefined;
+    this.unlisten?.();
+    clearTimeout(this.electionTimer);
+    clearInterval(this.heartbeatTimer);
+
+    for (const { reject } of this.waiters.values()) {
+      reject(new Error("Raft node stopped"));
+    }
+    this.waiters.clear();
+  }
+
+  // rpcs, replies and timers take turns, none sees the half-done writes of another
+  private exclusive<T>(task: () => Promise<T> | T): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => {});
+    return result;
+  }
+
+  private async onRequestVote(
+    request: IRequestVote
+  ): Promise<IRequestVoteReply> {
+    if (request.term > this.term) await this.stepDown(request.term);
+
+    const lastTerm = this.termAt(this.lastIndex());
+    const upToDate =
+      request.lastLogTerm > lastTerm ||
+      (request.lastLogTerm === lastTerm &&
+        request.lastLogIndex >= this.lastIndex());
+    const voteGranted =
+      request.term === this.term &&
+      upToDate &&
+      (this.votedFor === undefined || this.votedFor === request.candidateId);
+
+    if (voteGranted) {
+      await this.saveVote(this.term, request.candidateId);
+      this.resetElectionTimer();
+    }
+
+    return { term: this.term, voteGranted };
+  }
+
+  private async onAppendEntries(
+    request: IAppendEntries<C>
+  ): Promise<IAppendEntriesReply> {
+    const { term, leaderId, prevLogIndex, prevLogTerm, entries } = request;
+    if (term < this.term) {
+      return { term: this.term, success: false, matchIndex: this.lastIndex() };
+    }
+
+    if (term > this.term || this.role !== "follower") {
+      await this.stepDown(term);
+    }
+    this.leaderId = leaderId;
+    this.resetElectionTimer();
+
+    if (
+      prevLogIndex > this.lastIndex() ||
+      this.termAt(prevLogIndex) !== prevLogTerm
+    ) {
+      const matchIndex = Math.min(this.lastIndex(), prevLogIndex - 1);
+      return { term: this.term, success: false, matchIndex };
+    }
+
+    // the first entry that conflicts with the leader drops the rest of the log
+    let skip = 0;
+    for (const entry of entries) {
+      if (entry.index > this.lastIndex()) break;
+      if (this.termAt(entry.index) !== entry.term) {
+        await this.storage.truncate(entry.index);
+        this.log.length = entry.index - 1;
+        break;
+      }
+      skip++;
+    }
+
+    const missing = entries.slice(skip);
+    if (missing.length) {
+      await this.storage.append(missing);
+      this.log.push(...missing);
+    }
+
+    const matchIndex = prevLogIndex + entries.length;
+    const commitIndex = Math.min(request.leaderCommit, matchIndex);
+    if (commitIndex > this.commitIndex) {
+      this.commitIndex = commitIndex;
+      this.applyCommitted();
+    }
+
+    return { term: this.term, success: true, matchIndex };
+  }
+
+  private async startElection() {
+    if (this.stopped || this.role === "leader") return;
+
+    this.role = "candidate";
+    this.leaderId = undefined;
+    await this.saveVote(this.term + 1, this.id);
+    this.resetElectionTimer();
+
+    const term = this.term;
+    const request: IRequestVote = {
+      term,
+      candidateId: this.id,
+      lastLogIndex: this.lastIndex(),
+      lastLogTerm: this.termAt(this.lastIndex()),
+    };
+
+    let votes = 1;
+    if (this.hasQuorum(votes)) return this.becomeLeader();
+
+    for (const peer of this.peers) {
+      this.transport
+        .requestVote(this.id, peer, request)
+        .then((reply) =>
+          this.exclusive(async () => {
+            if (reply.term > this.term) return this.stepDown(reply.term);
+            if (this.role !== "candidate" || this.term !== term) return;
+            if (reply.voteGranted && this.hasQuorum(++votes)) {
+              await this.becomeLeader();
+            }
+          })
+        )
+        .catch(() => {}); // unreachable peers don't vote
+    }
+  }
+
+  private async becomeLeader() {
+    if (this.stopped) return;
+    this.role = "leader";
+    this.leaderId = this.id;
+    clearTimeout(this.electionTimer);
+
+    for (const peer of this.peers) {
+      this.nextIndex.set(peer, this.lastIndex() + 1);
+      this.matchIndex.set(peer, 0);
+    }
+
+    this.logger?.log("Raft leader elected", { id: this.id, term: this.term });
+
+    // entries of earlier terms only commit behind one of the current term
+    await this.append();
+    if (this.stopped) return;
+
+    const { heartbeatMs = 50 } = this.config;
+    this.heartbeatTimer = setInterval(() => this.broadcast(), heartbeatMs);
+    this.broadcast();
+    this.advanceCommit();
+  }
+
+  private async stepDown(term: number) {
+    if (term > this.term) await this.saveVote(term);
+    if (this.role === "follower") return;
+
+    clearInterval(this.heartbeatTimer);
+    this.role = "follower";
+    this.resetElectionTimer();
+  }
+
+  private broadcast() {
+    for (const peer of this.peers) this.replicate(peer);
+  }
+
+  // one request per peer at a time, a lagging peer gets the next batch right away
+  private replicate(peer: string) {
+    if (this.stopped || this.role !== "leader" || this.inflight.has(peer)) {
+      return;
+    }
+
+    const { maxBatchEntries = 100 } = this.config;
+    const term = this.term;
+    const next = this.nextIndex.get(peer) ?? this.lastIndex() + 1;
+    const prevLogIndex = next - 1;
+    const request: IAppendEntries<C> = {
+      term,
+      leaderId: this.id,
+      prevLogIndex,
+      prevLogTerm: this.termAt(prevLogIndex),
+      entries: this.log.slice(prevLogIndex, prevLogIndex + maxBatchEntries),
+      leaderCommit: this.commitIndex,
+    };
+
+    this.inflight.add(peer);
+    this.transport
+      .appendEntries(this.id, peer, request)
+      .finally(() => this.inflight.delete(peer))
+      .then((reply) =>
+        this.exclusive(() => this.onAppendReply(peer, term, next, reply))
+      )
+      .catch(() => {}); // retried on the next heartbeat
+  }
+
+  private async onAppendReply(
+    peer: string,
+    term: number,
+    next: number,
+    reply: IAppendEntriesReply
+  ) {
+    if (reply.term > this.term) return this.stepDown(reply.term);
+    if (this.role !== "leader" || this.term !== term) return;
+
+    if (reply.success) {
+      this.matchIndex.set(peer, reply.matchIndex);
+      this.nextIndex.set(peer, reply.matchIndex + 1);
+      this.advanceCommit();
+    } else {
+      const retry = Math.min(reply.matchIndex + 1, next - 1);
+      this.nextIndex.set(peer, Math.max(1, retry));
+    }
+
+    if (this.nextIndex.get(peer)! <= this.lastIndex()) this.replicate(peer);
+  }
+
+  // an entry of the current term kept by a majority commits it and everything before it
+  private advanceCommit() {
+    for (let index = this.lastIndex(); index > this.commitIndex; index--) {
+      if (this.termAt(index) !== this.term) return;
+
+      const copies = this.peers.filter(
+        (peer) => (this.matchIndex.get(peer) ?? 0) >= index
+      ).length;
+      if (this.hasQuorum(copies + 1)) {
+        this.commitIndex = index;
+        this.applyCommitted();
+        return;
+      }
+    }
+  }
+
+  // applies run outside of exclusive so heartbeats keep flowing meanwhile
+  private applyCommitted() {
+    if (this.applying) return;
+
+    this.applying = this.applyEntries().finally(() => {
+      this.applying = undefined;
+      if (!this.stopped && this.lastApplied < this.commitIndex) {
+        this.applyCommitted();
+      }
+    });
+  }
+
+  private async applyEntries() {
+    while (!this.stopped && this.lastApplied < this.commitIndex) {
+      const entry = this.log[this.lastApplied];
+      const waiter = this.waiters.get(entry.index);
+      this.waiters.delete(entry.index);
+
+      try {
+        if (entry.command !== undefined) {
+          await this.apply(entry.command, entry.index);
+        }
+        if (waiter?.term === entry.term) waiter.resolve(entry.index);
+        else waiter?.reject(new Error("Entry was replaced by another leader"));
+      } catch (error) {
+        // skipping the entry would leave this node apart from the others
+        this.logger?.log(
+          "Failed to apply raft entry, stopping the node",
+          { index: entry.index, error },
+          "error"
+        );
+        waiter?.reject(error as Error);
+        this.halt();
+        return;
+      }
+
+      this.lastApplied = entry.index;
+      await this.storage.saveApplied(entry.index);
+    }
+  }
+
+  private async append(command?: C) {
+    const entry: IRaftEntry<C> = {
+      index: this.lastIndex() + 1,
+      term: this.term,
+      command,
+    };
+
+    await this.storage.append([entry]);
+    this.log.push(entry);
+    return entry;
+  }
+
+  private async saveVote(term: number, votedFor?: string) {
+    await this.storage.saveVote(term, votedFor);
+    this.term = term;
+    this.votedFor = votedFor;
+  }
+
+  private resetElectionTimer() {
+    clearTimeout(this.electionTimer);
+    if (this.stopped) return;
+
+    const { electionTimeoutMs = 150 } = this.config;
+    this.electionTimer = setTimeout(
+      () =>
+        this.exclusive(() => this.startElection()).catch((error) => {
+          this.logger?.log("Raft election failed", { error }, "error");
+        }),
+      electionTimeoutMs * (1 + Math.random())
+    );
+  }
+
+  private hasQuorum(votes: number) {
+    return votes > (this.peers.length + 1) / 2;
+  }
+
+  private lastIndex() {
+    return this.log.length;
+  }
+
+  private termAt(index: number) {
+    return index === 0 ? 0 : (this.log[index - 1]?.term ?? 0);
+  }
+}
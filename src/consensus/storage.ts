@@ -0,0 +1,77 @@
+import { InMemoryKeyValueStore, type IKeyValueStore } from "@zephyrmq/pds";
+import type { IRaftEntry } from "./transport";
+
+const TERM_KEY = "raft!term";
+const VOTE_KEY = "raft!vote";
+const APPLIED_KEY = "raft!applied";
+const LOG_PREFIX = "log!";
+
+export interface IRaftState<C> {
+  term: number;
+  votedFor?: string;
+  applied: number; // last index the state machine applied
+  entries: IRaftEntry<C>[];
+}
+
+export interface IRaftStorage<C> {
+  load(): Promise<IRaftState<C>>;
+  saveVote(term: number, votedFor?: string): Promise<void>;
+  saveApplied(index: number): Promise<void>;
+  append(entries: IRaftEntry<C>[]): Promise<void>;
+  truncate(fromIndex: number): Promise<void>; // drops fromIndex and every entry after it
+  close(): Promise<void>;
+}
+
+// term, vote and log in one key-value store, log keys sort by index
+export class RaftStorage<C> implements IRaftStorage<C> {
+  constructor(
+    private db: IKeyValueStore<unknown> = new InMemoryKeyValueStore<unknown>()
+  ) {}
+
+  async load(): Promise<IRaftState<C>> {
+    const entries: IRaftEntry<C>[] = [];
+    for await (const entry of this.db.values({ prefix: LOG_PREFIX })) {
+      entries.push(entry as IRaftEntry<C>);
+    }
+
+    return {
+      term: ((await this.db.get(TERM_KEY)) as number | undefined) ?? 0,
+      votedFor: (await this.db.get(VOTE_KEY)) as string | undefined,
+      applied: ((await this.db.get(APPLIED_KEY)) as number | undefined) ?? 0,
+      entries,
+    };
+  }
+
+  async saveVote(term: number, votedFor?: string) {
+    const batch = this.db.batch().put(TERM_KEY, term);
+    if (votedFor === undefined) batch.del(VOTE_KEY);
+    else batch.put(VOTE_KEY, votedFor);
+    await batch.write();
+  }
+
+  saveApplied(index: number) {
+    return this.db.put(APPLIED_KEY, index);
+  }
+
+  async append(entries: IRaftEntry<C>[]) {
+    await this.db.batch(
+      entries.map((entry) => ({
+        type: "put" as const,
+        key: this.key(entry.index),
+        value: entry,
+      }))
+    );
+  }
+
+  truncate(fromIndex: number) {
+    return this.db.clear({ gte: this.key(fromIndex), lt: `${LOG_PREFIX}~` });
+  }
+
+  close() {
+    return this.db.close();
+  }
+
+  private key(index: number) {
+    return `${LOG_PREFIX}${String(index).padStart(16, "0")}`;
+  }
+}
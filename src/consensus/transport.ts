@@ -0,0 +1,112 @@
+import { setTimeout as sleep } from "node:timers/promises";
+
+// command is undefined for the entry a new leader appends to commit the earlier terms
+export interface IRaftEntry<C> {
+  index: number;
+  term: number;
+  command?: C;
+}
+
+// rpc payloads as in the raft paper
+export interface IRequestVote {
+  term: number;
+  candidateId: string;
+  lastLogIndex: number;
+  lastLogTerm: number;
+}
+export interface IRequestVoteReply {
+  term: number;
+  voteGranted: boolean;
+}
+export interface IAppendEntries<C> {
+  term: number;
+  leaderId: string;
+  prevLogIndex: number;
+  prevLogTerm: number;
+  entries: IRaftEntry<C>[];
+  leaderCommit: number;
+}
+export interface IAppendEntriesReply {
+  term: number;
+  success: boolean;
+  matchIndex: number; // last index known to match the leader, it retries after it on failure
+}
+
+export interface IRaftRpcHandler<C> {
+  requestVote(request: IRequestVote): Promise<IRequestVoteReply>;
+  appendEntries(request: IAppendEntries<C>): Promise<IAppendEntriesReply>;
+}
+
+// a call rejects when the peer can't be reached, network transports also reject on timeout
+export interface IRaftTransport<C> {
+  listen(nodeId: string, handler: IRaftRpcHandler<C>): () => void;
+  requestVote(
+    from: string,
+    to: string,
+    request: IRequestVote
+  ): Promise<IRequestVoteReply>;
+  appendEntries(
+    from: string,
+    to: string,
+    request: IAppendEntries<C>
+  ): Promise<IAppendEntriesReply>;
+}
+
+// nodes of one process, links can be cut to simulate network partitions
+export class InMemoryRaftTransport<C> implements IRaftTransport<C> {
+  private handlers = new Map<string, IRaftRpcHandler<C>>();
+  private groups = new Map<string, number>();
+
+  constructor(private latencyMs = 0) {}
+
+  listen(nodeId: string, handler: IRaftRpcHandler<C>) {
+    this.handlers.set(nodeId, handler);
+    return () => {
+      this.handlers.delete(nodeId);
+    };
+  }
+
+  requestVote(from: string, to: string, request: IRequestVote) {
+    return this.deliver(from, to, (handler) => handler.requestVote(request));
+  }
+
+  appendEntries(from: string, to: string, request: IAppendEntries<C>) {
+    return this.deliver(from, to, (handler) => handler.appendEntries(request));
+  }
+
+  // only nodes of the same group reach each other, unlisted nodes form one more group
+  partition(...groups: string[][]) {
+    this.groups.clear();
+    groups.forEach((nodes, group) => {
+      for (const node of nodes) this.groups.set(node, group);
+    });
+  }
+
+  heal() {
+    this.groups.clear();
+  }
+
+  private async deliver<T>(
+    from: string,
+    to: string,
+    call: (handler: IRaftRpcHandler<C>) => Promise<T>
+  ) {
+    await sleep(this.latencyMs);
+    const handler = this.handlers.get(to);
+    if (!handler || !this.isLinked(from, to)) {
+      throw new Error(`${to} is unreachable from ${from}`);
+    }
+
+    const reply = await call(handler);
+    // a partition that happens meanwhile loses the reply
+    if (!this.isLinked(from, to)) {
+      throw new Error(`${from} is unreachable from ${to}`);
+    }
+
+    return reply;
+  }
+
+  private isLinked(from: string, to: string) {
+    return this.groups.get(from) === this.groups.get(to);
+  }
+}
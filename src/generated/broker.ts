@@ -0,0 +1,1890 @@
+// Code generated by protoc-gen-ts_proto. DO NOT EDIT.
+// versions:
+//   protoc-gen-ts_proto  v2.12.4
+//   protoc               unknown
+// source: broker.proto
+
+/* eslint-disable */
+import { BinaryReader, BinaryWriter } from "@bufbuild/protobuf/wire";
+import {
+  type CallOptions,
+  type ChannelCredentials,
+  Client,
+  type ClientOptions,
+  type ClientReadableStream,
+  type ClientUnaryCall,
+  type ClientWritableStream,
+  type handleClientStreamingCall,
+  type handleServerStreamingCall,
+  type handleUnaryCall,
+  makeGenericClientConstructor,
+  type Metadata,
+  type ServiceError,
+  type UntypedServiceImplementation,
+} from "@grpc/grpc-js";
+
+export const protobufPackage = "broker";
+
+export interface ProducerRequest {
+  topic: string;
+  data: Uint8Array;
+  metadata: ProducerRequest_MessageOptions | undefined;
+}
+
+export interface ProducerRequest_MessageOptions {
+  correlationId?: string | undefined;
+  priority?: number | undefined;
+  ttl?: number | undefined;
+  ttd?: number | undefined;
+  dedupId?: string | undefined;
+}
+
+export interface ProducerResponse {
+  ids: number[];
+  errors: ProducerResponse_PublishError[];
+}
+
+export interface ProducerResponse_PublishError {
+  id: number;
+  error: string;
+}
+
+export interface CreateConsumerRequest {
+  topic: string;
+  limit: number;
+  noAck: boolean;
+  groupId?: string | undefined;
+  routingKeys: string[];
+  partition?: number | undefined;
+}
+
+export interface CreateConsumerResponse {
+  consumerId: number;
+}
+
+export interface DeleteConsumerRequest {
+  topic: string;
+  consumerId: number;
+}
+
+export interface DeleteConsumerResponse {
+}
+
+export interface ConsumerRequest {
+  topic: string;
+  consumerId: number;
+  subscribe: boolean;
+}
+
+export interface ConsumerResponse {
+  consumerId: number;
+  data: Uint8Array;
+}
+
+export interface AckRequest {
+  topic: string;
+  consumerId: number;
+  messageId?: number | undefined;
+}
+
+export interface AckResponse {
+  ids: number[];
+}
+
+export interface NackRequest {
+  topic: string;
+  consumerId: number;
+  messageId?: number | undefined;
+  requeue: boolean;
+}
+
+export interface NackResponse {
+  count: number;
+}
+
+export interface DlqReplayRequest {
+  topic: string;
+  since?: number | undefined;
+}
+
+export interface DlqReplayResponse {
+  count: number;
+}
+
+function createBaseProducerRequest(): ProducerRequest {
+  return { topic: "", data: new Uint8Array(0), metadata: undefined };
+}
+
+export const ProducerRequest: MessageFns<ProducerRequest> = {
+  encode(message: ProducerRequest, writer: BinaryWriter = new BinaryWriter()): BinaryWriter {
+    if (message.topic !== "") {
+      writer.uint32(10).string(message.topic);
+    }
+    if (message.data.length !== 0) {
+      writer.uint32(18).bytes(message.data);
+    }
+    if (message.metadata !== undefined) {
+      ProducerRequest_MessageOptions.encode(message.metadata, writer.uint32(26).fork()).join();
+    }
+    return writer;
+  },
+
+  decode(input: BinaryReader | Uint8Array, length?: number): ProducerRequest {
+    const reader = input instanceof BinaryReader ? input : new BinaryReader(input);
+    const previousRecursionDepth = (reader as any).__tsProtoDecodeDepth ?? 0;
+    if (previousRecursionDepth >= 100) {
+      throw new globalThis.Error("protobuf decode recursion limit exceeded");
+    }
+    (reader as any).__tsProtoDecodeDepth = previousRecursionDepth + 1;
+    try {
+      const end = length === undefined ? reader.len : reader.pos + length;
+      const message = createBaseProducerRequest();
+      while (reader.pos < end) {
+        const tag = reader.uint32();
+        switch (tag >>> 3) {
+          case 1: {
+            if (tag !== 10) {
+              break;
+            }
+
+            message.topic = reader.string();
+            continue;
+          }
+          case 2: {
+            if (tag !== 18) {
+              break;
+            }
+
+            message.data = reader.bytes();
+            continue;
+          }
+          case 3: {
+            if (tag !== 26) {
+              break;
+            }
+
+            message.metadata = ProducerRequest_MessageOptions.decode(reader, reader.uint32());
+            continue;
+          }
+        }
+        if ((tag & 7) === 4 || tag === 0) {
+          break;
+        }
+        reader.skip(tag & 7);
+      }
+      return message;
+    } finally {
+      (reader as any).__tsProtoDecodeDepth = previousRecursionDepth;
+    }
+  },
+
+  fromJSON(object: any): ProducerRequest {
+    return {
+      topic: isSet(object.topic) ? globalThis.String(object.topic) : "",
+      data: isSet(object.data) ? bytesFromBase64(object.data) : new Uint8Array(0),
+      metadata: isSet(object.metadata) ? ProducerRequest_MessageOptions.fromJSON(object.metadata) : undefined,
+    };
+  },
+
+  toJSON(message: ProducerRequest): unknown {
+    const obj: any = {};
+    if (message.topic !== "") {
+      obj.topic = message.topic;
+    }
+    if (message.data.length !== 0) {
+      obj.data = base64FromBytes(message.data);
+    }
+    if (message.metadata !== undefined) {
+      obj.metadata = ProducerRequest_MessageOptions.toJSON(message.metadata);
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<ProducerRequest>, I>>(base?: I): ProducerRequest {
+    return ProducerRequest.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<ProducerRequest>, I>>(object: I): ProducerRequest {
+    const message = createBaseProducerRequest();
+    message.topic = object.topic ?? "";
+    message.data = object.data ?? new Uint8Array(0);
+    message.metadata = (object.metadata !== undefined && object.metadata !== null)
+      ? ProducerRequest_MessageOptions.fromPartial(object.metadata)
+      : undefined;
+    return message;
+  },
+};
+
+function createBaseProducerRequest_MessageOptions(): ProducerRequest_MessageOptions {
+  return { correlationId: undefined, priority: undefined, ttl: undefined, ttd: undefined, dedupId: undefined };
+}
+
+export const ProducerRequest_MessageOptions: MessageFns<ProducerRequest_MessageOptions> = {
+  encode(message: ProducerRequest_MessageOptions, writer: BinaryWriter = new BinaryWriter()): BinaryWriter {
+    if (message.correlationId !== undefined) {
+      writer.uint32(10).string(message.correlationId);
+    }
+    if (message.priority !== undefined) {
+      writer.uint32(16).int32(message.priority);
+    }
+    if (message.ttl !== undefined) {
+      writer.uint32(24).int64(message.ttl);
+    }
+    if (message.ttd !== undefined) {
+      writer.uint32(32).int64(message.ttd);
+    }
+    if (message.dedupId !== undefined) {
+      writer.uint32(42).string(message.dedupId);
+    }
+    return writer;
+  },
+
+  decode(input: BinaryReader | Uint8Array, length?: number): ProducerRequest_MessageOptions {
+    const reader = input instanceof BinaryReader ? input : new BinaryReader(input);
+    const previousRecursionDepth = (reader as any).__tsProtoDecodeDepth ?? 0;
+    if (previousRecursionDepth >= 100) {
+      throw new globalThis.Error("protobuf decode recursion limit exceeded");
+    }
+    (reader as any).__tsProtoDecodeDepth = previousRecursionDepth + 1;
+    try {
+      const end = length === undefined ? reader.len : reader.pos + length;
+      const message = createBaseProducerRequest_MessageOptions();
+      while (reader.pos < end) {
+        const tag = reader.uint32();
+        switch (tag >>> 3) {
+          case 1: {
+            if (tag !== 10) {
+              break;
+            }
+
+            message.correlationId = reader.string();
+            continue;
+          }
+          case 2: {
+            if (tag !== 16) {
+              break;
+            }
+
+            message.priority = reader.int32();
+            continue;
+          }
+          case 3: {
+            if (tag !== 24) {
+              break;
+            }
+
+            message.ttl = longToNumber(reader.int64());
+            continue;
+          }
+          case 4: {
+            if (tag !== 32) {
+              break;
+            }
+
+            message.ttd = longToNumber(reader.int64());
+            continue;
+          }
+          case 5: {
+            if (tag !== 42) {
+              break;
+            }
+
+            message.dedupId = reader.string();
+            continue;
+          }
+        }
+        if ((tag & 7) === 4 || tag === 0) {
+          break;
+        }
+        reader.skip(tag & 7);
+      }
+      return message;
+    } finally {
+      (reader as any).__tsProtoDecodeDepth = previousRecursionDepth;
+    }
+  },
+
+  fromJSON(object: any): ProducerRequest_MessageOptions {
+    return {
+      correlationId: isSet(object.correlationId)
+        ? globalThis.String(object.correlationId)
+        : isSet(object.correlation_id)
+        ? globalThis.String(object.correlation_id)
+        : undefined,
+      priority: isSet(object.priority) ? globalThis.Number(object.priority) : undefined,
+      ttl: isSet(object.ttl) ? globalThis.Number(object.ttl) : undefined,
+      ttd: isSet(object.ttd) ? globalThis.Number(object.ttd) : undefined,
+      dedupId: isSet(object.dedupId)
+        ? globalThis.String(object.dedupId)
+        : isSet(object.dedup_id)
+        ? globalThis.String(object.dedup_id)
+        : undefined,
+    };
+  },
+
+  toJSON(message: ProducerRequest_MessageOptions): unknown {
+    const obj: any = {};
+    if (message.correlationId !== undefined) {
+      obj.correlationId = message.correlationId;
+    }
+    if (message.priority !== undefined) {
+      obj.priority = Math.round(message.priority);
+    }
+    if (message.ttl !== undefined) {
+      obj.ttl = Math.round(message.ttl);
+    }
+    if (message.ttd !== undefined) {
+      obj.ttd = Math.round(message.ttd);
+    }
+    if (message.dedupId !== undefined) {
+      obj.dedupId = message.dedupId;
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<ProducerRequest_MessageOptions>, I>>(base?: I): ProducerRequest_MessageOptions {
+    return ProducerRequest_MessageOptions.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<ProducerRequest_MessageOptions>, I>>(
+    object: I,
+  ): ProducerRequest_MessageOptions {
+    const message = createBaseProducerRequest_MessageOptions();
+    message.correlationId = object.correlationId ?? undefined;
+    message.priority = object.priority ?? undefined;
+    message.ttl = object.ttl ?? undefined;
+    message.ttd = object.ttd ?? undefined;
+    message.dedupId = object.dedupId ?? undefined;
+    return message;
+  },
+};
+
+function createBaseProducerResponse(): ProducerResponse {
+  return { ids: [], errors: [] };
+}
+
+export const ProducerResponse: MessageFns<ProducerResponse> = {
+  encode(message: ProducerResponse, writer: BinaryWriter = new BinaryWriter()): BinaryWriter {
+    writer.uint32(10).fork();
+    for (const v of message.ids) {
+      writer.int64(v);
+    }
+    writer.join();
+    for (const v of message.errors) {
+      ProducerResponse_PublishError.encode(v!, writer.uint32(18).fork()).join();
+    }
+    return writer;
+  },
+
+  decode(input: BinaryReader | Uint8Array, length?: number): ProducerResponse {
+    const reader = input instanceof BinaryReader ? input : new BinaryReader(input);
+    const previousRecursionDepth = (reader as any).__tsProtoDecodeDepth ?? 0;
+    if (previousRecursionDepth >= 100) {
+      throw new globalThis.Error("protobuf decode recursion limit exceeded");
+    }
+    (reader as any).__tsProtoDecodeDepth = previousRecursionDepth + 1;
+    try {
+      const end = length === undefined ? reader.len : reader.pos + length;
+      const message = createBaseProducerResponse();
+      while (reader.pos < end) {
+        const tag = reader.uint32();
+        switch (tag >>> 3) {
+          case 1: {
+            if (tag === 8) {
+              message.ids.push(longToNumber(reader.int64()));
+
+              continue;
+            }
+
+            if (tag === 10) {
+              const end2 = reader.uint32() + reader.pos;
+              while (reader.pos < end2) {
+                message.ids.push(longToNumber(reader.int64()));
+              }
+
+              continue;
+            }
+
+            break;
+          }
+          case 2: {
+            if (tag !== 18) {
+              break;
+            }
+
+            message.errors.push(ProducerResponse_PublishError.decode(reader, reader.uint32()));
+            continue;
+          }
+        }
+        if ((tag & 7) === 4 || tag === 0) {
+          break;
+        }
+        reader.skip(tag & 7);
+      }
+      return message;
+    } finally {
+      (reader as any).__tsProtoDecodeDepth = previousRecursionDepth;
+    }
+  },
+
+  fromJSON(object: any): ProducerResponse {
+    return {
+      ids: globalThis.Array.isArray(object?.ids) ? object.ids.map((e: any) => globalThis.Number(e)) : [],
+      errors: globalThis.Array.isArray(object?.errors)
+        ? object.errors.map((e: any) => ProducerResponse_PublishError.fromJSON(e))
+        : [],
+    };
+  },
+
+  toJSON(message: ProducerResponse): unknown {
+    const obj: any = {};
+    if (message.ids?.length) {
+      obj.ids = message.ids.map((e) => Math.round(e));
+    }
+    if (message.errors?.length) {
+      obj.errors = message.errors.map((e) => ProducerResponse_PublishError.toJSON(e));
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<ProducerResponse>, I>>(base?: I): ProducerResponse {
+    return ProducerResponse.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<ProducerResponse>, I>>(object: I): ProducerResponse {
+    const message = createBaseProducerResponse();
+    message.ids = object.ids?.map((e) => e) || [];
+    message.errors = object.errors?.map((e) => ProducerResponse_PublishError.fromPartial(e)) || [];
+    return message;
+  },
+};
+
+function createBaseProducerResponse_PublishError(): ProducerResponse_PublishError {
+  return { id: 0, error: "" };
+}
+
+export const ProducerResponse_PublishError: MessageFns<ProducerResponse_PublishError> = {
+  encode(message: ProducerResponse_PublishError, writer: BinaryWriter = new BinaryWriter()): BinaryWriter {
+    if (message.id !== 0) {
+      writer.uint32(8).int64(message.id);
+    }
+    if (message.error !== "") {
+      writer.uint32(18).string(message.error);
+    }
+    return writer;
+  },
+
+  decode(input: BinaryReader | Uint8Array, length?: number): ProducerResponse_PublishError {
+    const reader = input instanceof BinaryReader ? input : new BinaryReader(input);
+    const previousRecursionDepth = (reader as any).__tsProtoDecodeDepth ?? 0;
+    if (previousRecursionDepth >= 100) {
+      throw new globalThis.Error("protobuf decode recursion limit exceeded");
+    }
+    (reader as any).__tsProtoDecodeDepth = previousRecursionDepth + 1;
+    try {
+      const end = length === undefined ? reader.len : reader.pos + length;
+      const message = createBaseProducerResponse_PublishError();
+      while (reader.pos < end) {
+        const tag = reader.uint32();
+        switch (tag >>> 3) {
+          case 1: {
+            if (tag !== 8) {
+              break;
+            }
+
+            message.id = longToNumber(reader.int64());
+            continue;
+          }
+          case 2: {
+            if (tag !== 18) {
+              break;
+            }
+
+            message.error = reader.string();
+            continue;
+          }
+        }
+        if ((tag & 7) === 4 || tag === 0) {
+          break;
+        }
+        reader.skip(tag & 7);
+      }
+      return message;
+    } finally {
+      (reader as any).__tsProtoDecodeDepth = previousRecursionDepth;
+    }
+  },
+
+  fromJSON(object: any): ProducerResponse_PublishError {
+    return {
+      id: isSet(object.id) ? globalThis.Number(object.id) : 0,
+      error: isSet(object.error) ? globalThis.String(object.error) : "",
+    };
+  },
+
+  toJSON(message: ProducerResponse_PublishError): unknown {
+    const obj: any = {};
+    if (message.id !== 0) {
+      obj.id = Math.round(message.id);
+    }
+    if (message.error !== "") {
+      obj.error = message.error;
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<ProducerResponse_PublishError>, I>>(base?: I): ProducerResponse_PublishError {
+    return ProducerResponse_PublishError.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<ProducerResponse_PublishError>, I>>(
+    object: I,
+  ): ProducerResponse_PublishError {
+    const message = createBaseProducerResponse_PublishError();
+    message.id = object.id ?? 0;
+    message.error = object.error ?? "";
+    return message;
+  },
+};
+
+function createBaseCreateConsumerRequest(): CreateConsumerRequest {
+  return { topic: "", limit: 0, noAck: false, groupId: undefined, routingKeys: [], partition: undefined };
+}
+
+export const CreateConsumerRequest: MessageFns<CreateConsumerRequest> = {
+  encode(message: CreateConsumerRequest, writer: BinaryWriter = new BinaryWriter()): BinaryWriter {
+    if (message.topic !== "") {
+      writer.uint32(10).string(message.topic);
+    }
+    if (message.limit !== 0) {
+      writer.uint32(16).int32(message.limit);
+    }
+    if (message.noAck !== false) {
+      writer.uint32(24).bool(message.noAck);
+    }
+    if (message.groupId !== undefined) {
+      writer.uint32(34).string(message.groupId);
+    }
+    for (const v of message.routingKeys) {
+      writer.uint32(42).string(v!);
+    }
+    if (message.partition !== undefined) {
+      writer.uint32(48).int32(message.partition);
+    }
+    return writer;
+  },
+
+  decode(input: BinaryReader | Uint8Array, length?: number): CreateConsumerRequest {
+    const reader = input instanceof BinaryReader ? input : new BinaryReader(input);
+    const previousRecursionDepth = (reader as any).__tsProtoDecodeDepth ?? 0;
+    if (previousRecursionDepth >= 100) {
+      throw new globalThis.Error("protobuf decode recursion limit exceeded");
+    }
+    (reader as any).__tsProtoDecodeDepth = previousRecursionDepth + 1;
+    try {
+      const end = length === undefined ? reader.len : reader.pos + length;
+      const message = createBaseCreateConsumerRequest();
+      while (reader.pos < end) {
+        const tag = reader.uint32();
+        switch (tag >>> 3) {
+          case 1: {
+            if (tag !== 10) {
+              break;
+            }
+
+            message.topic = reader.string();
+            continue;
+          }
+          case 2: {
+            if (tag !== 16) {
+              break;
+            }
+
+            message.limit = reader.int32();
+            continue;
+          }
+          case 3: {
+            if (tag !== 24) {
+              break;
+            }
+
+            message.noAck = reader.bool();
+            continue;
+          }
+          case 4: {
+            if (tag !== 34) {
+              break;
+            }
+
+            message.groupId = reader.string();
+            continue;
+          }
+          case 5: {
+            if (tag !== 42) {
+              break;
+            }
+
+            message.routingKeys.push(reader.string());
+            continue;
+          }
+          case 6: {
+            if (tag !== 48) {
+              break;
+            }
+
+            message.partition = reader.int32();
+            continue;
+          }
+        }
+        if ((tag & 7) === 4 || tag === 0) {
+          break;
+        }
+        reader.skip(tag & 7);
+      }
+      return message;
+    } finally {
+      (reader as any).__tsProtoDecodeDepth = previousRecursionDepth;
+    }
+  },
+
+  fromJSON(object: any): CreateConsumerRequest {
+    return {
+      topic: isSet(object.topic) ? globalThis.String(object.topic) : "",
+      limit: isSet(object.limit) ? globalThis.Number(object.limit) : 0,
+      noAck: isSet(object.noAck)
+        ? globalThis.Boolean(object.noAck)
+        : isSet(object.no_ack)
+        ? globalThis.Boolean(object.no_ack)
+        : false,
+      groupId: isSet(object.groupId)
+        ? globalThis.String(object.groupId)
+        : isSet(object.group_id)
+        ? globalThis.String(object.group_id)
+        : undefined,
+      routingKeys: globalThis.Array.isArray(object?.routingKeys)
+        ? object.routingKeys.map((e: any) => globalThis.String(e))
+        : globalThis.Array.isArray(object?.routing_keys)
+        ? object.routing_keys.map((e: any) => globalThis.String(e))
+        : [],
+      partition: isSet(object.partition) ? globalThis.Number(object.partition) : undefined,
+    };
+  },
+
+  toJSON(message: CreateConsumerRequest): unknown {
+    const obj: any = {};
+    if (message.topic !== "") {
+      obj.topic = message.topic;
+    }
+    if (message.limit !== 0) {
+      obj.limit = Math.round(message.limit);
+    }
+    if (message.noAck !== false) {
+      obj.noAck = message.noAck;
+    }
+    if (message.groupId !== undefined) {
+      obj.groupId = message.groupId;
+    }
+    if (message.routingKeys?.length) {
+      obj.routingKeys = message.routingKeys;
+    }
+    if (message.partition !== undefined) {
+      obj.partition = Math.round(message.partition);
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<CreateConsumerRequest>, I>>(base?: I): CreateConsumerRequest {
+    return CreateConsumerRequest.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<CreateConsumerRequest>, I>>(object: I): CreateConsumerRequest {
+    const message = createBaseCreateConsumerRequest();
+    message.topic = object.topic ?? "";
+    message.limit = object.limit ?? 0;
+    message.noAck = object.noAck ?? false;
+    message.groupId = object.groupId ?? undefined;
+    message.routingKeys = object.routingKeys?.map((e) => e) || [];
+    message.partition = object.partition ?? undefined;
+    return message;
+  },
+};
+
+function createBaseCreateConsumerResponse(): CreateConsumerResponse {
+  return { consumerId: 0 };
+}
+
+export const CreateConsumerResponse: MessageFns<CreateConsumerResponse> = {
+  encode(message: CreateConsumerResponse, writer: BinaryWriter = new BinaryWriter()): BinaryWriter {
+    if (message.consumerId !== 0) {
+      writer.uint32(8).int64(message.consumerId);
+    }
+    return writer;
+  },
+
+  decode(input: BinaryReader | Uint8Array, length?: number): CreateConsumerResponse {
+    const reader = input instanceof BinaryReader ? input : new BinaryReader(input);
+    const previousRecursionDepth = (reader as any).__tsProtoDecodeDepth ?? 0;
+    if (previousRecursionDepth >= 100) {
+      throw new globalThis.Error("protobuf decode recursion limit exceeded");
+    }
+    (reader as any).__tsProtoDecodeDepth = previousRecursionDepth + 1;
+    try {
+      const end = length === undefined ? reader.len : reader.pos + length;
+      const message = createBaseCreateConsumerResponse();
+      while (reader.pos < end) {
+        const tag = reader.uint32();
+        switch (tag >>> 3) {
+          case 1: {
+            if (tag !== 8) {
+              break;
+            }
+
+            message.consumerId = longToNumber(reader.int64());
+            continue;
+          }
+        }
+        if ((tag & 7) === 4 || tag === 0) {
+          break;
+        }
+        reader.skip(tag & 7);
+      }
+      return message;
+    } finally {
+      (reader as any).__tsProtoDecodeDepth = previousRecursionDepth;
+    }
+  },
+
+  fromJSON(object: any): CreateConsumerResponse {
+    return {
+      consumerId: isSet(object.consumerId)
+        ? globalThis.Number(object.consumerId)
+        : isSet(object.consumer_id)
+        ? globalThis.Number(object.consumer_id)
+        : 0,
+    };
+  },
+
+  toJSON(message: CreateConsumerResponse): unknown {
+    const obj: any = {};
+    if (message.consumerId !== 0) {
+      obj.consumerId = Math.round(message.consumerId);
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<CreateConsumerResponse>, I>>(base?: I): CreateConsumerResponse {
+    return CreateConsumerResponse.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<CreateConsumerResponse>, I>>(object: I): CreateConsumerResponse {
+    const message = createBaseCreateConsumerResponse();
+    message.consumerId = object.consumerId ?? 0;
+    return message;
+  },
+};
+
+function createBaseDeleteConsumerRequest(): DeleteConsumerRequest {
+  return { topic: "", consumerId: 0 };
+}
+
+export const DeleteConsumerRequest: MessageFns<DeleteConsumerRequest> = {
+  encode(message: DeleteConsumerRequest, writer: BinaryWriter = new BinaryWriter()): BinaryWriter {
+    if (message.topic !== "") {
+      writer.uint32(10).string(message.topic);
+    }
+    if (message.consumerId !== 0) {
+      writer.uint32(16).int64(message.consumerId);
+    }
+    return writer;
+  },
+
+  decode(input: BinaryReader | Uint8Array, length?: number): DeleteConsumerRequest {
+    const reader = input instanceof BinaryReader ? input : new BinaryReader(input);
+    const previousRecursionDepth = (reader as any).__tsProtoDecodeDepth ?? 0;
+    if (previousRecursionDepth >= 100) {
+      throw new globalThis.Error("protobuf decode recursion limit exceeded");
+    }
+    (reader as any).__tsProtoDecodeDepth = previousRecursionDepth + 1;
+    try {
+      const end = length === undefined ? reader.len : reader.pos + length;
+      const message = createBaseDeleteConsumerRequest();
+      while (reader.pos < end) {
+        const tag = reader.uint32();
+        switch (tag >>> 3) {
+          case 1: {
+            if (tag !== 10) {
+              break;
+            }
+
+            message.topic = reader.string();
+            continue;
+          }
+          case 2: {
+            if (tag !== 16) {
+              break;
+            }
+
+            message.consumerId = longToNumber(reader.int64());
+            continue;
+          }
+        }
+        if ((tag & 7) === 4 || tag === 0) {
+          break;
+        }
+        reader.skip(tag & 7);
+      }
+      return message;
+    } finally {
+      (reader as any).__tsProtoDecodeDepth = previousRecursionDepth;
+    }
+  },
+
+  fromJSON(object: any): DeleteConsumerRequest {
+    return {
+      topic: isSet(object.topic) ? globalThis.String(object.topic) : "",
+      consumerId: isSet(object.consumerId)
+        ? globalThis.Number(object.consumerId)
+        : isSet(object.consumer_id)
+        ? globalThis.Number(object.consumer_id)
+        : 0,
+    };
+  },
+
+  toJSON(message: DeleteConsumerRequest): unknown {
+    const obj: any = {};
+    if (message.topic !== "") {
+      obj.topic = message.topic;
+    }
+    if (message.consumerId !== 0) {
+      obj.consumerId = Math.round(message.consumerId);
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<DeleteConsumerRequest>, I>>(base?: I): DeleteConsumerRequest {
+    return DeleteConsumerRequest.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<DeleteConsumerRequest>, I>>(object: I): DeleteConsumerRequest {
+    const message = createBaseDeleteConsumerRequest();
+    message.topic = object.topic ?? "";
+    message.consumerId = object.consumerId ?? 0;
+    return message;
+  },
+};
+
+function createBaseDeleteConsumerResponse(): DeleteConsumerResponse {
+  return {};
+}
+
+export const DeleteConsumerResponse: MessageFns<DeleteConsumerResponse> = {
+  encode(_: DeleteConsumerResponse, writer: BinaryWriter = new BinaryWriter()): BinaryWriter {
+    return writer;
+  },
+
+  decode(input: BinaryReader | Uint8Array, length?: number): DeleteConsumerResponse {
+    const reader = input instanceof BinaryReader ? input : new BinaryReader(input);
+    const previousRecursionDepth = (reader as any).__tsProtoDecodeDepth ?? 0;
+    if (previousRecursionDepth >= 100) {
+      throw new globalThis.Error("protobuf decode recursion limit exceeded");
+    }
+    (reader as any).__tsProtoDecodeDepth = previousRecursionDepth + 1;
+    try {
+      const end = length === undefined ? reader.len : reader.pos + length;
+      const message = createBaseDeleteConsumerResponse();
+      while (reader.pos < end) {
+        const tag = reader.uint32();
+        switch (tag >>> 3) {
+        }
+        if ((tag & 7) === 4 || tag === 0) {
+          break;
+        }
+        reader.skip(tag & 7);
+      }
+      return message;
+    } finally {
+      (reader as any).__tsProtoDecodeDepth = previousRecursionDepth;
+    }
+  },
+
+  fromJSON(_: any): DeleteConsumerResponse {
+    return {};
+  },
+
+  toJSON(_: DeleteConsumerResponse): unknown {
+    const obj: any = {};
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<DeleteConsumerResponse>, I>>(base?: I): DeleteConsumerResponse {
+    return DeleteConsumerResponse.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<DeleteConsumerResponse>, I>>(_: I): DeleteConsumerResponse {
+    const message = createBaseDeleteConsumerResponse();
+    return message;
+  },
+};
+
+function createBaseConsumerRequest(): ConsumerRequest {
+  return { topic: "", consumerId: 0, subscribe: false };
+}
+
+export const ConsumerRequest: MessageFns<ConsumerRequest> = {
+  encode(message: ConsumerRequest, writer: BinaryWriter = new BinaryWriter()): BinaryWriter {
+    if (message.topic !== "") {
+      writer.uint32(10).string(message.topic);
+    }
+    if (message.consumerId !== 0) {
+      writer.uint32(16).int64(message.consumerId);
+    }
+    if (message.subscribe !== false) {
+      writer.uint32(24).bool(message.subscribe);
+    }
+    return writer;
+  },
+
+  decode(input: BinaryReader | Uint8Array, length?: number): ConsumerRequest {
+    const reader = input instanceof BinaryReader ? input : new BinaryReader(input);
+    const previousRecursionDepth = (reader as any).__tsProtoDecodeDepth ?? 0;
+    if (previousRecursionDepth >= 100) {
+      throw new globalThis.Error("protobuf decode recursion limit exceeded");
+    }
+    (reader as any).__tsProtoDecodeDepth = previousRecursionDepth + 1;
+    try {
+      const end = length === undefined ? reader.len : reader.pos + length;
+      const message = createBaseConsumerRequest();
+      while (reader.pos < end) {
+        const tag = reader.uint32();
+        switch (tag >>> 3) {
+          case 1: {
+            if (tag !== 10) {
+              break;
+            }
+
+            message.topic = reader.string();
+            continue;
+          }
+          case 2: {
+            if (tag !== 16) {
+              break;
+            }
+
+            message.consumerId = longToNumber(reader.int64());
+            continue;
+          }
+          case 3: {
+            if (tag !== 24) {
+              break;
+            }
+
+            message.subscribe = reader.bool();
+            continue;
+          }
+        }
+        if ((tag & 7) === 4 || tag === 0) {
+          break;
+        }
+        reader.skip(tag & 7);
+      }
+      return message;
+    } finally {
+      (reader as any).__tsProtoDecodeDepth = previousRecursionDepth;
+    }
+  },
+
+  fromJSON(object: any): ConsumerRequest {
+    return {
+      topic: isSet(object.topic) ? globalThis.String(object.topic) : "",
+      consumerId: isSet(object.consumerId)
+        ? globalThis.Number(object.consumerId)
+        : isSet(object.consumer_id)
+        ? globalThis.Number(object.consumer_id)
+        : 0,
+      subscribe: isSet(object.subscribe) ? globalThis.Boolean(object.subscribe) : false,
+    };
+  },
+
+  toJSON(message: ConsumerRequest): unknown {
+    const obj: any = {};
+    if (message.topic !== "") {
+      obj.topic = message.topic;
+    }
+    if (message.consumerId !== 0) {
+      obj.consumerId = Math.round(message.consumerId);
+    }
+    if (message.subscribe !== false) {
+      obj.subscribe = message.subscribe;
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<ConsumerRequest>, I>>(base?: I): ConsumerRequest {
+    return ConsumerRequest.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<ConsumerRequest>, I>>(object: I): ConsumerRequest {
+    const message = createBaseConsumerRequest();
+    message.topic = object.topic ?? "";
+    message.consumerId = object.consumerId ?? 0;
+    message.subscribe = object.subscribe ?? false;
+    return message;
+  },
+};
+
+function createBaseConsumerResponse(): ConsumerResponse {
+  return { consumerId: 0, data: new Uint8Array(0) };
+}
+
+export const ConsumerResponse: MessageFns<ConsumerResponse> = {
+  encode(message: ConsumerResponse, writer: BinaryWriter = new BinaryWriter()): BinaryWriter {
+    if (message.consumerId !== 0) {
+      writer.uint32(8).int64(message.consumerId);
+    }
+    if (message.data.length !== 0) {
+      writer.uint32(18).bytes(message.data);
+    }
+    return writer;
+  },
+
+  decode(input: BinaryReader | Uint8Array, length?: number): ConsumerResponse {
+    const reader = input instanceof BinaryReader ? input : new BinaryReader(input);
+    const previousRecursionDepth = (reader as any).__tsProtoDecodeDepth ?? 0;
+    if (previousRecursionDepth >= 100) {
+      throw new globalThis.Error("protobuf decode recursion limit exceeded");
+    }
+    (reader as any).__tsProtoDecodeDepth = previousRecursionDepth + 1;
+    try {
+      const end = length === undefined ? reader.len : reader.pos + length;
+      const message = createBaseConsumerResponse();
+      while (reader.pos < end) {
+        const tag = reader.uint32();
+        switch (tag >>> 3) {
+          case 1: {
+            if (tag !== 8) {
+              break;
+            }
+
+            message.consumerId = longToNumber(reader.int64());
+            continue;
+          }
+          case 2: {
+            if (tag !== 18) {
+              break;
+            }
+
+            message.data = reader.bytes();
+            continue;
+          }
+        }
+        if ((tag & 7) === 4 || tag === 0) {
+          break;
+        }
+        reader.skip(tag & 7);
+      }
+      return message;
+    } finally {
+      (reader as any).__tsProtoDecodeDepth = previousRecursionDepth;
+    }
+  },
+
+  fromJSON(object: any): ConsumerResponse {
+    return {
+      consumerId: isSet(object.consumerId)
+        ? globalThis.Number(object.consumerId)
+        : isSet(object.consumer_id)
+        ? globalThis.Number(object.consumer_id)
+        : 0,
+      data: isSet(object.data) ? bytesFromBase64(object.data) : new Uint8Array(0),
+    };
+  },
+
+  toJSON(message: ConsumerResponse): unknown {
+    const obj: any = {};
+    if (message.consumerId !== 0) {
+      obj.consumerId = Math.round(message.consumerId);
+    }
+    if (message.data.length !== 0) {
+      obj.data = base64FromBytes(message.data);
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<ConsumerResponse>, I>>(base?: I): ConsumerResponse {
+    return ConsumerResponse.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<ConsumerResponse>, I>>(object: I): ConsumerResponse {
+    const message = createBaseConsumerResponse();
+    message.consumerId = object.consumerId ?? 0;
+    message.data = object.data ?? new Uint8Array(0);
+    return message;
+  },
+};
+
+function createBaseAckRequest(): AckRequest {
+  return { topic: "", consumerId: 0, messageId: undefined };
+}
+
+export const AckRequest: MessageFns<AckRequest> = {
+  encode(message: AckRequest, writer: BinaryWriter = new BinaryWriter()): BinaryWriter {
+    if (message.topic !== "") {
+      writer.uint32(10).string(message.topic);
+    }
+    if (message.consumerId !== 0) {
+      writer.uint32(16).int64(message.consumerId);
+    }
+    if (message.messageId !== undefined) {
+      writer.uint32(24).int64(message.messageId);
+    }
+    return writer;
+  },
+
+  decode(input: BinaryReader | Uint8Array, length?: number): AckRequest {
+    const reader = input instanceof BinaryReader ? input : new BinaryReader(input);
+    const previousRecursionDepth = (reader as any).__tsProtoDecodeDepth ?? 0;
+    if (previousRecursionDepth >= 100) {
+      throw new globalThis.Error("protobuf decode recursion limit exceeded");
+    }
+    (reader as any).__tsProtoDecodeDepth = previousRecursionDepth + 1;
+    try {
+      const end = length === undefined ? reader.len : reader.pos + length;
+      const message = createBaseAckRequest();
+      while (reader.pos < end) {
+        const tag = reader.uint32();
+        switch (tag >>> 3) {
+          case 1: {
+            if (tag !== 10) {
+              break;
+            }
+
+            message.topic = reader.string();
+            continue;
+          }
+          case 2: {
+            if (tag !== 16) {
+              break;
+            }
+
+            message.consumerId = longToNumber(reader.int64());
+            continue;
+          }
+          case 3: {
+            if (tag !== 24) {
+              break;
+            }
+
+            message.messageId = longToNumber(reader.int64());
+            continue;
+          }
+        }
+        if ((tag & 7) === 4 || tag === 0) {
+          break;
+        }
+        reader.skip(tag & 7);
+      }
+      return message;
+    } finally {
+      (reader as any).__tsProtoDecodeDepth = previousRecursionDepth;
+    }
+  },
+
+  fromJSON(object: any): AckRequest {
+    return {
+      topic: isSet(object.topic) ? globalThis.String(object.topic) : "",
+      consumerId: isSet(object.consumerId)
+        ? globalThis.Number(object.consumerId)
+        : isSet(object.consumer_id)
+        ? globalThis.Number(object.consumer_id)
+        : 0,
+      messageId: isSet(object.messageId)
+        ? globalThis.Number(object.messageId)
+        : isSet(object.message_id)
+        ? globalThis.Number(object.message_id)
+        : undefined,
+    };
+  },
+
+  toJSON(message: AckRequest): unknown {
+    const obj: any = {};
+    if (message.topic !== "") {
+      obj.topic = message.topic;
+    }
+    if (message.consumerId !== 0) {
+      obj.consumerId = Math.round(message.consumerId);
+    }
+    if (message.messageId !== undefined) {
+      obj.messageId = Math.round(message.messageId);
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<AckRequest>, I>>(base?: I): AckRequest {
+    return AckRequest.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<AckRequest>, I>>(object: I): AckRequest {
+    const message = createBaseAckRequest();
+    message.topic = object.topic ?? "";
+    message.consumerId = object.consumerId ?? 0;
+    message.messageId = object.messageId ?? undefined;
+    return message;
+  },
+};
+
+function createBaseAckResponse(): AckResponse {
+  return { ids: [] };
+}
+
+export const AckResponse: MessageFns<AckResponse> = {
+  encode(message: AckResponse, writer: BinaryWriter = new BinaryWriter()): BinaryWriter {
+    writer.uint32(10).fork();
+    for (const v of message.ids) {
+      writer.int64(v);
+    }
+    writer.join();
+    return writer;
+  },
+
+  decode(input: BinaryReader | Uint8Array, length?: number): AckResponse {
+    const reader = input instanceof BinaryReader ? input : new BinaryReader(input);
+    const previousRecursionDepth = (reader as any).__tsProtoDecodeDepth ?? 0;
+    if (previousRecursionDepth >= 100) {
+      throw new globalThis.Error("protobuf decode recursion limit exceeded");
+    }
+    (reader as any).__tsProtoDecodeDepth = previousRecursionDepth + 1;
+    try {
+      const end = length === undefined ? reader.len : reader.pos + length;
+      const message = createBaseAckResponse();
+      while (reader.pos < end) {
+        const tag = reader.uint32();
+        switch (tag >>> 3) {
+          case 1: {
+            if (tag === 8) {
+              message.ids.push(longToNumber(reader.int64()));
+
+              continue;
+            }
+
+            if (tag === 10) {
+              const end2 = reader.uint32() + reader.pos;
+              while (reader.pos < end2) {
+                message.ids.push(longToNumber(reader.int64()));
+              }
+
+              continue;
+            }
+
+            break;
+          }
+        }
+        if ((tag & 7) === 4 || tag === 0) {
+          break;
+        }
+        reader.skip(tag & 7);
+      }
+      return message;
+    } finally {
+      (reader as any).__tsProtoDecodeDepth = previousRecursionDepth;
+    }
+  },
+
+  fromJSON(object: any): AckResponse {
+    return { ids: globalThis.Array.isArray(object?.ids) ? object.ids.map((e: any) => globalThis.Number(e)) : [] };
+  },
+
+  toJSON(message: AckResponse): unknown {
+    const obj: any = {};
+    if (message.ids?.length) {
+      obj.ids = message.ids.map((e) => Math.round(e));
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<AckResponse>, I>>(base?: I): AckResponse {
+    return AckResponse.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<AckResponse>, I>>(object: I): AckResponse {
+    const message = createBaseAckResponse();
+    message.ids = object.ids?.map((e) => e) || [];
+    return message;
+  },
+};
+
+function createBaseNackRequest(): NackRequest {
+  return { topic: "", consumerId: 0, messageId: undefined, requeue: false };
+}
+
+export const NackRequest: MessageFns<NackRequest> = {
+  encode(message: NackRequest, writer: BinaryWriter = new BinaryWriter()): BinaryWriter {
+    if (message.topic !== "") {
+      writer.uint32(10).string(message.topic);
+    }
+    if (message.consumerId !== 0) {
+      writer.uint32(16).int64(message.consumerId);
+    }
+    if (message.messageId !== undefined) {
+      writer.uint32(24).int64(message.messageId);
+    }
+    if (message.requeue !== false) {
+      writer.uint32(32).bool(message.requeue);
+    }
+    return writer;
+  },
+
+  decode(input: BinaryReader | Uint8Array, length?: number): NackRequest {
+    const reader = input instanceof BinaryReader ? input : new BinaryReader(input);
+    const previousRecursionDepth = (reader as any).__tsProtoDecodeDepth ?? 0;
+    if (previousRecursionDepth >= 100) {
+      throw new globalThis.Error("protobuf decode recursion limit exceeded");
+    }
+    (reader as any).__tsProtoDecodeDepth = previousRecursionDepth + 1;
+    try {
+      const end = length === undefined ? reader.len : reader.pos + length;
+      const message = createBaseNackRequest();
+      while (reader.pos < end) {
+        const tag = reader.uint32();
+        switch (tag >>> 3) {
+          case 1: {
+            if (tag !== 10) {
+              break;
+            }
+
+            message.topic = reader.string();
+            continue;
+          }
+          case 2: {
+            if (tag !== 16) {
+              break;
+            }
+
+            message.consumerId = longToNumber(reader.int64());
+            continue;
+          }
+          case 3: {
+            if (tag !== 24) {
+              break;
+            }
+
+            message.messageId = longToNumber(reader.int64());
+            continue;
+          }
+          case 4: {
+            if (tag !== 32) {
+              break;
+            }
+
+            message.requeue = reader.bool();
+            continue;
+          }
+        }
+        if ((tag & 7) === 4 || tag === 0) {
+          break;
+        }
+        reader.skip(tag & 7);
+      }
+      return message;
+    } finally {
+      (reader as any).__tsProtoDecodeDepth = previousRecursionDepth;
+    }
+  },
+
+  fromJSON(object: any): NackRequest {
+    return {
+      topic: isSet(object.topic) ? globalThis.String(object.topic) : "",
+      consumerId: isSet(object.consumerId)
+        ? globalThis.Number(object.consumerId)
+        : isSet(object.consumer_id)
+        ? globalThis.Number(object.consumer_id)
+        : 0,
+      messageId: isSet(object.messageId)
+        ? globalThis.Number(object.messageId)
+        : isSet(object.message_id)
+        ? globalThis.Number(object.message_id)
+        : undefined,
+      requeue: isSet(object.requeue) ? globalThis.Boolean(object.requeue) : false,
+    };
+  },
+
+  toJSON(message: NackRequest): unknown {
+    const obj: any = {};
+    if (message.topic !== "") {
+      obj.topic = message.topic;
+    }
+    if (message.consumerId !== 0) {
+      obj.consumerId = Math.round(message.consumerId);
+    }
+    if (message.messageId !== undefined) {
+      obj.messageId = Math.round(message.messageId);
+    }
+    if (message.requeue !== false) {
+      obj.requeue = message.requeue;
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<NackRequest>, I>>(base?: I): NackRequest {
+    return NackRequest.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<NackRequest>, I>>(object: I): NackRequest {
+    const message = createBaseNackRequest();
+    message.topic = object.topic ?? "";
+    message.consumerId = object.consumerId ?? 0;
+    message.messageId = object.messageId ?? undefined;
+    message.requeue = object.requeue ?? false;
+    return message;
+  },
+};
+
+function createBaseNackResponse(): NackResponse {
+  return { count: 0 };
+}
+
+export const NackResponse: MessageFns<NackResponse> = {
+  encode(message: NackResponse, writer: BinaryWriter = new BinaryWriter()): BinaryWriter {
+    if (message.count !== 0) {
+      writer.uint32(8).int32(message.count);
+    }
+    return writer;
+  },
+
+  decode(input: BinaryReader | Uint8Array, length?: number): NackResponse {
+    const reader = input instanceof BinaryReader ? input : new BinaryReader(input);
+    const previousRecursionDepth = (reader as any).__tsProtoDecodeDepth ?? 0;
+    if (previousRecursionDepth >= 100) {
+      throw new globalThis.Error("protobuf decode recursion limit exceeded");
+    }
+    (reader as any).__tsProtoDecodeDepth = previousRecursionDepth + 1;
+    try {
+      const end = length === undefined ? reader.len : reader.pos + length;
+      const message = createBaseNackResponse();
+      while (reader.pos < end) {
+        const tag = reader.uint32();
+        switch (tag >>> 3) {
+          case 1: {
+            if (tag !== 8) {
+              break;
+            }
+
+            message.count = reader.int32();
+            continue;
+          }
+        }
+        if ((tag & 7) === 4 || tag === 0) {
+          break;
+        }
+        reader.skip(tag & 7);
+      }
+      return message;
+    } finally {
+      (reader as any).__tsProtoDecodeDepth = previousRecursionDepth;
+    }
+  },
+
+  fromJSON(object: any): NackResponse {
+    return { count: isSet(object.count) ? globalThis.Number(object.count) : 0 };
+  },
+
+  toJSON(message: NackResponse): unknown {
+    const obj: any = {};
+    if (message.count !== 0) {
+      obj.count = Math.round(message.count);
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<NackResponse>, I>>(base?: I): NackResponse {
+    return NackResponse.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<NackResponse>, I>>(object: I): NackResponse {
+    const message = createBaseNackResponse();
+    message.count = object.count ?? 0;
+    return message;
+  },
+};
+
+function createBaseDlqReplayRequest(): DlqReplayRequest {
+  return { topic: "", since: undefined };
+}
+
+export const DlqReplayRequest: MessageFns<DlqReplayRequest> = {
+  encode(message: DlqReplayRequest, writer: BinaryWriter = new BinaryWriter()): BinaryWriter {
+    if (message.topic !== "") {
+      writer.uint32(10).string(message.topic);
+    }
+    if (message.since !== undefined) {
+      writer.uint32(16).int64(message.since);
+    }
+    return writer;
+  },
+
+  decode(input: BinaryReader | Uint8Array, length?: number): DlqReplayRequest {
+    const reader = input instanceof BinaryReader ? input : new BinaryReader(input);
+    const previousRecursionDepth = (reader as any).__tsProtoDecodeDepth ?? 0;
+    if (previousRecursionDepth >= 100) {
+      throw new globalThis.Error("protobuf decode recursion limit exceeded");
+    }
+    (reader as any).__tsProtoDecodeDepth = previousRecursionDepth + 1;
+    try {
+      const end = length === undefined ? reader.len : reader.pos + length;
+      const message = createBaseDlqReplayRequest();
+      while (reader.pos < end) {
+        const tag = reader.uint32();
+        switch (tag >>> 3) {
+          case 1: {
+            if (tag !== 10) {
+              break;
+            }
+
+            message.topic = reader.string();
+            continue;
+          }
+          case 2: {
+            if (tag !== 16) {
+              break;
+            }
+
+            message.since = longToNumber(reader.int64());
+            continue;
+          }
+        }
+        if ((tag & 7) === 4 || tag === 0) {
+          break;
+        }
+        reader.skip(tag & 7);
+      }
+      return message;
+    } finally {
+      (reader as any).__tsProtoDecodeDepth = previousRecursionDepth;
+    }
+  },
+
+  fromJSON(object: any): DlqReplayRequest {
+    return {
+      topic: isSet(object.topic) ? globalThis.String(object.topic) : "",
+      since: isSet(object.since) ? globalThis.Number(object.since) : undefined,
+    };
+  },
+
+  toJSON(message: DlqReplayRequest): unknown {
+    const obj: any = {};
+    if (message.topic !== "") {
+      obj.topic = message.topic;
+    }
+    if (message.since !== undefined) {
+      obj.since = Math.round(message.since);
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<DlqReplayRequest>, I>>(base?: I): DlqReplayRequest {
+    return DlqReplayRequest.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<DlqReplayRequest>, I>>(object: I): DlqReplayRequest {
+    const message = createBaseDlqReplayRequest();
+    message.topic = object.topic ?? "";
+    message.since = object.since ?? undefined;
+    return message;
+  },
+};
+
+function createBaseDlqReplayResponse(): DlqReplayResponse {
+  return { count: 0 };
+}
+
+export const DlqReplayResponse: MessageFns<DlqReplayResponse> = {
+  encode(message: DlqReplayResponse, writer: BinaryWriter = new BinaryWriter()): BinaryWriter {
+    if (message.count !== 0) {
+      writer.uint32(8).int32(message.count);
+    }
+    return writer;
+  },
+
+  decode(input: BinaryReader | Uint8Array, length?: number): DlqReplayResponse {
+    const reader = input instanceof BinaryReader ? input : new BinaryReader(input);
+    const previousRecursionDepth = (reader as any).__tsProtoDecodeDepth ?? 0;
+    if (previousRecursionDepth >= 100) {
+      throw new globalThis.Error("protobuf decode recursion limit exceeded");
+    }
+    (reader as any).__tsProtoDecodeDepth = previousRecursionDepth + 1;
+    try {
+      const end = length === undefined ? reader.len : reader.pos + length;
+      const message = createBaseDlqReplayResponse();
+      while (reader.pos < end) {
+        const tag = reader.uint32();
+        switch (tag >>> 3) {
+          case 1: {
+            if (tag !== 8) {
+              break;
+            }
+
+            message.count = reader.int32();
+            continue;
+          }
+        }
+        if ((tag & 7) === 4 || tag === 0) {
+          break;
+        }
+        reader.skip(tag & 7);
+      }
+      return message;
+    } finally {
+      (reader as any).__tsProtoDecodeDepth = previousRecursionDepth;
+    }
+  },
+
+  fromJSON(object: any): DlqReplayResponse {
+    return { count: isSet(object.count) ? globalThis.Number(object.count) : 0 };
+  },
+
+  toJSON(message: DlqReplayResponse): unknown {
+    const obj: any = {};
+    if (message.count !== 0) {
+      obj.count = Math.round(message.count);
+    }
+    return obj;
+  },
+
+  create<I extends Exact<DeepPartial<DlqReplayResponse>, I>>(base?: I): DlqReplayResponse {
+    return DlqReplayResponse.fromPartial(base ?? ({} as any));
+  },
+  fromPartial<I extends Exact<DeepPartial<DlqReplayResponse>, I>>(object: I): DlqReplayResponse {
+    const message = createBaseDlqReplayResponse();
+    message.count = object.count ?? 0;
+    return message;
+  },
+};
+
+export type TopicServiceService = typeof TopicServiceService;
+export const TopicServiceService = {
+  produce: {
+    path: "/broker.TopicService/Produce" as const,
+    requestStream: true as const,
+    responseStream: false as const,
+    requestSerialize: (value: ProducerRequest): Buffer => Buffer.from(ProducerRequest.encode(value).finish()),
+    requestDeserialize: (value: Buffer): ProducerRequest => ProducerRequest.decode(value),
+    responseSerialize: (value: ProducerResponse): Buffer => Buffer.from(ProducerResponse.encode(value).finish()),
+    responseDeserialize: (value: Buffer): ProducerResponse => ProducerResponse.decode(value),
+  },
+  createConsumer: {
+    path: "/broker.TopicService/CreateConsumer" as const,
+    requestStream: false as const,
+    responseStream: false as const,
+    requestSerialize: (value: CreateConsumerRequest): Buffer =>
+      Buffer.from(CreateConsumerRequest.encode(value).finish()),
+    requestDeserialize: (value: Buffer): CreateConsumerRequest => CreateConsumerRequest.decode(value),
+    responseSerialize: (value: CreateConsumerResponse): Buffer =>
+      Buffer.from(CreateConsumerResponse.encode(value).finish()),
+    responseDeserialize: (value: Buffer): CreateConsumerResponse => CreateConsumerResponse.decode(value),
+  },
+  deleteConsumer: {
+    path: "/broker.TopicService/DeleteConsumer" as const,
+    requestStream: false as const,
+    responseStream: false as const,
+    requestSerialize: (value: DeleteConsumerRequest): Buffer =>
+      Buffer.from(DeleteConsumerRequest.encode(value).finish()),
+    requestDeserialize: (value: Buffer): DeleteConsumerRequest => DeleteConsumerRequest.decode(value),
+    responseSerialize: (value: DeleteConsumerResponse): Buffer =>
+      Buffer.from(DeleteConsumerResponse.encode(value).finish()),
+    responseDeserialize: (value: Buffer): DeleteConsumerResponse => DeleteConsumerResponse.decode(value),
+  },
+  consume: {
+    path: "/broker.TopicService/Consume" as const,
+    requestStream: false as const,
+    responseStream: true as const,
+    requestSerialize: (value: ConsumerRequest): Buffer => Buffer.from(ConsumerRequest.encode(value).finish()),
+    requestDeserialize: (value: Buffer): ConsumerRequest => ConsumerRequest.decode(value),
+    responseSerialize: (value: ConsumerResponse): Buffer => Buffer.from(ConsumerResponse.encode(value).finish()),
+    responseDeserialize: (value: Buffer): ConsumerResponse => ConsumerResponse.decode(value),
+  },
+  ack: {
+    path: "/broker.TopicService/Ack" as const,
+    requestStream: false as const,
+    responseStream: false as const,
+    requestSerialize: (value: AckRequest): Buffer => Buffer.from(AckRequest.encode(value).finish()),
+    requestDeserialize: (value: Buffer): AckRequest => AckRequest.decode(value),
+    responseSerialize: (value: AckResponse): Buffer => Buffer.from(AckResponse.encode(value).finish()),
+    responseDeserialize: (value: Buffer): AckResponse => AckResponse.decode(value),
+  },
+  nack: {
+    path: "/broker.TopicService/Nack" as const,
+    requestStream: false as const,
+    responseStream: false as const,
+    requestSerialize: (value: NackRequest): Buffer => Buffer.from(NackRequest.encode(value).finish()),
+    requestDeserialize: (value: Buffer): NackRequest => NackRequest.decode(value),
+    responseSerialize: (value: NackResponse): Buffer => Buffer.from(NackResponse.encode(value).finish()),
+    responseDeserialize: (value: Buffer): NackResponse => NackResponse.decode(value),
+  },
+  replayDlq: {
+    path: "/broker.TopicService/ReplayDlq" as const,
+    requestStream: false as const,
+    responseStream: false as const,
+    requestSerialize: (value: DlqReplayRequest): Buffer => Buffer.from(DlqReplayRequest.encode(value).finish()),
+    requestDeserialize: (value: Buffer): DlqReplayRequest => DlqReplayRequest.decode(value),
+    responseSerialize: (value: DlqReplayResponse): Buffer => Buffer.from(DlqReplayResponse.encode(value).finish()),
+    responseDeserialize: (value: Buffer): DlqReplayResponse => DlqReplayResponse.decode(value),
+  },
+} as const;
+
+export interface TopicServiceServer extends UntypedServiceImplementation {
+  produce: handleClientStreamingCall<ProducerRequest, ProducerResponse>;
+  createConsumer: handleUnaryCall<CreateConsumerRequest, CreateConsumerResponse>;
+  deleteConsumer: handleUnaryCall<DeleteConsumerRequest, DeleteConsumerResponse>;
+  consume: handleServerStreamingCall<ConsumerRequest, ConsumerResponse>;
+  ack: handleUnaryCall<AckRequest, AckResponse>;
+  nack: handleUnaryCall<NackRequest, NackResponse>;
+  replayDlq: handleUnaryCall<DlqReplayRequest, DlqReplayResponse>;
+}
+
+export interface TopicServiceClient extends Client {
+  produce(
+    callback: (error: ServiceError | null, response: ProducerResponse) => void,
+  ): ClientWritableStream<ProducerRequest>;
+  produce(
+    metadata: Metadata,
+    callback: (error: ServiceError | null, response: ProducerResponse) => void,
+  ): ClientWritableStream<ProducerRequest>;
+  produce(
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: ProducerResponse) => void,
+  ): ClientWritableStream<ProducerRequest>;
+  produce(
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: ProducerResponse) => void,
+  ): ClientWritableStream<ProducerRequest>;
+  createConsumer(
+    request: CreateConsumerRequest,
+    callback: (error: ServiceError | null, response: CreateConsumerResponse) => void,
+  ): ClientUnaryCall;
+  createConsumer(
+    request: CreateConsumerRequest,
+    metadata: Metadata,
+    callback: (error: ServiceError | null, response: CreateConsumerResponse) => void,
+  ): ClientUnaryCall;
+  createConsumer(
+    request: CreateConsumerRequest,
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: CreateConsumerResponse) => void,
+  ): ClientUnaryCall;
+  deleteConsumer(
+    request: DeleteConsumerRequest,
+    callback: (error: ServiceError | null, response: DeleteConsumerResponse) => void,
+  ): ClientUnaryCall;
+  deleteConsumer(
+    request: DeleteConsumerRequest,
+    metadata: Metadata,
+    callback: (error: ServiceError | null, response: DeleteConsumerResponse) => void,
+  ): ClientUnaryCall;
+  deleteConsumer(
+    request: DeleteConsumerRequest,
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: DeleteConsumerResponse) => void,
+  ): ClientUnaryCall;
+  consume(request: ConsumerRequest, options?: Partial<CallOptions>): ClientReadableStream<ConsumerResponse>;
+  consume(
+    request: ConsumerRequest,
+    metadata?: Metadata,
+    options?: Partial<CallOptions>,
+  ): ClientReadableStream<ConsumerResponse>;
+  ack(request: AckRequest, callback: (error: ServiceError | null, response: AckResponse) => void): ClientUnaryCall;
+  ack(
+    request: AckRequest,
+    metadata: Metadata,
+    callback: (error: ServiceError | null, response: AckResponse) => void,
+  ): ClientUnaryCall;
+  ack(
+    request: AckRequest,
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: AckResponse) => void,
+  ): ClientUnaryCall;
+  nack(request: NackRequest, callback: (error: ServiceError | null, response: NackResponse) => void): ClientUnaryCall;
+  nack(
+    request: NackRequest,
+    metadata: Metadata,
+    callback: (error: ServiceError | null, response: NackResponse) => void,
+  ): ClientUnaryCall;
+  nack(
+    request: NackRequest,
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: NackResponse) => void,
+  ): ClientUnaryCall;
+  replayDlq(
+    request: DlqReplayRequest,
+    callback: (error: ServiceError | null, response: DlqReplayResponse) => void,
+  ): ClientUnaryCall;
+  replayDlq(
+    request: DlqReplayRequest,
+    metadata: Metadata,
+    callback: (error: ServiceError | null, response: DlqReplayResponse) => void,
+  ): ClientUnaryCall;
+  replayDlq(
+    request: DlqReplayRequest,
+    metadata: Metadata,
+    options: Partial<CallOptions>,
+    callback: (error: ServiceError | null, response: DlqReplayResponse) => void,
+  ): ClientUnaryCall;
+}
+
+export const TopicServiceClient = makeGenericClientConstructor(
+  TopicServiceService,
+  "broker.TopicService",
+) as unknown as {
+  new (address: string, credentials: ChannelCredentials, options?: Partial<ClientOptions>): TopicServiceClient;
+  service: typeof TopicServiceService;
+  serviceName: string;
+};
+
+function bytesFromBase64(b64: string): Uint8Array {
+  if ((globalThis as any).Buffer) {
+    return Uint8Array.from((globalThis as any).Buffer.from(b64, "base64"));
+  } else {
+    const bin = globalThis.atob(b64);
+    const arr = new Uint8Array(bin.length);
+    for (let i = 0; i < bin.length; ++i) {
+      arr[i] = bin.charCodeAt(i);
+    }
+    return arr;
+  }
+}
+
+function base64FromBytes(arr: Uint8Array): string {
+  if ((globalThis as any).Buffer) {
+    return (globalThis as any).Buffer.from(arr).toString("base64");
+  } else {
+    const bin: string[] = [];
+    arr.forEach((byte) => {
+      bin.push(globalThis.String.fromCharCode(byte));
+    });
+    return globalThis.btoa(bin.join(""));
+  }
+}
+
+type Builtin = Date | Function | Uint8Array | string | number | boolean | undefined;
+
+export type DeepPartial<T> = T extends Builtin ? T
+  : T extends globalThis.Array<infer U> ? globalThis.Array<DeepPartial<U>>
+  : T extends ReadonlyArray<infer U> ? ReadonlyArray<DeepPartial<U>>
+  : T extends {} ? { [K in keyof T]?: DeepPartial<T[K]> }
+  : Partial<T>;
+
+type KeysOfUnion<T> = T extends T ? keyof T : never;
+export type Exact<P, I extends P> = P extends Builtin ? P
+  : P & { [K in keyof P]: Exact<P[K], I[K]> } & { [K in Exclude<keyof I, KeysOfUnion<P>>]: never };
+
+function longToNumber(int64: { toString(): string }): number {
+  const num = globalThis.Number(int64.toString());
+  if (num > globalThis.Number.MAX_SAFE_INTEGER) {
+    throw new globalThis.Error("Value is larger than Number.MAX_SAFE_INTEGER");
+  }
+  if (num < globalThis.Number.MIN_SAFE_INTEGER) {
+    throw new globalThis.Error("Value is smaller than Number.MIN_SAFE_INTEGER");
+  }
+  return num;
+}
+
+function isSet(value: any): boolean {
+  return value !== null && value !== undefined;
+}
+
+export interface MessageFns<T> {
+  encode(message: T, writer?: BinaryWriter): BinaryWriter;
+  decode(input: BinaryReader | Uint8Array, length?: number): T;
+  fromJSON(object: any): T;
+  toJSON(message: T): unknown;
+  create<I extends Exact<DeepPartial<T>, I>>(base?: I): T;
+  fromPartial<I extends Exact<DeepPartial<T>, I>>(object: I): T;
+}
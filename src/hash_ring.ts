@@ -44,7 +44,8 @@ export class InMemoryHashRing implements IHashRing {
           this.sortedHashes.sort((a, b) => a - b);
           return node;
         },
-      }
+      },
+      Number
     );
   }
 
@@ -87,9 +88,15 @@ export class InMemoryHashRing implements IHashRing {
     const keyHash = this.hashService.hash(key);
     let currentIndex = this.findNodeIndex(keyHash);
 
+    // each node once, in ring order, though it has several replicas on it
+    const seen = new Set<number>();
     const total = this.sortedHashes.length;
     for (let i = 0; i < total; i++) {
-      yield this.hashToNodeMap.get(this.sortedHashes[currentIndex])!;
+      const node = this.hashToNodeMap.get(this.sortedHashes[currentIndex])!;
+      if (!seen.has(node)) {
+        seen.add(node);
+        yield node;
+      }
       currentIndex = (currentIndex + 1) % total;
     }
   }
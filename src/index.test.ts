@@ -0,0 +1,275 @@
+import { InMemoryKeyValueStore, LevelKeyValueStore } from "@zephyrmq/pds";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Broker, HashRingPartitioner, PersistedMapFactory } from ".";
+import { InMemoryHashRing, SHA256HashService } from "./hash_ring";
+
+const quiet = { info() {}, warn() {}, error() {} };
+
+describe("Broker.snapshot", () => {
+  let dir: string;
+  let broker: Broker;
+  const opened: { close(): Promise<void> }[] = [];
+
+  const open = async (created: Broker) => {
+    opened.push(created);
+    await created.ready;
+    return created;
+  };
+
+  const restore = () =>
+    Broker.restore(path.join(dir, "snapshot"), {
+      dataDir: path.join(dir, "restored"),
+      logger: quiet,
+    }).then(open);
+
+  // what the live topic metadata store holds, read once its broker is closed
+  const metadataKeys = async (dataDir: string, topic: string) => {
+    const db = new LevelKeyValueStore<unknown>(
+      path.join(dataDir, "topics", topic, "metadata")
+    );
+    const keys: string[] = [];
+    for await (const [key] of db.iterator()) keys.push(key);
+    await db.close();
+    return keys;
+  };
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "zephyrmq-snapshot-"));
+    broker = await open(
+      new Broker({ dataDir: path.join(dir, "data"), logger: quiet })
+    );
+  });
+
+  afterEach(async () => {
+    await Promise.all(opened.splice(0).map((opened) => opened.close()));
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("restores queued, delayed, unacked and dlq messages", async () => {
+    const orders = broker.topics.create<string>("orders", {});
+    const consumer = orders.createConsumer({});
+    const producer = orders.createProducer();
+
+    const [unacked] = await producer.publish(["unacked"]);
+    expect(await consumer.consume()).toEqual(["unacked"]);
+    const [queued] = await producer.publish(["queued"]);
+    const [delayed] = await producer.publish(["delayed"], { ttd: 1000 });
+    // nobody consumes payments, so its message is dead lettered
+    const payments = broker.topics.create<string>("payments", {});
+    await payments.createProducer().publish(["dead"]);
+    await vi.waitFor(async () => {
+      expect((await payments.getMetrics()).dlq.size).toBe(1);
+    });
+
+    await broker.snapshot(path.join(dir, "snapshot"));
+    const restored = await restore();
+
+    const restoredOrders = restored.topics.get("orders")!;
+    expect(await restoredOrders.getMetrics()).toMatchObject({
+      queuedMessages: { size: 1 },
+      pendingAcks: { count: 1 },
+      delayedMessages: { count: 1 },
+    });
+    const restoredConsumer = restoredOrders.restoreConsumer({}, consumer.id)!;
+    expect(await restoredConsumer.ack()).toEqual([unacked.id]);
+    expect(await restoredConsumer.consume()).toEqual(["queued"]);
+    expect(await restoredConsumer.ack()).toEqual([queued.id]);
+    // the delay runs out after the restore
+    await vi.waitFor(
+      async () => {
+        expect(await restoredConsumer.consume()).toEqual(["delayed"]);
+      },
+      { timeout: 2000, interval: 50 }
+    );
+    expect(await restoredConsumer.ack()).toEqual([delayed.id]);
+
+    const dead = await restored.topics
+      .get("payments")!
+      .createDLQConsumer()
+      .consume();
+    expect(dead).toEqual([
+      expect.objectContaining({ reason: "no_consumers", message: "dead" }),
+    ]);
+  });
+
+  it("leaves the live stores as they were", async () => {
+    const orders = broker.topics.create<string>("orders", {});
+    orders.createConsumer({});
+    await orders.createProducer().publish(["order"]);
+    await broker.snapshot(path.join(dir, "snapshot"));
+    await opened.splice(0, 1)[0].close();
+
+    expect(
+      await metadataKeys(path.join(dir, "data"), "orders")
+    ).not.toContainEqual(expect.stringMatching(/^replica!/));
+    // a replica restored from the copy resumes at its end
+    const marked = path.join(dir, "snapshot/topics/orders/replica.offset");
+    expect(Number(await fs.readFile(marked, "utf8"))).toBeGreaterThan(0);
+  });
+
+  it("pauses every topic before copying any", async () => {
+    const orders = broker.topics.create<string>("orders", {});
+    const payments = broker.topics.create<string>("payments", {});
+    await orders.createProducer().publish(["order"]);
+    await payments.createProducer().publish(["payment"]);
+    await vi.waitFor(async () => {
+      expect((await payments.getMetrics()).dlq.size).toBe(1);
+    });
+
+    // a payment published while orders is copied lands after the snapshot
+    let late: Promise<unknown> | undefined;
+    const copy = orders.snapshot.bind(orders);
+    vi.spyOn(orders, "snapshot").mockImplementation(async (dirPath) => {
+      late = payments.createProducer().publish(["late"]);
+      await Promise.race([
+        late,
+        new Promise((resolve) => setTimeout(resolve, 50)),
+      ]);
+      await copy(dirPath);
+    });
+
+    await broker.snapshot(path.join(dir, "snapshot"));
+    await late;
+
+    const restored = await restore();
+    const dlq = restored.topics.get("payments")!.createDLQConsumer(10);
+    expect((await dlq.consume()).map(({ message }) => message)).toEqual([
+      "payment",
+    ]);
+  });
+});
+
+describe("topic durability", () => {
+  let dir: string;
+  let broker: Broker;
+
+  // what reached the topic wal files so far
+  const walContents = async (topic: string) => {
+    const walDir = path.join(dir, "topics", topic, "wal");
+    const files = (await fs.readdir(walDir)).filter((f) => f.endsWith(".wal"));
+    const buffers = await Promise.all(
+      files.map((file) => fs.readFile(path.join(walDir, file)))
+    );
+    return Buffer.concat(buffers).toString();
+  };
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "zephyrmq-durability-"));
+    broker = new Broker({ dataDir: dir, logger: quiet });
+    await broker.ready;
+  });
+
+  afterEach(async () => {
+    await broker.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it.each([
+    ["sync", undefined],
+    ["group", 100],
+  ] as const)(
+    "resolves %s publishes after the wal flush",
+    async (durability, groupCommitMs) => {
+      const topic = broker.topics.create<string>("orders", {
+        durability,
+        groupCommitMs,
+      });
+      const producer = topic.createProducer();
+
+      const started = performance.now();
+      await Promise.all([
+        producer.publish(["order-1"]),
+        producer.publish(["order-2"]),
+      ]);
+
+      expect(await walContents("orders")).toMatch(/order-1[^]*order-2/);
+      expect(performance.now() - started).toBeGreaterThanOrEqual(
+        (groupCommitMs ?? 0) * 0.9
+      );
+    }
+  );
+
+  it("resolves async publishes before the wal flush", async () => {
+    const topic = broker.topics.create<string>("orders", {
+      durability: "async",
+    });
+
+    await topic.createProducer().publish(["order-1"]);
+    expect(await walContents("orders")).not.toContain("order-1");
+  });
+});
+
+describe("HierarchicalTopicRouter", () => {
+  let dir: string;
+  let broker: Broker;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "zephyrmq-router-"));
+    broker = new Broker({ dataDir: dir, logger: quiet });
+    await broker.ready;
+  });
+
+  afterEach(async () => {
+    await broker.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("routes one level to * and any number of levels to #", async () => {
+    const consumers = Object.fromEntries(
+      ["orders.*", "orders.#", "orders.*.de"].map((pattern) => [
+        pattern,
+        broker.topics.create<string>(pattern, {}).createConsumer({ limit: 10 }),
+      ])
+    );
+    for (const topic of ["orders", "orders.eu", "orders.eu.de", "payments"]) {
+      await broker.topics
+        .create<string>(topic, {})
+        .createProducer()
+        .publish([topic]);
+    }
+
+    const consumed: Record<string, string[]> = {};
+    await vi.waitFor(async () => {
+      for (const [pattern, consumer] of Object.entries(consumers)) {
+        consumed[pattern] = [
+          ...(consumed[pattern] ?? []),
+          ...(await consumer.consume()),
+        ].sort();
+      }
+      expect(consumed).toEqual({
+        "orders.*": ["orders.eu"],
+        "orders.#": ["orders", "orders.eu", "orders.eu.de"],
+        "orders.*.de": ["orders.eu.de"],
+      });
+    });
+  });
+});
+
+describe("HashRingPartitioner", () => {
+  const keys = Array.from({ length: 1000 }, (_, i) => `order-${i}`);
+
+  const partitionsOf = (count: number) => {
+    const mapFactory = new PersistedMapFactory(new InMemoryKeyValueStore());
+    const partitioner = new HashRingPartitioner(
+      mapFactory,
+      new InMemoryHashRing(new SHA256HashService(), mapFactory, "partitions"),
+      count
+    );
+    return keys.map((correlationId) =>
+      partitioner.getPartition({ id: 0, correlationId })
+    );
+  };
+
+  it("moves keys only to the partition that was added", () => {
+    const before = partitionsOf(4);
+    expect(partitionsOf(4)).toEqual(before);
+
+    const after = partitionsOf(5);
+    const moved = after.filter((partition, i) => partition !== before[i]);
+    expect(new Set(moved)).toEqual(new Set([4]));
+    expect(moved.length).toBeLessThan(keys.length / 2);
+  });
+});
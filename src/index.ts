@@ -4,12 +4,42 @@ import Ajv from "ajv";
 import crc from "crc-32";
 import crypto from "crypto";
 import fs from "fs/promises";
-import { validateSchema } from "json-schema-compatibility";
-import { Level } from "level";
+import schemaCompatibility from "json-schema-compatibility";
+import {
+  FileWriteAheadLogFactory,
+  WalCorruptionError,
+  WalRecord,
+  WalRecordType,
+  type IWalEntry,
+  type IWriteAheadLog,
+  type WalDurability,
+} from "@zephyrmq/wal";
+import {
+  LevelKeyValueStore,
+  ObservedKeyValueStore,
+  type IKeyValueChange,
+  type IKeyValueStore,
+  type KeyValueStoreClass,
+} from "@zephyrmq/pds";
+import {
+  FileSegmentLogFactory,
+  type IArchiveStore,
+  type ICompactionConfig,
+  type ISegmentLog,
+  type SegmentCodec,
+  type SegmentPointer,
+} from "@zephyrmq/segmentlog";
+import { once } from "node:events";
+import { createReadStream, createWriteStream } from "node:fs";
+import readline from "node:readline";
 import { clearImmediate, setImmediate } from "node:timers";
 import path from "path";
 import { BinaryHeapPriorityQueue } from "./binary_heap_priority_queue";
-import BinaryCodec, { SchemaCompiler, type ICodec } from "./codec";
+import BinaryCodec, {
+  BinarySchemaCompiler,
+  PrecompiledSchema,
+  type ICodec,
+} from "./codec";
 import {
   InMemoryHashRing,
   SHA256HashService,
@@ -22,17 +52,22 @@ import { uniqueIntGenerator } from "./utils";
 //
 // PERSISTENT_STRUCTURE
 interface IFlushManager {
-  register(task: () => Promise<void>): void;
+  register(task: () => Promise<void>, ready?: Promise<void>): void;
+  restored(): Promise<void>;
   unregister(task: () => Promise<void>): void;
   commit(): void;
   flush: () => Promise<void>;
   size(): number;
-  stop(): void;
+  stop: () => void;
+  pause(): Promise<void>;
+  resume(): void;
 }
 class FlushManager implements IFlushManager {
   private flushes: Array<() => Promise<void>> = [];
+  private restoring = new Set<Promise<void>>();
   private pendingCounter = 0;
   private timer?: NodeJS.Timeout;
+  private paused = false;
 
   constructor(
     private persistThresholdMs = 1000,
@@ -42,14 +77,25 @@ class FlushManager implements IFlushManager {
     this.init();
   }
 
-  stop() {
+  stop = () => {
     clearInterval(this.timer);
     this.timer = undefined;
+    process.off("beforeExit", this.stop);
     this.flush();
-  }
+  };
 
-  register(task: () => Promise<void>) {
+  register(task: () => Promise<void>, ready?: Promise<void>) {
     this.flushes.push(task);
+    if (!ready) return;
+    this.restoring.add(ready);
+    ready.finally(() => this.restoring.delete(ready));
+  }
+
+  // settles once every registered structure is restored, those restored meanwhile included
+  async restored() {
+    while (this.restoring.size) {
+      await Promise.allSettled(this.restoring);
+    }
   }
 
   unregister(task: () => Promise<void>): void {
@@ -69,11 +115,22 @@ class FlushManager implements IFlushManager {
   }
 
   flush = async () => {
-    if (!this.pendingCounter) return;
+    if (this.paused || !this.pendingCounter) return;
     this.pendingCounter = 0;
-    await Promise.all(this.flushes);
+    await Promise.all(this.flushes.map((flush) => flush()));
   };
 
+  // writes out everything pending, then holds flushes until resume, so the db stays as of now
+  async pause() {
+    this.pendingCounter++;
+    await this.flush();
+    this.paused = true;
+  }
+
+  resume() {
+    this.paused = false;
+  }
+
   private init() {
     if (this.persistThresholdMs === Infinity) return;
     this.timer = setInterval(
@@ -96,22 +153,23 @@ export interface ISerializable<T = unknown, R = unknown, K = string | number> {
 abstract class PersistedStructure {
   protected mutex = new Mutex();
   protected isCleared = false;
+  // settles once what the store held is restored
+  readonly ready: Promise<void>;
 
   constructor(
-    protected db: Level<string, unknown>,
+    protected db: IKeyValueStore<unknown>,
     protected namespace: string,
     protected flushManager?: IFlushManager,
     protected logger?: ILogCollector
   ) {
-    this.flushManager?.register(this.flush);
-    this.init();
+    this.ready = this.init();
+    this.flushManager?.register(this.flush, this.ready);
   }
 
   protected async init() {
     try {
       for await (const [k, v] of this.db.iterator({
-        gt: `${this.namespace}!`,
-        lt: `${this.namespace}~`,
+        prefix: `${this.namespace}!`,
       })) {
         const key = k.slice(this.namespace.length + 1);
         await this.restoreItem(key, v);
@@ -144,10 +202,7 @@ abstract class PersistedStructure {
 
     try {
       if (this.isCleared) {
-        await this.db.clear({
-          gt: `${this.namespace}!`,
-          lt: `${this.namespace}~`,
-        });
+        await this.db.clear({ prefix: `${this.namespace}!` });
 
         this.isCleared = false;
         this.flushCleanup();
@@ -198,11 +253,12 @@ class PersistedMap<K extends string | number, V>
   private dirtyKeys = new Set<K>();
 
   constructor(
-    db: Level<string, unknown>,
+    db: IKeyValueStore<unknown>,
     namespace: string,
     flushManager?: IFlushManager,
     logger?: ILogCollector,
     private valueSerializer?: ISerializable<V>,
+    private parseKey?: (key: string) => K, // keys come back from the store as strings
     private maxSize = Infinity
   ) {
     super(db, namespace, flushManager, logger);
@@ -262,9 +318,10 @@ class PersistedMap<K extends string | number, V>
     }
   }
 
-  override async restoreItem(key: K, value: V): Promise<void> {
+  override async restoreItem(rawKey: string, value: V): Promise<void> {
+    const key = this.parseKey?.(rawKey) ?? (rawKey as K);
     const deserialisedValue =
-      this.valueSerializer?.deserialize(value, key as K) ?? value;
+      this.valueSerializer?.deserialize(value, key) ?? value;
     this.map.set(key, deserialisedValue);
   }
 
@@ -293,12 +350,13 @@ class PersistedMap<K extends string | number, V>
 export interface IPersistedMapFactory {
   create<K extends string | number, V>(
     name: string,
-    valueSerializer?: ISerializable<V>
+    valueSerializer?: ISerializable<V>,
+    parseKey?: (key: string) => K
   ): PersistedMap<K, V>;
 }
-class PersistedMapFactory implements IPersistedMapFactory {
+export class PersistedMapFactory implements IPersistedMapFactory {
   constructor(
-    private db: Level<string, unknown>,
+    private db: IKeyValueStore<unknown>,
     private maxSize = Infinity,
     private flushManager?: IFlushManager,
     private logger?: ILogCollector
@@ -306,7 +364,8 @@ class PersistedMapFactory implements IPersistedMapFactory {
 
   create<K extends string | number, V>(
     name: string,
-    valueSerializer?: ISerializable<V>
+    valueSerializer?: ISerializable<V>,
+    parseKey?: (key: string) => K
   ) {
     return new PersistedMap<K, V>(
       this.db,
@@ -314,6 +373,7 @@ class PersistedMapFactory implements IPersistedMapFactory {
       this.flushManager,
       this.logger,
       valueSerializer,
+      parseKey,
       this.maxSize
     );
   }
@@ -329,7 +389,7 @@ class PersistedQueue<T, K extends string | number>
   private pendingUpdates = new Map<K, [T, number] | undefined>();
 
   constructor(
-    db: Level<string, unknown>,
+    db: IKeyValueStore<unknown>,
     public namespace: string,
     private queue: IPriorityQueue<T>,
     private keyRetriever: (entry: T) => K,
@@ -425,7 +485,7 @@ interface IPersistedQueueFactory {
 class PersistedQueueFactory implements IPersistedQueueFactory {
   constructor(
     private queueFactory: new () => IPriorityQueue<any>,
-    private db: Level<string, unknown>,
+    private db: IKeyValueStore<unknown>,
     private maxSize = Infinity,
     private flushManager?: IFlushManager,
     private logger?: ILogCollector
@@ -459,13 +519,17 @@ class MapSerializer<K, V> implements ISerializable {
 class PersistedQueueSerializer<T> implements ISerializable {
   constructor(
     private queueFactory: IPersistedQueueFactory,
-    private keyRetriever: (entry: T) => string | number
+    private keyRetriever: (entry: T) => string | number,
+    private prefix = "queue"
   ) {}
   serialize(_: unknown, key: string) {
     return key;
   }
   deserialize(name: string) {
-    return this.queueFactory.create(`queue!${name}`, this.keyRetriever);
+    return this.queueFactory.create(
+      `${this.prefix}!${name}`,
+      this.keyRetriever
+    );
   }
 }
 //
@@ -473,9 +537,9 @@ class PersistedQueueSerializer<T> implements ISerializable {
 //
 // MESSAGE
 export class MessageMetadata {
-  id: number = 0; // 4 bytes
+  id: number = 0; // 8 bytes (double)
   ts: number = Date.now(); // 8 bytes (double)
-  producerId: number = 0; // 4 bytes
+  producerId: number = 0; // 8 bytes (double)
   priority?: number; // 1 byte (0-255)
   ttl?: number; // 4 bytes
   ttd?: number; // 4 bytes
@@ -544,7 +608,7 @@ class CapacityValidator implements IMessageValidator<any> {
     }
   }
 }
-interface MetadataInput
+export interface MetadataInput
   extends Pick<
     MessageMetadata,
     "priority" | "correlationId" | "ttd" | "ttl" | "dedupId"
@@ -596,83 +660,167 @@ class MessageFactory<Data> implements IMessageFactory<Data> {
 //
 //
 // message_store
+// meta!<id> values are [recordOffset u64][metadata], the log finds the message by its record offset
+class MetadataEntry {
+  static encode(recordOffset: number, metaBuffer: Buffer) {
+    const header = Buffer.alloc(8);
+    header.writeBigUInt64BE(BigInt(recordOffset), 0);
+    return Buffer.concat([header, metaBuffer]);
+  }
+
+  static recordOffset(entry: Buffer) {
+    return Number(entry.readBigUInt64BE(0));
+  }
+
+  static metadata(entry: Buffer) {
+    return entry.subarray(8);
+  }
+}
 interface IWALReplayer {
-  replay(): Promise<void>;
+  replay(messagePublisher?: IMessagePublisher): Promise<void>;
 }
 class WALReplayer implements IWALReplayer {
   constructor(
     private wal: IWriteAheadLog,
-    private log: IMessageLog,
-    private db: Level<string, unknown>,
+    private log: ISegmentLog,
+    private db: IKeyValueStore<Buffer>,
     private codec: ICodec,
-    private messagePublisher: IMessagePublisher,
-    private logger?: ILogCollector
+    private logger?: ILogCollector,
+    private transactions?: ITransactionCoordinator,
+    private maxMessageTTLMs = 3_600_000_000 // as the message writer's
   ) {}
 
-  async replay(): Promise<void> {
+  // a following replica has no publisher, it applies without routing and holds back transactions still undecided
+  async replay(messagePublisher?: IMessagePublisher): Promise<void> {
+    const following = !messagePublisher;
     let offset = 0;
 
     try {
-      while (true) {
-        const offsetBuffer = await this.db.get("last_wal_offset");
-        if (offsetBuffer) offset = +offsetBuffer.toString();
-
-        this.logger?.log(`Replaying WAL from offset ${offset}`, { offset });
-
-        // 1. Read total length
-        const totalLengthBytes = await this.wal.read(offset, 4);
-        if (!totalLengthBytes || totalLengthBytes.length < 4) break;
-        const totalLength = totalLengthBytes.readUInt32BE(0);
-
-        // 2. Read full record body (metaLength + metadata + message)
-        const recordBytes = await this.wal.read(offset + 4, totalLength);
-        if (!recordBytes || recordBytes.length < totalLength) break;
-
-        // 3. Extract metadata length
-        const metaLength = recordBytes.readUInt32BE(0);
-        const metaBuffer = recordBytes.slice(4, 4 + metaLength);
-        const messageBuffer = recordBytes.slice(4 + metaLength);
-
-        // 4. Decode and apply
-        const meta = await this.codec.decode(metaBuffer, messageMetadataSchema);
-        const pointer = await this.log.append(messageBuffer);
-        if (!pointer) break;
-
-        const pointerBuffer = await this.codec.encode(
-          pointer,
-          SegmentPointerSchema
-        );
+      // the wal checkpoint covers files the db offset may no longer point into
+      const offsetBuffer = await this.db.get("last_wal_offset");
+      if (offsetBuffer) offset = +offsetBuffer.toString();
+      offset = Math.max(offset, await this.wal.getCheckpoint());
+      const start = offset;
+
+      this.logger?.log(`Replaying WAL from offset ${offset}`, { offset });
 
-        await this.db.batch([
-          { type: "put", key: `meta!${meta.id}`, value: metaBuffer },
-          { type: "put", key: `ptr!${meta.id}`, value: pointerBuffer },
-        ]);
+      // 1. Collect transaction outcomes first, markers follow their records
+      const [outcomes, end] = await this.scan(start);
 
-        // 5. Update WAL progress
-        offset = offset + 4 + totalLength;
+      for await (const record of this.wal.records(start)) {
+        // nothing past a corrupt record is applied
+        if (record.offset >= end) break;
+        if (following && record.txnId && !outcomes.has(record.txnId)) break;
+        offset = record.nextOffset;
+
+        // 2. Skip markers, aborted and unfinished transactions
+        if (record.type !== WalRecordType.Data) continue;
+        if (record.txnId && !this.isCommitted(record.txnId, outcomes)) continue;
+
+        // 3. Decode and apply
+        const meta = await this.apply(record.payload);
+        if (!meta) break;
+
+        // 4. Update WAL progress
         await this.db.put("last_wal_offset", Buffer.from(String(offset)));
 
-        // 6. publish
-        await this.messagePublisher.publish(meta);
+        // 5. publish
+        await messagePublisher?.publish(meta);
       }
 
-      if (offset > 0) {
-        await this.wal.truncate(offset);
+      if (offset > start) {
+        await this.wal.checkpoint(offset);
         this.logger?.log(`Replayed from WAL`, { offset });
       }
     } catch (error) {
       this.logger?.log("Failed WAL replay", { error }, "error");
     }
   }
+
+  private async scan(start: number) {
+    const outcomes = new Map<number, WalRecordType>();
+    let end = start;
+
+    try {
+      for await (const record of this.wal.records(start)) {
+        end = record.nextOffset;
+        if (
+          record.type === WalRecordType.Commit ||
+          record.type === WalRecordType.Abort
+        ) {
+          outcomes.set(record.txnId, record.type);
+        }
+      }
+    } catch (error) {
+      if (!(error instanceof WalCorruptionError)) throw error;
+      this.logger?.log("WAL corruption, replay stopped", { error }, "warn");
+    }
+
+    return [outcomes, end] as const;
+  }
+
+  private isCommitted(txnId: number, outcomes: Map<number, WalRecordType>) {
+    const outcome = outcomes.get(txnId);
+    if (outcome !== undefined) return outcome === WalRecordType.Commit;
+    // crashed after the decision but before this topic got its marker
+    return this.transactions?.getStatus(txnId) === "committed";
+  }
+
+  private async apply(payload: Buffer) {
+    const metaLength = payload.readUInt32BE(0);
+    const metaBuffer = payload.subarray(4, 4 + metaLength);
+    const messageBuffer = payload.subarray(4 + metaLength);
+
+    const meta = await this.codec.decode<MessageMetadata>(
+      metaBuffer,
+      PrecompiledSchema.MessageMetadataSchema
+    );
+    // replay may start before records that were already applied
+    if (await this.db.get(`meta!${meta.id}`)) return meta;
+
+    const pointer = await this.log.append(messageBuffer, meta.ts);
+    if (!pointer) return;
+
+    await this.db.batch([
+      {
+        type: "put",
+        key: `meta!${meta.id}`,
+        value: MetadataEntry.encode(pointer.recordOffset, metaBuffer),
+      },
+      {
+        type: "put",
+        key: `rec!${String(pointer.recordOffset).padStart(16, "0")}`,
+        value: Buffer.from(String(meta.id)),
+      },
+      {
+        type: "put",
+        key: `ttl!${meta.ts + (meta.ttl || this.maxMessageTTLMs)}:${meta.id}`,
+        value: Buffer.alloc(0),
+      },
+    ]);
+
+    return meta;
+  }
 }
 interface IMessageWriter {
-  write(message: Buffer, meta: MessageMetadata): Promise<number | undefined>;
+  write(
+    message: Buffer,
+    meta: MessageMetadata,
+    txnId?: number
+  ): Promise<number | undefined>;
+  commit(txnId: number): Promise<void>;
+  abort(txnId: number): Promise<void>;
 }
 class MessageWriter implements IMessageWriter {
+  private staged = new Map<number, [Buffer, MessageMetadata, Buffer][]>();
+  private txnOffsets = new Map<number, number>();
+  private unapplied = new Set<number>(); // wal offsets in flight or failed
+  private walEnd = 0;
+
   constructor(
     private wal: IWriteAheadLog,
-    private log: IMessageLog,
-    private db: Level<string, Buffer>,
+    private log: ISegmentLog,
+    private db: IKeyValueStore<Buffer>,
     private codec: ICodec,
     private logger?: ILogCollector,
     private maxMessageTTLMs = 3_600_000_000
@@ -680,60 +828,114 @@ class MessageWriter implements IMessageWriter {
 
   async write(
     message: Buffer,
-    meta: MessageMetadata
+    meta: MessageMetadata,
+    txnId?: number
   ): Promise<number | undefined> {
     try {
-      const metaBuffer = await this.codec.encode(meta, messageMetadataSchema);
+      const metaBuffer = await this.codec.encode(
+        meta,
+        PrecompiledSchema.MessageMetadataSchema
+      );
 
-      // Add length prefixes
+      // Add length prefix
       const metaLengthBuffer = Buffer.alloc(4);
       metaLengthBuffer.writeUInt32BE(metaBuffer.length, 0);
-      const totalLength = 4 + metaBuffer.length + message.length;
-      const totalLengthBuffer = Buffer.alloc(4);
-      totalLengthBuffer.writeUInt32BE(totalLength, 0);
 
       // Combine into one wal record
-      const walRecord = Buffer.concat([
-        totalLengthBuffer,
-        metaLengthBuffer,
-        metaBuffer,
-        message,
-      ]);
+      const walRecord = Buffer.concat([metaLengthBuffer, metaBuffer, message]);
 
       // 1. Write to WAL first for durability
-      const walOffset = await this.wal.append(walRecord);
-      if (!walOffset) throw new Error("Failed writing to WAL");
-
-      // 2. Write to log for long-term storage
-      const pointer = await this.log.append(message);
-      if (!pointer) throw new Error("Failed writing to MessageLog");
+      const walOffset = await this.wal.append(walRecord, txnId);
+      if (walOffset === undefined) throw new Error("Failed writing to WAL");
+
+      // Transactional records are kept aside until commit
+      if (txnId) {
+        if (!this.staged.has(txnId)) {
+          this.staged.set(txnId, []);
+          this.txnOffsets.set(txnId, walOffset);
+        }
+        this.staged.get(txnId)!.push([message, meta, metaBuffer]);
+        return meta.id;
+      }
 
-      // 3. Store metadata, pointers and ttl in db.
-      const pointerBuffer = await this.codec.encode(
-        pointer,
-        SegmentPointerSchema
+      // a failed record stays unapplied, replay has to start at it
+      this.unapplied.add(walOffset);
+      await this.persist(message, meta, metaBuffer);
+      this.unapplied.delete(walOffset);
+      await this.updateWalOffset(
+        walOffset + WalRecord.HEADER_SIZE + walRecord.length
       );
 
-      const ttl = meta.ts + (meta.ttl || this.maxMessageTTLMs);
-      await this.db.batch([
-        { type: "put", key: `meta!${meta.id}`, value: metaBuffer },
-        { type: "put", key: `ptr!${meta.id}`, value: pointerBuffer },
-        {
-          type: "put",
-          key: `ttl!${ttl}:${meta.id}`,
-          value: Buffer.alloc(0),
-        },
-      ]);
-
-      // Update last_wal_offset immediately
-      const lastWalOffset = String(walOffset + 4 + totalLength);
-      await this.db.put("last_wal_offset", Buffer.from(lastWalOffset));
-
       return meta.id;
     } catch (error) {
       this.logger?.log("Failed to write message", { ...meta, error }, "error");
     }
   }
+
+  async commit(txnId: number) {
+    const staged = this.staged.get(txnId);
+    if (!staged) return;
+
+    const walOffset = await this.wal.commit(txnId);
+    if (walOffset === undefined) throw new Error("Failed writing to WAL");
+
+    for (const [message, meta, metaBuffer] of staged) {
+      await this.persist(message, meta, metaBuffer);
+    }
+
+    this.staged.delete(txnId);
+    this.txnOffsets.delete(txnId);
+    await this.updateWalOffset(walOffset + WalRecord.HEADER_SIZE);
+  }
+
+  async abort(txnId: number) {
+    if (!this.staged.has(txnId)) return;
+
+    await this.wal.abort(txnId);
+    this.staged.delete(txnId);
+    this.txnOffsets.delete(txnId);
+  }
+
+  private async persist(
+    message: Buffer,
+    meta: MessageMetadata,
+    metaBuffer: Buffer
+  ) {
+    // 2. Write to log for long-term storage
+    const pointer = await this.log.append(message, meta.ts);
+    if (!pointer) throw new Error("Failed writing to MessageLog");
+
+    // 3. Store metadata with the record offset, and ttl in db.
+    const ttl = meta.ts + (meta.ttl || this.maxMessageTTLMs);
+    await this.db.batch([
+      {
+        type: "put",
+        key: `meta!${meta.id}`,
+        value: MetadataEntry.encode(pointer.recordOffset, metaBuffer),
+      },
+      {
+        type: "put",
+        key: `rec!${String(pointer.recordOffset).padStart(16, "0")}`,
+        value: Buffer.from(String(meta.id)),
+      },
+      {
+        type: "put",
+        key: `ttl!${ttl}:${meta.id}`,
+        value: Buffer.alloc(0),
+      },
+    ]);
+  }
+
+  private async updateWalOffset(end: number) {
+    this.walEnd = Math.max(this.walEnd, end);
+    // replay has to start before records still being written and before open transactions
+    const lastWalOffset = Math.min(
+      this.walEnd,
+      ...this.unapplied,
+      ...this.txnOffsets.values()
+    );
+    await this.db.put("last_wal_offset", Buffer.from(String(lastWalOffset)));
+  }
 }
 interface IMessageReader<Data> {
   read(
@@ -749,11 +951,12 @@ interface IMessageReader<Data> {
     id: number,
     keys?: K[]
   ): Promise<Pick<MessageMetadata, K> | undefined>;
+  entries(): AsyncGenerator<[Data, MessageMetadata]>;
 }
 class MessageReader<Data> implements IMessageReader<Data> {
   constructor(
-    private log: IMessageLog,
-    private db: Level<string, Buffer>,
+    private log: ISegmentLog,
+    private db: IKeyValueStore<Buffer>,
     private codec: ICodec,
     private schemaId?: string,
     private logger?: ILogCollector
@@ -765,15 +968,11 @@ class MessageReader<Data> implements IMessageReader<Data> {
 
   async readMessage(id: number) {
     try {
-      const pointerBuffer = await this.db.get(`ptr!${id}`);
-      if (!pointerBuffer) return;
-
-      const pointer = await this.codec.decode<SegmentPointer>(
-        pointerBuffer,
-        BasicSchemaNames.SegmentPointerSchema
-      );
+      const entry = await this.db.get(`meta!${id}`);
+      if (!entry) return;
 
-      const messageBuffer = await this.log.read(pointer);
+      const recordOffset = MetadataEntry.recordOffset(entry);
+      const messageBuffer = await this.log.readOffset(recordOffset);
       if (!messageBuffer) return;
 
       return this.codec.decode<Data>(messageBuffer, this.schemaId);
@@ -784,42 +983,72 @@ class MessageReader<Data> implements IMessageReader<Data> {
 
   async readMetadata(id: number) {
     try {
-      const metaBuffer = await this.db.get(`meta!${id}`);
-      if (metaBuffer) return;
+      const entry = await this.db.get(`meta!${id}`);
+      if (!entry) return;
 
       return this.codec.decode<MessageMetadata>(
-        metaBuffer,
-        BasicSchemaNames.messageMetadataSchema
+        MetadataEntry.metadata(entry),
+        PrecompiledSchema.MessageMetadataSchema
       );
     } catch (error) {
       this.logger?.log("Failed metadata reading", { id, error }, "error");
     }
   }
+
+  // live messages in publish order, the ones marked deletable are skipped
+  async *entries(): AsyncGenerator<[Data, MessageMetadata]> {
+    for await (const value of this.db.values({ prefix: "rec!" })) {
+      const id = value.toString();
+      if (await this.db.get(`del!${id}`)) continue;
+
+      const entry = await this.db.get(`meta!${id}`);
+      if (!entry) continue;
+
+      const message = await this.readMessage(+id);
+      if (message === undefined) continue;
+
+      const meta = await this.codec.decode<MessageMetadata>(
+        MetadataEntry.metadata(entry),
+        PrecompiledSchema.MessageMetadataSchema
+      );
+      yield [message, meta];
+    }
+  }
 }
 interface IMessageRetentionManager {
-  start(): void;
+  start(dlqManager: IDLQManager<any>): void;
   stop(): void;
   markDeletable(id: number): Promise<void>;
   unmarkDeletable(id: number): Promise<void>;
 }
 class MessageRetentionManager implements IMessageRetentionManager {
   private retentionTimer?: NodeJS.Timeout;
+  private dlqManager?: IDLQManager<any>;
 
   constructor(
-    private db: Level<string, Buffer>,
+    private db: IKeyValueStore<Buffer>,
     private wal: IWriteAheadLog,
-    private log: IMessageLog,
-    private dlqManager: IDLQManager<any>,
+    private log: ISegmentLog,
     private codec: ICodec,
     private logger?: ILogCollector,
-    private retentionMs = 3_600_000
+    private retentionMs = 3_600_000,
+    private maxSizeBytes = Infinity,
+    private archivalThresholdMs = Infinity
   ) {}
 
-  start(): void {
-    if (this.retentionMs === Infinity) return;
+  // expired messages go to the dlq of the topic, which needs the store first
+  start(dlqManager: IDLQManager<any>): void {
+    this.dlqManager = dlqManager;
+    if (
+      this.retentionMs === Infinity &&
+      this.maxSizeBytes === Infinity &&
+      this.archivalThresholdMs === Infinity
+    ) {
+      return;
+    }
     this.retentionTimer = setInterval(
       this.retain,
-      Math.min(this.retentionMs, 3_600_000)
+      Math.min(this.retentionMs, this.archivalThresholdMs, 3_600_000)
     );
   }
 
@@ -846,17 +1075,15 @@ class MessageRetentionManager implements IMessageRetentionManager {
       const id = key.slice(4);
 
       try {
-        const pointerBuffer = await this.db.get(`ptr!${id}`);
-        if (pointerBuffer) {
-          const pointer = await this.codec.decode(
-            pointerBuffer,
-            SegmentPointerSchema
+        const entry = await this.db.get(`meta!${id}`);
+        if (entry) {
+          const pointer = await this.log.locate(
+            MetadataEntry.recordOffset(entry)
           );
-          pointersToDelete.push(pointer);
+          if (pointer) pointersToDelete.push(pointer);
         }
 
         batch.del(`meta!${id}`);
-        batch.del(`ptr!${id}`);
         batch.del(`del!${id}`);
       } catch (error) {
         this.logger?.log(
@@ -870,30 +1097,74 @@ class MessageRetentionManager implements IMessageRetentionManager {
     // 1. db batch
     await batch.write();
 
-    // 2. delete from log
+    // 2. mark removed in the log, compaction reclaims the space in the background
     if (pointersToDelete.length) {
-      await this.log.compactSegmentsByRemovingOldMessages(pointersToDelete);
+      await this.log.remove(pointersToDelete);
     }
 
-    // 3. truncate the wal
+    // 3. checkpoint the wal, fully applied files are dropped
     const offsetBuffer = await this.db.get("last_wal_offset");
-    await this.wal.truncate(+offsetBuffer.toSorted());
+    if (offsetBuffer) await this.wal.checkpoint(+offsetBuffer.toString());
 
     return pointersToDelete.length;
   }
 
+  // whole log segments past retention or over maxSizeBytes, their db entries go by record offset range
+  private async retainSegments() {
+    const removed = await this.log.retain({
+      retentionMs: this.retentionMs,
+      maxSizeBytes: this.maxSizeBytes,
+    });
+
+    for (const { firstOffset, lastOffset } of removed) {
+      const range = {
+        gte: `rec!${String(firstOffset).padStart(16, "0")}`,
+        lte: `rec!${String(lastOffset).padStart(16, "0")}`,
+      };
+      const batch = this.db.batch();
+
+      for await (const value of this.db.values(range)) {
+        const id = value.toString();
+        batch.del(`meta!${id}`);
+        batch.del(`del!${id}`);
+      }
+
+      await batch.write();
+      await this.db.clear(range);
+    }
+
+    return removed.length;
+  }
+
+  // sealed segments older than archivalThresholdMs leave the disk, reads fetch them back
+  private async archiveSegments() {
+    if (this.archivalThresholdMs === Infinity) return 0;
+    return this.log.archive(this.archivalThresholdMs);
+  }
+
   private async processTtl() {
+    // ttl keys carry the expiry time, so everything below now has expired
     for await (const [key] of this.db.iterator({
-      lt: `ts!${Date.now() + this.retentionMs}`,
+      gte: "ttl!",
+      lt: `ttl!${Date.now()}`,
     })) {
       const id = key.split(":")[1];
+      if (!id) continue;
 
       try {
-        const metaBuffer = await this.db.get(`meta!${id}`);
-        const meta = await this.codec.decode(metaBuffer, messageMetadataSchema);
+        const entry = await this.db.get(`meta!${id}`);
+        // removed with its segment
+        if (!entry) {
+          await this.db.del(key);
+          continue;
+        }
+        const meta = await this.codec.decode<MessageMetadata>(
+          MetadataEntry.metadata(entry),
+          PrecompiledSchema.MessageMetadataSchema
+        );
 
         await this.db.del(key);
-        this.dlqManager.enqueue(meta, "expired");
+        this.dlqManager?.enqueue(meta, "expired");
       } catch (error) {
         this.logger?.log(
           `MessageStore cannot send to dlq ${id}`,
@@ -906,19 +1177,33 @@ class MessageRetentionManager implements IMessageRetentionManager {
 
   private retain = async () => {
     try {
+      const removedSegments = await this.retainSegments();
+      const archivedSegments = await this.archiveSegments();
       const [deletedCount] = await Promise.all([
         this.clearDeletable(),
         this.processTtl(),
       ]);
 
-      this.logger?.log("MessageStore retention succeed", { deletedCount });
+      this.logger?.log("MessageStore retention succeed", {
+        deletedCount,
+        removedSegments,
+        archivedSegments,
+      });
     } catch (error) {
       this.logger?.log("MessageStore retention failed", { error }, "error");
     }
   };
 }
-interface IMessageStore<Data> {
-  write(message: Buffer, meta: MessageMetadata): Promise<number | undefined>;
+interface IMessageStore<Data> extends ITransactionParticipant {
+  start(
+    messagePublisher: IMessagePublisher,
+    dlqManager: IDLQManager<Data>
+  ): Promise<void>;
+  write(
+    message: Buffer,
+    meta: MessageMetadata,
+    txnId?: number
+  ): Promise<number | undefined>;
   read(
     id: number
   ): Promise<
@@ -932,49 +1217,86 @@ interface IMessageStore<Data> {
     id: number,
     keys?: K[]
   ): Promise<Pick<MessageMetadata, K> | undefined>;
+  entries(): AsyncGenerator<[Data, MessageMetadata]>;
+  seek(ts: number): AsyncGenerator<number>;
+  records(from?: number): AsyncGenerator<IWalEntry>;
+  getWalEndOffset(): Promise<number>;
+  replicate(records: IWalEntry[]): Promise<void>;
   markDeletable(id: number): Promise<void>;
   unmarkDeletable(id: number): Promise<void>;
+  pause(): Promise<void>;
+  resume(): void;
+  snapshot(dirPath: string): Promise<void>;
   close(): Promise<void>;
   getMetrics(): Promise<{
-    wal: {
-      fileSize: number | undefined;
-      batchSize: number;
-      batchCount: number;
-      isFlushing: boolean;
-    };
-    log: {
-      totalSize: number;
-      messageCount: number;
-      currentSegmentId: number | undefined;
-      segmentCount: number;
-    };
+    wal: Awaited<ReturnType<IWriteAheadLog["getMetrics"]>>;
+    log: Awaited<ReturnType<ISegmentLog["getMetrics"]>>;
     db: {};
     ram: NodeJS.MemoryUsage;
   }>;
 }
 class MessageStoreService<Data> implements IMessageStore<Data> {
+  private writes = new Set<Promise<unknown>>();
+  private paused?: Promise<void>;
+  private unpause?: () => void;
+  private ready?: Promise<void>;
+
   constructor(
     private replayer: IWALReplayer,
     private writer: IMessageWriter,
     private reader: IMessageReader<Data>,
     private retentionManager: IMessageRetentionManager,
-    private db: Level<string, Buffer>,
+    private db: IKeyValueStore<Buffer>,
     private wal: IWriteAheadLog,
-    private log: IMessageLog
-  ) {
-    this.init();
-  }
+    private log: ISegmentLog
+  ) {}
 
-  private async init() {
-    await this.replayer.replay();
-    this.retentionManager.start();
+  // replays what the last run left in the wal, writes wait for it. A replica never starts
+  start(messagePublisher: IMessagePublisher, dlqManager: IDLQManager<Data>) {
+    this.ready ??= this.replayer.replay(messagePublisher).then(() => {
+      this.retentionManager.start(dlqManager);
+    });
+    return this.ready;
   }
 
   async write(
     message: Buffer,
-    meta: MessageMetadata
+    meta: MessageMetadata,
+    txnId?: number
   ): Promise<number | undefined> {
-    return this.writer.write(message, meta);
+    await this.ready;
+    await this.paused;
+    return this.track(this.writer.write(message, meta, txnId));
+  }
+
+  async commit(txnId: number) {
+    await this.ready;
+    await this.paused;
+    return this.track(this.writer.commit(txnId));
+  }
+
+  async abort(txnId: number) {
+    await this.ready;
+    await this.paused;
+    return this.track(this.writer.abort(txnId));
+  }
+
+  // new writes wait until resume, the ones already running finish first
+  async pause() {
+    this.paused ??= new Promise((resolve) => (this.unpause = resolve));
+    await Promise.all(this.writes);
+  }
+
+  resume() {
+    this.unpause?.();
+    this.paused = this.unpause = undefined;
+  }
+
+  // the log seals its current segment as it copies, pause first so it matches the wal
+  async snapshot(dirPath: string) {
+    await this.log.snapshot(path.join(dirPath, "segments"));
+    await this.wal.snapshot(path.join(dirPath, "wal"));
+    await this.db.snapshot(path.join(dirPath, "messages"));
   }
 
   async read(id: number) {
@@ -992,17 +1314,59 @@ class MessageStoreService<Data> implements IMessageStore<Data> {
     return this.reader.readMetadata(id, keys);
   }
 
+  entries() {
+    return this.reader.entries();
+  }
+
+  // ids in log order from the first record at or after ts, the log time index finds it
+  async *seek(ts: number) {
+    const pointer = await this.log.seek(ts);
+    if (!pointer) return;
+
+    for await (const value of this.db.values({
+      gte: `rec!${String(pointer.recordOffset).padStart(16, "0")}`,
+      lt: "rec~",
+    })) {
+      yield Number(value.toString());
+    }
+  }
+
+  records(from?: number) {
+    return this.wal.records(from);
+  }
+
+  async getWalEndOffset() {
+    return (await this.wal.getMetrics()).endOffset;
+  }
+
+  // records shipped from a primary land in this wal first, then apply as a replay does
+  async replicate(records: IWalEntry[]) {
+    // appends start in order and share the flush, replay reads flushed records only
+    await Promise.all(
+      records.map(({ type, txnId, payload }) => {
+        if (type === WalRecordType.Commit) return this.wal.commit(txnId);
+        if (type === WalRecordType.Abort) return this.wal.abort(txnId);
+        if (type !== WalRecordType.Data) return; // checkpoints are the replica's own
+        return this.wal.append(Buffer.from(payload), txnId || undefined);
+      })
+    );
+    await this.replayer.replay();
+  }
+
   async markDeletable(id: number): Promise<void> {
     return this.retentionManager.markDeletable(id);
   }
 
   async unmarkDeletable(id: number): Promise<void> {
-    return this.retentionManager.markDeletable(id);
+    return this.retentionManager.unmarkDeletable(id);
   }
 
+  // a replay or writes still running finish first
   async close() {
+    await this.ready?.catch(() => {});
+    await Promise.all(this.writes);
     this.retentionManager.stop();
-    await Promise.all([this.wal.close(), this.db.close()]);
+    await Promise.all([this.wal.close(), this.log.close(), this.db.close()]);
   }
 
   async getMetrics() {
@@ -1015,11 +1379,247 @@ class MessageStoreService<Data> implements IMessageStore<Data> {
       wal: walStats,
       log: logStats,
       db: {
-        /** db.stats() is not implemented in Level */
+        /** db.stats() is not part of IKeyValueStore */
       },
       ram: process.memoryUsage(),
     };
   }
+
+  private async track<T>(write: Promise<T>) {
+    this.writes.add(write);
+
+    try {
+      return await write;
+    } finally {
+      this.writes.delete(write);
+    }
+  }
+}
+//
+//
+//
+// SRC/TRANSACTION.TS
+type TransactionStatus = "pending" | "committed" | "aborted";
+interface ITransactionState {
+  status: TransactionStatus;
+  acks?: [string, number, number][]; // [topic, consumerId, messageId]
+  offsets?: [string, string, number][]; // [topic, groupId, offset] of log consumer groups
+}
+interface ITransactionParticipant {
+  commit(txnId: number): Promise<void>;
+  abort(txnId: number): Promise<void>;
+}
+export interface ITransaction {
+  id: number;
+  status: TransactionStatus;
+  enlist(participant: ITransactionParticipant): void;
+  onCommit(task: () => Promise<unknown>): void;
+  publish<Data>(
+    producer: IProducer<Data>,
+    batch: Data[],
+    metadata?: MetadataInput
+  ): Promise<IPublishResult[]>;
+  ack<Data>(consumer: IConsumer<Data>, messageId?: number): Promise<number[]>;
+  commit(): Promise<void>;
+  abort(): Promise<void>;
+}
+interface ITransactionCoordinator {
+  begin(): ITransaction;
+  recordAck(
+    txnId: number,
+    topic: string,
+    consumerId: number,
+    messageId: number
+  ): void;
+  decide(txnId: number, status: TransactionStatus): Promise<void>;
+  forget(txnId: number): void;
+  getStatus(txnId: number): TransactionStatus | undefined;
+  getCommittedAcks(topic: string): Generator<[number, number]>;
+  recordOffset(
+    txnId: number,
+    topic: string,
+    groupId: string,
+    offset: number
+  ): void;
+  getCommittedOffsets(topic: string): Generator<[string, number]>;
+}
+class TransactionCoordinator implements ITransactionCoordinator {
+  private states: IPersistedMap<number, ITransactionState>;
+
+  constructor(
+    mapFactory: IPersistedMapFactory,
+    private logger?: ILogCollector
+  ) {
+    this.states = mapFactory.create("transactions", undefined, Number);
+  }
+
+  begin() {
+    const id = uniqueIntGenerator();
+    this.states.set(id, { status: "pending" });
+    this.logger?.log("Transaction started", { id });
+    return new Transaction(id, this, this.logger);
+  }
+
+  recordAck(
+    txnId: number,
+    topic: string,
+    consumerId: number,
+    messageId: number
+  ) {
+    const state = this.states.get(txnId);
+    if (!state) throw new Error(`Transaction ${txnId} not found`);
+    state.acks = [...(state.acks ?? []), [topic, consumerId, messageId]];
+    this.states.set(txnId, state);
+  }
+
+  // the decision must be durable before any participant writes its marker
+  async decide(txnId: number, status: TransactionStatus) {
+    const state = this.states.get(txnId);
+    this.states.set(txnId, { ...state, status });
+    await this.states.flush();
+    this.logger?.log(`Transaction ${status}`, { id: txnId });
+  }
+
+  // every participant has its own marker, the decision is no longer needed
+  forget(txnId: number) {
+    this.states.delete(txnId);
+  }
+
+  getStatus(txnId: number) {
+    return this.states.get(txnId)?.status;
+  }
+
+  // consumer ids are unique per topic only
+  *getCommittedAcks(topic: string): Generator<[number, number]> {
+    for (const { status, acks } of this.states.values()) {
+      if (status !== "committed" || !acks) continue;
+      for (const [ackTopic, consumerId, messageId] of acks) {
+        if (ackTopic === topic) yield [consumerId, messageId];
+      }
+    }
+  }
+
+  recordOffset(txnId: number, topic: string, groupId: string, offset: number) {
+    const state = this.states.get(txnId);
+    if (!state) throw new Error(`Transaction ${txnId} not found`);
+    state.offsets = [...(state.offsets ?? []), [topic, groupId, offset]];
+    this.states.set(txnId, state);
+  }
+
+  *getCommittedOffsets(topic: string): Generator<[string, number]> {
+    for (const { status, offsets } of this.states.values()) {
+      if (status !== "committed" || !offsets) continue;
+      for (const [offsetTopic, groupId, offset] of offsets) {
+        if (offsetTopic === topic) yield [groupId, offset];
+      }
+    }
+  }
+}
+class Transaction implements ITransaction {
+  private participants = new Set<ITransactionParticipant>();
+  private commitTasks: Array<() => Promise<unknown>> = [];
+  private _status: TransactionStatus = "pending";
+
+  constructor(
+    public readonly id: number,
+    private readonly coordinator: ITransactionCoordinator,
+    private readonly logger?: ILogCollector
+  ) {}
+
+  get status() {
+    return this._status;
+  }
+
+  enlist(participant: ITransactionParticipant) {
+    this.throwIfClosed();
+    this.participants.add(participant);
+  }
+
+  onCommit(task: () => Promise<unknown>) {
+    this.throwIfClosed();
+    this.commitTasks.push(task);
+  }
+
+  async publish<Data>(
+    producer: IProducer<Data>,
+    batch: Data[],
+    metadata?: MetadataInput
+  ) {
+    this.throwIfClosed();
+    return producer.publish(batch, metadata, this);
+  }
+
+  // consume-transform-produce: the input ack lands together with the output
+  async ack<Data>(consumer: IConsumer<Data>, messageId?: number) {
+    this.throwIfClosed();
+    return consumer.ack(messageId, this);
+  }
+
+  // the decision is durable before any participant commits, so participants that
+  // failed stay enlisted and commit() can be called again to finish them. Until then
+  // the decision stays with the coordinator and a restart commits their records
+  async commit() {
+    if (this._status !== "committed" || !this.participants.size) {
+      this.throwIfClosed();
+      await this.coordinator.decide(this.id, "committed");
+      this._status = "committed";
+    }
+
+    const errors: unknown[] = [];
+    for (const participant of this.participants) {
+      try {
+        await participant.commit(this.id);
+        this.participants.delete(participant);
+      } catch (error) {
+        errors.push(error);
+      }
+    }
+
+    if (errors.length) {
+      this.logger?.log(
+        "Transaction committed, participants failed",
+        { id: this.id, errors },
+        "error"
+      );
+      throw new Error(
+        `Transaction ${this.id} is committed but ${errors.length} participant(s) failed, retry commit()`,
+        { cause: errors.length === 1 ? errors[0] : new AggregateError(errors) }
+      );
+    }
+    this.coordinator.forget(this.id);
+
+    // routing happens only once every message is durable
+    for (const task of this.commitTasks) {
+      try {
+        await task();
+      } catch (error) {
+        this.logger?.log("Failed post-commit routing", { error }, "error");
+      }
+    }
+
+    this.participants.clear();
+    this.commitTasks = [];
+  }
+
+  async abort() {
+    this.throwIfClosed();
+    await this.coordinator.decide(this.id, "aborted");
+    this._status = "aborted";
+
+    for (const participant of this.participants) {
+      await participant.abort(this.id);
+    }
+    this.coordinator.forget(this.id);
+
+    this.participants.clear();
+    this.commitTasks = [];
+  }
+
+  private throwIfClosed() {
+    if (this._status !== "pending") {
+      throw new Error(`Transaction ${this.id} is already ${this._status}`);
+    }
+  }
 }
 //
 //
@@ -1082,16 +1682,18 @@ interface IPipelineFactory<Data> {
   create(
     dlqManager: IDLQManager<Data>,
     deliveryTracker: IDeliveryTracker,
-    delayedMessageManager: DelayedMessageManager<Data>
+    delayedMessageManager: IDelayedMessageManager,
+    pipeline?: IMessagePipeline
   ): IMessagePipeline;
 }
 class PipelineFactory<Data> implements IPipelineFactory<Data> {
+  // fills a pipeline made earlier, the delayed manager publishes through it
   create(
     dlqManager: IDLQManager<Data>,
     deliveryTracker: IDeliveryTracker,
-    delayedMessageManager: IDelayedMessageManager
+    delayedMessageManager: IDelayedMessageManager,
+    pipeline: IMessagePipeline = new MessagePipeline()
   ) {
-    const pipeline = new MessagePipeline();
     pipeline.addProcessor(new ExpirationProcessor(dlqManager));
     pipeline.addProcessor(new DelayProcessor(delayedMessageManager));
     pipeline.addProcessor(new AttemptsProcessor(deliveryTracker, dlqManager));
@@ -1137,7 +1739,12 @@ class DelayMonitor<Data> implements IDelayMonitor<Data> {
   private nextTimeout?: NodeJS.Timeout;
   private isProcessing = false;
 
-  constructor(private queue: IPriorityQueue<[Data, number]>) {}
+  constructor(
+    private queue: IPriorityQueue<[Data, number]>,
+    restored?: Promise<void> // what the queue held is scheduled once it is back
+  ) {
+    restored?.then(() => this.setNextTimeout());
+  }
 
   setReadyCallback(onReadyHandler: (data: Data) => Promise<void>) {
     this.onReadyCallback = onReadyHandler;
@@ -1254,12 +1861,16 @@ class ConsumerGroup implements IConsumerGroup {
     mapFactory: IPersistedMapFactory,
     private hashRing: IHashRing
   ) {
-    this.members = mapFactory.create<number, string[]>(`members!${name}`);
+    this.members = mapFactory.create<number, string[]>(
+      `members!${name}`,
+      undefined,
+      Number
+    );
   }
 
   addMember(id: number, routingKeys?: string[]) {
     // for the group with defined groupId we need to enforce homogeneous routingKeys within the members
-    if (this.name && this.members.size > 0) {
+    if (!this.isDefaultGroup() && this.members.size > 0) {
       const expectedKeys = this.members.values().next().value as
         | Array<string>
         | undefined;
@@ -1291,7 +1902,8 @@ class ConsumerGroup implements IConsumerGroup {
     messageId: number,
     correlationId?: string
   ): Iterable<number> | undefined {
-    if (this.name || correlationId) {
+    // the default group fans out to every member
+    if (!this.isDefaultGroup() || correlationId) {
       return this.hashRing.getNode(correlationId || messageId.toString());
     }
     return this.members.keys();
@@ -1344,9 +1956,11 @@ class MessageRouter<Data> implements IMessageRouter {
     private mapFactory: IPersistedMapFactory,
     private activityTracker: IClientActivityTracker,
     private queueManager: IQueueManager,
-    private subscriptionManager: ISubscriptionManager<Data>,
+    private subscriptionRegistry: ISubscriptionRegistry<Data>,
+    private subscriptionDispatcher: ISubscriptionMessageDispatcher,
     private dlqManager: IDLQManager<Data>,
-    private processedMessageTracker: IProcessedMessageTracker
+    private processedMessageTracker: IProcessedMessageRegistry,
+    private partitioner: IPartitioner
   ) {
     this.consumerGroups = mapFactory.create<string, IConsumerGroup>(
       `groups`,
@@ -1425,6 +2039,7 @@ class MessageRouter<Data> implements IMessageRouter {
     const isSingleConsumer = !group.isDefaultGroup() || correlationId;
     const candidates = group.getMembers(id, correlationId);
     if (!candidates) return;
+    const partition = this.partitioner.getPartition(meta);
 
     let fallbackCandidateId;
     let processedCount = 0;
@@ -1433,7 +2048,16 @@ class MessageRouter<Data> implements IMessageRouter {
 
     for (const candidateId of candidates) {
       // filter candidate
-      if (!this.isSuitable(group, candidateId, meta.id, now, routingKey))
+      if (
+        !this.isSuitable(
+          group,
+          candidateId,
+          meta.id,
+          partition,
+          now,
+          routingKey
+        )
+      )
         continue;
 
       // prefer idle consumer for single consumer mode
@@ -1460,8 +2084,11 @@ class MessageRouter<Data> implements IMessageRouter {
 
   private async deliver(consumerId: number, meta: MessageMetadata) {
     // try to push at first, otherwise enqueue to pull
-    if (this.subscriptionManager.hasListener(consumerId)) {
-      const needAck = await this.subscriptionManager.pushTo(consumerId, meta);
+    if (this.subscriptionRegistry.hasListener(consumerId)) {
+      const needAck = await this.subscriptionDispatcher.pushTo(
+        consumerId,
+        meta
+      );
       return needAck ? 1 : 0;
     }
 
@@ -1473,12 +2100,16 @@ class MessageRouter<Data> implements IMessageRouter {
     group: IConsumerGroup,
     consumerId: number,
     messageId: number,
+    partition: number,
     now: number,
     routingKey?: string
   ) {
     // skip those who have processed it (exactly-once)
     if (this.processedMessageTracker.has(consumerId, messageId)) return false;
 
+    // skip those who are not assigned to the message partition
+    if (!this.partitioner.isAssigned(consumerId, partition)) return false;
+
     // skip non-operable members (backpressure)
     if (!this.activityTracker.isOperable(consumerId, now)) return false;
 
@@ -1488,7 +2119,11 @@ class MessageRouter<Data> implements IMessageRouter {
   }
 }
 interface IMessagePublisher {
-  publish(meta: MessageMetadata, skipDLQ?: boolean): Promise<void>;
+  publish(
+    meta: MessageMetadata,
+    skipDLQ?: boolean,
+    txn?: ITransaction
+  ): Promise<void>;
 }
 class MessagePublisher implements IMessagePublisher {
   constructor(
@@ -1498,7 +2133,10 @@ class MessagePublisher implements IMessagePublisher {
     private readonly logger?: ILogCollector
   ) {}
 
-  async publish(meta: MessageMetadata, skipDLQ = false) {
+  async publish(meta: MessageMetadata, skipDLQ = false, txn?: ITransaction) {
+    // transactional messages are invisible to consumers until commit
+    if (txn) return txn.onCommit(() => this.publish(meta, skipDLQ));
+
     if (this.pipeline.process(meta)) return;
     const deliveryCount = await this.messageRouter.route(meta, skipDLQ);
     this.deliveryTracker.setAwaitedDeliveries(meta.id, deliveryCount);
@@ -1510,7 +2148,8 @@ interface IPublishingService {
   publish(
     producerId: number,
     message: Buffer,
-    meta: MessageMetadata
+    meta: MessageMetadata,
+    txn?: ITransaction
   ): Promise<void>;
   getMetrics(): {
     router: {
@@ -1531,15 +2170,21 @@ class PublishingService<Data> implements IPublishingService {
     private readonly messagePublisher: IMessagePublisher,
     private readonly activityTracker: IClientActivityTracker,
     private readonly delayedManager: IDelayedMessageManager,
-    private readonly metrics: IMetricsCollector
+    private readonly metrics: IMetricsCollector,
+    private readonly topicRouter?: IHierarchicalTopicRouter
   ) {}
 
   async publish(
     producerId: number,
     message: Buffer,
-    meta: MessageMetadata
+    meta: MessageMetadata,
+    txn?: ITransaction
   ): Promise<void> {
-    await this.messageStore.write(message, meta);
+    txn?.enlist(this.messageStore);
+    // resolves once the topic durability guarantee is met
+    const id = await this.messageStore.write(message, meta, txn?.id);
+    if (id === undefined)
+      throw new Error(`Failed to persist message ${meta.id}`);
 
     const processingTime = Date.now() - meta.ts;
     this.metrics.recordEnqueue(message.length, processingTime);
@@ -1549,7 +2194,12 @@ class PublishingService<Data> implements IPublishingService {
       status: "idle",
     });
 
-    await this.messagePublisher.publish(meta);
+    await this.messagePublisher.publish(meta, false, txn);
+
+    const { topicRouter } = this;
+    if (!topicRouter) return;
+    if (txn) txn.onCommit(() => topicRouter.route(producerId, message, meta));
+    else await topicRouter.route(producerId, message, meta);
   }
 
   getMetrics() {
@@ -1582,20 +2232,28 @@ interface IQueueManager {
 }
 class QueueManager implements IQueueManager {
   private queues: IPersistedMap<number, IPersistedQueue<number>>;
-  private totalQueuedMessages = 0;
+  private prefix: string;
 
   constructor(
     mapFactory: IPersistedMapFactory,
-    private queueFactory: IPersistedQueueFactory
+    private queueFactory: IPersistedQueueFactory,
+    partition = 0
   ) {
+    // partition 0 keeps the non-partitioned namespaces
+    this.prefix = partition ? `queue:${partition}` : "queue";
     this.queues = mapFactory.create<number, IPersistedQueue<number>>(
-      `queues`,
-      new PersistedQueueSerializer(queueFactory, (n: number) => n)
+      `${this.prefix}s`,
+      new PersistedQueueSerializer(queueFactory, (n: number) => n, this.prefix),
+      Number
     );
   }
 
   addQueue(id: number) {
-    const queue = this.queueFactory.create(`queue!${id}`, (n: number) => n);
+    if (this.queues.has(id)) return;
+    const queue = this.queueFactory.create(
+      `${this.prefix}!${id}`,
+      (n: number) => n
+    );
     this.queues.set(id, queue);
   }
 
@@ -1610,20 +2268,18 @@ class QueueManager implements IQueueManager {
 
   enqueue(id: number, meta: MessageMetadata) {
     this.queues.get(id)?.enqueue(meta.id, meta.priority);
-    this.totalQueuedMessages++;
     return this.queues.get(id)?.size();
   }
 
   dequeue(id: number) {
-    const messageId = this.queues.get(id)?.dequeue();
-    if (messageId) this.totalQueuedMessages--;
-    return messageId;
+    return this.queues.get(id)?.dequeue();
   }
 
+  // counted from the queues, so restored ones count too
   getMetrics() {
-    return {
-      size: this.totalQueuedMessages,
-    };
+    let size = 0;
+    for (const queue of this.queues.values()) size += queue.size();
+    return { size };
   }
 }
 interface IConsumptionService<Data> {
@@ -1640,7 +2296,7 @@ class ConsumptionService<Data> implements IConsumptionService<Data> {
     private readonly messageStore: IMessageStore<Data>,
     private readonly pendingAcks: IAckRegistry,
     private readonly deliveryTracker: IDeliveryTracker,
-    private readonly processedMessageTracker: IProcessedMessageTracker,
+    private readonly processedMessageTracker: IProcessedMessageRegistry,
     private readonly activityTracker: IClientActivityTracker,
     private readonly logger?: ILogCollector
   ) {}
@@ -1687,6 +2343,8 @@ interface IDeliveryTracker {
   decrementAwaitedDeliveries(messageId: number): Promise<void>;
   decrementDeliveryAttempts(messageId: number): number;
   getDeliveryRetryBackoff(messageId: number): number;
+  getDelivery(messageId: number): IDeliveryEntry | undefined;
+  setDeliveryAttempts(messageId: number, attempts: number): void;
 }
 interface IDeliveryEntry {
   awaited: number;
@@ -1703,12 +2361,19 @@ class DeliveryTracker<Data> implements IDeliveryTracker {
     private readonly initialBackoffMs = 1000,
     private readonly maxBackoffMs = 30_000
   ) {
-    this.deliveries = mapFactory.create<number, IDeliveryEntry>("deliveries");
+    this.deliveries = mapFactory.create<number, IDeliveryEntry>(
+      "deliveries",
+      undefined,
+      Number
+    );
   }
 
-  private getOrCreateEntry(messageid: number) {
+  // a copy, the map only persists entries set anew
+  private getOrCreateEntry(messageid: number): IDeliveryEntry {
     const entry = this.deliveries.get(messageid);
-    return entry ?? { awaited: 0, attempts: Math.max(1, this.maxAttempts) };
+    return entry
+      ? { ...entry }
+      : { awaited: 0, attempts: Math.max(1, this.maxAttempts) };
   }
 
   setAwaitedDeliveries(messageid: number, deliveries: number) {
@@ -1719,8 +2384,8 @@ class DeliveryTracker<Data> implements IDeliveryTracker {
   }
 
   async decrementAwaitedDeliveries(messageId: number) {
-    let entry = this.deliveries.get(messageId);
-    if (!entry) return;
+    if (!this.deliveries.has(messageId)) return;
+    const entry = this.getOrCreateEntry(messageId);
     if (--entry.awaited > 0) {
       this.deliveries.set(messageId, entry);
       return;
@@ -1745,6 +2410,17 @@ class DeliveryTracker<Data> implements IDeliveryTracker {
     return entry.attempts;
   }
 
+  getDelivery(messageId: number) {
+    return this.deliveries.get(messageId);
+  }
+
+  // attempts left carried over from elsewhere, awaited deliveries stay as routed here
+  setDeliveryAttempts(messageId: number, attempts: number) {
+    const entry = this.getOrCreateEntry(messageId);
+    entry.attempts = attempts;
+    this.deliveries.set(messageId, entry);
+  }
+
   getDeliveryRetryBackoff(messageId: number) {
     const attempts = this.deliveries.get(messageId)?.attempts;
     if (!attempts) return 0;
@@ -1758,6 +2434,7 @@ interface IProcessedMessageRegistry {
   has(consumerId: number, messageId: number): boolean;
   add(consumerId: number, messageId: number): void;
   remove(consumerId: number, messageId: number): void;
+  flush(): Promise<void>;
 }
 class ProcessedMessageRegistry implements IProcessedMessageRegistry {
   private processed: IPersistedMap<number, Map<number, number>>; // consumerId:{messageId:ts}
@@ -1768,7 +2445,8 @@ class ProcessedMessageRegistry implements IProcessedMessageRegistry {
   ) {
     this.processed = mapFactory.create<number, Map<number, number>>(
       "processed",
-      new MapSerializer<number, number>()
+      new MapSerializer<number, number>(),
+      Number
     );
   }
 
@@ -1778,23 +2456,32 @@ class ProcessedMessageRegistry implements IProcessedMessageRegistry {
     const ts = processed.get(messageId);
     if (!ts) return false;
     if (Date.now() - ts > this.deduplicationWindowMs) {
-      processed.delete(messageId);
+      this.remove(consumerId, messageId);
       return false;
     }
     return true;
   }
 
+  // maps are replaced, not changed in place, so the persisted map sees them dirty
   add(consumerId: number, messageId: number): void {
-    let processed = this.processed.get(consumerId);
-    if (!processed) {
-      processed = new Map();
-      this.processed.set(consumerId, processed);
-    }
+    const processed = new Map(this.processed.get(consumerId));
     processed.set(messageId, Date.now());
+    this.processed.set(consumerId, processed);
   }
 
   remove(consumerId: number, messageId: number): void {
-    this.processed.get(consumerId)?.delete(messageId);
+    if (!this.processed.get(consumerId)?.has(messageId)) return;
+    const processed = new Map(this.processed.get(consumerId));
+    processed.delete(messageId);
+    if (processed.size) {
+      this.processed.set(consumerId, processed);
+    } else {
+      this.processed.delete(consumerId);
+    }
+  }
+
+  async flush() {
+    await this.processed.flush();
   }
 }
 interface IAckRegistry {
@@ -1808,14 +2495,18 @@ interface IAckRegistry {
   };
 }
 class AckRegistry implements IAckRegistry {
-  private acks: IPersistedMap<number, Record<number, number>>; // consumerId:{messageId:ts}
+  private acks: IPersistedMap<number, Map<number, number>>; // consumerId:{messageId:ts}
 
   constructor(
     mapFactory: IPersistedMapFactory,
     private activityTracker: IClientActivityTracker,
     private maxUnackedPerConsumer = 10
   ) {
-    this.acks = mapFactory.create<number, Record<number, number>>("acks");
+    this.acks = mapFactory.create<number, Map<number, number>>(
+      "acks",
+      new MapSerializer<number, number>(),
+      Number
+    );
   }
 
   isReachedMaxUnacked(consumerId: number) {
@@ -1832,10 +2523,10 @@ class AckRegistry implements IAckRegistry {
   }
 
   addAck(consumerId: number, messageId: number): void {
-    if (!this.acks.has(consumerId)) {
-      this.acks.set(consumerId, new Map());
-    }
-    this.acks.get(consumerId)?.set(messageId, Date.now());
+    // replaced, not changed in place, so the persisted map sees it dirty
+    const pendings = new Map(this.acks.get(consumerId));
+    pendings.set(messageId, Date.now());
+    this.acks.set(consumerId, pendings);
 
     this.activityTracker.recordActivity(consumerId, {
       pendingAcks: 1,
@@ -1852,8 +2543,8 @@ class AckRegistry implements IAckRegistry {
   }
 
   removeAck(consumerId: number, messageId?: number): void {
-    const pendings = this.acks.get(consumerId);
-    if (!pendings) return;
+    if (!this.acks.has(consumerId)) return;
+    const pendings = new Map(this.acks.get(consumerId));
     const now = Date.now();
 
     if (messageId) {
@@ -1880,7 +2571,9 @@ class AckRegistry implements IAckRegistry {
       pendings.clear();
     }
 
-    if (!pendings.size) {
+    if (pendings.size) {
+      this.acks.set(consumerId, pendings);
+    } else {
       this.acks.delete(consumerId);
     }
   }
@@ -1927,8 +2620,12 @@ class AckMonitor implements IAckMonitor {
     }
   };
 }
-interface IAckService {
-  ack(consumerId: number, messageId?: number): Promise<number[]>;
+interface IAckService extends ITransactionParticipant {
+  ack(
+    consumerId: number,
+    messageId?: number,
+    txn?: ITransaction
+  ): Promise<number[]>;
   nack: (
     consumerId: number,
     messageId?: number,
@@ -1941,10 +2638,14 @@ interface IAckService {
   };
 }
 class AckService<Data> implements IAckService {
+  private staged = new Map<number, [number, number][]>(); // txnId:[consumerId, messageId]
+  private ready: Promise<void>;
+
   constructor(
+    private readonly topic: string,
     private readonly pendingAcks: IAckRegistry,
     private readonly deliveryTracker: IDeliveryTracker,
-    private readonly processedMessageTracker: IProcessedMessageTracker,
+    private readonly processedMessageTracker: IProcessedMessageRegistry,
     private readonly ackMonitor: IAckMonitor,
     private readonly messageStore: IMessageStore<Data>,
     private readonly messagePublisher: IMessagePublisher,
@@ -1952,12 +2653,25 @@ class AckService<Data> implements IAckService {
     private readonly subscriptionRegistry: ISubscriptionRegistry<Data>,
     private readonly subscriptionProcessor: ISubscriptionQueueProcessor,
     private readonly delayedMessageManager: IDelayedMessageManager,
-    private readonly logger?: ILogCollector
+    private readonly logger?: ILogCollector,
+    private readonly transactions?: ITransactionCoordinator
   ) {
     this.ackMonitor.setTimeoutCallback(this.nack);
+    // acks wait for the recovery, none lands before the ones committed earlier
+    this.ready = this.recover();
+  }
+
+  async ack(
+    consumerId: number,
+    messageId?: number,
+    txn?: ITransaction
+  ): Promise<number[]> {
+    await this.ready;
+    if (txn) return this.stage(consumerId, messageId, txn);
+    return this.settle(consumerId, messageId);
   }
 
-  async ack(consumerId: number, messageId?: number): Promise<number[]> {
+  private async settle(consumerId: number, messageId?: number) {
     const pendingAcks: number[] = [];
 
     if (messageId) {
@@ -2016,6 +2730,57 @@ class AckService<Data> implements IAckService {
     return messages.length;
   };
 
+  async commit(txnId: number) {
+    const staged = this.staged.get(txnId);
+    if (!staged) return;
+
+    for (const [consumerId, messageId] of staged) {
+      await this.ack(consumerId, messageId);
+    }
+
+    this.staged.delete(txnId);
+    // the coordinator forgets the acks right after this
+    await this.processedMessageTracker.flush();
+  }
+
+  async abort(txnId: number) {
+    // messages stay pending, AckMonitor redelivers them after the timeout
+    this.staged.delete(txnId);
+  }
+
+  private stage(
+    consumerId: number,
+    messageId: number | undefined,
+    txn: ITransaction
+  ) {
+    const messageIds = messageId
+      ? [messageId]
+      : [...(this.pendingAcks.getAcks(consumerId)?.keys() ?? [])];
+
+    txn.enlist(this);
+    if (!this.staged.has(txn.id)) this.staged.set(txn.id, []);
+
+    for (const id of messageIds) {
+      // durable with the commit decision, so a crash right after it can't lose the ack
+      this.transactions?.recordAck(txn.id, this.topic, consumerId, id);
+      this.staged.get(txn.id)!.push([consumerId, id]);
+    }
+
+    return messageIds;
+  }
+
+  // reapplies acks of transactions committed right before a crash
+  private async recover() {
+    if (!this.transactions) return;
+
+    for (const [consumerId, messageId] of this.transactions.getCommittedAcks(
+      this.topic
+    )) {
+      if (this.processedMessageTracker.has(consumerId, messageId)) continue;
+      await this.settle(consumerId, messageId);
+    }
+  }
+
   getMetrics() {
     return {
       pendingAcks: this.pendingAcks.getMetrics(),
@@ -2026,7 +2791,7 @@ class AckService<Data> implements IAckService {
 //
 //
 // SRC/SUBSCRIPTION_SERVICE.TS
-type ISubscriptionListener<Data> = (message: Data) => Promise<void>;
+export type ISubscriptionListener<Data> = (message: Data) => Promise<void>;
 interface ISubscriptionRegistry<Data> {
   addListener(
     consumerId: number,
@@ -2091,7 +2856,7 @@ class SubscriptionMessageDispatcher<Data>
     private registry: ISubscriptionRegistry<Data>,
     private messageStore: IMessageStore<Data>,
     private pendingAcks: IAckRegistry,
-    private processedMessageTracker: IProcessedMessageTracker,
+    private processedMessageTracker: IProcessedMessageRegistry,
     private activityTracker: IClientActivityTracker,
     private logger?: ILogCollector
   ) {}
@@ -2228,19 +2993,20 @@ class SubscriptionService<Data> implements ISubscriptionService<Data> {
 //
 //
 // SRC/DLQ_SERVICE.TS
-type DLQReason =
+export type DLQReason =
   | "no_consumers"
   | "expired"
   | "max_attempts"
   | "validation"
   | "processing_error";
-interface IDLQEntry<Data> {
+export interface IDLQEntry<Data> {
   reason: DLQReason;
   message: Data;
   meta: MessageMetadata;
 }
 interface IDLQManager<Data> {
   enqueue(meta: MessageMetadata, reason: DLQReason): void;
+  getReason(meta: MessageMetadata): DLQReason | undefined;
   createReader(): AsyncGenerator<IDLQEntry<Data>, void, unknown>;
   replayMessages(
     handler: (message: Data, meta: MessageMetadata) => Promise<void>,
@@ -2257,9 +3023,14 @@ class DLQManager<Data> implements IDLQManager<Data> {
     private topic: string,
     mapFactory: IPersistedMapFactory,
     private messageStore: IMessageStore<any>,
-    private logger?: ILogCollector
+    private logger?: ILogCollector,
+    partition = 0
   ) {
-    this.messages = mapFactory.create("dlq");
+    this.messages = mapFactory.create(
+      partition ? `dlq:${partition}` : "dlq",
+      undefined,
+      Number
+    );
   }
 
   size() {
@@ -2275,6 +3046,10 @@ class DLQManager<Data> implements IDLQManager<Data> {
     );
   }
 
+  getReason(meta: MessageMetadata) {
+    return this.messages.get(meta.id);
+  }
+
   async *createReader(): AsyncGenerator<IDLQEntry<Data>, void, unknown> {
     for (const [messageId, reason] of this.messages.entries()) {
       const [message, meta] = await this.messageStore.read(messageId);
@@ -2364,6 +3139,371 @@ class DLQService<Data> implements IDLQService<Data> {
 //
 //
 //
+// SRC/LOG_SERVICE.TS
+// Log mode keeps messages in the log until retention and tracks a committed offset per consumer group
+// instead of fanning message ids out to consumer queues. It allows seeking and replaying history.
+type TopicMode = "queue" | "log";
+type OffsetAppendHandler = (offset: number) => void;
+interface IMessageOffsetIndex {
+  append(meta: MessageMetadata): Promise<number>;
+  read(from: number, limit: number): Promise<[number, number][]>;
+  findOffset(ts: number): Promise<number>;
+  getEndOffset(): Promise<number>;
+  setAppendCallback(callback: OffsetAppendHandler): void;
+  start(): void;
+  stop(): void;
+}
+class MessageOffsetIndex implements IMessageOffsetIndex {
+  private nextOffset = 0;
+  private ready: Promise<void>;
+  private onAppend?: OffsetAppendHandler;
+  private retentionTimer?: NodeJS.Timeout;
+
+  // off!<offset> holds the message id and oid!<id> the offset, in the topic metadata store
+  constructor(
+    private db: IKeyValueStore<unknown>,
+    private messageStore: IMessageStore<any>,
+    private logger?: ILogCollector,
+    private retentionMs = 86_400_000
+  ) {
+    this.ready = this.load();
+  }
+
+  private static pad(n: number) {
+    return String(n).padStart(16, "0");
+  }
+
+  private async load() {
+    for await (const [key] of this.db.iterator({
+      gt: "off!",
+      lt: "off~",
+      reverse: true,
+      limit: 1,
+    })) {
+      this.nextOffset = Number(key.slice(4)) + 1;
+    }
+  }
+
+  async append(meta: MessageMetadata) {
+    await this.ready;
+    const offset = this.nextOffset++;
+    const key = MessageOffsetIndex.pad(offset);
+
+    await this.db.batch([
+      { type: "put", key: `off!${key}`, value: meta.id },
+      { type: "put", key: `oid!${meta.id}`, value: offset },
+    ]);
+
+    this.onAppend?.(offset);
+    return offset;
+  }
+
+  async read(from: number, limit: number) {
+    const entries: [number, number][] = []; // [offset, messageId]
+
+    for await (const [key, value] of this.db.iterator({
+      gte: `off!${MessageOffsetIndex.pad(from)}`,
+      lt: "off~",
+      limit,
+    })) {
+      entries.push([Number(key.slice(4)), Number(value)]);
+    }
+
+    return entries;
+  }
+
+  // first offset published at or after ts, records never published have no offset
+  async findOffset(ts: number) {
+    for await (const id of this.messageStore.seek(ts)) {
+      const offset = await this.db.get(`oid!${id}`);
+      if (offset !== undefined) return Number(offset);
+    }
+
+    return this.getEndOffset();
+  }
+
+  async getEndOffset() {
+    await this.ready;
+    return this.nextOffset;
+  }
+
+  setAppendCallback(callback: OffsetAppendHandler) {
+    this.onAppend = callback;
+  }
+
+  start() {
+    if (this.retentionMs === Infinity) return;
+    this.retentionTimer = setInterval(
+      this.retain,
+      Math.min(this.retentionMs, 3_600_000)
+    );
+  }
+
+  stop() {
+    clearInterval(this.retentionTimer);
+  }
+
+  // hands expired offsets to the store retention, committed offsets below them just skip ahead.
+  // Offsets follow publish order, so the oldest ones come first
+  private retain = async () => {
+    const cutoff = Date.now() - this.retentionMs;
+    const batch = this.db.batch();
+    let count = 0;
+
+    try {
+      for await (const [key, value] of this.db.iterator({
+        gt: "off!",
+        lt: "off~",
+      })) {
+        const id = Number(value);
+        const meta = await this.messageStore.readMetadata(id, ["ts"]);
+        if (meta && meta.ts >= cutoff) break;
+
+        if (meta) await this.messageStore.markDeletable(id);
+        batch.del(key);
+        batch.del(`oid!${id}`);
+        count++;
+      }
+
+      await batch.write();
+      this.logger?.log("Log retention succeed", { count });
+    } catch (error) {
+      this.logger?.log("Log retention failed", { error }, "error");
+    }
+  };
+}
+interface IOffsetTracker {
+  getOffset(groupId: string): number | undefined;
+  commit(groupId: string, offset: number): void;
+  flush(): Promise<void>;
+}
+class OffsetTracker implements IOffsetTracker {
+  private offsets: IPersistedMap<string, number>; // groupId:next offset to read
+
+  constructor(mapFactory: IPersistedMapFactory) {
+    this.offsets = mapFactory.create<string, number>("offsets");
+  }
+
+  getOffset(groupId: string) {
+    return this.offsets.get(groupId);
+  }
+
+  commit(groupId: string, offset: number) {
+    this.offsets.set(groupId, offset);
+  }
+
+  flush() {
+    return this.offsets.flush();
+  }
+}
+class LogMessagePublisher implements IMessagePublisher {
+  constructor(
+    private readonly offsetIndex: IMessageOffsetIndex,
+    private readonly logger?: ILogCollector
+  ) {}
+
+  async publish(
+    meta: MessageMetadata,
+    _skipDLQ = false,
+    txn?: ITransaction
+  ): Promise<void> {
+    // offsets are assigned at commit so uncommitted records never become visible
+    if (txn) return txn.onCommit(() => this.publish(meta));
+
+    const offset = await this.offsetIndex.append(meta);
+    this.logger?.log(`Message is appended to ${meta.topic}.`, {
+      ...meta,
+      offset,
+    });
+  }
+}
+interface ILogConsumptionService<Data> extends ITransactionParticipant {
+  consume(consumerId: number, groupId: string, limit: number): Promise<Data[]>;
+  ack(groupId: string, txn?: ITransaction): Promise<void>;
+  rewind(groupId: string): void;
+  seek(groupId: string, offset: number): void;
+  seekToTimestamp(groupId: string, ts: number): Promise<number>;
+  subscribe(
+    consumerId: number,
+    groupId: string,
+    listener: ISubscriptionListener<Data>
+  ): void;
+  unsubscribe(consumerId: number): void;
+}
+class LogConsumptionService<Data> implements ILogConsumptionService<Data> {
+  private positions = new Map<string, number>(); // groupId:next offset to read, ahead of committed
+  private listeners = new Map<number, [string, ISubscriptionListener<Data>]>();
+  private draining = new Set<number>();
+  private reads = new Map<string, Promise<unknown>>(); // groupId:last read, reads of a group take turns
+  private staged = new Map<number, [string, number][]>(); // txnId:[groupId, offset]
+  private ready: Promise<void>;
+
+  constructor(
+    private readonly topic: string,
+    private readonly offsetIndex: IMessageOffsetIndex,
+    private readonly offsetTracker: IOffsetTracker,
+    private readonly messageStore: IMessageStore<Data>,
+    private readonly activityTracker: IClientActivityTracker,
+    private readonly logger?: ILogCollector,
+    private readonly transactions?: ITransactionCoordinator
+  ) {
+    this.offsetIndex.setAppendCallback(this.drainAll);
+    this.ready = this.recover();
+  }
+
+  // group members and the push drain share the position, each read starts where the last ended
+  consume(consumerId: number, groupId: string, limit: number) {
+    const previous = this.reads.get(groupId) ?? this.ready;
+    const read = previous.then(() => this.read(consumerId, groupId, limit));
+
+    const settled = read.catch(() => {});
+    this.reads.set(groupId, settled);
+    settled.then(() => {
+      if (this.reads.get(groupId) === settled) this.reads.delete(groupId);
+    });
+
+    return read;
+  }
+
+  private async read(consumerId: number, groupId: string, limit: number) {
+    const from = this.getPosition(groupId);
+    const entries = await this.offsetIndex.read(from, limit);
+    const messages: Data[] = [];
+
+    for (const [offset, messageId] of entries) {
+      // the position moves even past unreadable records so they don't block the group
+      this.positions.set(groupId, offset + 1);
+      const message = await this.messageStore.readMessage(messageId);
+      if (message) messages.push(message);
+    }
+
+    this.activityTracker.recordActivity(consumerId, {
+      messageCount: messages.length,
+      status: "idle",
+    });
+
+    return messages;
+  }
+
+  // a transactional ack records the offset with the commit decision, so a crash
+  // between the decision and the offset flush still commits it on restart
+  async ack(groupId: string, txn?: ITransaction) {
+    await this.ready;
+    if (!txn) return this.commitOffset(groupId, this.getPosition(groupId));
+
+    const offset = this.getPosition(groupId);
+    txn.enlist(this);
+    this.transactions?.recordOffset(txn.id, this.topic, groupId, offset);
+    if (!this.staged.has(txn.id)) this.staged.set(txn.id, []);
+    this.staged.get(txn.id)!.push([groupId, offset]);
+  }
+
+  async commit(txnId: number) {
+    const staged = this.staged.get(txnId);
+    if (!staged) return;
+
+    for (const [groupId, offset] of staged) this.commitOffset(groupId, offset);
+    // the coordinator forgets the offsets right after this
+    await this.offsetTracker.flush();
+    this.staged.delete(txnId);
+  }
+
+  // the reads are delivered again
+  async abort(txnId: number) {
+    for (const [groupId] of this.staged.get(txnId) ?? []) this.rewind(groupId);
+    this.staged.delete(txnId);
+  }
+
+  // drops uncommitted reads, they are delivered again
+  rewind(groupId: string) {
+    this.positions.delete(groupId);
+  }
+
+  seek(groupId: string, offset: number) {
+    this.positions.set(groupId, Math.max(0, offset));
+    this.offsetTracker.commit(groupId, this.getPosition(groupId));
+    this.logger?.log("Consumer group offset moved", { groupId, offset });
+  }
+
+  async seekToTimestamp(groupId: string, ts: number) {
+    const offset = await this.offsetIndex.findOffset(ts);
+    this.seek(groupId, offset);
+    return offset;
+  }
+
+  subscribe(
+    consumerId: number,
+    groupId: string,
+    listener: ISubscriptionListener<Data>
+  ) {
+    this.listeners.set(consumerId, [groupId, listener]);
+    this.drain(consumerId);
+  }
+
+  unsubscribe(consumerId: number) {
+    this.listeners.delete(consumerId);
+  }
+
+  // committed offsets only move forward, a replayed transaction never moves one back
+  private commitOffset(groupId: string, offset: number) {
+    const committed = this.offsetTracker.getOffset(groupId);
+    if (committed !== undefined && committed > offset) return;
+    this.offsetTracker.commit(groupId, offset);
+  }
+
+  // reapplies offsets of transactions committed right before a crash
+  private async recover() {
+    if (!this.transactions) return;
+
+    for (const [groupId, offset] of this.transactions.getCommittedOffsets(
+      this.topic
+    )) {
+      this.commitOffset(groupId, offset);
+    }
+    await this.offsetTracker.flush();
+  }
+
+  private getPosition(groupId: string) {
+    if (!this.positions.has(groupId)) {
+      this.positions.set(groupId, this.offsetTracker.getOffset(groupId) ?? 0);
+    }
+    return this.positions.get(groupId)!;
+  }
+
+  private drainAll = () => {
+    for (const consumerId of this.listeners.keys()) this.drain(consumerId);
+  };
+
+  // pushed messages are committed once the listener resolves
+  private async drain(consumerId: number) {
+    if (this.draining.has(consumerId)) return;
+    this.draining.add(consumerId);
+
+    try {
+      while (this.listeners.has(consumerId)) {
+        const [groupId, listener] = this.listeners.get(consumerId)!;
+        const [message] = await this.consume(consumerId, groupId, 1);
+        if (message === undefined) break;
+
+        await listener(message);
+        await this.ack(groupId);
+      }
+    } catch (error) {
+      const [groupId] = this.listeners.get(consumerId) ?? [];
+      if (groupId) this.rewind(groupId);
+      this.logger?.log(
+        "Log subscription failed",
+        { consumerId, error },
+        "error"
+      );
+    } finally {
+      this.draining.delete(consumerId);
+    }
+  }
+}
+//
+//
+//
 // SRC/CLIENT_MANAGEMENT_SERVICE.TS
 type ClientType = "producer" | "consumer" | "dlq_consumer";
 type ClientStatus = "active" | "idle" | "lagging";
@@ -2407,7 +3547,11 @@ class ClientRegistry implements IClientRegistry {
   private clients: IPersistedMap<number, IClientState>;
 
   constructor(mapFactory: IPersistedMapFactory) {
-    this.clients = mapFactory.create<number, IClientState>("clients");
+    this.clients = mapFactory.create<number, IClientState>(
+      "clients",
+      undefined,
+      Number
+    );
   }
 
   addClient(type: ClientType, id: number) {
@@ -2439,7 +3583,8 @@ class ClientRegistry implements IClientRegistry {
   updateClient(id: number, state: IMutableClientState) {
     const client = this.clients.get(id);
     if (!client) return;
-    this.clients.set(id, Object.assign(client, state));
+    // a new object, the persisted map only writes entries set anew
+    this.clients.set(id, { ...client, ...state });
   }
 
   exists(id: number): boolean {
@@ -2576,15 +3721,19 @@ class ClientMetricsCollector implements IClientMetricsCollector {
     };
   }
 }
-interface IPublishResult {
+export interface IPublishResult {
   id: number;
   status: "success" | "error";
   ts: number;
   error?: string;
 }
-interface IProducer<Data> {
+export interface IProducer<Data> {
   id: number;
-  publish(batch: Data[], metadata?: MetadataInput): Promise<IPublishResult[]>;
+  publish(
+    batch: Data[],
+    metadata?: MetadataInput,
+    txn?: ITransaction
+  ): Promise<IPublishResult[]>;
 }
 class Producer<Data> implements IProducer<Data> {
   constructor(
@@ -2594,7 +3743,11 @@ class Producer<Data> implements IProducer<Data> {
     public readonly id: number
   ) {}
 
-  async publish(batch: Data[], metadata: MetadataInput = {}) {
+  async publish(
+    batch: Data[],
+    metadata: MetadataInput = {},
+    txn?: ITransaction
+  ) {
     const results: IPublishResult[] = [];
 
     const messages = await this.messageFactory.create(batch, {
@@ -2613,7 +3766,7 @@ class Producer<Data> implements IProducer<Data> {
       }
 
       try {
-        await this.publishingService.publish(this.id, message!, meta);
+        await this.publishingService.publish(this.id, message!, meta, txn);
         results.push({ id, ts, status: "success" });
       } catch (err) {
         const error = err instanceof Error ? err.message : "Unknown error";
@@ -2650,16 +3803,11 @@ class ProducerFactory<Data> implements IProducerFactory<Data> {
     }
     if (maxSizeBytes) {
       validators.push(
-        new CapacityValidator(maxSizeBytes, metricsCollector.getMetrics)
+        new CapacityValidator(maxSizeBytes, () => metricsCollector.getMetrics())
       );
     }
 
-    this.messageFactory = new MessageFactory<Data>(
-      codec,
-      validators,
-      schemaRegistry,
-      schemaId
-    );
+    this.messageFactory = new MessageFactory<Data>(codec, validators, schemaId);
   }
 
   create(id: number) {
@@ -2671,19 +3819,22 @@ class ProducerFactory<Data> implements IProducerFactory<Data> {
     );
   }
 }
-interface IConsumerConfig {
+export interface IConsumerConfig {
   routingKeys?: string[];
   groupId?: string;
   limit?: number;
   noAck?: boolean;
+  partition?: number; // all partitions by default
 }
-interface IConsumer<Data> {
+export interface IConsumer<Data> {
   id: number;
   consume(): Promise<Data[]>;
-  ack(messageId?: number): Promise<number[]>;
+  ack(messageId?: number, txn?: ITransaction): Promise<number[]>;
   nack(messageId?: number, requeue?: boolean): Promise<number>;
   subscribe(listener: ISubscriptionListener<Data>): void;
   unsubscribe(): void;
+  seek(offset: number): Promise<void>;
+  seekToTimestamp(ts: number): Promise<number>;
 }
 class Consumer<Data> implements IConsumer<Data> {
   private readonly limit: number;
@@ -2695,7 +3846,7 @@ class Consumer<Data> implements IConsumer<Data> {
     private readonly noAck = false,
     limit?: number
   ) {
-    this.limit = Math.max(1, limit!);
+    this.limit = Math.max(1, limit ?? 1);
   }
 
   async consume() {
@@ -2713,8 +3864,8 @@ class Consumer<Data> implements IConsumer<Data> {
     return messages;
   }
 
-  async ack(messageId?: number) {
-    return this.ackService.ack(this.id, messageId);
+  async ack(messageId?: number, txn?: ITransaction) {
+    return this.ackService.ack(this.id, messageId, txn);
   }
 
   async nack(messageId?: number, requeue = true): Promise<number> {
@@ -2728,34 +3879,94 @@ class Consumer<Data> implements IConsumer<Data> {
   unsubscribe(): void {
     this.subscriptionService.unsubscribe(this.id);
   }
+
+  async seek(): Promise<void> {
+    throw new Error("Seeking is supported only by log topics");
+  }
+
+  async seekToTimestamp(): Promise<number> {
+    throw new Error("Seeking is supported only by log topics");
+  }
 }
-interface IDLQConsumer<Data> {
-  id: number;
-  consume(): Promise<IDLQEntry<Data>[]>;
-  replayDlq(
-    handler: (message: Data, meta: MessageMetadata) => Promise<void>,
-    filter?: (meta: MessageMetadata) => boolean
-  ): Promise<number>;
-}
-class DLQConsumer<Data> implements IDLQConsumer<Data> {
+class LogConsumer<Data> implements IConsumer<Data> {
   private readonly limit: number;
-  private reader: AsyncGenerator<IDLQEntry<Data>, void, unknown>;
+  private readonly groupId: string;
   constructor(
-    private readonly dlqService: IDLQService<Data>,
+    private readonly logConsumption: ILogConsumptionService<Data>,
     public readonly id: number,
+    groupId?: string,
+    private readonly noAck = false,
     limit?: number
   ) {
-    this.limit = Math.max(1, limit!);
-    // singleton reader allows to read only once, waiting for the newest messages to arrive
-    this.reader = this.dlqService.createDlqReader();
+    this.limit = Math.max(1, limit ?? 1);
+    // a consumer without group reads on its own
+    this.groupId = groupId ?? `consumer:${id}`;
   }
 
   async consume() {
-    const messages: IDLQEntry<Data>[] = [];
+    const messages = await this.logConsumption.consume(
+      this.id,
+      this.groupId,
+      this.limit
+    );
+    if (this.noAck) await this.logConsumption.ack(this.groupId);
+    return messages;
+  }
 
-    for await (const message of this.reader) {
-      if (!message) break;
-      messages.push(message);
+  // commits the group offset up to the last consumed message
+  async ack(_messageId?: number, txn?: ITransaction) {
+    await this.logConsumption.ack(this.groupId, txn);
+    return [];
+  }
+
+  async nack() {
+    this.logConsumption.rewind(this.groupId);
+    return 0;
+  }
+
+  subscribe(listener: ISubscriptionListener<Data>): void {
+    this.logConsumption.subscribe(this.id, this.groupId, listener);
+  }
+
+  unsubscribe(): void {
+    this.logConsumption.unsubscribe(this.id);
+  }
+
+  async seek(offset: number) {
+    this.logConsumption.seek(this.groupId, offset);
+  }
+
+  async seekToTimestamp(ts: number) {
+    return this.logConsumption.seekToTimestamp(this.groupId, ts);
+  }
+}
+export interface IDLQConsumer<Data> {
+  id: number;
+  consume(): Promise<IDLQEntry<Data>[]>;
+  replayDlq(
+    handler: (message: Data, meta: MessageMetadata) => Promise<void>,
+    filter?: (meta: MessageMetadata) => boolean
+  ): Promise<number>;
+}
+class DLQConsumer<Data> implements IDLQConsumer<Data> {
+  private readonly limit: number;
+  private reader: AsyncGenerator<IDLQEntry<Data>, void, unknown>;
+  constructor(
+    private readonly dlqService: IDLQService<Data>,
+    public readonly id: number,
+    limit?: number
+  ) {
+    this.limit = Math.max(1, limit ?? 1);
+    // singleton reader allows to read only once, waiting for the newest messages to arrive
+    this.reader = this.dlqService.createDlqReader();
+  }
+
+  async consume() {
+    const messages: IDLQEntry<Data>[] = [];
+
+    for await (const message of this.reader) {
+      if (!message) break;
+      messages.push(message);
       if (messages.length == this.limit) break;
     }
 
@@ -2770,9 +3981,13 @@ class DLQConsumer<Data> implements IDLQConsumer<Data> {
   }
 }
 interface IClientManagementService<Data> {
-  createProducer(): IProducer<Data>;
+  createProducer(id?: number): IProducer<Data>;
   createConsumer(config?: IConsumerConfig, id?: number): IConsumer<Data>;
-  createDLQConsumer(limit?: number): DLQConsumer<Data>;
+  restoreConsumer(
+    config: IConsumerConfig,
+    id: number
+  ): IConsumer<Data> | undefined;
+  createDLQConsumer(id?: number, limit?: number): DLQConsumer<Data>;
   deleteClient(id: number): void;
   getMetrics(): {
     count: number;
@@ -2795,7 +4010,9 @@ class ClientManagementService<Data> implements IClientManagementService<Data> {
     private readonly ackService: IAckService,
     private readonly subscriptionService: ISubscriptionService<Data>,
     private readonly dlqService: IDLQService<Data>,
-    private readonly logger?: ILogCollector
+    private readonly partitioner: IPartitioner,
+    private readonly logger?: ILogCollector,
+    private readonly logConsumption?: ILogConsumptionService<Data>
   ) {}
 
   createProducer(id = uniqueIntGenerator()): IProducer<Data> {
@@ -2811,12 +4028,39 @@ class ClientManagementService<Data> implements IClientManagementService<Data> {
     id = uniqueIntGenerator()
   ): IConsumer<Data> {
     this.clientRegistry.throwIfExists(id);
-    const { groupId, routingKeys, noAck, limit } = config;
+    const { groupId, routingKeys, noAck, limit, partition } = config;
+
+    if (this.logConsumption) {
+      this.clientRegistry.addClient("consumer", id);
+      this.logger?.log(`consumer_created`, { id, groupId });
+      return new LogConsumer(this.logConsumption, id, groupId, noAck, limit);
+    }
+
+    this.partitioner.assign(id, partition);
     this.messageRouter.addConsumer(id, groupId, routingKeys);
     this.clientRegistry.addClient("consumer", id);
     this.queueManager.addQueue(id);
 
-    this.logger?.log(`consumer_created`, { id });
+    this.logger?.log(`consumer_created`, { id, partition });
+
+    return new Consumer(
+      this.consumptionService,
+      this.ackService,
+      this.subscriptionService,
+      id,
+      noAck,
+      limit
+    );
+  }
+
+  // a handle for a consumer registered earlier, its queue and routing are persisted
+  restoreConsumer(config: IConsumerConfig, id: number) {
+    if (this.clientRegistry.getClient(id)?.clientType !== "consumer") return;
+    const { groupId, noAck, limit } = config;
+
+    if (this.logConsumption) {
+      return new LogConsumer(this.logConsumption, id, groupId, noAck, limit);
+    }
 
     return new Consumer(
       this.consumptionService,
@@ -2840,9 +4084,11 @@ class ClientManagementService<Data> implements IClientManagementService<Data> {
   }
 
   deleteClient(id: number) {
+    this.logConsumption?.unsubscribe(id);
     this.messageRouter.removeConsumer(id);
     this.clientRegistry.removeClient(id);
     this.queueManager.removeQueue(id);
+    this.partitioner.unassign(id);
 
     this.logger?.log("client_deleted", { id });
   }
@@ -2854,8 +4100,297 @@ class ClientManagementService<Data> implements IClientManagementService<Data> {
 //
 //
 //
+// SRC/PARTITION_SERVICE.TS
+interface IPartitioner {
+  count: number;
+  getPartition(
+    meta: Pick<MessageMetadata, "id" | "correlationId" | "routingKey">
+  ): number;
+  assign(consumerId: number, partition?: number): void;
+  unassign(consumerId: number): void;
+  isAssigned(consumerId: number, partition: number): boolean;
+  getAssignedPartitions(consumerId: number): number[];
+}
+/** Partitioner.
+ * Messages with the same correlationId (or routingKey) always land in the same partition, so per-key ordering holds
+ * while unrelated keys are spread over partitions and processed independently.
+ */
+export class HashRingPartitioner implements IPartitioner {
+  private assignments: IPersistedMap<number, number[]>; // consumerId:partitions
+
+  constructor(
+    mapFactory: IPersistedMapFactory,
+    private hashRing: IHashRing,
+    public readonly count = 1
+  ) {
+    this.assignments = mapFactory.create<number, number[]>(
+      "assignments",
+      undefined,
+      Number
+    );
+    for (let i = 0; i < count; i++) {
+      this.hashRing.addNode(i);
+    }
+  }
+
+  getPartition(
+    meta: Pick<MessageMetadata, "id" | "correlationId" | "routingKey">
+  ) {
+    if (this.count === 1) return 0;
+    const key = meta.correlationId ?? meta.routingKey ?? meta.id.toString();
+    return this.hashRing.getNode(key).next().value ?? 0;
+  }
+
+  assign(consumerId: number, partition?: number) {
+    if (partition === undefined) {
+      this.assignments.set(consumerId, this.getAllPartitions());
+      return;
+    }
+
+    if (
+      !Number.isInteger(partition) ||
+      partition < 0 ||
+      partition >= this.count
+    ) {
+      throw new Error(
+        `Partition ${partition} is out of range. Topic has ${this.count} partitions.`
+      );
+    }
+
+    this.assignments.set(consumerId, [partition]);
+  }
+
+  unassign(consumerId: number) {
+    this.assignments.delete(consumerId);
+  }
+
+  isAssigned(consumerId: number, partition: number) {
+    return this.getAssignedPartitions(consumerId).includes(partition);
+  }
+
+  getAssignedPartitions(consumerId: number) {
+    // consumers without assignment (e.g. restored ones) read from all partitions
+    return this.assignments.get(consumerId) ?? this.getAllPartitions();
+  }
+
+  private getAllPartitions() {
+    return Array.from({ length: this.count }, (_, i) => i);
+  }
+}
+class PartitionedQueueManager implements IQueueManager {
+  private cursors = new Map<number, number>(); // consumerId:assignedPartitionIdx
+
+  constructor(
+    private partitioner: IPartitioner,
+    private partitions: IQueueManager[]
+  ) {}
+
+  addQueue(id: number) {
+    for (const partition of this.partitioner.getAssignedPartitions(id)) {
+      this.partitions[partition].addQueue(id);
+    }
+  }
+
+  removeQueue(id: number) {
+    this.partitions.forEach((queueManager) => queueManager.removeQueue(id));
+    this.cursors.delete(id);
+  }
+
+  enqueue(id: number, meta: MessageMetadata) {
+    const partition = this.partitioner.getPartition(meta);
+    return this.partitions[partition].enqueue(id, meta);
+  }
+
+  dequeue(id: number) {
+    // round-robin over assigned partitions so a hot partition cannot starve others
+    const assigned = this.partitioner.getAssignedPartitions(id);
+    const start = this.cursors.get(id) ?? 0;
+
+    for (let i = 0; i < assigned.length; i++) {
+      const idx = (start + i) % assigned.length;
+      const messageId = this.partitions[assigned[idx]].dequeue(id);
+      if (!messageId) continue;
+      this.cursors.set(id, idx + 1);
+      return messageId;
+    }
+  }
+
+  getMetrics() {
+    const partitions = this.partitions.map((qm) => qm.getMetrics().size);
+    return {
+      size: partitions.reduce((acc, size) => acc + size, 0),
+      partitions,
+    };
+  }
+}
+class PartitionedDLQManager<Data> implements IDLQManager<Data> {
+  constructor(
+    private partitioner: IPartitioner,
+    private partitions: IDLQManager<Data>[]
+  ) {}
+
+  enqueue(meta: MessageMetadata, reason: DLQReason): void {
+    const partition = this.partitioner.getPartition(meta);
+    this.partitions[partition].enqueue(meta, reason);
+  }
+
+  getReason(meta: MessageMetadata) {
+    const partition = this.partitioner.getPartition(meta);
+    return this.partitions[partition].getReason(meta);
+  }
+
+  async *createReader(): AsyncGenerator<IDLQEntry<Data>, void, unknown> {
+    for (const dlqManager of this.partitions) {
+      yield* dlqManager.createReader();
+    }
+  }
+
+  async replayMessages(
+    handler: (message: Data, meta: MessageMetadata) => Promise<void>,
+    filter?: (meta: MessageMetadata) => boolean
+  ) {
+    let count = 0;
+    for (const dlqManager of this.partitions) {
+      count += await dlqManager.replayMessages(handler, filter);
+    }
+    return count;
+  }
+
+  getMetrics() {
+    const partitions = this.partitions.map((dlq) => dlq.getMetrics().size);
+    return {
+      size: partitions.reduce((acc, size) => acc + size, 0),
+      partitions,
+    };
+  }
+}
+class PartitionedDelayedMessageManager implements IDelayedMessageManager {
+  constructor(
+    private partitioner: IPartitioner,
+    private partitions: IDelayedMessageManager[]
+  ) {}
+
+  enqueue(meta: MessageMetadata, consumerId?: number) {
+    const partition = this.partitioner.getPartition(meta);
+    this.partitions[partition].enqueue(meta, consumerId);
+  }
+
+  getMetrics() {
+    const partitions = this.partitions.map((dm) => dm.getMetrics().count);
+    return {
+      count: partitions.reduce((acc, count) => acc + count, 0),
+      partitions,
+    };
+  }
+}
+//
+//
+//
+// SRC/TOPIC_ROUTING.TS
+/** Topic patterns.
+ * Topic names are dot-separated segments, e.g. `orders.payment.created`.
+ * Patterns may use `*` to match exactly one segment and `#` to match zero or more segments.
+ */
+class TopicPattern {
+  static SEGMENT = /^[a-zA-Z0-9_-]+$/;
+
+  static isWildcard(name: string) {
+    return name.split(".").some((s) => s === "*" || s === "#");
+  }
+
+  static isValid(name: string, allowWildcards = false) {
+    if (!name) return false;
+    return name.split(".").every((segment) => {
+      if (allowWildcards && (segment === "*" || segment === "#")) return true;
+      return TopicPattern.SEGMENT.test(segment);
+    });
+  }
+
+  static matches(pattern: string, topic: string) {
+    const p = pattern.split(".");
+    const t = topic.split(".");
+
+    const match = (i: number, j: number): boolean => {
+      if (i === p.length) return j === t.length;
+      if (p[i] === "#")
+        return match(i + 1, j) || (j < t.length && match(i, j + 1));
+      if (j === t.length) return false;
+      return (p[i] === "*" || p[i] === t[j]) && match(i + 1, j + 1);
+    };
+
+    return match(0, 0);
+  }
+}
+interface IHierarchicalTopicRouter {
+  bind(pattern: string, publishingService: IPublishingService): void;
+  unbind(pattern: string): void;
+  route(
+    producerId: number,
+    message: Buffer,
+    meta: MessageMetadata
+  ): Promise<number>;
+}
+/** Hierarchical topic router.
+ * Every wildcard topic (`orders.*`, `orders.#`) is bound as a subscription with its own store, queues and acks.
+ * A message published to a leaf topic is forwarded to each matching subscription and routed there by its MessageRouter.
+ */
+class HierarchicalTopicRouter implements IHierarchicalTopicRouter {
+  private bindings = new Map<string, IPublishingService>(); // pattern:publishingService
+  private matchCache = new Map<string, string[]>(); // topic:patterns
+
+  constructor(private logger?: ILogCollector) {}
+
+  bind(pattern: string, publishingService: IPublishingService) {
+    this.bindings.set(pattern, publishingService);
+    this.matchCache.clear();
+  }
+
+  unbind(pattern: string) {
+    this.bindings.delete(pattern);
+    this.matchCache.clear();
+  }
+
+  async route(producerId: number, message: Buffer, meta: MessageMetadata) {
+    const patterns = this.getMatchingPatterns(meta.topic);
+
+    for (const pattern of patterns) {
+      // each subscription stores its own copy, so the id must not clash with the leaf topic one
+      const forwarded = Object.assign(new MessageMetadata(), meta, {
+        id: uniqueIntGenerator(),
+      });
+
+      try {
+        await this.bindings
+          .get(pattern)
+          ?.publish(producerId, message, forwarded);
+      } catch (error) {
+        this.logger?.log(
+          `Failed to route message to ${pattern}.`,
+          { ...meta, error },
+          "error"
+        );
+      }
+    }
+
+    return patterns.length;
+  }
+
+  private getMatchingPatterns(topic: string) {
+    let patterns = this.matchCache.get(topic);
+    if (!patterns) {
+      patterns = Array.from(this.bindings.keys()).filter((pattern) =>
+        TopicPattern.matches(pattern, topic)
+      );
+      this.matchCache.set(topic, patterns);
+    }
+    return patterns;
+  }
+}
+//
+//
+//
 // SRC/TOPIC.TS
-interface ITopicConfig {
+export interface ITopicConfig {
   schema?: string; // registered schema` name
   persistThresholdMs?: number; // flush delay, 1000 default, if need ephemeral set Infinity
   retentionMs?: number; // 86_400_000 1 day
@@ -2871,16 +4406,33 @@ interface ITopicConfig {
   maxBackoffMs?: number; // e.g., 30_000 ms
   deduplicationWindowMs?: number;
   encryptionkey?: crypto.CipherKey;
-  // partitions?: number;
-  // archivalThresholdMs?: number; // 100_000
-}
-interface ITopic<Data> {
+  partitions?: number; // 1 default
+  durability?: WalDurability; // "async" default, "sync"/"group" resolve publish only after fsync
+  groupCommitMs?: number; // group durability window, 5 default
+  mode?: TopicMode; // "queue" default, "log" keeps messages until retention and tracks group offsets
+  compaction?: ICompactionConfig; // when sealed log segments are rewritten without removed messages
+  compression?: SegmentCodec; // "none" default, sealed log segments are compressed in blocks with "snappy" or "zstd"
+  archivalThresholdMs?: number; // sealed log segments older than this move to the broker archiveStore
+}
+export interface ITopic<Data> {
   name: string;
   config: ITopicConfig;
-  createProducer(): IProducer<Data>;
-  createConsumer(config: IConsumerConfig): IConsumer<Data>;
-  createDLQConsumer(limit?: number): DLQConsumer<Data>;
+  ready: Promise<void>;
+  replication: ITopicReplication;
+  createProducer(id?: number): IProducer<Data>;
+  createConsumer(config: IConsumerConfig, id?: number): IConsumer<Data>;
+  restoreConsumer(
+    config: IConsumerConfig,
+    id: number
+  ): IConsumer<Data> | undefined;
+  createDLQConsumer(limit?: number, id?: number): IDLQConsumer<Data>;
   deleteClient(id: number): void;
+  exportMessages(filePath: string, format?: TopicExportFormat): Promise<number>;
+  importMessages(filePath: string, format?: TopicExportFormat): Promise<number>;
+  pause(): Promise<void>;
+  resume(): void;
+  snapshot(dirPath: string): Promise<void>;
+  dispose(): Promise<void>;
   getMetrics(): Promise<{
     name: string;
     ts: number;
@@ -2903,18 +4455,8 @@ interface ITopic<Data> {
       size: number;
     };
     storage: {
-      wal: {
-        fileSize: number | undefined;
-        batchSize: number;
-        batchCount: number;
-        isFlushing: boolean;
-      };
-      log: {
-        totalSize: number;
-        messageCount: number;
-        currentSegmentId: number | undefined;
-        segmentCount: number;
-      };
+      wal: Awaited<ReturnType<IWriteAheadLog["getMetrics"]>>;
+      log: Awaited<ReturnType<ISegmentLog["getMetrics"]>>;
       db: {};
       ram: NodeJS.MemoryUsage;
     };
@@ -2957,7 +4499,12 @@ class Topic<Data> implements ITopic<Data> {
     private readonly dlqService: IDLQService<Data>,
     private readonly clientService: IClientManagementService<Data>,
     private readonly storageService: IMessageStore<Data>,
-    private readonly metrics: IMetricsCollector
+    private readonly metrics: IMetricsCollector,
+    private readonly flushManager: IFlushManager,
+    private readonly db: IKeyValueStore<unknown>,
+    private readonly transfer: ITopicTransfer,
+    private readonly _replication: ITopicReplication,
+    private readonly monitors: { stop(): void }[] = [] // timers the topic owns
   ) {}
 
   get name() {
@@ -2968,6 +4515,15 @@ class Topic<Data> implements ITopic<Data> {
     return this._config;
   }
 
+  get replication() {
+    return this._replication;
+  }
+
+  // settles once the state of the last run is restored
+  get ready() {
+    return this.flushManager.restored();
+  }
+
   async getMetrics() {
     return {
       name: this.name,
@@ -2982,26 +4538,217 @@ class Topic<Data> implements ITopic<Data> {
     };
   }
 
-  createProducer() {
-    return this.clientService.createProducer();
+  createProducer(id?: number) {
+    if (TopicPattern.isWildcard(this.name)) {
+      throw new Error(
+        `Topic ${this.name} is a wildcard subscription and cannot be published to`
+      );
+    }
+    return this.clientService.createProducer(id);
+  }
+
+  createConsumer(config: IConsumerConfig, id?: number) {
+    return this.clientService.createConsumer(config, id);
   }
 
-  createConsumer(config: IConsumerConfig) {
-    return this.clientService.createConsumer(config);
+  restoreConsumer(config: IConsumerConfig, id: number) {
+    return this.clientService.restoreConsumer(config, id);
   }
 
-  createDLQConsumer(limit?: number) {
-    return this.clientService.createDLQConsumer(limit);
+  createDLQConsumer(limit?: number, id?: number) {
+    return this.clientService.createDLQConsumer(id, limit);
   }
 
   deleteClient(id: number) {
     return this.clientService.deleteClient(id);
   }
 
-  async dispose() {}
+  // live messages with their dlq and delivery state, returns how many were written
+  exportMessages(filePath: string, format?: TopicExportFormat) {
+    return this.transfer.exportTo(filePath, format);
+  }
+
+  // re-publishes an export, returns how many messages were new to the topic
+  importMessages(filePath: string, format?: TopicExportFormat) {
+    return this.transfer.importFrom(filePath, format);
+  }
+
+  // holds message writes, then flushes, until resume
+  async pause() {
+    await this.storageService.pause();
+    await this.flushManager.pause();
+  }
+
+  resume() {
+    this.flushManager.resume();
+    this.storageService.resume();
+  }
+
+  // wal, segments and metadata, pause first so they are as of one moment
+  async snapshot(dirPath: string) {
+    await this.storageService.snapshot(dirPath);
+    await this.db.snapshot(path.join(dirPath, "metadata"));
+    await this._replication.markSnapshot(dirPath);
+  }
+
+  async dispose() {
+    await this.ready;
+    this.monitors.forEach((monitor) => monitor.stop());
+    this.flushManager.stop();
+    await this.flushManager.flush();
+    await Promise.all([this.storageService.close(), this.db.close()]);
+  }
+}
+// topic export/import
+export type TopicExportFormat = "ndjson" | "binary";
+export interface ITopicExportRecord<Data = unknown> {
+  data: Data; // decoded, so the file doesn't depend on the codec or schema
+  meta: MessageMetadata;
+  dlqReason?: DLQReason;
+  attempts?: number; // delivery attempts left
+  encoding?: "base64"; // ndjson only, data was a Buffer
+}
+interface ITopicTransfer {
+  exportTo(filePath: string, format?: TopicExportFormat): Promise<number>;
+  importFrom(filePath: string, format?: TopicExportFormat): Promise<number>;
+}
+// ndjson is a record per line, binary is [length u32][msgpack record] per record
+class TopicTransfer<Data> implements ITopicTransfer {
+  constructor(
+    private messageStore: IMessageStore<Data>,
+    private publishingService: IPublishingService,
+    private dlqManager: IDLQManager<Data>,
+    private deliveryTracker: IDeliveryTracker,
+    private codec: ICodec,
+    private schemaId?: string,
+    private logger?: ILogCollector
+  ) {}
+
+  async exportTo(filePath: string, format: TopicExportFormat = "ndjson") {
+    const stream = createWriteStream(filePath);
+    let count = 0;
+
+    try {
+      for await (const [data, meta] of this.messageStore.entries()) {
+        const record: ITopicExportRecord<Data> = {
+          data,
+          meta,
+          dlqReason: this.dlqManager.getReason(meta),
+          attempts: this.deliveryTracker.getDelivery(meta.id)?.attempts,
+        };
+
+        if (!stream.write(this.encode(record, format))) {
+          await once(stream, "drain");
+        }
+        count++;
+      }
+    } catch (cause) {
+      throw new Error(`Failed to export to ${filePath}`, { cause });
+    } finally {
+      stream.end();
+      await once(stream, "close");
+    }
+
+    this.logger?.log("Topic exported", { filePath, format, count });
+    return count;
+  }
+
+  // ids, ts, ttd and dedupId are kept, ids already in the topic are skipped
+  async importFrom(filePath: string, format: TopicExportFormat = "ndjson") {
+    let count = 0;
+
+    try {
+      for await (const record of this.decode(filePath, format)) {
+        const meta = Object.assign(new MessageMetadata(), record.meta);
+        if ((await this.messageStore.readMessage(meta.id)) !== undefined) {
+          continue;
+        }
+
+        const message = await this.codec.encode(record.data, this.schemaId);
+        if (record.dlqReason) {
+          await this.messageStore.write(message, meta);
+          this.dlqManager.enqueue(meta, record.dlqReason);
+        } else {
+          await this.publishingService.publish(meta.producerId, message, meta);
+        }
+
+        if (record.attempts !== undefined) {
+          this.deliveryTracker.setDeliveryAttempts(meta.id, record.attempts);
+        }
+        count++;
+      }
+    } catch (cause) {
+      throw new Error(`Failed to import from ${filePath}`, { cause });
+    }
+
+    this.logger?.log("Topic imported", { filePath, format, count });
+    return count;
+  }
+
+  private encode(record: ITopicExportRecord<Data>, format: TopicExportFormat) {
+    if (format === "ndjson") {
+      // JSON.stringify would turn a Buffer into {type, data}
+      if (Buffer.isBuffer(record.data)) {
+        const data = record.data.toString("base64");
+        return `${JSON.stringify({ ...record, data, encoding: "base64" })}\n`;
+      }
+      return `${JSON.stringify(record)}\n`;
+    }
+
+    const payload = msgpack.encode(record);
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(payload.length, 0);
+    return Buffer.concat([length, payload]);
+  }
+
+  private async *decode(
+    filePath: string,
+    format: TopicExportFormat
+  ): AsyncGenerator<ITopicExportRecord<Data>> {
+    const stream = createReadStream(filePath);
+
+    if (format === "ndjson") {
+      for await (const line of readline.createInterface({ input: stream })) {
+        if (!line.trim()) continue;
+
+        const { encoding, ...record } = JSON.parse(line);
+        if (encoding === "base64") {
+          record.data = Buffer.from(record.data, "base64");
+        }
+        yield record;
+      }
+      return;
+    }
+
+    let buffer = Buffer.alloc(0);
+    for await (const chunk of stream) {
+      buffer = Buffer.concat([buffer, chunk]);
+
+      while (buffer.length >= 4) {
+        const end = 4 + buffer.readUInt32BE(0);
+        if (buffer.length < end) break;
+        yield msgpack.decode(
+          buffer.subarray(4, end)
+        ) as ITopicExportRecord<Data>;
+        buffer = buffer.subarray(end);
+      }
+    }
+
+    if (buffer.length) throw new Error("Export file ends in a partial record");
+  }
 }
 interface ITopicFactory {
   create<Data>(name: string, config?: Partial<ITopicConfig>): Topic<Data>;
+  createStorage<Data>(
+    name: string,
+    config: ITopicConfig
+  ): {
+    codec: ICodec;
+    db: IKeyValueStore<unknown>;
+    messageStore: IMessageStore<Data>;
+    dir: string;
+  };
+  remove(name: string): Promise<void>;
 }
 class TopicFactory implements ITopicFactory {
   constructor(
@@ -3014,125 +4761,224 @@ class TopicFactory implements ITopicFactory {
     },
     private codecFactory: new () => ICodec = BinaryCodec,
     private queueFactory: new () => IPriorityQueue = BinaryHeapPriorityQueue,
-    private storageFactory: new (
-      ...args
-    ) => IMessageStore<unknown> = LevelDBMessageStorage,
-    private logService?: LogService
+    private walFactory = new FileWriteAheadLogFactory(),
+    private logService?: LogService,
+    private topicRouter?: IHierarchicalTopicRouter,
+    private transactions?: ITransactionCoordinator,
+    private archiveStore?: IArchiveStore,
+    private keyValueStore: KeyValueStoreClass = LevelKeyValueStore,
+    private dataDir = "./data",
+    private changeFeed?: IChangeFeed
   ) {}
 
   create<Data>(name: string, config?: Partial<ITopicConfig>): Topic<Data> {
     // TODO: VALIDATE CONFIG AJV (add to registry)
     const mergedConfig = { ...this.defaultConfig, ...config };
 
-    // new WriteAheadLog(path.join(topicDir, "wal.log"));
-    // new MessageLog(path.join(topicDir, "segments"));
-    // Level(path.join(topicDir, "metadata")); const topicDir = path.join(this.baseDir, this.topic);
-
     this.validateTopicName(name);
-    const codec = new this.codecFactory();
     const logger = this.logService?.forTopic(name);
+    const { codec, db, messageStore } = this.createStorage<Data>(
+      name,
+      mergedConfig
+    );
 
-    const db = new Level("./broker.db", {
-      compression: false,
-      valueEncoding: {
-        type: "custom",
-        encode: codec.encodeSync,
-        decode: codec.decodeSync,
-        buffer: true,
-      },
-    });
+    const flushManager = new FlushManager(mergedConfig.persistThresholdMs);
+    const mapFactory = new PersistedMapFactory(
+      db,
+      undefined,
+      flushManager,
+      logger
+    );
+    const persistedQueueFactory = new PersistedQueueFactory(
+      this.queueFactory,
+      db,
+      undefined,
+      flushManager,
+      logger
+    );
 
     // Build modules
-    const messageStore = new this.storageFactory(
-      name,
-      codec,
-      mergedConfig.retentionMs,
-      mergedConfig.persist,
-      mergedConfig.persistThresholdMs
-    );
-    const metrics = new TopicMetricsCollector();
-    const clientManager = new ClientManager(
+    const metrics = new TopicMetricsCollector(mapFactory);
+    const clientRegistry = new ClientRegistry(mapFactory);
+    const activityTracker = new ClientActivityTracker(
+      clientRegistry,
       mergedConfig.consumerInactivityThresholdMs,
       mergedConfig.consumerProcessingTimeThresholdMs,
       mergedConfig.consumerPendingThresholdMs
     );
-    const queueManager = new QueueManager(this.queueFactory);
-    const dlqManager = new DLQManager<Data>(name, messageStore, logger);
-    const deliveryTracker = new DeliveryTracker(messageStore, metrics);
-
-    const pendingAcks = new AckRegistry(
-      clientManager,
-      mergedConfig.consumerPendingThresholdMs
+    const partitionCount = Math.max(1, mergedConfig.partitions ?? 1);
+    const partitioner = new HashRingPartitioner(
+      mapFactory,
+      new InMemoryHashRing(new SHA256HashService(), mapFactory, "partitions"),
+      partitionCount
     );
-    const subscriptionManager = new SubscriptionManager<Data>(
-      clientManager,
-      queueManager,
+    const queueManager = new PartitionedQueueManager(
+      partitioner,
+      Array.from(
+        { length: partitionCount },
+        (_, i) => new QueueManager(mapFactory, persistedQueueFactory, i)
+      )
+    );
+    const dlqManager = new PartitionedDLQManager<Data>(
+      partitioner,
+      Array.from(
+        { length: partitionCount },
+        (_, i) =>
+          new DLQManager<Data>(name, mapFactory, messageStore, logger, i)
+      )
+    );
+    const deliveryTracker = new DeliveryTracker<Data>(
+      mapFactory,
+      messageStore,
+      metrics,
+      mergedConfig.maxDeliveryAttempts,
+      mergedConfig.initialBackoffMs,
+      mergedConfig.maxBackoffMs
+    );
+    const processedMessages = new ProcessedMessageRegistry(
+      mapFactory,
+      mergedConfig.deduplicationWindowMs
+    );
+    const pendingAcks = new AckRegistry(mapFactory, activityTracker);
+    const subscriptionRegistry = new SubscriptionRegistry<Data>();
+    const subscriptionDispatcher = new SubscriptionMessageDispatcher<Data>(
+      subscriptionRegistry,
       messageStore,
       pendingAcks,
-      deliveryTracker,
+      processedMessages,
+      activityTracker,
       logger
     );
 
     const messageRouter = new MessageRouter<Data>(
-      clientManager,
+      mapFactory,
+      activityTracker,
       queueManager,
-      subscriptionManager,
-      dlqManager
+      subscriptionRegistry,
+      subscriptionDispatcher,
+      dlqManager,
+      processedMessages,
+      partitioner
     );
-    const delayedManager = new DelayedMessageManager<Data>(
-      new TimeoutScheduler<number>(new this.queueFactory()),
-      messageStore,
+    // delayed messages are published through the pipeline, it is filled once they exist
+    const pipeline = new MessagePipeline();
+    const queuePublisher = new MessagePublisher(
+      pipeline,
       messageRouter,
       deliveryTracker,
       logger
     );
-    const pipeline = new PipelineFactory<Data>().create(
+    const delayMonitors = Array.from({ length: partitionCount }, (_, i) => {
+      // a message is delayed once per consumer it is requeued to
+      const queue = persistedQueueFactory.create(
+        i ? `delayed:${i}` : "delayed",
+        ([[messageId, consumerId]]: [[number, number | undefined], number]) =>
+          `${messageId}:${consumerId ?? ""}`
+      );
+      return new DelayMonitor<[number, number | undefined]>(queue, queue.ready);
+    });
+    const delayedManager = new PartitionedDelayedMessageManager(
+      partitioner,
+      delayMonitors.map(
+        (monitor) =>
+          new DelayedMessageManager<Data>(
+            monitor,
+            messageStore,
+            queuePublisher,
+            queueManager,
+            logger
+          )
+      )
+    );
+    new PipelineFactory<Data>().create(
       dlqManager,
+      deliveryTracker,
       delayedManager,
-      mergedConfig?.maxDeliveryAttempts
+      pipeline
     );
-    const ackMonitor = new AckMonitor(pendingAcks, mergedConfig?.ackTimeoutMs);
+    const ackMonitor = new AckMonitor(pendingAcks, mergedConfig.ackTimeoutMs);
+
+    const isLog = mergedConfig.mode === "log";
+    const offsetIndex = isLog
+      ? new MessageOffsetIndex(
+          db,
+          messageStore,
+          logger,
+          mergedConfig.retentionMs
+        )
+      : undefined;
+    offsetIndex?.start();
+    const messagePublisher = offsetIndex
+      ? new LogMessagePublisher(offsetIndex, logger)
+      : queuePublisher;
 
     // Build services
+    // wildcard topics are subscriptions: they receive forwarded messages but never forward them further
+    const isWildcard = TopicPattern.isWildcard(name);
     const publishingService = new PublishingService(
       messageStore,
-      pipeline,
       messageRouter,
-      deliveryTracker,
-      clientManager,
+      messagePublisher,
+      activityTracker,
       delayedManager,
       metrics,
-      logger
+      isWildcard ? undefined : this.topicRouter
     );
+    if (isWildcard) this.topicRouter?.bind(name, publishingService);
     const consumptionService = new ConsumptionService(
       queueManager,
       messageStore,
       pendingAcks,
       deliveryTracker,
-      clientManager,
+      processedMessages,
+      activityTracker,
       logger
     );
+    const logConsumption = offsetIndex
+      ? new LogConsumptionService<Data>(
+          name,
+          offsetIndex,
+          new OffsetTracker(mapFactory),
+          messageStore,
+          activityTracker,
+          logger,
+          this.transactions
+        )
+      : undefined;
     const ackService = new AckService(
+      name,
       pendingAcks,
       deliveryTracker,
+      processedMessages,
       ackMonitor,
       messageStore,
+      messagePublisher,
       pipeline,
-      queueManager,
-      subscriptionManager,
-      logger
+      subscriptionRegistry,
+      new SubscriptionQueueProcessor(
+        subscriptionDispatcher,
+        queueManager,
+        deliveryTracker,
+        messageStore,
+        pendingAcks
+      ),
+      delayedManager,
+      logger,
+      this.transactions
     );
     const subscriptionService = new SubscriptionService<Data>(
       name,
-      subscriptionManager,
+      subscriptionRegistry,
+      new SubscriptionMetricsCollector(subscriptionRegistry),
       logger
     );
-    const dlqService = new DLQService(dlqManager, clientManager, logger);
-    const producerFactory = new ProducerFactory(
+    const dlqService = new DLQService(dlqManager, activityTracker);
+    const producerFactory = new ProducerFactory<Data>(
       name,
       publishingService,
+      new DeduplicationTracker(mapFactory, mergedConfig.deduplicationWindowMs),
       this.schemaRegistry,
-      () => metrics.getMetrics().totalBytes,
+      metrics,
       codec,
       mergedConfig.schema,
       mergedConfig.maxMessageSize,
@@ -3140,32 +4986,146 @@ class TopicFactory implements ITopicFactory {
     );
     const clientManagementService = new ClientManagementService(
       producerFactory,
-      clientManager,
+      clientRegistry,
+      new ClientMetricsCollector(clientRegistry, activityTracker),
       messageRouter,
       queueManager,
       consumptionService,
       ackService,
       subscriptionService,
       dlqService,
-      logger
+      partitioner,
+      logger,
+      logConsumption
     );
 
+    // replays what the last run left in the wal through the router built above
+    messageStore
+      .start(messagePublisher, dlqManager)
+      .catch((error) =>
+        logger?.log(`Failed to start ${name} storage`, { error }, "error")
+      );
+
     return new Topic<Data>(
       name,
+      mergedConfig,
       publishingService,
       consumptionService,
       subscriptionService,
       ackService,
       dlqService,
       clientManagementService,
-      metrics
+      messageStore,
+      metrics,
+      flushManager,
+      db,
+      new TopicTransfer(
+        messageStore,
+        publishingService,
+        dlqManager,
+        deliveryTracker,
+        codec,
+        mergedConfig.schema,
+        logger
+      ),
+      new TopicReplication(messageStore, db, this.getTopicDir(name)),
+      [
+        ackMonitor,
+        ...(offsetIndex ? [offsetIndex] : []),
+        ...delayMonitors.map((monitor) => ({ stop: () => monitor.cleanup() })),
+      ]
     );
   }
 
+  // wal, segments and metadata of a topic live in its own directory
+  createStorage<Data>(name: string, config: ITopicConfig) {
+    const codec = new this.codecFactory();
+    const topicDir = this.getTopicDir(name);
+    const db = new this.keyValueStore<unknown>(
+      path.join(topicDir, "metadata"),
+      {
+        encode: (value) => codec.encodeSync(value),
+        decode: (buffer) => codec.decodeSync(buffer),
+      }
+    );
+    // message bodies and their index, kept as written
+    const messages = new this.keyValueStore<Buffer>(
+      path.join(topicDir, "messages")
+    );
+    const wal = this.walFactory.create(
+      path.join(topicDir, "wal"),
+      undefined,
+      config.durability,
+      config.groupCommitMs
+    );
+    const log = new FileSegmentLogFactory(
+      topicDir,
+      undefined,
+      config.compaction,
+      this.archiveStore,
+      config.compression
+    ).create("segments");
+
+    const messageStore = new MessageStoreService<Data>(
+      new WALReplayer(
+        wal,
+        log,
+        messages,
+        codec,
+        this.logService?.forTopic(name),
+        this.transactions,
+        config.maxMessageTTLMs
+      ),
+      new MessageWriter(
+        wal,
+        log,
+        messages,
+        codec,
+        this.logService?.forTopic(name),
+        config.maxMessageTTLMs
+      ),
+      new MessageReader<Data>(
+        log,
+        messages,
+        codec,
+        config.schema,
+        this.logService?.forTopic(name)
+      ),
+      new MessageRetentionManager(
+        messages,
+        wal,
+        log,
+        codec,
+        this.logService?.forTopic(name),
+        config.retentionMs,
+        config.maxSizeBytes,
+        config.archivalThresholdMs
+      ),
+      messages,
+      wal,
+      log
+    );
+
+    return {
+      codec,
+      db: this.changeFeed?.observe(db, name) ?? db,
+      messageStore,
+      dir: topicDir,
+    };
+  }
+
+  async remove(name: string) {
+    await fs.rm(this.getTopicDir(name), { recursive: true, force: true });
+  }
+
+  private getTopicDir(name: string) {
+    return path.join(this.dataDir, "topics", name);
+  }
+
   private validateTopicName(name: string): void {
-    if (!name || !/^[a-zA-Z0-9_-]+$/.test(name)) {
+    if (!TopicPattern.isValid(name, true)) {
       throw new Error(
-        "Invalid topic name. Use alphanumeric, underscore and hyphen characters."
+        "Invalid topic name. Use dot-separated segments of alphanumeric, underscore and hyphen characters, or * and # wildcards."
       );
     }
   }
@@ -3234,13 +5194,13 @@ class TopicMetricsCollector implements IMetricsCollector {
 //
 // ROOT
 // logger
-interface ILogger {
+export interface ILogger {
   info(msg: string, extra?: unknown): void;
   warn(msg: string, extra?: unknown): void;
   error(msg: string, extra?: unknown): void;
   debug?(msg: string, extra?: unknown): void;
 }
-interface ILogCollector {
+export interface ILogCollector {
   log(msg: string, extra?: object, level?: keyof ILogger): void;
   flush: () => void;
   destroy(): void;
@@ -3320,7 +5280,6 @@ class LogService implements ILogService {
   }
 }
 
-
 // schema_registry
 interface ISchemaDefRecord<T> {
   schemaDef: JSONSchemaType<T>;
@@ -3361,7 +5320,7 @@ class SchemaDefStore implements ISchemaDefStore {
     return Array.from(this.schemaDefs.keys());
   }
 }
-interface ISchemaValidator {
+export interface ISchemaValidator {
   (data: any): boolean;
 }
 interface IValidatorCache {
@@ -3430,7 +5389,13 @@ class SchemaDefVersionManager implements ISchemaDefVersionManager {
     if (latestKey && this.compatibilityMode !== "none") {
       const latestSchemaDef = this.store.get(latestKey)!;
 
-      if (!validateSchema(latestSchemaDef, schemaDef, this.compatibilityMode)) {
+      if (
+        !schemaCompatibility.validateSchema(
+          latestSchemaDef,
+          schemaDef,
+          this.compatibilityMode
+        )
+      ) {
         throw new Error(
           `Schema definition ${name} is not compatible in ${this.compatibilityMode} mode`
         );
@@ -3455,7 +5420,7 @@ class SchemaDefVersionManager implements ISchemaDefVersionManager {
     return candidates[0]?.key;
   }
 }
-interface ISchemaRegistry {
+export interface ISchemaRegistry {
   register(name: string, schema: JSONSchemaType<any>): Promise<string | void>;
   remove(schemaId: string): Promise<void>;
   getValidator(schemaId: string): ISchemaValidator | undefined;
@@ -3491,7 +5456,7 @@ class SchemaRegistry implements ISchemaRegistry {
   ): Promise<string | void> {
     try {
       const schemaId = this.versionManager.register<T>(name, schemaDef, author);
-      const schema = SchemaCompiler.fromJsonSchema(schemaDef);
+      const schema = BinarySchemaCompiler.fromJsonSchema(schemaDef);
       await this.codec.registerSchema(schemaId, schema);
       return schemaId;
     } catch (error) {
@@ -3550,11 +5515,13 @@ class SchemaRegistry implements ISchemaRegistry {
   }
 }
 // topic_registry
-interface ITopicRegistry {
+export interface ITopicRegistry {
+  ready: Promise<void>;
   create<Data>(name: string, config: ITopicConfig): ITopic<Data>;
   get(name: string): ITopic<any> | undefined;
-  delete(name: string): void;
+  delete(name: string): Promise<void>;
   list(): MapIterator<string>;
+  close(): Promise<void>;
 }
 class TopicRegistry implements ITopicRegistry {
   private topics: PersistedMap<string, ITopic<any>>;
@@ -3562,7 +5529,8 @@ class TopicRegistry implements ITopicRegistry {
   constructor(
     mapFactory: IPersistedMapFactory,
     private topicFactory: ITopicFactory,
-    private logService?: ILogService
+    private logService?: ILogService,
+    private topicRouter?: IHierarchicalTopicRouter
   ) {
     this.topics = mapFactory.create(
       "topics",
@@ -3597,14 +5565,517 @@ class TopicRegistry implements ITopicRegistry {
     return this.topics.get(name);
   }
 
-  delete(name: string): void {
-    this.get(name);
+  // settles once the topics of the last run are open again
+  get ready() {
+    return this.topics.ready.then(async () => {
+      await Promise.all(Array.from(this.topics.values(), (t) => t.ready));
+    });
+  }
+
+  // closes every topic, their data stays
+  async close() {
+    await Promise.all(
+      Array.from(this.topics.values(), (topic) => topic.dispose())
+    );
+  }
+
+  // closes the topic and removes its data directory
+  async delete(name: string) {
+    const topic = this.get(name);
     this.topics.delete(name);
+    this.topicRouter?.unbind(name);
+    await topic?.dispose();
+    await this.topicFactory.remove(name);
 
     this.logService?.globalCollector.log("Topic deleted", { name });
   }
 }
 
+// broker
+interface IBrokerConfig {
+  dataDir?: string; // "./data" default, topics keep their data in <dataDir>/topics/<name>
+  dbPath?: string; // "<dataDir>/meta.db" default
+  persistThresholdMs?: number; // 1000 default
+  topicDefaults?: ITopicConfig;
+  logger?: ILogger;
+  archiveStore?: IArchiveStore; // where topics with archivalThresholdMs keep cold log segments
+  keyValueStore?: KeyValueStoreClass; // LevelKeyValueStore default, LmdbKeyValueStore or InMemoryKeyValueStore from @zephyrmq/pds
+}
+export interface IBroker {
+  topics: ITopicRegistry;
+  schemas: ISchemaRegistry;
+  replication: IReplicationSource;
+  transaction(): ITransaction;
+  ready: Promise<void>;
+  snapshot(dirPath: string): Promise<void>;
+  close(): Promise<void>;
+}
+export class Broker implements IBroker {
+  public readonly topics: ITopicRegistry;
+  public readonly schemas: ISchemaRegistry;
+  public readonly replication: IReplicationSource;
+  private db: IKeyValueStore<unknown>;
+  private flushManager: IFlushManager;
+  private logService: ILogService;
+  private transactions: ITransactionCoordinator;
+
+  constructor(config: IBrokerConfig = {}) {
+    const codec = new BinaryCodec();
+    this.logService = new LogService(config.logger ?? console);
+    const keyValueStore = config.keyValueStore ?? LevelKeyValueStore;
+    const dataDir = config.dataDir ?? "./data";
+    const changeFeed = new ChangeFeed();
+    this.db = changeFeed.observe(
+      new keyValueStore<unknown>(
+        config.dbPath ?? path.join(dataDir, "meta.db"),
+        {
+          encode: (value) => codec.encodeSync(value),
+          decode: (buffer) => codec.decodeSync(buffer),
+        }
+      ),
+      BROKER_STORE
+    );
+
+    this.flushManager = new FlushManager(config.persistThresholdMs);
+    const logger = this.logService.globalCollector;
+    const mapFactory = new PersistedMapFactory(
+      this.db,
+      undefined,
+      this.flushManager,
+      logger
+    );
+
+    const topicRouter = new HierarchicalTopicRouter(logger);
+    this.transactions = new TransactionCoordinator(mapFactory, logger);
+    this.schemas = new SchemaRegistry(codec, this.logService, mapFactory);
+    const topicFactory = new TopicFactory(
+      this.schemas,
+      config.topicDefaults,
+      undefined,
+      undefined,
+      undefined,
+      this.logService,
+      topicRouter,
+      this.transactions,
+      config.archiveStore,
+      config.keyValueStore,
+      dataDir,
+      changeFeed
+    );
+    this.topics = new TopicRegistry(
+      mapFactory,
+      topicFactory,
+      this.logService,
+      topicRouter
+    );
+    this.replication = new ReplicationSource(
+      this.topics,
+      new StoreReplication(this.db),
+      changeFeed
+    );
+  }
+
+  // publishes staged through the transaction are routed on commit only
+  transaction() {
+    return this.transactions.begin();
+  }
+
+  // a copy laid out like dataDir, every topic and the broker metadata pause before anything is copied
+  async snapshot(dirPath: string) {
+    const topics = Array.from(
+      this.topics.list(),
+      (name) => this.topics.get(name)!
+    );
+
+    // resuming a topic that never paused is a no-op
+    try {
+      await Promise.all(topics.map((topic) => topic.pause()));
+      await this.flushManager.pause();
+
+      for (const topic of topics) {
+        await topic.snapshot(path.join(dirPath, "topics", topic.name));
+      }
+      await this.db.snapshot(path.join(dirPath, "meta.db"));
+    } finally {
+      this.flushManager.resume();
+      for (const topic of topics) topic.resume();
+    }
+  }
+
+  // copies a snapshot into dataDir and opens the broker on it
+  static async restore(dirPath: string, config: IBrokerConfig = {}) {
+    return new Broker(await Broker.copySnapshot(dirPath, config));
+  }
+
+  // files already in dataDir are never overwritten, returns the config with its paths resolved
+  static async copySnapshot(dirPath: string, config: IBrokerConfig = {}) {
+    const dataDir = config.dataDir ?? "./data";
+    const dbPath = config.dbPath ?? path.join(dataDir, "meta.db");
+    const copy = { recursive: true, force: false, errorOnExist: true };
+
+    try {
+      await fs.cp(path.join(dirPath, "meta.db"), dbPath, copy);
+      await fs.cp(
+        path.join(dirPath, "topics"),
+        path.join(dataDir, "topics"),
+        copy
+      );
+    } catch (cause) {
+      throw new Error(`Failed to restore broker from ${dirPath}`, { cause });
+    }
+
+    return { ...config, dataDir, dbPath };
+  }
+
+  // topics restored from the metadata store are open once this settles
+  get ready() {
+    return this.flushManager.restored().then(() => this.topics.ready);
+  }
+
+  async close() {
+    await this.topics.close();
+    this.flushManager.stop();
+    await this.flushManager.flush();
+    this.logService.flushAll();
+    await this.db.close();
+  }
+}
+
+// replication
+// a follower broker tails the wal of every topic of its primary and mirrors the metadata stores,
+// stores are named by topic and the broker metadata store is BROKER_STORE
+export const BROKER_STORE = "";
+// keys only replicas read, never shipped and kept through a state reset
+const REPLICA_PREFIX = "replica";
+const REPLICA_OFFSET_KEY = `${REPLICA_PREFIX}!offset`;
+const SNAPSHOT_OFFSET_FILE = "replica.offset"; // in the topic directory of a snapshot
+
+export type IStateChangeListener = (
+  store: string,
+  changes: IKeyValueChange<unknown>[]
+) => void;
+interface IChangeFeed {
+  observe(db: IKeyValueStore<unknown>, store: string): IKeyValueStore<unknown>;
+  subscribe(listener: IStateChangeListener): () => void;
+}
+class ChangeFeed implements IChangeFeed {
+  private listeners = new Set<IStateChangeListener>();
+
+  observe(db: IKeyValueStore<unknown>, store: string) {
+    return new ObservedKeyValueStore(db, (changes) => {
+      for (const listener of this.listeners) listener(store, changes);
+    });
+  }
+
+  subscribe(listener: IStateChangeListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+export interface IStoreReplication {
+  state(): AsyncGenerator<[string, unknown]>;
+  applyState(
+    changes: IKeyValueChange<unknown>[],
+    reset?: boolean
+  ): Promise<void>;
+}
+class StoreReplication implements IStoreReplication {
+  constructor(protected db: IKeyValueStore<unknown>) {}
+
+  async *state(): AsyncGenerator<[string, unknown]> {
+    for await (const [key, value] of this.db.iterator()) {
+      if (!key.startsWith(`${REPLICA_PREFIX}!`)) yield [key, value];
+    }
+  }
+
+  // a reset drops whatever the primary didn't send before the changes apply
+  async applyState(changes: IKeyValueChange<unknown>[], reset = false) {
+    if (reset) {
+      await this.db.clear({ lt: `${REPLICA_PREFIX}!` });
+      await this.db.clear({ gt: `${REPLICA_PREFIX}~` });
+    }
+
+    let batch = this.db.batch();
+    for (const change of changes) {
+      if (change.type === "del") batch.del(change.key);
+      else if (change.type === "put") {
+        // buffers come off the wire as plain byte arrays
+        const { key, value } = change;
+        batch.put(
+          key,
+          value instanceof Uint8Array ? Buffer.from(value) : value
+        );
+      } else {
+        // writes before a clear land first, the ones after it in a new batch
+        await batch.write();
+        await this.db.clear(change.range);
+        batch = this.db.batch();
+      }
+    }
+    await batch.write();
+  }
+}
+export interface ITopicReplication extends IStoreReplication {
+  records(from: number): AsyncGenerator<IWalEntry>;
+  getEndOffset(): Promise<number>;
+  getOffset(): Promise<number>;
+  apply(records: IWalEntry[]): Promise<number>;
+  markSnapshot(dirPath: string): Promise<void>;
+  close(): Promise<void>;
+}
+class TopicReplication extends StoreReplication implements ITopicReplication {
+  constructor(
+    private messageStore: IMessageStore<unknown>,
+    db: IKeyValueStore<unknown>,
+    private dir: string // the topic directory
+  ) {
+    super(db);
+  }
+
+  // primary side, throws when the wal no longer keeps the offset
+  async *records(from: number) {
+    let found = false;
+
+    for await (const record of this.messageStore.records(from)) {
+      found = true;
+      yield record;
+    }
+
+    if (!found && from < (await this.getEndOffset())) {
+      throw new Error(
+        `WAL offset ${from} is no longer kept, restore the replica from a snapshot`
+      );
+    }
+  }
+
+  getEndOffset() {
+    return this.messageStore.getWalEndOffset();
+  }
+
+  // replica side, the primary offset everything before has been applied
+  async getOffset() {
+    const offset = await this.db.get(REPLICA_OFFSET_KEY);
+    if (offset !== undefined) return Number(offset);
+
+    // restored from a snapshot and nothing applied yet
+    try {
+      const marked = path.join(this.dir, SNAPSHOT_OFFSET_FILE);
+      return Number(await fs.readFile(marked, "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+      return 0;
+    }
+  }
+
+  async apply(records: IWalEntry[]) {
+    await this.messageStore.replicate(records);
+    const offset = records.at(-1)!.nextOffset;
+    await this.db.put(REPLICA_OFFSET_KEY, offset);
+    return offset;
+  }
+
+  // a replica restored from a snapshot taken now resumes at the current wal end,
+  // the offset is written next to the copy so the live store stays as it was
+  async markSnapshot(dirPath: string) {
+    const offset = await this.getEndOffset();
+    await fs.writeFile(
+      path.join(dirPath, SNAPSHOT_OFFSET_FILE),
+      String(offset)
+    );
+  }
+
+  async close() {
+    await Promise.all([this.messageStore.close(), this.db.close()]);
+  }
+}
+export interface IReplicationSource {
+  topics(): [string, ITopicConfig][];
+  topic(name: string): ITopicReplication;
+  store(name: string): IStoreReplication;
+  subscribe(listener: IStateChangeListener): () => void;
+}
+class ReplicationSource implements IReplicationSource {
+  constructor(
+    private topicRegistry: ITopicRegistry,
+    private meta: IStoreReplication,
+    private changeFeed: IChangeFeed
+  ) {}
+
+  topics() {
+    return Array.from(
+      this.topicRegistry.list(),
+      (name) => [name, this.topicRegistry.get(name)!.config] as const
+    ) as [string, ITopicConfig][];
+  }
+
+  topic(name: string) {
+    return this.topicRegistry.get(name)!.replication;
+  }
+
+  store(name: string) {
+    return name === BROKER_STORE ? this.meta : this.topic(name);
+  }
+
+  subscribe(listener: IStateChangeListener) {
+    return this.changeFeed.subscribe(listener);
+  }
+}
+export interface IReplicaLag {
+  offset: number; // primary wal offset applied up to
+  endOffset: number; // primary wal end as of the last shipment
+  lagBytes: number;
+  lagMs: number; // how long the replica has been behind
+}
+export interface IReplicationTarget {
+  follow(topic: string, config: ITopicConfig): Promise<number>;
+  apply(
+    topic: string,
+    records: IWalEntry[],
+    endOffset: number
+  ): Promise<number>;
+  applyState(
+    store: string,
+    changes: IKeyValueChange<unknown>[],
+    reset?: boolean
+  ): Promise<void>;
+  drop(topic: string): Promise<void>;
+  getMetrics(): Record<string, IReplicaLag>;
+  promote(): Promise<Broker>;
+  close(): Promise<void>;
+}
+// keeps a dataDir in step with a primary, only topic storage is open until promote
+export class BrokerReplica implements IReplicationTarget {
+  private db: IKeyValueStore<unknown>;
+  private meta: IStoreReplication;
+  private topicFactory: TopicFactory;
+  private topics = new Map<string, ITopicReplication>();
+  private lag = new Map<
+    string,
+    { offset: number; endOffset: number; behindSince?: number }
+  >();
+
+  constructor(private config: IBrokerConfig = {}) {
+    const codec = new BinaryCodec();
+    const logService = new LogService(config.logger ?? console);
+    const keyValueStore = config.keyValueStore ?? LevelKeyValueStore;
+    const dataDir = config.dataDir ?? "./data";
+    this.db = new keyValueStore<unknown>(
+      config.dbPath ?? path.join(dataDir, "meta.db"),
+      {
+        encode: (value) => codec.encodeSync(value),
+        decode: (buffer) => codec.decodeSync(buffer),
+      }
+    );
+    this.meta = new StoreReplication(this.db);
+    this.topicFactory = new TopicFactory(
+      new SchemaRegistry(codec, logService, new PersistedMapFactory(this.db)),
+      config.topicDefaults,
+      undefined,
+      undefined,
+      undefined,
+      logService,
+      undefined,
+      undefined,
+      config.archiveStore,
+      config.keyValueStore,
+      dataDir
+    );
+  }
+
+  // copies a primary snapshot into dataDir, the replica resumes where the snapshot ends
+  static async restore(dirPath: string, config: IBrokerConfig = {}) {
+    return new BrokerReplica(await Broker.copySnapshot(dirPath, config));
+  }
+
+  // opens the topic storage, returns the primary wal offset to ship from
+  async follow(topic: string, config: ITopicConfig) {
+    if (!this.topics.has(topic)) {
+      // group durability flushes shipped records before replay reads them
+      const { db, messageStore, dir } = this.topicFactory.createStorage(topic, {
+        ...config,
+        durability: "group",
+      });
+      this.topics.set(topic, new TopicReplication(messageStore, db, dir));
+    }
+
+    return this.getTopic(topic).getOffset();
+  }
+
+  async apply(topic: string, records: IWalEntry[], endOffset: number) {
+    const offset = await this.getTopic(topic).apply(records);
+    const behind = offset < endOffset;
+
+    this.lag.set(topic, {
+      offset,
+      endOffset,
+      behindSince: behind
+        ? (this.lag.get(topic)?.behindSince ?? Date.now())
+        : undefined,
+    });
+
+    return offset;
+  }
+
+  // topics that aren't followed yet get their whole state on follow
+  async applyState(
+    store: string,
+    changes: IKeyValueChange<unknown>[],
+    reset?: boolean
+  ) {
+    if (store === BROKER_STORE) return this.meta.applyState(changes, reset);
+    await this.topics.get(store)?.applyState(changes, reset);
+  }
+
+  async drop(topic: string) {
+    await this.topics.get(topic)?.close();
+    this.topics.delete(topic);
+    this.lag.delete(topic);
+    await this.topicFactory.remove(topic);
+  }
+
+  getMetrics() {
+    const now = Date.now();
+
+    return Object.fromEntries(
+      Array.from(
+        this.lag,
+        ([topic, { offset, endOffset, behindSince }]) =>
+          [
+            topic,
+            {
+              offset,
+              endOffset,
+              lagBytes: Math.max(0, endOffset - offset),
+              lagMs: behindSince ? now - behindSince : 0,
+            },
+          ] as const
+      )
+    );
+  }
+
+  // stop shipping first, the broker replays what the replica held back
+  async promote() {
+    await this.close();
+    return new Broker(this.config);
+  }
+
+  async close() {
+    await Promise.all(
+      Array.from(this.topics.values(), (topic) => topic.close())
+    );
+    this.topics.clear();
+    await this.db.close();
+  }
+
+  private getTopic(name: string) {
+    const topic = this.topics.get(name);
+    if (!topic) throw new Error(`Topic ${name} is not followed`);
+    return topic;
+  }
+}
+
 // In Layered Arch Data Layer is rigid - knows concrete db impl
 // Clean Arch uses the idea of Dependency Inversion to solve this.
 // It says that the Domain Layer should not depend on the Data Layer.
@@ -3783,42 +6254,8 @@ class TopicRegistry implements ITopicRegistry {
 // }
 
 // LATER
-// 0. Hierarchical Topics (Nested topics like logs.debug, orders.payment, events.user.signup for Fine-grained routing, Subscription wildcards)
-// interface ITopicConfig {
-//   parent?: string;
-// }
-// class HierarchicalTopicRouter implements IMessageRouter {
-//   private topicTree = new Map<string, Set<string>>();
-//   constructor(private baseRouter: IMessageRouter) {}
-//   route(meta: MessageMetadata): Promise<number> {
-//     const { topic } = meta;
-//     const segments = topic.split(".");
-//     let matchFound = false;
-//     let deliveryCount = 0;
-
-//     for (let i = 0; i <= segments.length; i++) {
-//       const subTopic = segments.slice(0, i).join(".");
-//       const subscribers = this.topicTree.get(subTopic);
-//       if (subscribers?.size) {
-//         matchFound = true;
-//         for (const subscriber of subscribers) {
-//           deliveryCount += await this.baseRouter.route({
-//             ...meta,
-//             topic: subscriber,
-//           });
-//         }
-//       }
-//     }
-
-//     if (!matchFound) {
-//       return this.baseRouter.route(meta);
-//     }
-
-//     return Promise.resolve(deliveryCount);
-//   }
-// }
 // 1. go to lmdb or redb, use transactional writes(exactly once feature)
-// 2. full Exactly-Once: deduplication(dedupId) & Consumer-side idempotent processing are DONE, Transactional Writes(Ensure state changes happen atomically), Broker-side state coordination(Coordinate with external systems)
+// 2. full Exactly-Once: deduplication(dedupId), Consumer-side idempotent processing & Transactional Writes(broker.transaction()) are DONE, Broker-side state coordination(Coordinate with external systems)
 // 3. switch to Standalone server: you hit >50k msg/sec, cross-service/multi-lang support => need protobuf & lib/sdk per lang; for n-processes use proper-lockfile instead of custom Mutex, Add Admin Tooling CLI, dashboard
 // 4. Message Sharding (Split a topic into multiple partitions/shards for Horizontal scaling, High throughput, Parallel processing)
 // class ShardedMessageRouter implements IMessageRouter {
@@ -3836,27 +6273,7 @@ class TopicRegistry implements ITopicRegistry {
 //     return shardRouter.route(meta);
 //   }
 // }
-// 5. message archiving
-// class MessageArchiver<Data> {
-//   constructor(
-//     private messageStorage: IMessageStorage<Data>,
-//     private archiveStorage: IMessageStorage<Data>,
-//     private archivalThresholdMs: number
-//   ) {}
-
-//   async archiveOldMessages() {
-//     let count = 0;
-//     for await (const [id, meta] of this.messageStorage.entries()) {
-//       if (Date.now() - meta.ts > this.archivalThresholdMs) {
-//         await this.archiveStorage.writeAll(message, meta);
-//         this.messageStorage.remove(id);
-//         count++;
-//       }
-//     }
-//     return count;
-//   }
-// }
-// 6. EVENT SOURCING FEATURES
+// 5. EVENT SOURCING FEATURES
 // NO - Message Forwarding (Send a message to multiple topics or brokers)
 // MAYBE - Message Transformation (Modify message content before delivery)
 // NO - Message Reordering / Stream Processing (Support for time-based ordering and late arrival handling)
@@ -0,0 +1,95 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { build } from "tsdown";
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import { ClusteredBroker } from "./cluster";
+
+// names that hash to either of two workers
+const names = ["orders", "payments", "refunds", "invoices"];
+
+// the built module, its workers load cluster_worker.mjs next to it
+describe("ClusteredBroker", { timeout: 20_000 }, () => {
+  let dir: string;
+  let dataDir: string;
+  let outDir: string;
+  let Built: typeof ClusteredBroker;
+  let broker: ClusteredBroker | undefined;
+
+  const start = () => {
+    broker = new Built({ workers: 2, dataDir });
+    return broker;
+  };
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "zephyrmq-cluster-"));
+    // built inside the repo, so the dependencies it leaves external resolve
+    const cacheDir = path.resolve("node_modules", ".cache");
+    await fs.mkdir(cacheDir, { recursive: true });
+    outDir = await fs.mkdtemp(path.join(cacheDir, "zephyrmq-cluster-"));
+    await build({ outDir, silent: true });
+    ({ ClusteredBroker: Built } = await import(
+      path.join(outDir, "cluster.mjs")
+    ));
+  }, 60_000);
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(dir, "data-"));
+  });
+
+  afterEach(async () => {
+    await broker?.close();
+    broker = undefined;
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+    await fs.rm(outDir, { recursive: true, force: true });
+  });
+
+  it("publishes and consumes through the worker a topic lives on", async () => {
+    const cluster = start();
+    expect(new Set(names.map((name) => cluster.getWorker(name))).size).toBe(2);
+
+    for (const name of names) {
+      const topic = await cluster.createTopic<{ topic: string }>(name);
+      const consumer = topic.createConsumer();
+      await topic.createProducer().publish([{ topic: name }]);
+
+      await vi.waitFor(async () => {
+        expect(await consumer.consume()).toEqual([{ topic: name }]);
+      });
+      expect(await consumer.ack()).toHaveLength(1);
+    }
+    expect((await cluster.listTopics()).sort()).toEqual([...names].sort());
+  });
+
+  it("keeps the topics of every worker across a restart", async () => {
+    const cluster = start();
+    for (const name of names) await cluster.createTopic(name);
+    await cluster.close();
+
+    expect((await start().listTopics()).sort()).toEqual([...names].sort());
+    const topic = broker!.topic<string>("payments");
+    const consumer = topic.createConsumer();
+    await topic.createProducer().publish(["paid"]);
+    await vi.waitFor(async () => {
+      expect(await consumer.consume()).toEqual(["paid"]);
+    });
+  });
+
+  it("refuses to start from source", () => {
+    expect(() => new ClusteredBroker({ workers: 1 })).toThrow(
+      "ClusteredBroker runs from the build"
+    );
+  });
+});
@@ -0,0 +1,224 @@
+import { InMemoryKeyValueStore } from "@zephyrmq/pds";
+import os from "node:os";
+import path from "node:path";
+import { MessageChannel, Worker, type MessagePort } from "node:worker_threads";
+import { PersistedMapFactory, type ITopicConfig } from "..";
+import type { WorkerRequest, WorkerResponse } from "../codec/thread/pool";
+import {
+  InMemoryHashRing,
+  SHA256HashService,
+  type IHashRing,
+} from "../hash_ring";
+import { DEFAULT_MAX_FRAME_BYTES, FrameReader } from "./protocol";
+import { FrameClient, type RemoteTopic } from "./tcp_client";
+
+// next to this module, cluster_worker.mjs once `pnpm build` bundled both into dist/server.
+// Run from source it is cluster_worker.ts, which worker threads can't load
+export const CLUSTER_WORKER_PATH = path.join(
+  import.meta.dirname,
+  `cluster_worker${path.extname(import.meta.filename)}`
+);
+
+export interface IClusteredBrokerConfig {
+  workers?: number; // os.availableParallelism() default
+  pinned?: Record<string, number>; // topic -> worker index, a worker with pinned topics serves nothing else
+  dataDir?: string; // "./data" default, worker i keeps its broker in <dataDir>/workers/<i>
+  persistThresholdMs?: number; // 1000 default
+  topicDefaults?: ITopicConfig;
+  maxFrameBytes?: number; // 16 MB default
+  requestTimeoutMs?: number; // 30_000 default
+}
+
+// handed to every worker, has to survive structured cloning
+export interface IClusterWorkerData {
+  port: MessagePort;
+  dataDir: string;
+  persistThresholdMs?: number;
+  topicDefaults?: ITopicConfig;
+  maxFrameBytes?: number;
+  requestTimeoutMs?: number;
+}
+
+export interface IClusteredBroker {
+  createTopic<Data>(
+    name: string,
+    config?: ITopicConfig
+  ): Promise<RemoteTopic<Data>>;
+  topic<Data>(name: string): RemoteTopic<Data>;
+  deleteTopic(name: string): Promise<void>;
+  listTopics(): Promise<string[]>;
+  getWorker(topic: string): number;
+  close(): Promise<void>;
+}
+
+// every worker thread runs its own Broker, a topic lives on the worker its name hashes to.
+// Assignment only depends on the worker count and the pins, keep both stable across restarts
+export class ClusteredBroker implements IClusteredBroker {
+  private workers: ClusterWorker[] = [];
+  private pinned: Map<string, number>;
+  private ring: IHashRing;
+
+  constructor(config: IClusteredBrokerConfig = {}) {
+    const {
+      workers = os.availableParallelism(),
+      pinned = {},
+      dataDir = "./data",
+      ...workerConfig
+    } = config;
+
+    if (path.extname(CLUSTER_WORKER_PATH) === ".ts") {
+      throw new Error(
+        "ClusteredBroker runs from the build, `pnpm build` first"
+      );
+    }
+
+    this.pinned = new Map(Object.entries(pinned));
+    const dedicated = new Set(this.pinned.values());
+    for (const index of dedicated) {
+      if (!Number.isInteger(index) || index < 0 || index >= workers) {
+        throw new Error(`Pinned worker ${index} is out of range`);
+      }
+    }
+    if (dedicated.size >= workers) {
+      throw new Error("No worker is left for unpinned topics");
+    }
+
+    this.ring = new InMemoryHashRing(
+      new SHA256HashService(),
+      new PersistedMapFactory(new InMemoryKeyValueStore()),
+      "workers"
+    );
+
+    for (let i = 0; i < workers; i++) {
+      if (!dedicated.has(i)) this.ring.addNode(i);
+      this.workers.push(
+        new ClusterWorker(CLUSTER_WORKER_PATH, {
+          ...workerConfig,
+          dataDir: path.join(dataDir, "workers", String(i)),
+        })
+      );
+    }
+  }
+
+  async createTopic<Data>(name: string, config: ITopicConfig = {}) {
+    await this.route(name).call("createTopic", name, config);
+    return this.topic<Data>(name);
+  }
+
+  topic<Data>(name: string) {
+    return this.route(name).topic<Data>(name);
+  }
+
+  async deleteTopic(name: string) {
+    await this.route(name).call("deleteTopic", name);
+  }
+
+  async listTopics() {
+    const lists = await Promise.all(
+      this.workers.map((worker) => worker.call<string[]>("listTopics"))
+    );
+    return lists.flat();
+  }
+
+  getWorker(topic: string) {
+    return this.pinned.get(topic) ?? this.ring.getNode(topic).next().value!;
+  }
+
+  async close() {
+    await Promise.all(this.workers.map((worker) => worker.close()));
+  }
+
+  private route(topic: string) {
+    return this.workers[this.getWorker(topic)];
+  }
+}
+
+// client frames go over a dedicated port, topic management over the worker itself
+class ClusterWorker extends FrameClient {
+  private worker: Worker;
+  private port: MessagePort;
+  private reader: FrameReader;
+  private calls = new Map<
+    number,
+    { resolve: (value: any) => void; reject: (err: Error) => void }
+  >();
+  private nextCallId = 0;
+  private exited = false;
+
+  constructor(
+    workerPath: string,
+    workerData: Omit<IClusterWorkerData, "port">
+  ) {
+    super(workerData.requestTimeoutMs);
+    this.reader = new FrameReader(
+      workerData.maxFrameBytes ?? DEFAULT_MAX_FRAME_BYTES
+    );
+
+    const { port1, port2 } = new MessageChannel();
+    this.port = port1;
+    this.port.on("message", this.onMessage);
+
+    this.worker = new Worker(workerPath, {
+      workerData: { ...workerData, port: port2 },
+      transferList: [port2],
+    });
+    this.worker.on("message", (response: WorkerResponse) => {
+      const call = this.calls.get(response.id);
+      if (!call) return;
+
+      this.calls.delete(response.id);
+      if (response.error) call.reject(new Error(response.error));
+      else call.resolve(response.result);
+    });
+    this.worker.on("error", (cause) => {
+      this.fail(new Error("Worker failed", { cause }));
+    });
+    this.worker.once("exit", () => this.fail(new Error("Worker exited")));
+  }
+
+  call<T>(method: string, ...args: unknown[]) {
+    return new Promise<T>((resolve, reject) => {
+      if (this.exited) return reject(new Error("Worker exited"));
+
+      const id = this.nextCallId++;
+      this.calls.set(id, { resolve, reject });
+      this.worker.postMessage({ id, method, args } as WorkerRequest);
+    });
+  }
+
+  async close() {
+    if (this.exited) return;
+    await this.call("close");
+    await this.worker.terminate();
+  }
+
+  protected isConnected() {
+    return !this.exited;
+  }
+
+  protected write(frame: Buffer) {
+    this.port.postMessage(frame);
+  }
+
+  // every port message is one whole frame
+  private onMessage = (data: Uint8Array) => {
+    try {
+      const chunk = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+      for (const frame of this.reader.push(chunk)) {
+        this.dispatch(frame);
+      }
+    } catch {
+      this.worker.terminate();
+    }
+  };
+
+  private fail(err: Error) {
+    if (this.exited) return;
+    this.exited = true;
+    this.port.close();
+
+    for (const { reject } of this.calls.values()) reject(err);
+    this.calls.clear();
+    this.onClose();
+  }
+}
@@ -0,0 +1,68 @@
+import { parentPort, workerData } from "node:worker_threads";
+import { Broker } from "..";
+import type { WorkerRequest } from "../codec/thread/pool";
+import type { IClusterWorkerData } from "./cluster";
+import { DEFAULT_MAX_FRAME_BYTES, FrameReader } from "./protocol";
+import { BrokerSession } from "./tcp_server";
+
+// runs the topics ClusteredBroker assigned to this worker
+const { port, maxFrameBytes, requestTimeoutMs, ...brokerConfig } =
+  workerData as IClusterWorkerData;
+
+const broker = new Broker(brokerConfig);
+const reader = new FrameReader(maxFrameBytes ?? DEFAULT_MAX_FRAME_BYTES);
+const session = new BrokerSession(
+  broker.topics,
+  (frame) => port.postMessage(frame),
+  requestTimeoutMs
+);
+
+// every port message is one whole frame, a broken stream ends the worker like
+// ClusterWorker terminates it on the other side
+port.on("message", (data: Uint8Array) => {
+  try {
+    const chunk = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+    for (const frame of reader.push(chunk)) {
+      session.dispatch(frame);
+    }
+  } catch {
+    session.close();
+    port.close();
+    broker.close().finally(() => process.exit(1));
+  }
+});
+
+parentPort?.on("message", async ({ id, method, args }: WorkerRequest) => {
+  try {
+    parentPort!.postMessage({ id, result: await handle(method, args) });
+  } catch (err) {
+    parentPort!.postMessage({ id, error: (err as Error).message });
+  }
+});
+
+async function handle(method: string, args: any[]) {
+  // topics kept in dataDir are back before any is created or listed
+  await broker.ready;
+
+  switch (method) {
+    case "createTopic": {
+      const [name, config] = args;
+      broker.topics.create(name, config);
+      return true;
+    }
+    case "deleteTopic": {
+      const [name] = args;
+      await broker.topics.delete(name);
+      return true;
+    }
+    case "listTopics":
+      return Array.from(broker.topics.list());
+    case "close":
+      session.close();
+      port.close();
+      await broker.close();
+      return true;
+    default:
+      throw new Error(`Unknown method: ${method}`);
+  }
+}
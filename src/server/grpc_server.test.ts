@@ -0,0 +1,199 @@
+import * as grpc from "@grpc/grpc-js";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { IConsumer, IProducer, ITopic, ITopicRegistry } from "..";
+import {
+  TopicServiceClient,
+  type ConsumerResponse,
+  type ProducerResponse,
+} from "../generated/broker";
+import { GrpcBrokerServer } from "./grpc_server";
+
+// just enough of a topic to follow messages through produce, consume and ack
+class MemoryTopic {
+  messages: { id: number; data: unknown }[] = [];
+  pending = new Map<number, number[]>();
+  clients = new Set<number>();
+  private nextId = 1;
+
+  createProducer(): IProducer<unknown> {
+    const id = this.nextId++;
+    this.clients.add(id);
+    return {
+      id,
+      publish: async (batch) =>
+        batch.map((data) => {
+          const message = { id: this.nextId++, data };
+          this.messages.push(message);
+          return { id: message.id, status: "success", ts: Date.now() };
+        }),
+    };
+  }
+
+  createConsumer(config: { limit?: number }): Partial<IConsumer<unknown>> {
+    const id = this.nextId++;
+    this.clients.add(id);
+    this.pending.set(id, []);
+    return {
+      id,
+      consume: async () => {
+        const batch = this.messages.splice(0, config.limit ?? 1);
+        this.pending.get(id)!.push(...batch.map((m) => m.id));
+        return batch.map((m) => m.data);
+      },
+      ack: async () => this.pending.get(id)!.splice(0),
+      unsubscribe: () => {},
+    };
+  }
+
+  deleteClient(id: number) {
+    this.clients.delete(id);
+  }
+}
+
+class MemoryTopicRegistry {
+  topics = new Map<string, MemoryTopic>();
+
+  create(name: string) {
+    this.topics.set(name, new MemoryTopic());
+  }
+
+  get(name: string) {
+    return this.topics.get(name) as ITopic<any> | undefined;
+  }
+}
+
+describe("GrpcBrokerServer", () => {
+  let registry: MemoryTopicRegistry;
+  let server: GrpcBrokerServer;
+  let client: TopicServiceClient;
+
+  const unary = <Res>(
+    call: (cb: (err: grpc.ServiceError | null, res: Res) => void) => void
+  ) =>
+    new Promise<Res>((resolve, reject) => {
+      call((err, res) => (err ? reject(err) : resolve(res)));
+    });
+
+  const produce = (topic: string, batch: unknown[]) =>
+    unary<ProducerResponse>((cb) => {
+      const call = client.produce(cb);
+      for (const message of batch) {
+        call.write({
+          topic,
+          data: Buffer.from(JSON.stringify(message)),
+          metadata: undefined,
+        });
+      }
+      call.end();
+    });
+
+  const consume = (topic: string, consumerId: number) =>
+    new Promise<unknown[]>((resolve, reject) => {
+      const messages: unknown[] = [];
+      const call = client.consume({ topic, consumerId, subscribe: false });
+      call.on("data", (res: ConsumerResponse) => {
+        messages.push(JSON.parse(Buffer.from(res.data).toString("utf8")));
+      });
+      call.on("end", () => resolve(messages));
+      call.on("error", reject);
+    });
+
+  const createConsumer = (topic: string, limit: number) =>
+    unary<{ consumerId: number }>((cb) =>
+      client.createConsumer({ topic, limit, noAck: false, routingKeys: [] }, cb)
+    );
+
+  beforeEach(async () => {
+    registry = new MemoryTopicRegistry();
+    registry.create("orders");
+    registry.create("payments");
+
+    server = new GrpcBrokerServer(registry as unknown as ITopicRegistry, {
+      host: "127.0.0.1",
+      port: 0,
+    });
+    const port = await server.listen();
+    client = new TopicServiceClient(
+      `127.0.0.1:${port}`,
+      grpc.credentials.createInsecure()
+    );
+  });
+
+  afterEach(async () => {
+    client.close();
+    await server.close();
+  });
+
+  it("produces, consumes and acks through the generated client", async () => {
+    const produced = await produce("orders", [{ n: 1 }, { n: 2 }]);
+    expect(produced.ids).toHaveLength(2);
+    expect(produced.errors).toEqual([]);
+
+    const { consumerId } = await createConsumer("orders", 2);
+    expect(await consume("orders", consumerId)).toEqual([{ n: 1 }, { n: 2 }]);
+
+    const acked = await unary<{ ids: number[] }>((cb) =>
+      client.ack({ topic: "orders", consumerId }, cb)
+    );
+    expect(acked.ids).toEqual(produced.ids);
+  });
+
+  it("releases the producers once the stream ends", async () => {
+    await produce("orders", [{ n: 1 }]);
+    expect(registry.topics.get("orders")!.clients.size).toBe(0);
+  });
+
+  it("releases the producers when the stream is cancelled", async () => {
+    const orders = registry.topics.get("orders")!;
+    const call = client.produce(() => {});
+    call.write({
+      topic: "orders",
+      data: Buffer.from(JSON.stringify({ n: 1 })),
+      metadata: undefined,
+    });
+    await expect.poll(() => orders.messages.length).toBe(1);
+
+    call.cancel();
+    await expect.poll(() => orders.clients.size).toBe(0);
+  });
+
+  it("fails the whole stream on the first bad request", async () => {
+    const error = await produce("missing", [{ n: 1 }]).catch((err) => err);
+    expect(error.code).toBe(grpc.status.NOT_FOUND);
+
+    const invalid = await unary<ProducerResponse>((cb) => {
+      const call = client.produce(cb);
+      call.write({
+        topic: "orders",
+        data: Buffer.from("{"),
+        metadata: undefined,
+      });
+      call.write({
+        topic: "orders",
+        data: Buffer.from(JSON.stringify({ n: 2 })),
+        metadata: undefined,
+      });
+      call.end();
+    }).catch((err) => err);
+    expect(invalid.code).toBe(grpc.status.INVALID_ARGUMENT);
+    expect(registry.topics.get("orders")!.messages).toEqual([]);
+  });
+
+  it("keeps consumers on the topic they were created on", async () => {
+    const { consumerId } = await createConsumer("orders", 1);
+
+    const error = await consume("payments", consumerId).catch((err) => err);
+    expect(error.code).toBe(grpc.status.NOT_FOUND);
+  });
+
+  it("deletes consumers on request", async () => {
+    const { consumerId } = await createConsumer("orders", 1);
+    await unary((cb) =>
+      client.deleteConsumer({ topic: "orders", consumerId }, cb)
+    );
+
+    expect(registry.topics.get("orders")!.clients.has(consumerId)).toBe(false);
+    const error = await consume("orders", consumerId).catch((err) => err);
+    expect(error.code).toBe(grpc.status.NOT_FOUND);
+  });
+});
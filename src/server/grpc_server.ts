@@ -0,0 +1,403 @@
+import * as grpc from "@grpc/grpc-js";
+import * as protoLoader from "@grpc/proto-loader";
+import path from "node:path";
+import type {
+  IConsumer,
+  IConsumerConfig,
+  ILogCollector,
+  IProducer,
+  ITopicRegistry,
+  MetadataInput,
+} from "..";
+
+export const BROKER_PROTO_PATH = path.join(
+  import.meta.dirname,
+  "../proto/broker.proto"
+);
+
+// messages as loaded by proto-loader (camelCase, longs as numbers)
+interface IProducerRequest {
+  topic: string;
+  data: Buffer;
+  metadata?: {
+    correlationId?: string;
+    priority?: number;
+    ttl?: number;
+    ttd?: number;
+    dedupId?: string;
+  };
+}
+interface IProducerResponse {
+  ids: number[];
+  errors: { id: number; error: string }[];
+}
+interface ICreateConsumerRequest {
+  topic: string;
+  limit: number;
+  noAck: boolean;
+  groupId?: string;
+  routingKeys: string[];
+  partition?: number;
+}
+interface IDeleteConsumerRequest {
+  topic: string;
+  consumerId: number;
+}
+interface IConsumerRequest {
+  topic: string;
+  consumerId: number;
+  subscribe: boolean;
+}
+interface IConsumerResponse {
+  consumerId: number;
+  data: Buffer;
+}
+interface IAckRequest {
+  topic: string;
+  consumerId: number;
+  messageId?: number;
+}
+interface INackRequest extends IAckRequest {
+  requeue: boolean;
+}
+interface IDlqReplayRequest {
+  topic: string;
+  since?: number;
+}
+
+export function loadBrokerProto() {
+  const definition = protoLoader.loadSync(BROKER_PROTO_PATH, {
+    longs: Number,
+    defaults: true,
+    oneofs: true,
+  });
+
+  const { broker } = grpc.loadPackageDefinition(definition) as {
+    broker: { TopicService: grpc.ServiceClientConstructor };
+  };
+
+  return broker;
+}
+
+class TopicServiceError extends Error {
+  constructor(
+    public readonly code: grpc.status,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+// maps TopicService rpcs onto Topic/Producer/Consumer/DLQConsumer
+export class GrpcTopicService {
+  // consumers outlive the rpc that created them so Ack/Nack can reach them
+  private consumers = new Map<
+    number,
+    { topic: string; consumer: IConsumer<unknown> }
+  >();
+
+  constructor(
+    private readonly topicRegistry: ITopicRegistry,
+    private readonly logger?: ILogCollector
+  ) {}
+
+  Produce: grpc.handleClientStreamingCall<IProducerRequest, IProducerResponse> =
+    (call, callback) => {
+      const producers = new Map<string, IProducer<unknown>>();
+      const response: IProducerResponse = { ids: [], errors: [] };
+      // the first failure fails the call, later requests are skipped
+      let failure: unknown;
+      let chain = Promise.resolve();
+
+      const release = () => {
+        for (const [name, producer] of producers) {
+          this.topicRegistry.get(name)?.deleteClient(producer.id);
+        }
+        producers.clear();
+      };
+
+      call.on("data", (req: IProducerRequest) => {
+        // publish in stream order
+        chain = chain
+          .then(async () => {
+            if (failure) return;
+            if (!producers.has(req.topic)) {
+              const topic = this.getTopic(req.topic);
+              producers.set(req.topic, topic.createProducer());
+            }
+
+            const [result] = await producers
+              .get(req.topic)!
+              .publish([this.parse(req.data)], this.toMetadata(req.metadata));
+
+            if (result.status === "success") response.ids.push(result.id);
+            else response.errors.push({ id: result.id, error: result.error! });
+          })
+          .catch((err) => {
+            failure ??= err;
+          });
+      });
+
+      call.on("cancelled", () => {
+        failure ??= new Error("Cancelled");
+        chain.then(release);
+      });
+
+      call.on("end", () => {
+        chain.then(() => {
+          release();
+          if (failure) callback(this.toServiceError(failure));
+          else callback(null, response);
+        });
+      });
+    };
+
+  CreateConsumer: grpc.handleUnaryCall<
+    ICreateConsumerRequest,
+    { consumerId: number }
+  > = async (call, callback) => {
+    try {
+      const { topic, groupId, routingKeys, limit, noAck, partition } =
+        call.request;
+      const config: IConsumerConfig = {
+        groupId,
+        routingKeys: routingKeys.length ? routingKeys : undefined,
+        limit: limit || undefined,
+        noAck,
+        partition,
+      };
+
+      const consumer = this.getTopic(topic).createConsumer(config);
+      this.consumers.set(consumer.id, { topic, consumer });
+      this.logger?.log("grpc_consumer_created", { id: consumer.id });
+      callback(null, { consumerId: consumer.id });
+    } catch (err) {
+      callback(this.toServiceError(err));
+    }
+  };
+
+  DeleteConsumer: grpc.handleUnaryCall<IDeleteConsumerRequest, object> = async (
+    call,
+    callback
+  ) => {
+    try {
+      const { topic, consumerId } = call.request;
+      this.getConsumer(topic, consumerId).unsubscribe();
+      this.getTopic(topic).deleteClient(consumerId);
+      this.consumers.delete(consumerId);
+      callback(null, {});
+    } catch (err) {
+      callback(this.toServiceError(err));
+    }
+  };
+
+  Consume: grpc.handleServerStreamingCall<IConsumerRequest, IConsumerResponse> =
+    async (call) => {
+      try {
+        const { topic, consumerId } = call.request;
+        const consumer = this.getConsumer(topic, consumerId);
+        const write = (message: unknown) => {
+          call.write({
+            consumerId: consumer.id,
+            data: this.stringify(message),
+          });
+        };
+
+        if (call.request.subscribe) {
+          consumer.subscribe(async (message) => write(message));
+          call.on("cancelled", () => consumer.unsubscribe());
+          return;
+        }
+
+        for (const message of await consumer.consume()) {
+          write(message);
+        }
+
+        call.end();
+      } catch (err) {
+        call.emit("error", this.toServiceError(err));
+      }
+    };
+
+  Ack: grpc.handleUnaryCall<IAckRequest, { ids: number[] }> = async (
+    call,
+    callback
+  ) => {
+    try {
+      const { topic, consumerId, messageId } = call.request;
+      const ids = await this.getConsumer(topic, consumerId).ack(messageId);
+      callback(null, { ids });
+    } catch (err) {
+      callback(this.toServiceError(err));
+    }
+  };
+
+  Nack: grpc.handleUnaryCall<INackRequest, { count: number }> = async (
+    call,
+    callback
+  ) => {
+    try {
+      const { topic, consumerId, messageId, requeue } = call.request;
+      const count = await this.getConsumer(topic, consumerId).nack(
+        messageId,
+        requeue
+      );
+      callback(null, { count });
+    } catch (err) {
+      callback(this.toServiceError(err));
+    }
+  };
+
+  ReplayDlq: grpc.handleUnaryCall<IDlqReplayRequest, { count: number }> =
+    async (call, callback) => {
+      const { topic: name, since = 0 } = call.request;
+
+      try {
+        const topic = this.getTopic(name);
+        const dlqConsumer = topic.createDLQConsumer();
+        const producer = topic.createProducer();
+
+        try {
+          const count = await dlqConsumer.replayDlq(
+            async (message, meta) => {
+              const [result] = await producer.publish([message], {
+                priority: meta.priority,
+                correlationId: meta.correlationId,
+              });
+              // keeps the entry in the DLQ
+              if (result.status === "error") throw new Error(result.error);
+            },
+            (meta) => meta.ts >= since
+          );
+
+          callback(null, { count });
+        } finally {
+          topic.deleteClient(dlqConsumer.id);
+          topic.deleteClient(producer.id);
+        }
+      } catch (err) {
+        callback(this.toServiceError(err));
+      }
+    };
+
+  // a consumer is only reachable through the topic it was created on
+  private getConsumer(topic: string, id: number) {
+    const entry = this.consumers.get(id);
+    if (!entry || entry.topic !== topic) {
+      throw new TopicServiceError(
+        grpc.status.NOT_FOUND,
+        `Consumer ${id} not found`
+      );
+    }
+    return entry.consumer;
+  }
+
+  private getTopic(name: string) {
+    let topic;
+    try {
+      topic = this.topicRegistry.get(name);
+    } catch (err) {
+      throw new TopicServiceError(grpc.status.NOT_FOUND, `${err}`);
+    }
+    if (!topic) {
+      throw new TopicServiceError(
+        grpc.status.NOT_FOUND,
+        `Topic ${name} not found`
+      );
+    }
+    return topic;
+  }
+
+  // unset message fields arrive as null
+  private toMetadata(options: IProducerRequest["metadata"] | null) {
+    const { correlationId, priority, ttl, ttd, dedupId } = options ?? {};
+    return { correlationId, priority, ttl, ttd, dedupId } as MetadataInput;
+  }
+
+  private parse(data: Buffer): unknown {
+    try {
+      return JSON.parse(data.toString("utf8"));
+    } catch {
+      throw new TopicServiceError(
+        grpc.status.INVALID_ARGUMENT,
+        "Message data must be UTF-8 JSON"
+      );
+    }
+  }
+
+  private stringify(message: unknown) {
+    return Buffer.from(JSON.stringify(message), "utf8");
+  }
+
+  private toServiceError(err: unknown): Partial<grpc.StatusObject> {
+    if (err instanceof TopicServiceError) {
+      return { code: err.code, details: err.message };
+    }
+
+    const details = err instanceof Error ? err.message : "Unknown error";
+    this.logger?.log("grpc_call_failed", { details }, "error");
+    return { code: grpc.status.INTERNAL, details };
+  }
+}
+
+export interface IGrpcBrokerServerConfig {
+  host?: string; // "0.0.0.0" default
+  port?: number; // 50051 default, 0 picks a free port
+}
+
+export interface IGrpcBrokerServer {
+  listen(): Promise<number>;
+  close(): Promise<void>;
+}
+export class GrpcBrokerServer implements IGrpcBrokerServer {
+  private server = new grpc.Server();
+
+  constructor(
+    topicRegistry: ITopicRegistry,
+    private readonly config: IGrpcBrokerServerConfig = {},
+    private readonly logger?: ILogCollector
+  ) {
+    const { TopicService } = loadBrokerProto();
+    const {
+      Produce,
+      CreateConsumer,
+      DeleteConsumer,
+      Consume,
+      Ack,
+      Nack,
+      ReplayDlq,
+    } = new GrpcTopicService(topicRegistry, logger);
+
+    this.server.addService(TopicService.service, {
+      Produce,
+      CreateConsumer,
+      DeleteConsumer,
+      Consume,
+      Ack,
+      Nack,
+      ReplayDlq,
+    });
+  }
+
+  listen() {
+    const { host = "0.0.0.0", port = 50051 } = this.config;
+
+    return new Promise<number>((resolve, reject) => {
+      this.server.bindAsync(
+        `${host}:${port}`,
+        grpc.ServerCredentials.createInsecure(),
+        (err, boundPort) => {
+          if (err) return reject(err);
+          this.logger?.log("gRPC server listening", { host, port: boundPort });
+          resolve(boundPort);
+        }
+      );
+    });
+  }
+
+  close() {
+    return new Promise<void>((resolve) => {
+      this.server.tryShutdown(() => resolve());
+    });
+  }
+}
@@ -0,0 +1,125 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Broker } from "..";
+import { HttpGateway } from "./http_gateway";
+
+const quiet = { info() {}, warn() {}, error() {} };
+
+describe("HttpGateway", () => {
+  let dir: string;
+  let broker: Broker;
+  let gateway: HttpGateway;
+  let baseUrl: string;
+
+  const request = async (method: string, url: string, body?: unknown) => {
+    const res = await fetch(`${baseUrl}${url}`, {
+      method,
+      headers: { "content-type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return { status: res.status, body: await res.json() };
+  };
+
+  const createConsumer = async (topic: string) => {
+    const { body } = await request("POST", `/topics/${topic}/consumers`, {
+      limit: 10,
+    });
+    return body.id as number;
+  };
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "zephyrmq-http-"));
+    broker = new Broker({ dataDir: dir, logger: quiet });
+    await broker.ready;
+    broker.topics.create("orders", {});
+    broker.topics.create("payments", {});
+
+    gateway = new HttpGateway(broker.topics, broker.schemas, {
+      host: "127.0.0.1",
+      port: 0,
+    });
+    const { port } = await gateway.listen();
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterEach(async () => {
+    await gateway.close();
+    await broker.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("creates a consumer, polls and acks what was published", async () => {
+    const id = await createConsumer("orders");
+
+    const published = await request("POST", "/topics/orders/messages", [
+      { amount: 1 },
+      { amount: 2 },
+    ]);
+    expect(published.status).toBe(200);
+    expect(published.body).toEqual([
+      expect.objectContaining({ status: "success" }),
+      expect.objectContaining({ status: "success" }),
+    ]);
+
+    const consumed: unknown[] = [];
+    await vi.waitFor(async () => {
+      const { body } = await request(
+        "GET",
+        `/topics/orders/messages?consumer=${id}`
+      );
+      consumed.push(...body);
+      expect(consumed).toHaveLength(2);
+    });
+    expect(consumed).toEqual(
+      expect.arrayContaining([{ amount: 1 }, { amount: 2 }])
+    );
+
+    const acked = await request(
+      "POST",
+      `/topics/orders/messages/ack?consumer=${id}`
+    );
+    expect(acked.body.ids.sort()).toEqual(
+      published.body.map(({ id }: { id: number }) => id).sort()
+    );
+  });
+
+  it("deletes a consumer once, on the topic it was created on", async () => {
+    const id = await createConsumer("orders");
+
+    expect(await request("DELETE", `/topics/payments/consumers/${id}`)).toEqual(
+      { status: 404, body: { error: `Consumer ${id} not found` } }
+    );
+    expect(await request("DELETE", `/topics/orders/consumers/${id}`)).toEqual({
+      status: 200,
+      body: {},
+    });
+    expect(await request("DELETE", `/topics/orders/consumers/${id}`)).toEqual({
+      status: 404,
+      body: { error: `Consumer ${id} not found` },
+    });
+    expect(
+      (await request("GET", `/topics/orders/messages?consumer=${id}`)).status
+    ).toBe(404);
+  });
+
+  it("doesn't delete clients it didn't create", async () => {
+    const consumer = broker.topics.get("orders")!.createConsumer({});
+
+    expect(
+      await request("DELETE", `/topics/orders/consumers/${consumer.id}`)
+    ).toEqual({
+      status: 404,
+      body: { error: `Consumer ${consumer.id} not found` },
+    });
+    expect(
+      (await broker.topics.get("orders")!.getMetrics()).clients.consumersCount
+    ).toBe(1);
+  });
+
+  it("answers 404 for unknown topics", async () => {
+    const { status } = await request("POST", "/topics/refunds/consumers", {});
+    expect(status).toBe(404);
+  });
+});
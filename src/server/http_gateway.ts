@@ -0,0 +1,361 @@
+import type { JSONSchemaType } from "ajv";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import type {
+  IConsumer,
+  IConsumerConfig,
+  IDLQConsumer,
+  ILogCollector,
+  IProducer,
+  ISchemaRegistry,
+  ITopicRegistry,
+  MetadataInput,
+} from "..";
+
+export interface IHttpGatewayConfig {
+  host?: string; // "0.0.0.0" default
+  port?: number; // 8080 default
+  maxBodyBytes?: number; // 1 MB default
+  heartbeatMs?: number; // sse keep-alive comments, 15_000 default
+}
+
+interface IRouteContext {
+  req: http.IncomingMessage;
+  res: http.ServerResponse;
+  params: string[];
+  query: URLSearchParams;
+}
+type IRouteHandler = (ctx: IRouteContext) => Promise<unknown>;
+
+class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+// metadata travels in headers so the body stays the raw message batch
+const METADATA_HEADERS = {
+  priority: "x-priority",
+  correlationId: "x-correlation-id",
+  ttl: "x-ttl",
+  ttd: "x-ttd",
+  dedupId: "x-dedup-id",
+} as const;
+
+export interface IHttpGateway {
+  listen(): Promise<AddressInfo>;
+  close(): Promise<void>;
+}
+export class HttpGateway implements IHttpGateway {
+  private server: http.Server;
+  private routes: [string, RegExp, IRouteHandler][] = [];
+  private producers = new Map<string, IProducer<unknown>>();
+  private consumers = new Map<
+    number,
+    { topic: string; consumer: IConsumer<unknown> }
+  >();
+  private dlqConsumers = new Map<
+    string,
+    { limit?: number; consumer: IDLQConsumer<unknown> }
+  >();
+  private streams = new Set<http.ServerResponse>();
+
+  constructor(
+    private readonly topicRegistry: ITopicRegistry,
+    private readonly schemaRegistry: ISchemaRegistry,
+    private readonly config: IHttpGatewayConfig = {},
+    private readonly logger?: ILogCollector
+  ) {
+    this.server = http.createServer(this.onRequest);
+
+    // topics
+    this.route("POST", "/topics/:name/messages", this.publish);
+    this.route("GET", "/topics/:name/messages", this.consume);
+    this.route("POST", "/topics/:name/messages/ack", this.ack);
+    this.route("POST", "/topics/:name/messages/nack", this.nack);
+    this.route("GET", "/topics/:name/stream", this.stream);
+    this.route("POST", "/topics/:name/consumers", this.createConsumer);
+    this.route("DELETE", "/topics/:name/consumers/:id", this.deleteConsumer);
+    // admin
+    this.route("GET", "/admin/topics/:name/metrics", this.getMetrics);
+    this.route("GET", "/admin/topics/:name/dlq", this.readDlq);
+    this.route("GET", "/admin/schemas", this.listSchemas);
+    this.route("POST", "/admin/schemas", this.registerSchema);
+    this.route("DELETE", "/admin/schemas/:id", this.removeSchema);
+  }
+
+  listen() {
+    const { port = 8080, host = "0.0.0.0" } = this.config;
+
+    return new Promise<AddressInfo>((resolve, reject) => {
+      this.server.once("error", reject);
+      this.server.listen(port, host, () => {
+        this.server.off("error", reject);
+        const address = this.server.address() as AddressInfo;
+        this.logger?.log("HTTP gateway listening", address);
+        resolve(address);
+      });
+    });
+  }
+
+  close() {
+    for (const res of this.streams) res.end();
+
+    return new Promise<void>((resolve, reject) => {
+      this.server.close((err) => (err ? reject(err) : resolve()));
+    });
+  }
+
+  private route(method: string, pattern: string, handler: IRouteHandler) {
+    const regex = new RegExp(
+      `^${pattern.replace(/:\w+/g, "([^/]+)")}$`.replace(/\//g, "\\/")
+    );
+    this.routes.push([method, regex, handler]);
+  }
+
+  private onRequest = async (
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+
+    try {
+      for (const [method, regex, handler] of this.routes) {
+        if (method !== req.method) continue;
+        const match = regex.exec(url.pathname);
+        if (!match) continue;
+
+        const params = match.slice(1).map(decodeURIComponent);
+        const result = await handler({
+          req,
+          res,
+          params,
+          query: url.searchParams,
+        });
+        // streaming handlers own the response
+        if (!res.headersSent) this.send(res, 200, result ?? {});
+        return;
+      }
+
+      throw new HttpError(404, "Route not found");
+    } catch (err) {
+      const status = err instanceof HttpError ? err.status : 500;
+      const error = err instanceof Error ? err.message : "Unknown error";
+      if (status === 500) {
+        this.logger?.log(
+          "HTTP request failed",
+          { url: req.url, error },
+          "error"
+        );
+      }
+      if (!res.headersSent) this.send(res, status, { error });
+      else res.end();
+    }
+  };
+
+  // routes
+
+  private publish: IRouteHandler = async ({ req, params: [name] }) => {
+    const body = await this.readBody(req);
+    const batch = Array.isArray(body) ? body : [body];
+
+    if (!this.producers.has(name)) {
+      this.producers.set(name, this.getTopic(name).createProducer());
+    }
+
+    return this.producers.get(name)!.publish(batch, this.toMetadata(req));
+  };
+
+  private consume: IRouteHandler = async ({ params: [name], query }) => {
+    return this.getConsumer(name, query).consume();
+  };
+
+  private ack: IRouteHandler = async ({ params: [name], query }) => {
+    const ids = await this.getConsumer(name, query).ack(
+      this.toInt(query, "message")
+    );
+    return { ids };
+  };
+
+  private nack: IRouteHandler = async ({ params: [name], query }) => {
+    const requeue = query.get("requeue") !== "false";
+    const count = await this.getConsumer(name, query).nack(
+      this.toInt(query, "message"),
+      requeue
+    );
+    return { count };
+  };
+
+  private stream: IRouteHandler = async ({
+    req,
+    res,
+    params: [name],
+    query,
+  }) => {
+    const consumer = this.getConsumer(name, query);
+    const { heartbeatMs = 15_000 } = this.config;
+
+    res.writeHead(200, {
+      "content-type": "text/event-stream",
+      "cache-control": "no-cache",
+      connection: "keep-alive",
+    });
+    this.streams.add(res);
+
+    consumer.subscribe(async (message) => {
+      res.write(`data: ${JSON.stringify(message)}\n\n`);
+    });
+
+    const heartbeat = setInterval(() => res.write(":\n\n"), heartbeatMs);
+    req.once("close", () => {
+      clearInterval(heartbeat);
+      consumer.unsubscribe();
+      this.streams.delete(res);
+    });
+  };
+
+  private createConsumer: IRouteHandler = async ({ req, params: [name] }) => {
+    const config = ((await this.readBody(req)) ?? {}) as IConsumerConfig;
+    const consumer = this.getTopic(name).createConsumer(config);
+    this.consumers.set(consumer.id, { topic: name, consumer });
+    return { id: consumer.id };
+  };
+
+  // only consumers created through the gateway, on the topic they were created on
+  private deleteConsumer: IRouteHandler = async ({ params: [name, id] }) => {
+    const consumerId = Number(id);
+    const entry = this.consumers.get(consumerId);
+    if (!entry || entry.topic !== name) {
+      throw new HttpError(404, `Consumer ${id} not found`);
+    }
+    entry.consumer.unsubscribe();
+    this.getTopic(name).deleteClient(consumerId);
+    this.consumers.delete(consumerId);
+  };
+
+  private getMetrics: IRouteHandler = async ({ params: [name] }) => {
+    return this.getTopic(name).getMetrics();
+  };
+
+  // one dlq consumer per topic, replaced when a request asks for another limit
+  private readDlq: IRouteHandler = async ({ params: [name], query }) => {
+    const limit = this.toInt(query, "limit");
+    const cached = this.dlqConsumers.get(name);
+    if (cached && cached.limit === limit) return cached.consumer.consume();
+
+    const topic = this.getTopic(name);
+    if (cached) topic.deleteClient(cached.consumer.id);
+    const consumer = topic.createDLQConsumer(limit);
+    this.dlqConsumers.set(name, { limit, consumer });
+    return consumer.consume();
+  };
+
+  private listSchemas: IRouteHandler = async () => {
+    return this.schemaRegistry.listSchemas();
+  };
+
+  private registerSchema: IRouteHandler = async ({ req }) => {
+    const body = (await this.readBody(req)) as
+      | { name?: unknown; schema?: unknown }
+      | undefined;
+    const { name, schema } = body ?? {};
+    if (
+      typeof name !== "string" ||
+      !name ||
+      !schema ||
+      typeof schema !== "object"
+    ) {
+      throw new HttpError(400, "name and schema required");
+    }
+
+    const id = await this.schemaRegistry.register(
+      name,
+      schema as JSONSchemaType<unknown>
+    );
+    return { id };
+  };
+
+  private removeSchema: IRouteHandler = async ({ params: [id] }) => {
+    await this.schemaRegistry.remove(id);
+  };
+
+  // helpers
+
+  private getTopic(name: string) {
+    let topic;
+    try {
+      topic = this.topicRegistry.get(name);
+    } catch (err) {
+      throw new HttpError(404, err instanceof Error ? err.message : `${err}`);
+    }
+    if (!topic) throw new HttpError(404, `Topic ${name} not found`);
+    return topic;
+  }
+
+  // a consumer is only reachable through the topic it was created on
+  private getConsumer(topic: string, query: URLSearchParams) {
+    const id = this.toInt(query, "consumer");
+    const entry = id ? this.consumers.get(id) : undefined;
+    if (!entry || entry.topic !== topic) {
+      throw new HttpError(404, `Consumer ${id} not found`);
+    }
+    return entry.consumer;
+  }
+
+  private toInt(query: URLSearchParams, key: string) {
+    const value = query.get(key);
+    if (value === null) return undefined;
+
+    const id = Number(value);
+    if (!Number.isInteger(id)) throw new HttpError(400, `Invalid ${key}`);
+    return id;
+  }
+
+  private toMetadata(req: http.IncomingMessage): MetadataInput {
+    const metadata: Record<string, string | number> = {};
+
+    for (const [key, header] of Object.entries(METADATA_HEADERS)) {
+      const value = req.headers[header];
+      if (typeof value !== "string") continue;
+      if (!["priority", "ttl", "ttd"].includes(key)) {
+        metadata[key] = value;
+        continue;
+      }
+
+      const number = Number(value);
+      if (!Number.isInteger(number))
+        throw new HttpError(400, `Invalid ${header}`);
+      metadata[key] = number;
+    }
+
+    return metadata as MetadataInput;
+  }
+
+  private async readBody(req: http.IncomingMessage): Promise<unknown> {
+    const { maxBodyBytes = 1024 * 1024 } = this.config;
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size > maxBodyBytes) throw new HttpError(413, "Body too large");
+      chunks.push(chunk);
+    }
+
+    if (!size) return undefined;
+
+    try {
+      return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+    } catch {
+      throw new HttpError(400, "Body must be JSON");
+    }
+  }
+
+  private send(res: http.ServerResponse, status: number, body: unknown) {
+    res.writeHead(status, { "content-type": "application/json" });
+    res.end(JSON.stringify(body));
+  }
+}
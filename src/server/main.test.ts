@@ -0,0 +1,108 @@
+import { spawn, type ChildProcess } from "node:child_process";
+import { once } from "node:events";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { build } from "tsdown";
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import { TcpBrokerClient } from "./tcp_client";
+
+// the built server as the bin runs it, with a broker on its own data directory
+describe("zephyrmq-server", { timeout: 20_000 }, () => {
+  let dir: string;
+  let outDir: string;
+  let server: ChildProcess | undefined;
+  let client: TcpBrokerClient | undefined;
+
+  const start = async () => {
+    server = spawn(process.execPath, [path.join(outDir, "main.mjs")], {
+      env: {
+        ...process.env,
+        ZEPHYRMQ_HOST: "127.0.0.1",
+        ZEPHYRMQ_PORT: "0",
+        ZEPHYRMQ_DATA_DIR: path.join(dir, "data"),
+        ZEPHYRMQ_TOPICS: "orders,payments",
+      },
+      stdio: ["ignore", "pipe", "inherit"],
+    });
+
+    let output = "";
+    server.stdout!.on("data", (chunk) => (output += chunk));
+    const port = await vi.waitFor(
+      () => {
+        const [, port] = output.match(/listening on [\d.]+:(\d+)/) ?? [];
+        if (!port) throw new Error("Server is not listening");
+        return Number(port);
+      },
+      { timeout: 10_000, interval: 50 }
+    );
+
+    client = new TcpBrokerClient({ port });
+    await client.connect();
+    return client;
+  };
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "zephyrmq-server-"));
+    // built inside the repo, so the dependencies it leaves external resolve
+    const cacheDir = path.resolve("node_modules", ".cache");
+    await fs.mkdir(cacheDir, { recursive: true });
+    outDir = await fs.mkdtemp(path.join(cacheDir, "zephyrmq-server-"));
+    await build({ outDir, silent: true });
+  }, 60_000);
+
+  afterEach(async () => {
+    await client?.close();
+    if (server && server.exitCode === null) {
+      const exited = once(server, "exit");
+      server.kill("SIGTERM");
+      await exited;
+    }
+    server = client = undefined;
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+    await fs.rm(outDir, { recursive: true, force: true });
+  });
+
+  it("publishes and consumes over tcp", async () => {
+    const topic = (await start()).topic<{ amount: number }>("orders");
+    const consumer = topic.createConsumer({ limit: 10 });
+    const producer = topic.createProducer();
+
+    const results = await producer.publish([{ amount: 1 }, { amount: 2 }]);
+    expect(results.map(({ status }) => status)).toEqual(["success", "success"]);
+
+    const consumed: { amount: number }[] = [];
+    await vi.waitFor(async () => {
+      consumed.push(...(await consumer.consume()));
+      expect(consumed).toEqual([{ amount: 1 }, { amount: 2 }]);
+    });
+    expect(await consumer.ack()).toHaveLength(2);
+  });
+
+  it("keeps its topics across a restart", async () => {
+    await start();
+    const exited = once(server!, "exit");
+    server!.kill("SIGTERM");
+    expect(await exited).toEqual([0, null]);
+    await client!.close();
+
+    // the topics are restored, creating them again would fail
+    const topic = (await start()).topic<string>("payments");
+    const consumer = topic.createConsumer();
+    await topic.createProducer().publish(["paid"]);
+    await vi.waitFor(async () => {
+      expect(await consumer.consume()).toEqual(["paid"]);
+    });
+  });
+});
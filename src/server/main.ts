@@ -0,0 +1,108 @@
+#!/usr/bin/env node
+import { once } from "node:events";
+import { Broker, BrokerReplica } from "..";
+import { GrpcBrokerServer } from "./grpc_server";
+import { HttpGateway } from "./http_gateway";
+import { ReplicationClient, ReplicationServer } from "./replication";
+import { TcpBrokerServer } from "./tcp_server";
+
+// zephyrmq-server
+// ZEPHYRMQ_HOST, ZEPHYRMQ_PORT, ZEPHYRMQ_DATA_DIR, ZEPHYRMQ_DB_PATH, ZEPHYRMQ_MAX_FRAME_BYTES
+// ZEPHYRMQ_TOPICS comma separated topics created on start if missing, clients can't create them
+// ZEPHYRMQ_GRPC_PORT enables the gRPC TopicService next to the tcp one
+// ZEPHYRMQ_HTTP_PORT enables the HTTP/SSE gateway
+// ZEPHYRMQ_REPLICATION_SOCKET lets replicas tail this broker over a local socket
+// ZEPHYRMQ_REPLICA_OF follows the primary at that socket until SIGUSR2 promotes it
+const { env } = process;
+const brokerConfig = {
+  dataDir: env.ZEPHYRMQ_DATA_DIR,
+  dbPath: env.ZEPHYRMQ_DB_PATH,
+};
+
+const broker = env.ZEPHYRMQ_REPLICA_OF
+  ? await follow(env.ZEPHYRMQ_REPLICA_OF)
+  : new Broker(brokerConfig);
+await broker.ready;
+const topics = new Set(broker.topics.list());
+for (const name of env.ZEPHYRMQ_TOPICS?.split(",") ?? []) {
+  if (!topics.has(name)) broker.topics.create(name, {});
+}
+
+const server = new TcpBrokerServer(broker.topics, {
+  host: env.ZEPHYRMQ_HOST,
+  port: env.ZEPHYRMQ_PORT ? Number(env.ZEPHYRMQ_PORT) : undefined,
+  maxFrameBytes: env.ZEPHYRMQ_MAX_FRAME_BYTES
+    ? Number(env.ZEPHYRMQ_MAX_FRAME_BYTES)
+    : undefined,
+});
+const grpcServer = env.ZEPHYRMQ_GRPC_PORT
+  ? new GrpcBrokerServer(broker.topics, {
+      host: env.ZEPHYRMQ_HOST,
+      port: Number(env.ZEPHYRMQ_GRPC_PORT),
+    })
+  : undefined;
+const httpGateway = env.ZEPHYRMQ_HTTP_PORT
+  ? new HttpGateway(broker.topics, broker.schemas, {
+      host: env.ZEPHYRMQ_HOST,
+      port: Number(env.ZEPHYRMQ_HTTP_PORT),
+    })
+  : undefined;
+const replicationServer = env.ZEPHYRMQ_REPLICATION_SOCKET
+  ? new ReplicationServer(broker.replication, {
+      socketPath: env.ZEPHYRMQ_REPLICATION_SOCKET,
+    })
+  : undefined;
+
+const shutdown = async () => {
+  await replicationServer?.close();
+  await httpGateway?.close();
+  await grpcServer?.close();
+  await server.close();
+  await broker.close();
+  process.exit(0);
+};
+
+process.once("SIGINT", shutdown);
+process.once("SIGTERM", shutdown);
+
+const { address, port } = await server.listen();
+console.info(`zephyrmq-server listening on ${address}:${port}`);
+
+if (grpcServer) {
+  const grpcPort = await grpcServer.listen();
+  console.info(`zephyrmq-server gRPC listening on ${grpcPort}`);
+}
+
+if (httpGateway) {
+  const { port: httpPort } = await httpGateway.listen();
+  console.info(`zephyrmq-server HTTP listening on ${httpPort}`);
+}
+
+if (replicationServer) {
+  await replicationServer.listen();
+  console.info(
+    `zephyrmq-server replication listening on ${env.ZEPHYRMQ_REPLICATION_SOCKET}`
+  );
+}
+
+// serves nothing while it follows, the promoted broker serves as a primary
+async function follow(socketPath: string) {
+  const replica = new BrokerReplica(brokerConfig);
+  const client = new ReplicationClient(replica, { socketPath });
+  const stop = async () => {
+    await client.close();
+    await replica.close();
+    process.exit(0);
+  };
+
+  process.once("SIGINT", stop);
+  process.once("SIGTERM", stop);
+  await client.connect();
+  console.info(`zephyrmq-server replicating ${socketPath}, SIGUSR2 promotes`);
+
+  await once(process, "SIGUSR2");
+  process.off("SIGINT", stop);
+  process.off("SIGTERM", stop);
+  console.info("zephyrmq-server promoted to primary");
+  return client.promote();
+}
@@ -0,0 +1,169 @@
+import type { IKeyValueChange } from "@zephyrmq/pds";
+import type { IWalEntry } from "@zephyrmq/wal";
+import { BinaryCodec } from "../codec/core/binary_codec";
+import type {
+  IConsumerConfig,
+  IDLQEntry,
+  IPublishResult,
+  ITopicConfig,
+  MessageMetadata,
+  MetadataInput,
+} from "..";
+
+// Frame layout: [length u32][op u8][requestId u32][payload]
+// length covers everything after itself, payload is msgpack via BinaryCodec
+export const FRAME_HEADER_SIZE = 9;
+export const DEFAULT_MAX_FRAME_BYTES = 16 * 1024 * 1024; // 16 MB
+
+export enum Op {
+  // replies, requestId matches the request
+  Response = 0x00,
+  Error = 0x01,
+  // client -> server
+  CreateProducer = 0x10,
+  Publish = 0x11,
+  CreateConsumer = 0x20,
+  Consume = 0x21,
+  Ack = 0x22,
+  Nack = 0x23,
+  Subscribe = 0x24,
+  Unsubscribe = 0x25,
+  Seek = 0x26, // log topics only
+  CreateDLQConsumer = 0x30,
+  ConsumeDLQ = 0x31,
+  ReplayDLQ = 0x32,
+  DeleteClient = 0x40,
+  // server -> client
+  Push = 0x50, // requestId 0, no reply expected
+  DLQEntry = 0x51, // client replies with Response/Error
+  // primary -> replica, the replica replies with Response/Error
+  ReplicaFollow = 0x60,
+  ReplicaState = 0x61,
+  ReplicaRecords = 0x62,
+  ReplicaDrop = 0x63,
+}
+
+export interface IFrame {
+  op: Op;
+  requestId: number;
+  payload: Buffer;
+}
+
+// payloads
+export interface IClientRequest {
+  topic: string;
+  id: number;
+}
+export interface ICreateConsumerRequest extends IClientRequest {
+  config?: IConsumerConfig;
+}
+export interface ICreateDLQConsumerRequest extends IClientRequest {
+  limit?: number;
+}
+export interface IPublishRequest<Data = unknown> {
+  producerId: number;
+  batch: Data[];
+  metadata?: MetadataInput;
+}
+export interface IConsumerRequest {
+  consumerId: number;
+}
+export interface IAckRequest extends IConsumerRequest {
+  messageId?: number;
+}
+export interface INackRequest extends IAckRequest {
+  requeue?: boolean;
+}
+export interface ISeekRequest extends IConsumerRequest {
+  offset?: number;
+  ts?: number; // seeks to the first message published at or after ts
+}
+export interface IPushPayload<Data = unknown> extends IConsumerRequest {
+  message: Data;
+}
+export interface IDLQEntryPayload<Data = unknown> extends IConsumerRequest {
+  message: Data;
+  meta: MessageMetadata;
+}
+export interface IDLQEntryReply {
+  accepted: boolean;
+}
+export interface IReplicaFollowRequest {
+  topic: string;
+  config: ITopicConfig;
+}
+export interface IReplicaFollowReply {
+  offset: number; // primary wal offset to ship from
+}
+export interface IReplicaStateRequest {
+  store: string; // topic name or BROKER_STORE
+  changes: IKeyValueChange<unknown>[];
+  reset?: boolean;
+}
+export interface IReplicaRecordsRequest {
+  topic: string;
+  records: IWalEntry[];
+  endOffset: number;
+}
+export type IReplicaRecordsReply = IReplicaFollowReply;
+export interface IReplicaDropRequest {
+  topic: string;
+}
+export interface IErrorPayload {
+  error: string;
+}
+export type IPublishResponse = IPublishResult[];
+export type IConsumeDLQResponse<Data = unknown> = IDLQEntry<Data>[];
+
+export class FrameCodec {
+  private codec = new BinaryCodec();
+
+  encode<T>(op: Op, requestId: number, data?: T): Buffer {
+    const payload =
+      data === undefined ? Buffer.alloc(0) : this.codec.encode(data);
+
+    const header = Buffer.alloc(FRAME_HEADER_SIZE);
+    header.writeUInt32BE(FRAME_HEADER_SIZE - 4 + payload.length, 0);
+    header.writeUInt8(op, 4);
+    header.writeUInt32BE(requestId, 5);
+
+    return Buffer.concat([header, payload]);
+  }
+
+  decode<T>(frame: IFrame): T {
+    if (!frame.payload.length) return undefined as T;
+    return this.codec.decode<T>(frame.payload);
+  }
+}
+
+// accumulates socket chunks and slices complete frames out of them
+export class FrameReader {
+  private buffer: Buffer = Buffer.alloc(0);
+
+  constructor(private maxFrameBytes = DEFAULT_MAX_FRAME_BYTES) {}
+
+  push(chunk: Buffer): IFrame[] {
+    const frames: IFrame[] = [];
+    this.buffer = this.buffer.length
+      ? Buffer.concat([this.buffer, chunk])
+      : chunk;
+
+    while (this.buffer.length >= 4) {
+      const length = this.buffer.readUInt32BE(0);
+      if (length < FRAME_HEADER_SIZE - 4 || length > this.maxFrameBytes) {
+        throw new Error(`Invalid frame length: ${length}`);
+      }
+      if (this.buffer.length < length + 4) break;
+
+      frames.push({
+        op: this.buffer.readUInt8(4),
+        requestId: this.buffer.readUInt32BE(5),
+        payload: this.buffer.subarray(FRAME_HEADER_SIZE, length + 4),
+      });
+
+      this.buffer = this.buffer.subarray(length + 4);
+    }
+
+    return frames;
+  }
+}
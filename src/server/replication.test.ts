@@ -0,0 +1,235 @@
+import { InMemoryKeyValueStore, type IKeyValueChange } from "@zephyrmq/pds";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Broker, BrokerReplica, type ILogCollector, type ITopic } from "..";
+import { ReplicationClient, ReplicationServer } from "./replication";
+
+const quiet = { info() {}, warn() {}, error() {} };
+// records ship once they are in the wal file
+const TOPIC_CONFIG = { durability: "sync" } as const;
+
+describe("replication", { timeout: 20_000 }, () => {
+  let dir: string;
+  let socketPath: string;
+  let primary: Broker;
+  let replica: BrokerReplica;
+  let server: ReplicationServer | undefined;
+  let client: ReplicationClient | undefined;
+  let logger: ILogCollector;
+  // what the replica applied per store, to tell when it caught up
+  let applied: Map<string, InMemoryKeyValueStore<unknown>>;
+  const opened: { close(): Promise<void> }[] = [];
+
+  const follow = (created: BrokerReplica) => {
+    replica = created;
+    opened.push(replica);
+    applied = new Map();
+
+    const applyState = replica.applyState.bind(replica);
+    vi.spyOn(replica, "applyState").mockImplementation(
+      async (store, changes, reset) => {
+        await applyState(store, changes, reset);
+        if (!applied.has(store)) {
+          applied.set(store, new InMemoryKeyValueStore<unknown>());
+        }
+        await mirror(applied.get(store)!, changes, reset);
+      }
+    );
+  };
+
+  const start = async (config: { maxPendingChanges?: number } = {}) => {
+    // small batches so the wal takes many rounds to ship under load
+    server = new ReplicationServer(
+      primary.replication,
+      { socketPath, pollIntervalMs: 5, maxBatchBytes: 64, ...config },
+      logger
+    );
+    await server.listen();
+    client = new ReplicationClient(replica, { socketPath, retryMs: 10 });
+    await client.connect();
+  };
+
+  // every primary record is applied, and every primary store holds what the replica applied
+  const waitForReplica = () =>
+    vi.waitFor(
+      async () => {
+        const lag = replica.getMetrics();
+        for (const [topic] of primary.replication.topics()) {
+          const endOffset = await primary.replication
+            .topic(topic)
+            .getEndOffset();
+          expect(lag[topic]?.offset).toBe(endOffset);
+        }
+        for (const [store, db] of applied) {
+          const state = await collect(primary.replication.store(store).state());
+          expect(await collect(db.iterator())).toEqual(state);
+        }
+      },
+      { timeout: 5000, interval: 20 }
+    );
+
+  // metadata ships once it is in the store, pausing a topic writes its own out
+  const flush = async (...topics: ITopic<unknown>[]) => {
+    for (const topic of topics) {
+      await topic.pause();
+      topic.resume();
+    }
+  };
+
+  const promote = async () => {
+    const promoted = await client!.promote();
+    opened.splice(opened.indexOf(replica), 1, promoted);
+    await promoted.ready;
+    return promoted;
+  };
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "zephyrmq-replication-"));
+    socketPath = path.join(dir, "replication.sock");
+    logger = { log: vi.fn() } as unknown as ILogCollector;
+    // the topic list reaches the broker store soon after it changes
+    primary = new Broker({
+      dataDir: path.join(dir, "primary"),
+      persistThresholdMs: 10,
+      logger: quiet,
+    });
+    opened.push(primary);
+    await primary.ready;
+  });
+
+  afterEach(async () => {
+    await client?.close();
+    await server?.close();
+    server = client = undefined;
+    await Promise.all(opened.splice(0).map((opened) => opened.close()));
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("fails over to a replica holding the primary's messages and consumers", async () => {
+    const orders = primary.topics.create<string>("orders", TOPIC_CONFIG);
+    const consumer = orders.createConsumer({ limit: 5 });
+    const producer = orders.createProducer();
+    await producer.publish(["before"]);
+    follow(
+      new BrokerReplica({ dataDir: path.join(dir, "replica"), logger: quiet })
+    );
+    await start();
+
+    // followed while it ships, nobody consumes it so its messages are dead lettered
+    const payments = primary.topics.create<string>("payments", TOPIC_CONFIG);
+    for (let i = 0; i < 10; i++) {
+      await producer.publish([`order-${i}`]);
+      await payments.createProducer().publish([`payment-${i}`]);
+    }
+    const consumed = await consumer.consume();
+    expect(consumed).toHaveLength(5);
+    await consumer.ack();
+    await vi.waitFor(async () => {
+      expect((await payments.getMetrics()).dlq.size).toBe(10);
+    });
+    await flush(orders, payments);
+    await waitForReplica();
+
+    const promoted = await promote();
+    expect(replica.applyState).toHaveBeenCalled();
+    const restored = promoted.topics
+      .get("orders")!
+      .restoreConsumer({ limit: 10 }, consumer.id)!;
+    // equal priorities come out in any order, what was acked doesn't come again
+    const orderMessages = [
+      "before",
+      ...Array.from({ length: 10 }, (_, i) => `order-${i}`),
+    ];
+    expect((await restored.consume()).sort()).toEqual(
+      orderMessages.filter((message) => !consumed.includes(message)).sort()
+    );
+    const dead = await promoted.topics
+      .get("payments")!
+      .createDLQConsumer(10)
+      .consume();
+    expect(dead.map(({ message }) => message).sort()).toEqual(
+      Array.from({ length: 10 }, (_, i) => `payment-${i}`)
+    );
+  });
+
+  it("follows on from a primary snapshot", async () => {
+    const orders = primary.topics.create<string>("orders", TOPIC_CONFIG);
+    const consumer = orders.createConsumer({ limit: 10 });
+    await orders.createProducer().publish(["before"]);
+    await primary.snapshot(path.join(dir, "snapshot"));
+    await orders.createProducer().publish(["after"]);
+
+    follow(
+      await BrokerReplica.restore(path.join(dir, "snapshot"), {
+        dataDir: path.join(dir, "replica"),
+        logger: quiet,
+      })
+    );
+    await start();
+    await flush(orders);
+    await waitForReplica();
+
+    const promoted = await promote();
+    const restored = promoted.topics
+      .get("orders")!
+      .restoreConsumer({ limit: 10 }, consumer.id)!;
+    expect((await restored.consume()).sort()).toEqual(["after", "before"]);
+  });
+
+  it("drops a replica too far behind and sends it the stores whole on reconnect", async () => {
+    const orders = primary.topics.create<string>("orders", TOPIC_CONFIG);
+    orders.createConsumer({});
+    follow(
+      new BrokerReplica({ dataDir: path.join(dir, "replica"), logger: quiet })
+    );
+    let applyDelayMs = 20;
+    const apply = replica.apply.bind(replica);
+    vi.spyOn(replica, "apply").mockImplementation(async (...args) => {
+      await new Promise((resolve) => setTimeout(resolve, applyDelayMs));
+      return apply(...args);
+    });
+    await start({ maxPendingChanges: 10 });
+
+    for (let i = 0; i < 50; i++) {
+      await orders.createProducer().publish([`message-${i}`]);
+    }
+    await vi.waitFor(() =>
+      expect(logger.log).toHaveBeenCalledWith(
+        "Replica too far behind, dropping it",
+        expect.anything(),
+        "warn"
+      )
+    );
+
+    applyDelayMs = 0;
+    await flush(orders);
+    await waitForReplica();
+    const promoted = await promote();
+    const metrics = await promoted.topics.get("orders")!.getMetrics();
+    expect(metrics.queuedMessages.size).toBe(50);
+    expect(metrics.clients.consumersCount).toBe(1);
+  });
+});
+
+// applies changes as the replica stores do, a reset starts from nothing
+async function mirror(
+  db: InMemoryKeyValueStore<unknown>,
+  changes: IKeyValueChange<unknown>[],
+  reset?: boolean
+) {
+  if (reset) await db.clear();
+
+  for (const change of changes) {
+    if (change.type === "clear") await db.clear(change.range);
+    else if (change.type === "del") await db.del(change.key);
+    else await db.put(change.key, change.value);
+  }
+}
+
+async function collect<T>(items: AsyncIterable<T>) {
+  const all: T[] = [];
+  for await (const item of items) all.push(item);
+  return all;
+}
@@ -0,0 +1,517 @@
+import type { IKeyValueChange } from "@zephyrmq/pds";
+import type { IWalEntry } from "@zephyrmq/wal";
+import fs from "node:fs/promises";
+import net from "node:net";
+import {
+  BROKER_STORE,
+  type Broker,
+  type ILogCollector,
+  type IReplicationSource,
+  type IReplicationTarget,
+  type IStateChangeListener,
+} from "..";
+import {
+  DEFAULT_MAX_FRAME_BYTES,
+  FrameCodec,
+  FrameReader,
+  Op,
+  type IErrorPayload,
+  type IFrame,
+  type IReplicaDropRequest,
+  type IReplicaFollowReply,
+  type IReplicaFollowRequest,
+  type IReplicaRecordsReply,
+  type IReplicaRecordsRequest,
+  type IReplicaStateRequest,
+} from "./protocol";
+
+// entries per frame when a whole metadata store is sent
+const STATE_CHUNK_SIZE = 500;
+
+export interface IReplicationServerConfig {
+  socketPath: string; // local socket the replicas connect to
+  pollIntervalMs?: number; // wal tail interval once replicas caught up, 50 default
+  maxBatchBytes?: number; // wal bytes per shipment, 1 MB default
+  maxFrameBytes?: number; // 16 MB default
+  requestTimeoutMs?: number; // 30_000 default
+  maxPendingChanges?: number; // metadata changes held for a replica before it is dropped to resync, 100_000 default
+}
+
+export interface IReplicationServer {
+  listen(): Promise<void>;
+  close(): Promise<void>;
+  getMetrics(): Promise<{
+    replicas: Record<string, { offset: number; lagBytes: number }>[];
+  }>;
+}
+export class ReplicationServer implements IReplicationServer {
+  private server: net.Server;
+  private sessions = new Set<ReplicationSession>();
+
+  constructor(
+    private readonly source: IReplicationSource,
+    private readonly config: IReplicationServerConfig,
+    private readonly logger?: ILogCollector
+  ) {
+    this.server = net.createServer(this.onConnection);
+  }
+
+  async listen() {
+    const { socketPath } = this.config;
+    // a socket file left by a crashed primary blocks listen
+    await fs.rm(socketPath, { force: true });
+
+    return new Promise<void>((resolve, reject) => {
+      this.server.once("error", reject);
+      this.server.listen(socketPath, () => {
+        this.server.off("error", reject);
+        this.logger?.log("Replication listening", { socketPath });
+        resolve();
+      });
+    });
+  }
+
+  close() {
+    for (const session of this.sessions) {
+      session.destroy();
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      this.server.close((err) => (err ? reject(err) : resolve()));
+    });
+  }
+
+  // per replica, how far each topic is behind the primary wal end
+  async getMetrics() {
+    return {
+      replicas: await Promise.all(
+        Array.from(this.sessions, (session) => session.getLag())
+      ),
+    };
+  }
+
+  private onConnection = (socket: net.Socket) => {
+    const session = new ReplicationSession(
+      socket,
+      this.source,
+      this.config,
+      this.logger
+    );
+
+    this.sessions.add(session);
+    socket.once("close", () => this.sessions.delete(session));
+  };
+}
+
+// drives one replica: whole metadata stores first, then wal batches and metadata changes as they come
+class ReplicationSession {
+  private codec = new FrameCodec();
+  private reader: FrameReader;
+  private pending = new Map<
+    number,
+    { resolve: (frame: IFrame) => void; reject: (err: Error) => void }
+  >();
+  private nextRequestId = 1;
+  private offsets = new Map<string, number>();
+  private changes: [string, IKeyValueChange<unknown>[]][] = [];
+  private pendingChanges = 0;
+  private unsubscribe: () => void;
+  private closed = false;
+
+  constructor(
+    private readonly socket: net.Socket,
+    private readonly source: IReplicationSource,
+    private readonly config: IReplicationServerConfig,
+    private readonly logger?: ILogCollector
+  ) {
+    this.reader = new FrameReader(
+      config.maxFrameBytes ?? DEFAULT_MAX_FRAME_BYTES
+    );
+    // changes from here on, a store sent later already holds the earlier ones
+    this.unsubscribe = source.subscribe(this.onChange);
+
+    socket.on("data", this.onData);
+    socket.once("close", this.onClose);
+    socket.on("error", (err) => {
+      this.logger?.log(
+        "Replica connection error",
+        { err: err.message },
+        "warn"
+      );
+    });
+
+    this.logger?.log("Replica connected");
+    this.run().catch((err) => {
+      if (this.closed) return;
+      const error = err instanceof Error ? err.message : "Unknown error";
+      this.logger?.log("Replication failed", { error }, "error");
+      this.socket.destroy();
+    });
+  }
+
+  destroy() {
+    this.socket.destroy();
+  }
+
+  async getLag() {
+    const lag: Record<string, { offset: number; lagBytes: number }> = {};
+
+    for (const [topic, offset] of this.offsets) {
+      const endOffset = await this.source.topic(topic).getEndOffset();
+      lag[topic] = { offset, lagBytes: Math.max(0, endOffset - offset) };
+    }
+
+    return lag;
+  }
+
+  private async run() {
+    const { pollIntervalMs = 50 } = this.config;
+    await this.sendState(BROKER_STORE);
+
+    while (!this.closed) {
+      if (await this.ship()) continue;
+      await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+    }
+  }
+
+  // one round: topic set, a wal batch per topic, then the metadata changes whose records are shipped
+  private async ship() {
+    const { maxBatchBytes = 1024 * 1024 } = this.config;
+    const topics = new Map(this.source.topics());
+    let shipped = false;
+
+    for (const topic of this.offsets.keys()) {
+      if (topics.has(topic)) continue;
+      await this.request<IReplicaDropRequest>(Op.ReplicaDrop, { topic });
+      this.offsets.delete(topic);
+    }
+
+    for (const [topic, config] of topics) {
+      if (this.offsets.has(topic)) continue;
+      const { offset } = await this.request<
+        IReplicaFollowRequest,
+        IReplicaFollowReply
+      >(Op.ReplicaFollow, { topic, config });
+      this.offsets.set(topic, offset);
+      await this.sendState(topic);
+    }
+
+    // changes recorded so far point at wal records below these ends
+    const recorded = this.changes.length;
+    const ends = new Map<string, number>();
+    for (const topic of this.offsets.keys()) {
+      ends.set(topic, await this.source.topic(topic).getEndOffset());
+    }
+
+    // messages go before the metadata that points at them
+    for (const [topic, from] of this.offsets) {
+      const replication = this.source.topic(topic);
+      const records: IWalEntry[] = [];
+      let size = 0;
+
+      for await (const record of replication.records(from)) {
+        records.push(record);
+        size += record.nextOffset - record.offset;
+        if (size >= maxBatchBytes) break;
+      }
+      if (!records.length) continue;
+
+      const { offset } = await this.request<
+        IReplicaRecordsRequest,
+        IReplicaRecordsReply
+      >(Op.ReplicaRecords, {
+        topic,
+        records,
+        endOffset: await replication.getEndOffset(),
+      });
+      this.offsets.set(topic, offset);
+      shipped = true;
+    }
+
+    for (const [store, changes] of this.drainChanges(recorded, ends)) {
+      await this.request<IReplicaStateRequest>(Op.ReplicaState, {
+        store,
+        changes,
+      });
+      shipped = true;
+    }
+
+    return shipped;
+  }
+
+  // the whole store, the first chunk resets what the replica had
+  private async sendState(store: string) {
+    let changes: IKeyValueChange<unknown>[] = [];
+    let reset = true;
+
+    for await (const [key, value] of this.source.store(store).state()) {
+      changes.push({ type: "put", key, value });
+      if (changes.length < STATE_CHUNK_SIZE) continue;
+
+      await this.request<IReplicaStateRequest>(Op.ReplicaState, {
+        store,
+        changes,
+        reset,
+      });
+      changes = [];
+      reset = false;
+    }
+
+    await this.request<IReplicaStateRequest>(Op.ReplicaState, {
+      store,
+      changes,
+      reset,
+    });
+  }
+
+  // changes go in the order they were made, up to the first one whose topic wal isn't shipped
+  // as far as it was when the change was recorded. Consecutive changes of a store go in one frame
+  private drainChanges(recorded: number, ends: Map<string, number>) {
+    const merged: [string, IKeyValueChange<unknown>[]][] = [];
+    const shipped = (topic: string) =>
+      !ends.has(topic) || this.offsets.get(topic)! >= ends.get(topic)!;
+    // the broker store may point into any topic
+    const ready = (store: string) =>
+      store === BROKER_STORE
+        ? Array.from(ends.keys()).every(shipped)
+        : shipped(store);
+
+    let count = 0;
+    while (count < recorded && ready(this.changes[count][0])) count++;
+
+    for (const [store, changes] of this.changes.splice(0, count)) {
+      this.pendingChanges -= changes.length;
+      const last = merged.at(-1);
+      if (last?.[0] === store) last[1].push(...changes);
+      else merged.push([store, [...changes]]);
+    }
+
+    return merged;
+  }
+
+  // a replica that can't keep up starts over with whole stores when it reconnects
+  private onChange: IStateChangeListener = (store, changes) => {
+    const { maxPendingChanges = 100_000 } = this.config;
+    if (this.socket.destroyed) return;
+    this.changes.push([store, changes]);
+    this.pendingChanges += changes.length;
+    if (this.pendingChanges <= maxPendingChanges) return;
+
+    this.logger?.log(
+      "Replica too far behind, dropping it",
+      { pendingChanges: this.pendingChanges },
+      "warn"
+    );
+    this.socket.destroy();
+  };
+
+  private onData = (chunk: Buffer) => {
+    try {
+      for (const frame of this.reader.push(chunk)) {
+        const request = this.pending.get(frame.requestId);
+        this.pending.delete(frame.requestId);
+
+        if (frame.op === Op.Response) request?.resolve(frame);
+        else if (frame.op === Op.Error) {
+          const { error } = this.codec.decode<IErrorPayload>(frame);
+          request?.reject(new Error(error));
+        } else throw new Error(`Unexpected op from replica: ${frame.op}`);
+      }
+    } catch (err) {
+      const error = err instanceof Error ? err.message : "Unknown error";
+      this.logger?.log("Protocol error", { error }, "error");
+      this.socket.destroy();
+    }
+  };
+
+  private onClose = () => {
+    this.closed = true;
+    this.unsubscribe();
+    this.changes = [];
+
+    for (const { reject } of this.pending.values()) {
+      reject(new Error("Connection closed"));
+    }
+
+    this.pending.clear();
+    this.logger?.log("Replica disconnected");
+  };
+
+  private async request<T, R = unknown>(op: Op, data: T): Promise<R> {
+    const requestId = this.nextRequestId++;
+    const { requestTimeoutMs = 30_000 } = this.config;
+
+    const frame = await new Promise<IFrame>((resolve, reject) => {
+      if (this.socket.destroyed) {
+        return reject(new Error("Connection closed"));
+      }
+
+      const timer = setTimeout(() => {
+        this.pending.delete(requestId);
+        reject(new Error("Request timed out"));
+      }, requestTimeoutMs);
+
+      this.pending.set(requestId, {
+        resolve: (frame) => {
+          clearTimeout(timer);
+          resolve(frame);
+        },
+        reject: (err) => {
+          clearTimeout(timer);
+          reject(err);
+        },
+      });
+
+      this.socket.write(this.codec.encode(op, requestId, data));
+    });
+
+    return this.codec.decode<R>(frame);
+  }
+}
+
+export interface IReplicationClientConfig {
+  socketPath: string; // primary ReplicationServer socket
+  retryMs?: number; // reconnect delay once the primary goes away, 1000 default
+  maxFrameBytes?: number; // 16 MB default
+}
+
+export interface IReplicationClient {
+  connect(): Promise<void>;
+  close(): Promise<void>;
+  promote(): Promise<Broker>;
+}
+export class ReplicationClient implements IReplicationClient {
+  private socket?: net.Socket;
+  private codec = new FrameCodec();
+  private reader?: FrameReader;
+  // frames apply one at a time in the order they came
+  private applying = Promise.resolve();
+  private connected = false;
+  private closed = false;
+  private retryTimer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly replica: IReplicationTarget,
+    private readonly config: IReplicationClientConfig,
+    private readonly logger?: ILogCollector
+  ) {}
+
+  connect() {
+    this.closed = false;
+    this.reader = new FrameReader(
+      this.config.maxFrameBytes ?? DEFAULT_MAX_FRAME_BYTES
+    );
+
+    return new Promise<void>((resolve, reject) => {
+      const socket = net.connect(this.config.socketPath, () => {
+        socket.off("error", reject);
+        this.connected = true;
+        this.logger?.log("Replicating", { socketPath: this.config.socketPath });
+        resolve();
+      });
+
+      socket.once("error", reject);
+      socket.on("error", (err) => {
+        this.logger?.log(
+          "Primary connection error",
+          { err: err.message },
+          "warn"
+        );
+      });
+      socket.on("data", this.onData);
+      socket.once("close", this.onClose);
+      this.socket = socket;
+    });
+  }
+
+  close() {
+    this.closed = true;
+    clearTimeout(this.retryTimer);
+
+    return new Promise<void>((resolve) => {
+      if (!this.socket || this.socket.destroyed) return resolve();
+      this.socket.once("close", () => resolve());
+      this.socket.end();
+    });
+  }
+
+  // stops following and opens a broker on what was replicated
+  async promote() {
+    await this.close();
+    await this.applying;
+    return this.replica.promote();
+  }
+
+  private onData = (chunk: Buffer) => {
+    try {
+      for (const frame of this.reader!.push(chunk)) {
+        this.applying = this.applying.then(() => this.dispatch(frame));
+      }
+    } catch (err) {
+      const error = err instanceof Error ? err.message : "Unknown error";
+      this.logger?.log("Protocol error", { error }, "error");
+      this.socket?.destroy();
+    }
+  };
+
+  private onClose = () => {
+    if (this.closed || !this.connected) return;
+    this.connected = false;
+    const { socketPath } = this.config;
+    this.logger?.log("Primary disconnected", { socketPath }, "warn");
+    this.reconnect();
+  };
+
+  private reconnect() {
+    const { retryMs = 1000 } = this.config;
+
+    this.retryTimer = setTimeout(() => {
+      this.connect().catch(() => {
+        if (!this.closed) this.reconnect();
+      });
+    }, retryMs);
+  }
+
+  private async dispatch(frame: IFrame) {
+    try {
+      const result = await this.handle(frame);
+      this.send(Op.Response, frame.requestId, result);
+    } catch (err) {
+      const error = err instanceof Error ? err.message : "Unknown error";
+      this.send<IErrorPayload>(Op.Error, frame.requestId, { error });
+    }
+  }
+
+  private async handle(frame: IFrame): Promise<unknown> {
+    switch (frame.op) {
+      case Op.ReplicaFollow: {
+        const { topic, config } =
+          this.codec.decode<IReplicaFollowRequest>(frame);
+        return { offset: await this.replica.follow(topic, config) };
+      }
+      case Op.ReplicaRecords: {
+        const { topic, records, endOffset } =
+          this.codec.decode<IReplicaRecordsRequest>(frame);
+        return {
+          offset: await this.replica.apply(topic, records, endOffset),
+        };
+      }
+      case Op.ReplicaState: {
+        const { store, changes, reset } =
+          this.codec.decode<IReplicaStateRequest>(frame);
+        return this.replica.applyState(store, changes, reset);
+      }
+      case Op.ReplicaDrop: {
+        const { topic } = this.codec.decode<IReplicaDropRequest>(frame);
+        return this.replica.drop(topic);
+      }
+      default:
+        throw new Error(`Unknown op: ${frame.op}`);
+    }
+  }
+
+  private send<T>(op: Op, requestId: number, data?: T) {
+    if (!this.socket || this.socket.destroyed) return;
+    this.socket.write(this.codec.encode(op, requestId, data));
+  }
+}
@@ -0,0 +1,390 @@
+import net from "node:net";
+import type {
+  IConsumer,
+  IConsumerConfig,
+  IDLQConsumer,
+  IDLQEntry,
+  IProducer,
+  IPublishResult,
+  ISubscriptionListener,
+  MessageMetadata,
+  MetadataInput,
+} from "..";
+import { uniqueIntGenerator } from "../utils";
+import {
+  DEFAULT_MAX_FRAME_BYTES,
+  FrameCodec,
+  FrameReader,
+  Op,
+  type IDLQEntryPayload,
+  type IDLQEntryReply,
+  type IErrorPayload,
+  type IFrame,
+  type IPushPayload,
+} from "./protocol";
+
+type IDLQHandler = (message: any, meta: MessageMetadata) => Promise<void>;
+type IDLQFilter = (meta: MessageMetadata) => boolean;
+
+export interface ITcpBrokerClientConfig {
+  host?: string; // "127.0.0.1" default
+  port?: number; // 7890 default
+  maxFrameBytes?: number; // 16 MB default
+  requestTimeoutMs?: number; // 30_000 default
+}
+
+export interface ITcpBrokerClient {
+  connect(): Promise<void>;
+  close(): Promise<void>;
+  topic<Data>(name: string): RemoteTopic<Data>;
+}
+// requests, push delivery and dlq replay shared by every frame transport
+export abstract class FrameClient {
+  private codec = new FrameCodec();
+  private pending = new Map<
+    number,
+    { resolve: (frame: IFrame) => void; reject: (err: Error) => void }
+  >();
+  private listeners = new Map<number, ISubscriptionListener<any>>();
+  private dlqHandlers = new Map<
+    number,
+    { handler: IDLQHandler; filter?: IDLQFilter }
+  >();
+  private nextRequestId = 1;
+
+  constructor(private readonly requestTimeoutMs = 30_000) {}
+
+  protected abstract isConnected(): boolean;
+  protected abstract write(frame: Buffer): void;
+
+  topic<Data>(name: string) {
+    return new RemoteTopic<Data>(this, name);
+  }
+
+  // timeoutMs Infinity waits until the reply or the connection closes
+  async request<T, R = unknown>(
+    op: Op,
+    data?: T,
+    timeoutMs = this.requestTimeoutMs
+  ): Promise<R> {
+    const requestId = this.nextRequestId++;
+
+    const frame = await new Promise<IFrame>((resolve, reject) => {
+      if (!this.isConnected()) {
+        return reject(new Error("Not connected"));
+      }
+
+      const timer =
+        timeoutMs === Infinity
+          ? undefined
+          : setTimeout(() => {
+              this.pending.delete(requestId);
+              reject(new Error("Request timed out"));
+            }, timeoutMs);
+
+      this.pending.set(requestId, {
+        resolve: (frame) => {
+          clearTimeout(timer);
+          resolve(frame);
+        },
+        reject: (err) => {
+          clearTimeout(timer);
+          reject(err);
+        },
+      });
+
+      this.send(op, requestId, data);
+    });
+
+    return this.codec.decode<R>(frame);
+  }
+
+  setListener(consumerId: number, listener?: ISubscriptionListener<any>) {
+    if (listener) this.listeners.set(consumerId, listener);
+    else this.listeners.delete(consumerId);
+  }
+
+  setDlqHandler(
+    consumerId: number,
+    handler?: IDLQHandler,
+    filter?: IDLQFilter
+  ) {
+    if (handler) this.dlqHandlers.set(consumerId, { handler, filter });
+    else this.dlqHandlers.delete(consumerId);
+  }
+
+  protected onClose = () => {
+    for (const { reject } of this.pending.values()) {
+      reject(new Error("Connection closed"));
+    }
+    this.pending.clear();
+  };
+
+  protected dispatch(frame: IFrame) {
+    const { op, requestId } = frame;
+
+    switch (op) {
+      case Op.Response:
+      case Op.Error: {
+        const request = this.pending.get(requestId);
+        this.pending.delete(requestId);
+        if (op === Op.Response) return request?.resolve(frame);
+        const { error } = this.codec.decode<IErrorPayload>(frame);
+        return request?.reject(new Error(error));
+      }
+      case Op.Push: {
+        const { consumerId, message } = this.codec.decode<IPushPayload>(frame);
+        this.listeners
+          .get(consumerId)?.(message)
+          .catch(() => {});
+        return;
+      }
+      case Op.DLQEntry: {
+        const { consumerId, message, meta } =
+          this.codec.decode<IDLQEntryPayload>(frame);
+        this.handleDlqEntry(consumerId, message, meta)
+          .then((reply) => this.send(Op.Response, requestId, reply))
+          .catch((err) => {
+            const error = err instanceof Error ? err.message : "Unknown error";
+            this.send<IErrorPayload>(Op.Error, requestId, { error });
+          });
+        return;
+      }
+    }
+  }
+
+  private async handleDlqEntry(
+    consumerId: number,
+    message: unknown,
+    meta: MessageMetadata
+  ): Promise<IDLQEntryReply> {
+    const entry = this.dlqHandlers.get(consumerId);
+    if (!entry) throw new Error("No replay in progress");
+    if (entry.filter && !entry.filter(meta)) return { accepted: false };
+
+    await entry.handler(message, meta);
+    return { accepted: true };
+  }
+
+  private send<T>(op: Op, requestId: number, data?: T) {
+    this.write(this.codec.encode(op, requestId, data));
+  }
+}
+
+export class TcpBrokerClient extends FrameClient implements ITcpBrokerClient {
+  private socket?: net.Socket;
+  private reader: FrameReader;
+
+  constructor(private readonly config: ITcpBrokerClientConfig = {}) {
+    super(config.requestTimeoutMs);
+    this.reader = new FrameReader(
+      config.maxFrameBytes ?? DEFAULT_MAX_FRAME_BYTES
+    );
+  }
+
+  connect() {
+    const { port = 7890, host = "127.0.0.1" } = this.config;
+
+    return new Promise<void>((resolve, reject) => {
+      const socket = net.connect(port, host, () => {
+        socket.off("error", reject);
+        resolve();
+      });
+
+      socket.setNoDelay(true);
+      socket.once("error", reject);
+      socket.on("data", this.onData);
+      socket.once("close", this.onClose);
+      this.socket = socket;
+    });
+  }
+
+  close() {
+    return new Promise<void>((resolve) => {
+      if (!this.socket || this.socket.destroyed) return resolve();
+      this.socket.once("close", () => resolve());
+      this.socket.end();
+    });
+  }
+
+  protected isConnected() {
+    return !!this.socket && !this.socket.destroyed;
+  }
+
+  protected write(frame: Buffer) {
+    this.socket?.write(frame);
+  }
+
+  private onData = (chunk: Buffer) => {
+    try {
+      for (const frame of this.reader.push(chunk)) {
+        this.dispatch(frame);
+      }
+    } catch {
+      this.socket?.destroy();
+    }
+  };
+}
+
+// mirrors ITopic client methods so embedded code switches with no changes
+export class RemoteTopic<Data> {
+  constructor(
+    private readonly client: FrameClient,
+    public readonly name: string
+  ) {}
+
+  createProducer(id = uniqueIntGenerator()): IProducer<Data> {
+    const ready = this.register(Op.CreateProducer, {
+      topic: this.name,
+      id,
+    });
+    return new RemoteProducer<Data>(this.client, id, ready);
+  }
+
+  createConsumer(
+    config: IConsumerConfig = {},
+    id = uniqueIntGenerator()
+  ): IConsumer<Data> {
+    const ready = this.register(Op.CreateConsumer, {
+      topic: this.name,
+      id,
+      config,
+    });
+    return new RemoteConsumer<Data>(this.client, id, ready);
+  }
+
+  createDLQConsumer(
+    limit?: number,
+    id = uniqueIntGenerator()
+  ): IDLQConsumer<Data> {
+    const ready = this.register(Op.CreateDLQConsumer, {
+      topic: this.name,
+      id,
+      limit,
+    });
+    return new RemoteDLQConsumer<Data>(this.client, id, ready);
+  }
+
+  async deleteClient(id: number) {
+    this.client.setListener(id);
+    this.client.setDlqHandler(id);
+    await this.client.request(Op.DeleteClient, { topic: this.name, id });
+  }
+
+  // creation is lazy, failures surface on the first client call
+  private register<T>(op: Op, data: T) {
+    const ready = this.client.request(op, data);
+    ready.catch(() => {});
+    return ready;
+  }
+}
+
+class RemoteProducer<Data> implements IProducer<Data> {
+  constructor(
+    private readonly client: FrameClient,
+    public readonly id: number,
+    private readonly ready: Promise<unknown>
+  ) {}
+
+  async publish(batch: Data[], metadata?: MetadataInput) {
+    await this.ready;
+    return this.client.request<unknown, IPublishResult[]>(Op.Publish, {
+      producerId: this.id,
+      batch,
+      metadata,
+    });
+  }
+}
+
+class RemoteConsumer<Data> implements IConsumer<Data> {
+  constructor(
+    private readonly client: FrameClient,
+    public readonly id: number,
+    private readonly ready: Promise<unknown>
+  ) {}
+
+  async consume() {
+    await this.ready;
+    return this.client.request<unknown, Data[]>(Op.Consume, {
+      consumerId: this.id,
+    });
+  }
+
+  async ack(messageId?: number) {
+    await this.ready;
+    return this.client.request<unknown, number[]>(Op.Ack, {
+      consumerId: this.id,
+      messageId,
+    });
+  }
+
+  async nack(messageId?: number, requeue = true) {
+    await this.ready;
+    return this.client.request<unknown, number>(Op.Nack, {
+      consumerId: this.id,
+      messageId,
+      requeue,
+    });
+  }
+
+  subscribe(listener: ISubscriptionListener<Data>): void {
+    this.client.setListener(this.id, listener);
+    this.ready
+      .then(() => this.client.request(Op.Subscribe, { consumerId: this.id }))
+      .catch(() => this.client.setListener(this.id));
+  }
+
+  unsubscribe(): void {
+    this.client.setListener(this.id);
+    this.ready
+      .then(() => this.client.request(Op.Unsubscribe, { consumerId: this.id }))
+      .catch(() => {});
+  }
+
+  async seek(offset: number) {
+    await this.ready;
+    await this.client.request(Op.Seek, { consumerId: this.id, offset });
+  }
+
+  async seekToTimestamp(ts: number) {
+    await this.ready;
+    return this.client.request<unknown, number>(Op.Seek, {
+      consumerId: this.id,
+      ts,
+    });
+  }
+}
+
+class RemoteDLQConsumer<Data> implements IDLQConsumer<Data> {
+  constructor(
+    private readonly client: FrameClient,
+    public readonly id: number,
+    private readonly ready: Promise<unknown>
+  ) {}
+
+  async consume() {
+    await this.ready;
+    return this.client.request<unknown, IDLQEntry<Data>[]>(Op.ConsumeDLQ, {
+      consumerId: this.id,
+    });
+  }
+
+  async replayDlq(
+    handler: (message: Data, meta: MessageMetadata) => Promise<void>,
+    filter?: (meta: MessageMetadata) => boolean
+  ) {
+    await this.ready;
+    this.client.setDlqHandler(this.id, handler, filter);
+
+    // the server keeps replaying for as long as the dlq has entries
+    try {
+      return await this.client.request<unknown, number>(
+        Op.ReplayDLQ,
+        { consumerId: this.id },
+        Infinity
+      );
+    } finally {
+      this.client.setDlqHandler(this.id);
+    }
+  }
+}
@@ -0,0 +1,336 @@
+import net, { type AddressInfo } from "node:net";
+import type {
+  IConsumer,
+  IDLQConsumer,
+  ILogCollector,
+  IProducer,
+  ITopicRegistry,
+} from "..";
+import {
+  DEFAULT_MAX_FRAME_BYTES,
+  FrameCodec,
+  FrameReader,
+  Op,
+  type IAckRequest,
+  type IConsumerRequest,
+  type ICreateConsumerRequest,
+  type ICreateDLQConsumerRequest,
+  type IClientRequest,
+  type IDLQEntryReply,
+  type IErrorPayload,
+  type IFrame,
+  type INackRequest,
+  type IPublishRequest,
+  type ISeekRequest,
+} from "./protocol";
+
+export interface ITcpBrokerServerConfig {
+  host?: string; // "0.0.0.0" default
+  port?: number; // 7890 default
+  maxFrameBytes?: number; // 16 MB default
+  requestTimeoutMs?: number; // server -> client requests, 30_000 default
+}
+
+export interface ITcpBrokerServer {
+  listen(): Promise<AddressInfo>;
+  close(): Promise<void>;
+}
+export class TcpBrokerServer implements ITcpBrokerServer {
+  private server: net.Server;
+  private connections = new Set<TcpConnection>();
+
+  constructor(
+    private readonly topicRegistry: ITopicRegistry,
+    private readonly config: ITcpBrokerServerConfig = {},
+    private readonly logger?: ILogCollector
+  ) {
+    this.server = net.createServer(this.onConnection);
+  }
+
+  listen() {
+    const { port = 7890, host = "0.0.0.0" } = this.config;
+
+    return new Promise<AddressInfo>((resolve, reject) => {
+      this.server.once("error", reject);
+      this.server.listen(port, host, () => {
+        this.server.off("error", reject);
+        const address = this.server.address() as AddressInfo;
+        this.logger?.log("Server listening", address);
+        resolve(address);
+      });
+    });
+  }
+
+  close() {
+    for (const connection of this.connections) {
+      connection.destroy();
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      this.server.close((err) => (err ? reject(err) : resolve()));
+    });
+  }
+
+  private onConnection = (socket: net.Socket) => {
+    const connection = new TcpConnection(
+      socket,
+      this.topicRegistry,
+      this.config,
+      this.logger
+    );
+
+    this.connections.add(connection);
+    socket.once("close", () => this.connections.delete(connection));
+  };
+}
+
+class TcpConnection {
+  private reader: FrameReader;
+  private session: BrokerSession;
+
+  constructor(
+    private readonly socket: net.Socket,
+    topicRegistry: ITopicRegistry,
+    config: ITcpBrokerServerConfig,
+    private readonly logger?: ILogCollector
+  ) {
+    this.reader = new FrameReader(
+      config.maxFrameBytes ?? DEFAULT_MAX_FRAME_BYTES
+    );
+    this.session = new BrokerSession(
+      topicRegistry,
+      (frame) => {
+        if (!socket.destroyed) socket.write(frame);
+      },
+      config.requestTimeoutMs
+    );
+
+    socket.setNoDelay(true);
+    socket.on("data", this.onData);
+    socket.once("close", this.onClose);
+    socket.on("error", (err) => {
+      this.logger?.log("Connection error", { err: err.message }, "warn");
+    });
+
+    this.logger?.log("Client connected", { remote: socket.remoteAddress });
+  }
+
+  destroy() {
+    this.socket.destroy();
+  }
+
+  private onData = (chunk: Buffer) => {
+    try {
+      for (const frame of this.reader.push(chunk)) {
+        this.session.dispatch(frame);
+      }
+    } catch (err) {
+      // framing is lost, there is no way to recover the stream
+      const error = err instanceof Error ? err.message : "Unknown error";
+      this.logger?.log("Protocol error", { error }, "error");
+      this.socket.destroy();
+    }
+  };
+
+  private onClose = () => {
+    this.session.close();
+    this.logger?.log("Client disconnected", {
+      remote: this.socket.remoteAddress,
+    });
+  };
+}
+
+// serves the clients of one peer over any frame transport
+export class BrokerSession {
+  private codec = new FrameCodec();
+  private producers = new Map<number, IProducer<unknown>>();
+  private consumers = new Map<number, IConsumer<unknown>>();
+  private dlqConsumers = new Map<number, IDLQConsumer<unknown>>();
+  private pending = new Map<
+    number,
+    { resolve: (frame: IFrame) => void; reject: (err: Error) => void }
+  >();
+  private nextRequestId = 1;
+
+  constructor(
+    private readonly topicRegistry: ITopicRegistry,
+    private readonly write: (frame: Buffer) => void,
+    private readonly requestTimeoutMs = 30_000
+  ) {}
+
+  dispatch(frame: IFrame) {
+    const { op, requestId } = frame;
+
+    if (op === Op.Response || op === Op.Error) {
+      const request = this.pending.get(requestId);
+      this.pending.delete(requestId);
+      if (op === Op.Response) request?.resolve(frame);
+      else {
+        const { error } = this.codec.decode<IErrorPayload>(frame);
+        request?.reject(new Error(error));
+      }
+      return;
+    }
+
+    this.handle(frame)
+      .then((result) => this.send(Op.Response, requestId, result))
+      .catch((err) => {
+        const error = err instanceof Error ? err.message : "Unknown error";
+        this.send<IErrorPayload>(Op.Error, requestId, { error });
+      });
+  }
+
+  // clients outlive the peer, only push delivery is bound to it
+  close() {
+    for (const consumer of this.consumers.values()) {
+      consumer.unsubscribe();
+    }
+
+    for (const { reject } of this.pending.values()) {
+      reject(new Error("Connection closed"));
+    }
+
+    this.pending.clear();
+  }
+
+  private async handle(frame: IFrame): Promise<unknown> {
+    switch (frame.op) {
+      case Op.CreateProducer: {
+        const { topic, id } = this.codec.decode<IClientRequest>(frame);
+        const producer = this.getTopic(topic).createProducer(id);
+        this.producers.set(producer.id, producer);
+        return { id: producer.id };
+      }
+      case Op.Publish: {
+        const { producerId, batch, metadata } =
+          this.codec.decode<IPublishRequest>(frame);
+        return this.getClient(this.producers, producerId).publish(
+          batch,
+          metadata
+        );
+      }
+      case Op.CreateConsumer: {
+        const { topic, id, config } =
+          this.codec.decode<ICreateConsumerRequest>(frame);
+        const consumer = this.getTopic(topic).createConsumer(config ?? {}, id);
+        this.consumers.set(consumer.id, consumer);
+        return { id: consumer.id };
+      }
+      case Op.Consume: {
+        const { consumerId } = this.codec.decode<IConsumerRequest>(frame);
+        return this.getClient(this.consumers, consumerId).consume();
+      }
+      case Op.Ack: {
+        const { consumerId, messageId } = this.codec.decode<IAckRequest>(frame);
+        return this.getClient(this.consumers, consumerId).ack(messageId);
+      }
+      case Op.Nack: {
+        const { consumerId, messageId, requeue } =
+          this.codec.decode<INackRequest>(frame);
+        return this.getClient(this.consumers, consumerId).nack(
+          messageId,
+          requeue
+        );
+      }
+      case Op.Seek: {
+        const { consumerId, offset, ts } =
+          this.codec.decode<ISeekRequest>(frame);
+        const consumer = this.getClient(this.consumers, consumerId);
+        if (ts !== undefined) return consumer.seekToTimestamp(ts);
+        await consumer.seek(offset ?? 0);
+        return offset ?? 0;
+      }
+      case Op.Subscribe: {
+        const { consumerId } = this.codec.decode<IConsumerRequest>(frame);
+        this.getClient(this.consumers, consumerId).subscribe(
+          async (message) => {
+            this.send(Op.Push, 0, { consumerId, message });
+          }
+        );
+        return;
+      }
+      case Op.Unsubscribe: {
+        const { consumerId } = this.codec.decode<IConsumerRequest>(frame);
+        this.getClient(this.consumers, consumerId).unsubscribe();
+        return;
+      }
+      case Op.CreateDLQConsumer: {
+        const { topic, id, limit } =
+          this.codec.decode<ICreateDLQConsumerRequest>(frame);
+        const consumer = this.getTopic(topic).createDLQConsumer(limit, id);
+        this.dlqConsumers.set(consumer.id, consumer);
+        return { id: consumer.id };
+      }
+      case Op.ConsumeDLQ: {
+        const { consumerId } = this.codec.decode<IConsumerRequest>(frame);
+        return this.getClient(this.dlqConsumers, consumerId).consume();
+      }
+      case Op.ReplayDLQ: {
+        const { consumerId } = this.codec.decode<IConsumerRequest>(frame);
+        // the handler lives on the client, every entry is a round trip
+        return this.getClient(this.dlqConsumers, consumerId).replayDlq(
+          async (message, meta) => {
+            const reply = await this.request(Op.DLQEntry, {
+              consumerId,
+              message,
+              meta,
+            });
+            const { accepted } = this.codec.decode<IDLQEntryReply>(reply);
+            if (!accepted) throw new Error("Filtered out");
+          }
+        );
+      }
+      case Op.DeleteClient: {
+        const { topic, id } = this.codec.decode<IClientRequest>(frame);
+        this.getTopic(topic).deleteClient(id);
+        this.consumers.get(id)?.unsubscribe();
+        this.producers.delete(id);
+        this.consumers.delete(id);
+        this.dlqConsumers.delete(id);
+        return;
+      }
+      default:
+        throw new Error(`Unknown op: ${frame.op}`);
+    }
+  }
+
+  private request<T>(op: Op, data: T) {
+    const requestId = this.nextRequestId++;
+
+    return new Promise<IFrame>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(requestId);
+        reject(new Error("Request timed out"));
+      }, this.requestTimeoutMs);
+
+      this.pending.set(requestId, {
+        resolve: (frame) => {
+          clearTimeout(timer);
+          resolve(frame);
+        },
+        reject: (err) => {
+          clearTimeout(timer);
+          reject(err);
+        },
+      });
+
+      this.send(op, requestId, data);
+    });
+  }
+
+  private send<T>(op: Op, requestId: number, data?: T) {
+    this.write(this.codec.encode(op, requestId, data));
+  }
+
+  private getTopic(name: string) {
+    const topic = this.topicRegistry.get(name);
+    if (!topic) throw new Error(`Topic not found: ${name}`);
+    return topic;
+  }
+
+  private getClient<T>(clients: Map<number, T>, id: number): T {
+    const client = clients.get(id);
+    if (!client) throw new Error(`Client ${id} not found`);
+    return client;
+  }
+}
@@ -0,0 +1,18 @@
+import { defineConfig } from "tsdown";
+import { workspacePackages } from "./workspace.config";
+
+// the server and ClusteredBroker with its worker, the workers are started by path so all land in
+// dist/server, the codec one under thread/ as it is in src/codec. Workspace packages are bundled
+// from source, other dependencies stay external
+export default defineConfig({
+  entry: {
+    main: "./src/server/main.ts",
+    cluster: "./src/server/cluster.ts",
+    cluster_worker: "./src/server/cluster_worker.ts",
+    "thread/worker": "./src/codec/thread/worker.ts",
+  },
+  outDir: "dist/server",
+  platform: "node",
+  plugins: [workspacePackages()],
+  noExternal: [/^@zephyrmq\//, /^@(app|domain|infra|util)\//],
+});
@@ -0,0 +1,10 @@
+import { defineConfig } from "vitest/config";
+import { workspacePackages } from "./workspace.config";
+
+// packages run their own tests
+export default defineConfig({
+  plugins: [workspacePackages()],
+  test: {
+    include: ["src/**/*.test.ts"],
+  },
+});
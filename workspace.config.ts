@@ -0,0 +1,42 @@
+import { existsSync } from "node:fs";
+import path from "node:path";
+
+const packagesDir = path.join(import.meta.dirname, "packages");
+const layers: Record<string, string> = {
+  "@app": "application",
+  "@domain": "domain",
+  "@infra": "infrastructure",
+  "@util": "util",
+};
+
+// src and the package tests run against the workspace packages' sources. Every package maps @app/@domain/@infra/@util
+// onto its own src, so those depend on the package of the importing file
+export function workspacePackages() {
+  return {
+    name: "workspace-packages",
+    enforce: "pre" as const,
+    resolveId(id: string, importer?: string) {
+      const pkg = /^@zephyrmq\/([^/]+)$/.exec(id)?.[1];
+      if (pkg) return path.join(packagesDir, pkg, "src/index.ts");
+
+      // the broker reaches into the other packages' sources by name
+      const sibling = /^@(codec|pds|segmentlog|wal)\/(.*)$/.exec(id);
+      if (sibling) {
+        return path.join(packagesDir, sibling[1], "src", `${sibling[2]}.ts`);
+      }
+
+      const match = /^(@app|@domain|@infra|@util)\/(.*)$/.exec(id);
+      const from = importer && /\/packages\/([^/]+)\/src\//.exec(importer)?.[1];
+      if (!match || !from) return;
+
+      const file = path.join(
+        packagesDir,
+        from,
+        "src",
+        layers[match[1]],
+        match[2]
+      );
+      return [`${file}.ts`, path.join(file, "index.ts")].find(existsSync);
+    },
+  };
+}